@@ -0,0 +1,34 @@
+var fs = require("fs");
+var os = require("os");
+var path = require("path");
+
+// Files the local server writes at runtime. They live outside the repository,
+// since pm2 runs the server with `--watch` and restarts it whenever a file in
+// the repository changes, which would drop every room and session.
+const DATA_DIR =
+    process.env.WEB_TELEOP_DATA_DIR ||
+    path.join(os.homedir(), "stretch_user", "web_teleop");
+
+/**
+ * @param envName environment variable that overrides the path
+ * @param name name of the file or folder in the data folder
+ * @returns where to keep the file or folder. One left in the working
+ *     directory by an earlier version is moved there first.
+ */
+function dataPath(envName, name) {
+    if (process.env[envName]) return process.env[envName];
+    const dataPath = path.join(DATA_DIR, name);
+    if (!fs.existsSync(dataPath) && fs.existsSync(name)) {
+        fs.mkdirSync(DATA_DIR, { recursive: true });
+        fs.renameSync(name, dataPath);
+        console.log(`Moved ${name} to ${dataPath}`);
+    }
+    return dataPath;
+}
+
+/** Creates the folder a data file goes in, before writing to it */
+function ensureDir(file) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+}
+
+module.exports = { DATA_DIR, dataPath, ensureDir };
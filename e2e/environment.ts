@@ -0,0 +1,25 @@
+import os from "os";
+import path from "path";
+
+/** Ports of the server the tests start, next to the one serving the robot */
+export const HTTP_PORT = 8080;
+export const HTTPS_PORT = 8443;
+
+export const BASE_URL = `https://localhost:${HTTPS_PORT}`;
+
+/**
+ * Folder the test server keeps its data files in, so the tests don't touch
+ * the users, audit log or saved data of the robot.
+ */
+export const DATA_DIR = path.join(os.tmpdir(), "stretch_web_teleop_e2e");
+
+export const AUDIT_LOG_FILE = path.join(DATA_DIR, "audit_log.jsonl");
+
+/** Secret the robot page sends, like start_robot_browser.js does */
+export const ROBOT_SECRET = "e2e-robot-secret";
+
+/**
+ * Folder the pages built against the mock robot go in, so the tests don't
+ * replace the ones in dist/ that the robot's server serves.
+ */
+export const PAGES_DIR = path.join(os.tmpdir(), "stretch_web_teleop_e2e_pages");
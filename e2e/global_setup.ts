@@ -0,0 +1,7 @@
+import fs from "fs";
+import { DATA_DIR } from "./environment";
+
+/** Starts every run without the audit log and saved data of the last one */
+export default function globalSetup() {
+    fs.rmSync(DATA_DIR, { recursive: true, force: true });
+}
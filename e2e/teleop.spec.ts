@@ -0,0 +1,171 @@
+import {
+    acceptModal,
+    closeRobot,
+    customize,
+    expect,
+    expectConnected,
+    failedCommands,
+    holdButton,
+    openRobot,
+    openTab,
+    readAuditLog,
+    receivedCommands,
+    test,
+} from "./teleop";
+
+test.afterEach(({ room }) => {
+    expect(failedCommands(room)).toEqual([]);
+});
+
+test("the operator connects to the robot", async ({ room, operatorPage }) => {
+    await expect(operatorPage.locator("video")).not.toHaveCount(0);
+    const joined = readAuditLog(room).filter(
+        (entry) => entry.event === "connection" && entry.type === "joined"
+    );
+    expect(joined.map((entry) => entry.participant?.role)).toEqual([
+        "operator",
+    ]);
+});
+
+test("the operator drives the base", async ({ room, operatorPage }) => {
+    await openTab(operatorPage, "Base");
+    await holdButton(operatorPage, "Base Forward");
+    await holdButton(operatorPage, "Base rotate left");
+
+    // Letting go of a button stops the base
+    await expect
+        .poll(() => receivedCommands(room, "driveBase").at(-1)?.modifier)
+        .toEqual({ linVel: 0, angVel: 0 });
+    const drives = receivedCommands(room, "driveBase");
+    expect(drives.some((drive) => drive.modifier.linVel > 0)).toBe(true);
+    expect(drives.some((drive) => drive.modifier.angVel > 0)).toBe(true);
+});
+
+test("the operator moves a joint", async ({ room, operatorPage }) => {
+    await openTab(operatorPage, "Arm & Lift");
+    await holdButton(operatorPage, "Arm lift");
+
+    // Letting go of the button stops the lift
+    await expect
+        .poll(() => receivedCommands(room, "stopTrajectory").length)
+        .toBeGreaterThan(0);
+    const moves = receivedCommands(room, "incrementalMove");
+    expect(moves.length).toBeGreaterThan(0);
+    expect(moves[0].jointName).toBe("joint_lift");
+    expect(moves[0].increment).toBeGreaterThan(0);
+});
+
+test("the operator saves and loads a layout", async ({ operatorPage }) => {
+    const recorder = operatorPage.locator(".play-btn");
+    await expect(recorder).toHaveCount(0);
+
+    await customize(operatorPage, async () => {
+        await operatorPage
+            .getByRole("button", { name: "Display movement recorder" })
+            .click();
+        await operatorPage
+            .getByRole("button", { name: "Save layout", exact: true })
+            .click();
+        await operatorPage.locator("#new-layout-name").fill("With recorder");
+        await acceptModal(operatorPage, "Save");
+    });
+    await expect(recorder).toBeVisible();
+
+    await customize(operatorPage, async () => {
+        await loadLayout("Basic Layout");
+    });
+    await expect(recorder).toHaveCount(0);
+
+    await customize(operatorPage, async () => {
+        await loadLayout("With recorder");
+    });
+    await expect(recorder).toBeVisible();
+
+    // The layout last used is the one shown after a reload
+    await operatorPage.reload();
+    await expectConnected(operatorPage);
+    await expect(recorder).toBeVisible();
+
+    async function loadLayout(name: string) {
+        await operatorPage
+            .getByRole("button", { name: "Load layout", exact: true })
+            .click();
+        await operatorPage
+            .getByRole("button", { name: "Select a layout..." })
+            .click();
+        await operatorPage
+            .locator(".dropdown-option", { hasText: name })
+            .click();
+        await acceptModal(operatorPage, "Load Layout");
+    }
+});
+
+test("the operator records and plays back a movement", async ({
+    room,
+    operatorPage,
+}) => {
+    await customize(operatorPage, async () => {
+        await operatorPage
+            .getByRole("button", { name: "Display movement recorder" })
+            .click();
+    });
+    await openTab(operatorPage, "Arm & Lift");
+
+    await operatorPage.locator(".save-btn").click();
+    await operatorPage.locator("#lift").check();
+    await acceptModal(operatorPage, "Save");
+    await holdButton(operatorPage, "Arm lift", 3000);
+    await operatorPage.locator(".save-btn").click();
+    await operatorPage.locator("#new-recording-name").fill("Lift up");
+    await acceptModal(operatorPage, "Save");
+
+    // The recording follows the lift up, from the joint states the robot sent
+    const recording = await operatorPage.evaluate(() =>
+        JSON.parse(localStorage.getItem("recording_Lift up") || "[]")
+    );
+    expect(recording.length).toBeGreaterThan(1);
+    expect(Object.keys(recording[0])).toEqual(["joint_lift"]);
+    expect(recording[recording.length - 1].joint_lift).toBeGreaterThan(
+        recording[0].joint_lift
+    );
+
+    await holdButton(operatorPage, "Arm lower", 3000);
+    await operatorPage
+        .getByRole("button", { name: "Select a recording..." })
+        .click();
+    await operatorPage
+        .locator(".dropdown-option", { hasText: "Lift up" })
+        .click();
+    await operatorPage.locator(".play-btn").click();
+
+    await expect
+        .poll(() => receivedCommands(room, "playbackPoses"))
+        .toEqual([{ type: "playbackPoses", poses: recording }]);
+});
+
+test("the operator reconnects when the robot page restarts", async ({
+    browser,
+    room,
+    robotPage,
+    operatorPage,
+}) => {
+    await closeRobot(robotPage);
+    await expect(operatorPage.locator(".reconnecting-text")).toBeVisible();
+
+    const restarted = await openRobot(browser, room);
+    await expectConnected(operatorPage);
+
+    // The operator controls the new robot page
+    const drivesBefore = receivedCommands(room, "driveBase").length;
+    await openTab(operatorPage, "Base");
+    await holdButton(operatorPage, "Base Forward");
+    await expect
+        .poll(() => receivedCommands(room, "driveBase").length)
+        .toBeGreaterThan(drivesBefore);
+    const joined = readAuditLog(room).filter(
+        (entry) => entry.event === "connection" && entry.type === "joined"
+    );
+    expect(joined.length).toBe(2);
+
+    await closeRobot(restarted);
+});
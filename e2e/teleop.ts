@@ -0,0 +1,194 @@
+import fs from "fs";
+import { test as base, expect, Browser, Page } from "@playwright/test";
+import type { AuditLogEntry } from "../src/shared/util";
+import { AUDIT_LOG_FILE, BASE_URL, ROBOT_SECRET } from "./environment";
+
+type TeleopFixtures = {
+    /** Fleet ID of the robot room the test runs in */
+    room: string;
+    /** The robot page, running the mock robot */
+    robotPage: Page;
+    /** An operator page connected to the robot, after homing it */
+    operatorPage: Page;
+};
+
+/**
+ * Runs each test in a robot room of its own, with the robot page and an
+ * operator page in separate browser contexts, as on separate computers.
+ */
+export const test = base.extend<TeleopFixtures>({
+    room: async ({ browserName }, provide, testInfo) => {
+        await provide(
+            `e2e-${browserName}-${testInfo.testId}-${testInfo.retry}`
+        );
+    },
+    robotPage: async ({ browser, room }, provide) => {
+        const page = await openRobot(browser, room);
+        await provide(page);
+        await page.context().close();
+    },
+    operatorPage: async ({ browser, room, robotPage }, provide) => {
+        const page = await openOperator(browser, room);
+        await homeRobot(page);
+        await provide(page);
+        await page.context().close();
+    },
+});
+
+export { expect };
+
+/**
+ * Opens the robot page in a new browser context. Operators keep trying to
+ * join until it has joined its room.
+ * @param room fleet ID of the robot
+ * @returns the robot page
+ */
+export async function openRobot(browser: Browser, room: string) {
+    const context = await browser.newContext({
+        baseURL: BASE_URL,
+        ignoreHTTPSErrors: true,
+        extraHTTPHeaders: { "X-Robot-Secret": ROBOT_SECRET },
+    });
+    const page = await context.newPage();
+    await page.goto(`/robot/?robot=${room}`);
+    return page;
+}
+
+/**
+ * Closes the robot page the way the robot browser is stopped, so it says
+ * goodbye to the operators first.
+ */
+export async function closeRobot(robotPage: Page) {
+    await robotPage.close({ runBeforeUnload: true });
+    await robotPage.context().close();
+}
+
+/**
+ * Opens the operator page in a new browser context and waits until it is
+ * connected to the robot.
+ * @param room fleet ID of the robot
+ * @returns the operator page
+ */
+export async function openOperator(browser: Browser, room: string) {
+    const context = await browser.newContext({
+        baseURL: BASE_URL,
+        ignoreHTTPSErrors: true,
+    });
+    const page = await context.newPage();
+    await page.goto(`/operator/?robot=${room}`);
+    await expectConnected(page);
+    return page;
+}
+
+/** Checks that the operator page is connected and shows the robot's video */
+export async function expectConnected(operatorPage: Page) {
+    await expect(operatorPage.locator("#customize-button")).toBeVisible({
+        timeout: 60 * 1000,
+    });
+    await expect(operatorPage.locator(".reconnecting-text")).toHaveCount(0, {
+        timeout: 60 * 1000,
+    });
+    await expect
+        .poll(() =>
+            operatorPage
+                .locator("video")
+                .first()
+                .evaluate((video: HTMLVideoElement) => video.videoWidth)
+        )
+        .toBeGreaterThan(0);
+}
+
+/** Homes the robot, which the arm buttons wait for */
+export async function homeRobot(operatorPage: Page) {
+    await operatorPage.locator(".home-btn-container").click();
+    await expect(operatorPage.locator(".home-alert-container")).toHaveCount(0);
+}
+
+/** Opens a tab of the layout, e.g. "Arm & Lift" */
+export async function openTab(operatorPage: Page, label: string) {
+    await operatorPage
+        .locator(".tab-button", { hasText: label })
+        .first()
+        .click();
+}
+
+/**
+ * Holds a button of a button pad down, like an operator in press-and-hold
+ * mode does.
+ * @param title the button, see `ButtonPadButton`
+ * @param duration how long to hold it, in milliseconds
+ */
+export async function holdButton(
+    operatorPage: Page,
+    title: string,
+    duration: number = 1500
+) {
+    await operatorPage
+        .locator(".button-pads:not(.overlay) path", {
+            has: operatorPage.locator(`title:text-is("${title}")`),
+        })
+        .first()
+        .hover();
+    await operatorPage.mouse.down();
+    await operatorPage.waitForTimeout(duration);
+    await operatorPage.mouse.up();
+}
+
+/** Turns customization mode on, runs `customize`, then turns it off */
+export async function customize(
+    operatorPage: Page,
+    customize: () => Promise<void>
+) {
+    await operatorPage.locator("#customize-button").click();
+    await customize();
+    await operatorPage.locator("#customize-button").click();
+}
+
+/**
+ * Clicks a button of the open popup modal, e.g. "Save", which other buttons of
+ * the page may share a name with.
+ */
+export async function acceptModal(operatorPage: Page, name: string) {
+    await operatorPage
+        .locator(".popup-modal")
+        .getByRole("button", { name: name, exact: true })
+        .click();
+}
+
+/**
+ * Reads the audit log the test server keeps for all robot pages.
+ * @param room fleet ID of the robot
+ * @returns the entries the robot recorded, oldest first
+ */
+export function readAuditLog(room: string): AuditLogEntry[] {
+    if (!fs.existsSync(AUDIT_LOG_FILE)) return [];
+    return fs
+        .readFileSync(AUDIT_LOG_FILE, "utf8")
+        .split("\n")
+        .filter((line) => line.length > 0)
+        .map((line) => JSON.parse(line) as AuditLogEntry)
+        .filter((entry) => entry.robot === room);
+}
+
+/**
+ * @param room fleet ID of the robot
+ * @param type the command type, e.g. "driveBase"
+ * @returns the commands of a type the robot received, oldest first
+ */
+export function receivedCommands(room: string, type: string) {
+    return readAuditLog(room)
+        .filter((entry) => entry.event === "command" && entry.type === type)
+        .map((entry) => entry.data);
+}
+
+/**
+ * @param room fleet ID of the robot
+ * @returns the results of the commands the robot rejected or that failed
+ */
+export function failedCommands(room: string) {
+    return readAuditLog(room).filter(
+        (entry) =>
+            entry.event === "commandResult" &&
+            ["rejected", "failed"].includes(entry.data?.status)
+    );
+}
@@ -1,7 +1,7 @@
 #!/bin/bash
 set -o pipefail
 
-while getopts m:t:f opt; do
+while getopts m:t:fs opt; do
     case $opt in
         m)
             # Usage: ./launch_interface.sh -m $HELLO_FLEET_PATH/maps/<map_name>.yaml
@@ -15,7 +15,11 @@ while getopts m:t:f opt; do
             ;;
         f)
             # Usage: ./launch_interface.sh -f
-            FIREBASE="-f"
+            STORAGE="-f"
+            ;;
+        s)
+            # Usage: ./launch_interface.sh -s
+            STORAGE="-s"
     esac
 done
 
@@ -50,7 +54,7 @@ fi
 
 # echo ""
 cd $HOME/ament_ws/src/stretch_web_teleop
-./start_web_server_and_robot_browser.sh -l $logdir $FIREBASE |& tee $logfile_node
+./start_web_server_and_robot_browser.sh -l $logdir $STORAGE |& tee $logfile_node
 if [ $? -ne 0 ]; then
     echo_failure_help
 fi
@@ -61,7 +65,7 @@ echo ""
 echo "#############################################"
 echo "DONE! WEB TELEOP IS UP!"
 echo "Visit the URL(s) below to see the web interface:"
-if [ "$FIREBASE" = "-f" ]; then
+if [ "$STORAGE" = "-f" ]; then
     echo "https://web.hello-robot.com/"
 else
     echo "https://localhost/operator"
@@ -0,0 +1,58 @@
+import path from "path";
+import { defineConfig, devices } from "@playwright/test";
+import {
+    AUDIT_LOG_FILE,
+    BASE_URL,
+    DATA_DIR,
+    HTTP_PORT,
+    HTTPS_PORT,
+    PAGES_DIR,
+    ROBOT_SECRET,
+} from "./e2e/environment";
+
+/**
+ * End-to-end tests of the operator and robot pages. The pages are built
+ * against the mock robot, which stands in for rosbridge, and served by a
+ * local signaling server of their own. See documentation/development.md.
+ */
+export default defineConfig({
+    testDir: "e2e",
+    globalSetup: "./e2e/global_setup.ts",
+    // Every test runs a robot page and an operator page with WebRTC video
+    // between them, which is too heavy to run several at once
+    workers: 1,
+    timeout: 2 * 60 * 1000,
+    expect: { timeout: 20 * 1000 },
+    retries: process.env.CI ? 1 : 0,
+    reporter: "list",
+    use: {
+        ...devices["Desktop Chrome"],
+        baseURL: BASE_URL,
+        ignoreHTTPSErrors: true,
+        trace: "retain-on-failure",
+        launchOptions: {
+            // The robot page streams the robot's microphone
+            args: [
+                "--use-fake-ui-for-media-stream",
+                "--use-fake-device-for-media-stream",
+            ],
+        },
+    },
+    webServer: {
+        command: `npm run localstorage -- --env robot=mock --no-watch --output-path "${PAGES_DIR}" && node server.js`,
+        url: BASE_URL,
+        ignoreHTTPSErrors: true,
+        // Includes building the pages
+        timeout: 5 * 60 * 1000,
+        reuseExistingServer: false,
+        env: {
+            HTTP_PORT: String(HTTP_PORT),
+            HTTPS_PORT: String(HTTPS_PORT),
+            PAGES_DIR: PAGES_DIR,
+            ROBOT_SECRET: ROBOT_SECRET,
+            AUDIT_LOG_FILE: AUDIT_LOG_FILE,
+            USERS_FILE: path.join(DATA_DIR, "users.json"),
+            STORAGE_DIR: path.join(DATA_DIR, "storage"),
+        },
+    },
+});
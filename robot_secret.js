@@ -0,0 +1,33 @@
+var fs = require("fs");
+var crypto = require("crypto");
+var { dataPath, ensureDir } = require("./data_files");
+
+// Secret the robot page proves it runs on the robot with. Its address can't
+// tell, since tunnels such as ngrok connect to the server from this host
+// too. Only the user the server runs as can read the file.
+const ROBOT_SECRET_FILE = dataPath("ROBOT_SECRET_FILE", "robot_secret");
+// Header that start_robot_browser.js sends the secret in with every request
+// of the robot page
+const ROBOT_SECRET_HEADER = "X-Robot-Secret";
+
+/**
+ * @returns the robot secret, made the first time the server or the robot
+ *          browser starts
+ */
+function getRobotSecret() {
+    if (process.env.ROBOT_SECRET) return process.env.ROBOT_SECRET;
+    ensureDir(ROBOT_SECRET_FILE);
+    try {
+        // Fails if the server or the robot browser made it first
+        fs.writeFileSync(
+            ROBOT_SECRET_FILE,
+            crypto.randomBytes(32).toString("hex"),
+            { mode: 0o600, flag: "wx" }
+        );
+    } catch (e) {
+        if (e.code !== "EEXIST") throw e;
+    }
+    return fs.readFileSync(ROBOT_SECRET_FILE, "utf8").trim();
+}
+
+module.exports = { ROBOT_SECRET_HEADER, getRobotSecret };
@@ -1,150 +1,581 @@
-var fs = require('fs');
-require('dotenv').config();
+var fs = require("fs");
+var crypto = require("crypto");
+require("dotenv").config();
 
 var options = {
     key: fs.readFileSync(`certificates/${process.env.keyfile}`),
     cert: fs.readFileSync(`certificates/${process.env.certfile}`),
 };
 
-const socket = require('socket.io');
-var express = require('express');
+const socket = require("socket.io");
+const users = require("./users");
+const storage = require("./storage");
+const { dataPath, ensureDir } = require("./data_files");
+const { ROBOT_SECRET_HEADER, getRobotSecret } = require("./robot_secret");
+var express = require("express");
 var app = express();
-app.all('*', ensureSecure); // at top of routing calls
+app.all("*", ensureSecure); // at top of routing calls
+
+// The end-to-end tests run a server of their own next to the one serving
+// the robot, on other ports
+const HTTP_PORT = Number(process.env.HTTP_PORT) || 80;
+const HTTPS_PORT = Number(process.env.HTTPS_PORT) || 443;
 
 function ensureSecure(req, res, next) {
     if (!req.secure) {
-        // handle port numbers if you need non defaults
-        console.log('redirecting insecure request');
-        return res.redirect('https://' + req.hostname + req.url);
+        console.log("redirecting insecure request");
+        const port = HTTPS_PORT == 443 ? "" : `:${HTTPS_PORT}`;
+        return res.redirect("https://" + req.hostname + port + req.url);
         // res.redirect(`https://${req.hostname}${process.env.NGROK_URL}`);
     }
 
     return next();
 }
 
-var server = require('http').Server(app);
-var secure_server = require('https').Server(options, app);
+var server = require("http").Server(app);
+var secure_server = require("https").Server(options, app);
 const io = socket(secure_server, {
     allowEIO3: true,
 });
-app.enable('trust proxy');
-app.set('port', 443);
-server.listen(80);
-secure_server.listen(443);
+app.enable("trust proxy");
+app.set("port", HTTPS_PORT);
+server.listen(HTTP_PORT);
+secure_server.listen(HTTPS_PORT);
+
+var path = require("path");
+// The end-to-end tests serve pages built against the mock robot from a folder
+// of their own
+const PAGES_DIR = process.env.PAGES_DIR || path.join(__dirname, "dist");
+app.use("/", express.static(PAGES_DIR));
+
+// Saved layouts, map poses, recordings and texts of the server storage
+// handler. Layouts and recordings can be large, so allow big bodies. The data
+// belongs to the robot given by the `robot` query parameter, or the robot
+// this server runs on without one, and only users allowed on that robot can
+// use it.
+app.use("/storage", authorizeStorage, express.json({ limit: "20mb" }));
+
+app.get("/storage", (req, res) => {
+    respondStorage(res, () => storage.readAll(requestUser(req).room));
+});
+
+app.put("/storage/texts", (req, res) => {
+    respondStorage(res, () =>
+        storage.saveTexts(req.body, requestUser(req).room)
+    );
+});
+
+app.put("/storage/:collection/:name", (req, res) => {
+    respondStorage(res, () =>
+        storage.saveItem(
+            req.params.collection,
+            req.params.name,
+            req.body,
+            requestUser(req).room
+        )
+    );
+});
+
+app.delete("/storage/:collection/:name", (req, res) => {
+    respondStorage(res, () =>
+        storage.deleteItem(
+            req.params.collection,
+            req.params.name,
+            requestUser(req).room
+        )
+    );
+});
+
+// Maps the robot page can switch between. They are saved in the robot's
+// fleet directory, unless MAPS_DIR says otherwise.
+const MAPS_DIR =
+    process.env.MAPS_DIR ||
+    (process.env.HELLO_FLEET_PATH
+        ? path.join(process.env.HELLO_FLEET_PATH, "maps")
+        : path.join(__dirname, "maps"));
+
+// Only the robot page and users allowed on the robot can see its maps
+app.use("/maps", authorizeMaps);
+
+app.get("/maps", (req, res) => {
+    let files = [];
+    try {
+        files = fs
+            .readdirSync(MAPS_DIR)
+            .filter((file) => file.endsWith(".yaml"));
+    } catch (e) {
+        console.log(`maps FAILURE: ${e.message}`);
+    }
+    res.json(files.map((file) => ({ name: path.basename(file, ".yaml") })));
+});
 
-var path = require('path');
-app.use('/', express.static(path.join(__dirname, 'dist')));
+// The robot page needs the paths of the maps to load them
+app.get("/maps/directory", (req, res) => {
+    if (!isRobotPage(req.headers)) {
+        res.status(403).json({
+            error: "Only the robot can see where maps are",
+        });
+        return;
+    }
+    res.json({ directory: path.resolve(MAPS_DIR) });
+});
+
+// The mock robot reads the map files itself
+app.use("/maps", express.static(MAPS_DIR));
 
 app.listen(process.env.port);
 
-io.on('connect_error', (err) => {
+io.on("connect_error", (err) => {
     console.log(`connect_error due to ${err.message}`);
 });
 
-const ROOM = 'default';
-let robo_sock = undefined;
-let oper_sock = undefined;
-let protocol = undefined; // TODO(binit): ensure robot/operator protocol match
-let status = 'offline'; // ["online", "offline", "occupied"]
+// Robots that do not say which room they are in, e.g. builds that predate
+// fleet rooms, join the room of the robot this server runs on
+const DEFAULT_ROOM = process.env.HELLO_FLEET_ID || "default";
+storage.adoptUnscopedItems(DEFAULT_ROOM);
+// Robot builds before this protocol version only support a single operator
+const CONTROL_HAND_OFF_PROTOCOL = 5;
+let rooms = {}; // robot rooms keyed by fleet ID
+// Robot pages on this host append what happens in their sessions to this file
+const AUDIT_LOG_FILE = dataPath("AUDIT_LOG_FILE", "audit_log.jsonl");
+// Most recent audit log entries sent to the viewer
+const MAX_AUDIT_LOG_ENTRIES = 20000;
+
+/** @returns the state of a robot room, created when first used */
+function getRoom(name) {
+    if (!rooms[name]) {
+        rooms[name] = {
+            name: name,
+            robo_sock: undefined,
+            oper_socks: new Set(), // operators, the robot decides who is in control
+            observer_socks: new Set(), // participants that only watch the session
+            protocol: undefined, // data channel protocol version spoken by the robot
+            status: "offline", // ["online", "offline", "occupied"]
+        };
+    }
+    return rooms[name];
+}
+
+/** @returns the robot room a socket configured, or the default room */
+function getSocketRoom(socket) {
+    return getRoom(socket.data.room || DEFAULT_ROOM);
+}
+
+/**
+ * Sends every socket the robot rooms its user may access. Sockets say who
+ * they are when they ask for the list.
+ */
 function updateRooms() {
-    io.emit('update_rooms', {
-        robot_id: {
-            name: process.env.HELLO_FLEET_ID,
-            protocol: protocol,
-            status: status,
-        },
+    io.sockets.sockets.forEach((socket) => {
+        let robots = {};
+        Object.values(rooms).forEach((room) => {
+            if (!users.canAccessRobot(socket.data.user, room.name)) return;
+            robots[room.name] = {
+                name: room.name,
+                protocol: room.protocol,
+                status: room.status,
+            };
+        });
+        socket.emit("update_rooms", robots);
     });
 }
 
-io.on('connection', function (socket) {
-    console.log('new socket.io connection');
+const ROBOT_SECRET = Buffer.from(getRobotSecret());
+
+/**
+ * @param headers headers of an HTTP request, or of the request a socket
+ *                connected with
+ * @returns whether the request comes from the robot page, which sends the
+ *          robot secret
+ */
+function isRobotPage(headers) {
+    const secret = Buffer.from(
+        String(headers[ROBOT_SECRET_HEADER.toLowerCase()] || "")
+    );
+    return (
+        secret.length === ROBOT_SECRET.length &&
+        crypto.timingSafeEqual(secret, ROBOT_SECRET)
+    );
+}
+
+/**
+ * @returns whether a client sent an object, since any client can send any
+ *          event with any arguments
+ */
+function isObject(value) {
+    return typeof value === "object" && value !== null;
+}
+
+/**
+ * Checks the session token a socket sent with a request, and remembers the
+ * user it belongs to.
+ *
+ * @returns whether the user may join the given robot room
+ */
+function authorize(socket, token, room) {
+    socket.data.user = users.getSessionUser(token);
+    return users.canAccessRobot(socket.data.user, room.name);
+}
+
+io.on("connection", function (socket) {
+    console.log("new socket.io connection");
     // console.log('socket.handshake = ');
     // console.log(socket.handshake);
 
-    socket.on('join_as_robot', (callback) => {
-        console.log('Received join_as_robot request');
-        if (!robo_sock) {
-            socket.join(ROOM);
-            robo_sock = socket.id;
-            status = 'online';
-            console.log('join_as_robot SUCCESS');
+    socket.on("configure", (room_name, callback) => {
+        if (typeof callback !== "function") return;
+        socket.data.room =
+            typeof room_name === "string" && room_name
+                ? room_name
+                : DEFAULT_ROOM;
+        console.log(`Socket configured for room ${socket.data.room}`);
+        callback({ success: true });
+    });
+
+    socket.on("login", (credentials, callback) => {
+        if (typeof callback !== "function") return;
+        if (!users.isEnabled()) {
+            callback({ success: true });
+            return;
+        }
+        if (
+            !isObject(credentials) ||
+            typeof credentials.username !== "string" ||
+            typeof credentials.password !== "string"
+        ) {
+            console.log("Login FAILURE: malformed credentials");
+            callback({ success: false });
+            return;
+        }
+        const token = users.login(
+            credentials.username,
+            credentials.password,
+            credentials.remember
+        );
+        socket.data.user = users.getSessionUser(token);
+        console.log(
+            `Login ${token ? "SUCCESS" : "FAILURE"} for ${credentials.username}`
+        );
+        callback({ success: !!token, token: token, user: socket.data.user });
+    });
+
+    socket.on("resume_session", (token, callback) => {
+        if (typeof callback !== "function") return;
+        if (!users.isEnabled()) {
+            callback({ success: true });
+            return;
+        }
+        socket.data.user = users.getSessionUser(token);
+        callback({ success: !!socket.data.user, user: socket.data.user });
+    });
+
+    socket.on("logout", (token) => {
+        users.logout(token);
+        socket.data.user = undefined;
+    });
+
+    socket.on("list_users", (token, callback) => {
+        administer(token, callback, () => ({ users: users.listUsers() }));
+    });
+
+    socket.on("save_user", (token, user, callback) => {
+        administer(token, callback, () => {
+            users.saveUser(
+                user.username,
+                user.password,
+                user.admin,
+                user.robots
+            );
+            return {};
+        });
+    });
+
+    socket.on("delete_user", (token, username, callback) => {
+        administer(token, callback, (admin) => {
+            if (admin && admin.username == username)
+                throw Error("You cannot delete your own user");
+            users.deleteUser(username);
+            return {};
+        });
+    });
+
+    socket.on("audit_log", (entry) => {
+        if (!isObject(entry)) return;
+        if (!isRobotPage(socket.handshake.headers)) {
+            console.log("audit_log FAILURE: not sent by the robot page");
+            return;
+        }
+        entry.robot = entry.robot || DEFAULT_ROOM;
+        ensureDir(AUDIT_LOG_FILE);
+        fs.appendFile(AUDIT_LOG_FILE, JSON.stringify(entry) + "\n", (err) => {
+            if (err) console.log(`audit_log FAILURE: ${err.message}`);
+        });
+    });
+
+    socket.on("read_audit_log", (token, callback) => {
+        administer(token, callback, () => ({ entries: readAuditLog() }));
+    });
+
+    socket.on("join_as_robot", (info, callback) => {
+        // Robot builds that predate the protocol handshake send no info
+        if (typeof info === "function") {
+            callback = info;
+            info = {};
+        }
+        if (typeof callback !== "function") return;
+        if (!isObject(info)) info = {};
+        const room = getSocketRoom(socket);
+        console.log(`Received join_as_robot request for ${room.name}`);
+        // The robot browser on this host sends the robot secret, while
+        // robots elsewhere need a session of a user allowed on the robot
+        if (
+            !isRobotPage(socket.handshake.headers) &&
+            !authorize(socket, info.token, room)
+        ) {
+            console.log("join_as_robot FAILURE: unauthorized");
+            callback({ success: false, reason: "unauthorized" });
+            return;
+        }
+        if (!room.robo_sock) {
+            socket.join(room.name);
+            room.robo_sock = socket.id;
+            room.protocol = info.protocol;
+            room.status = "online";
+            console.log("join_as_robot SUCCESS");
             callback({ success: true });
         } else {
-            status = 'occupied';
-            console.log('join_as_robot FAILURE');
+            room.status = "occupied";
+            console.log("join_as_robot FAILURE");
             callback({ success: false });
         }
         updateRooms();
     });
 
-    socket.on('list_rooms', () => {
+    socket.on("list_rooms", (token) => {
+        socket.data.user = users.getSessionUser(token);
         updateRooms();
     });
 
-    socket.on('join_as_operator', (callback) => {
-        console.log('Received join_as_operator request');
-        if (robo_sock) {
-            status = 'occupied';
-            if (!oper_sock) {
-                socket.join(ROOM);
-                socket.in(ROOM).emit('joined');
-                oper_sock = socket.id;
-                console.log('join_as_operator SUCCESS');
+    socket.on("join_as_operator", (info, callback) => {
+        // Operator builds that predate control hand-off send no info
+        if (typeof info === "function") {
+            callback = info;
+            info = {};
+        }
+        if (typeof callback !== "function") return;
+        if (!isObject(info)) info = {};
+        const room = getSocketRoom(socket);
+        console.log(`Received join_as_operator request for ${room.name}`);
+        if (!authorize(socket, info.token, room)) {
+            console.log("join_as_operator FAILURE: unauthorized");
+            callback({ success: false, reason: "unauthorized" });
+            return;
+        }
+        if (room.robo_sock) {
+            room.status = "occupied";
+            if (
+                room.oper_socks.size == 0 ||
+                room.protocol >= CONTROL_HAND_OFF_PROTOCOL
+            ) {
+                joinRoom(socket, room, "operator", info.name);
+                console.log("join_as_operator SUCCESS");
                 callback({ success: true });
             } else {
                 console.log(
-                    'join_as_operator FAILURE: occupied by another operator'
+                    "join_as_operator FAILURE: occupied by another operator"
                 );
                 callback({ success: false });
             }
         } else {
-            status = 'offline';
-            console.log('join_as_operator FAILURE: robot is not available');
+            room.status = "offline";
+            console.log("join_as_operator FAILURE: robot is not available");
             callback({ success: false });
         }
         updateRooms();
     });
 
-    socket.on('signalling', (message) => {
-        if (robo_sock && oper_sock && io.sockets.adapter.rooms.get(ROOM)) {
-            socket.to(ROOM).emit('signalling', message);
+    socket.on("join_as_observer", (info, callback) => {
+        if (typeof callback !== "function") return;
+        if (!isObject(info)) info = {};
+        const room = getSocketRoom(socket);
+        console.log(`Received join_as_observer request for ${room.name}`);
+        if (!authorize(socket, info.token, room)) {
+            console.log("join_as_observer FAILURE: unauthorized");
+            callback({ success: false, reason: "unauthorized" });
+            return;
+        }
+        if (room.robo_sock) {
+            joinRoom(socket, room, "observer", info.name);
+            console.log("join_as_observer SUCCESS");
+            callback({ success: true });
+        } else {
+            console.log("join_as_observer FAILURE: robot is not available");
+            callback({ success: false });
+        }
+    });
+
+    socket.on("signalling", (message) => {
+        if (!isObject(message)) return;
+        // The robot has a separate peer connection with every participant,
+        // so its signals are addressed to one of them. Robot builds that
+        // predate observers only talk to the operator.
+        const room = getSocketRoom(socket);
+        let recipient = room.robo_sock;
+        if (socket.id == room.robo_sock) {
+            recipient = message.peerId || room.oper_socks.values().next().value;
+        } else {
+            message.peerId = socket.id;
+        }
+        if (room.robo_sock && recipient && socket.rooms.has(room.name)) {
+            io.to(recipient).emit("signalling", message);
         } else {
             console.log(
-                `signaling FAILURE: robo_sock=${robo_sock} oper_sock=${oper_sock} room=${io.sockets.adapter.rooms.get(ROOM)}`
+                `signaling FAILURE: room=${room.name} robo_sock=${room.robo_sock} recipient=${recipient}`
             );
         }
     });
 
-    socket.on('bye', (role) => {
+    socket.on("bye", (role) => {
         console.log(`Received bye from ${role}`);
-        if (socket.rooms.has(ROOM)) {
-            socket.to(ROOM).emit('bye');
-            if (socket.id == robo_sock) {
-                status = 'offline';
-                robo_sock = undefined;
-                console.log('Robot disconnected');
-            }
-            if (socket.id == oper_sock) {
-                status = 'online';
-                oper_sock = undefined;
-                console.log('Operator disconnected');
-            }
-            socket.leave(ROOM);
+        const room = getSocketRoom(socket);
+        if (socket.rooms.has(room.name)) {
+            leaveRoom(socket, room);
+            socket.leave(room.name);
         }
         updateRooms();
     });
 
-    socket.on('disconnect', () => {
-        if (socket.id == robo_sock) {
-            status = 'offline';
-            robo_sock = undefined;
-            console.log('Robot disconnected');
-        }
-        if (socket.id == oper_sock) {
-            status = 'online';
-            oper_sock = undefined;
-            console.log('Operator disconnected');
-        }
+    socket.on("disconnect", () => {
+        leaveRoom(socket, getSocketRoom(socket));
         updateRooms();
     });
 });
+
+/**
+ * Adds a participant to the session and lets the robot know, so it can set
+ * up a peer connection with them. Participants that do not give a name are
+ * known by their username.
+ */
+function joinRoom(socket, room, role, name) {
+    socket.join(room.name);
+    (role == "operator" ? room.oper_socks : room.observer_socks).add(socket.id);
+    io.to(room.robo_sock).emit("joined", {
+        id: socket.id,
+        role: role,
+        name: name || socket.data.user?.username,
+    });
+}
+
+/**
+ * Runs an admin request if the session token belongs to an admin, or if
+ * access control is turned off.
+ *
+ * @param request called with the admin, returns the response
+ */
+function administer(token, callback, request) {
+    if (typeof callback !== "function") return;
+    const admin = users.getSessionUser(token);
+    if (users.isEnabled() && (!admin || !admin.admin)) {
+        callback({ success: false, error: "Only admins can manage users" });
+        return;
+    }
+    try {
+        callback({ success: true, ...request(admin) });
+    } catch (e) {
+        callback({ success: false, error: e.message });
+    }
+}
+
+/**
+ * @returns the user whose session token the request carries, and the robot
+ *     room given by its `robot` query parameter
+ */
+function requestUser(req) {
+    const token = (req.get("Authorization") || "").replace(/^Bearer /, "");
+    return {
+        user: users.getSessionUser(token),
+        room: req.query.robot || DEFAULT_ROOM,
+    };
+}
+
+/**
+ * Lets storage requests through if they carry the session token of a user
+ * allowed on the robot, the same check as joining its room, or if access
+ * control is turned off.
+ */
+function authorizeStorage(req, res, next) {
+    const { user, room } = requestUser(req);
+    if (users.isEnabled() && !user) {
+        res.status(401).json({ error: "Log in to use the saved data" });
+        return;
+    }
+    if (!users.canAccessRobot(user, room)) {
+        res.status(403).json({ error: `You are not allowed on ${room}` });
+        return;
+    }
+    next();
+}
+
+/**
+ * Lets map requests through if they come from the robot page, or from a
+ * user allowed on the robot.
+ */
+function authorizeMaps(req, res, next) {
+    const { user, room } = requestUser(req);
+    if (!isRobotPage(req.headers) && !users.canAccessRobot(user, room)) {
+        res.status(401).json({ error: "Log in to see the maps" });
+        return;
+    }
+    next();
+}
+
+/**
+ * Runs a storage request, and responds with its result or its error.
+ *
+ * @param request returns the response body, if any
+ */
+function respondStorage(res, request) {
+    try {
+        res.json(request() || {});
+    } catch (e) {
+        console.log(`storage FAILURE: ${e.message}`);
+        res.status(400).json({ error: e.message });
+    }
+}
+
+/**
+ * Removes a socket from the session and lets the others know. Participants
+ * only say goodbye to the robot, while the robot says goodbye to everyone.
+ */
+function leaveRoom(socket, room) {
+    if (socket.id == room.robo_sock) {
+        socket.to(room.name).emit("bye");
+        room.status = "offline";
+        room.robo_sock = undefined;
+        room.protocol = undefined;
+        console.log(`Robot ${room.name} disconnected`);
+    } else if (
+        room.robo_sock &&
+        (room.oper_socks.has(socket.id) || room.observer_socks.has(socket.id))
+    ) {
+        io.to(room.robo_sock).emit("bye", socket.id);
+    }
+    if (room.oper_socks.delete(socket.id)) {
+        if (room.oper_socks.size == 0 && room.robo_sock) room.status = "online";
+        console.log("Operator disconnected");
+    }
+    if (room.observer_socks.delete(socket.id)) {
+        console.log("Observer disconnected");
+    }
+}
+
+/** @returns the most recent entries of the audit log, oldest first */
+function readAuditLog() {
+    if (!fs.existsSync(AUDIT_LOG_FILE)) return [];
+    return fs
+        .readFileSync(AUDIT_LOG_FILE, "utf8")
+        .split("\n")
+        .filter((line) => line)
+        .slice(-MAX_AUDIT_LOG_ENTRIES)
+        .map((line) => JSON.parse(line));
+}
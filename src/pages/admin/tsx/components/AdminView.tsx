@@ -0,0 +1,50 @@
+import React, { useState } from "react";
+import Box from "@mui/material/Box";
+import AppBar from "@mui/material/AppBar";
+import Toolbar from "@mui/material/Toolbar";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import Tabs from "@mui/material/Tabs";
+import Tab from "@mui/material/Tab";
+import { UserAdmin } from "./UserAdmin";
+import { AuditLogViewer } from "./AuditLogViewer";
+
+enum AdminTab {
+    Users = "users",
+    AuditLog = "audit",
+}
+
+/**
+ * Admin page of the local signaling server. The tab to open can be given in
+ * the `view` URL parameter.
+ */
+export const AdminView = () => {
+    const [tab, setTab] = useState<AdminTab>(
+        (new URL(window.location.href).searchParams.get("view") as AdminTab) ||
+            AdminTab.Users
+    );
+
+    return (
+        <Box sx={{ flexGrow: 1 }}>
+            <AppBar position="static" color="transparent" elevation={0}>
+                <Toolbar>
+                    <Typography
+                        variant="h4"
+                        component="div"
+                        sx={{ flexGrow: 1 }}
+                    >
+                        Stretch Web Teleop
+                    </Typography>
+                    <Button color="inherit" href="/">
+                        Home
+                    </Button>
+                </Toolbar>
+            </AppBar>
+            <Tabs value={tab} onChange={(_, value: AdminTab) => setTab(value)}>
+                <Tab label="Users" value={AdminTab.Users} />
+                <Tab label="Audit log" value={AdminTab.AuditLog} />
+            </Tabs>
+            {tab === AdminTab.Users ? <UserAdmin /> : <AuditLogViewer />}
+        </Box>
+    );
+};
@@ -0,0 +1,182 @@
+import "admin/css/AuditLogViewer.css";
+import React, { useEffect, useState } from "react";
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import FormControl from "@mui/material/FormControl";
+import InputLabel from "@mui/material/InputLabel";
+import MenuItem from "@mui/material/MenuItem";
+import Select from "@mui/material/Select";
+import Table from "@mui/material/Table";
+import TableBody from "@mui/material/TableBody";
+import TableCell from "@mui/material/TableCell";
+import TableHead from "@mui/material/TableHead";
+import TableRow from "@mui/material/TableRow";
+import Snackbar from "@mui/material/Snackbar";
+import { AuditLogEntry } from "shared/util";
+import { sendRequest } from "../index";
+
+/** Filter value that matches every entry */
+const ALL = "";
+
+/** Entries are shown newest first, and only this many at a time */
+const MAX_SHOWN_ENTRIES = 1000;
+
+type AuditLogFilter = {
+    session: string;
+    operator: string;
+    type: string;
+};
+
+function getOperator(entry: AuditLogEntry): string {
+    return entry.participant?.name || entry.participant?.id || "";
+}
+
+/** @returns the distinct non-empty values of a field, sorted */
+function distinct(
+    entries: AuditLogEntry[],
+    field: (entry: AuditLogEntry) => string | undefined
+): string[] {
+    return Array.from(new Set(entries.map(field)))
+        .filter((value) => value)
+        .sort();
+}
+
+const FilterSelect = (props: {
+    label: string;
+    value: string;
+    options: string[];
+    onChange: (value: string) => void;
+}) => {
+    return (
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>{props.label}</InputLabel>
+            <Select
+                label={props.label}
+                value={props.value}
+                onChange={(e) => props.onChange(e.target.value)}
+            >
+                <MenuItem value={ALL}>All</MenuItem>
+                {props.options.map((option) => (
+                    <MenuItem key={option} value={option}>
+                        {option}
+                    </MenuItem>
+                ))}
+            </Select>
+        </FormControl>
+    );
+};
+
+/**
+ * Shows the session audit log the robots on this host keep, filtered by
+ * session, operator and command type.
+ */
+export const AuditLogViewer = () => {
+    const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+    const [filter, setFilter] = useState<AuditLogFilter>({
+        session: ALL,
+        operator: ALL,
+        type: ALL,
+    });
+    const [error, setError] = useState("");
+
+    const refresh = () => {
+        sendRequest("read_audit_log")
+            .then((response) => setEntries(response.entries))
+            .catch((e) => setError(e.message));
+    };
+
+    useEffect(refresh, []);
+
+    const filtered = entries
+        .filter(
+            (entry) =>
+                (filter.session === ALL || entry.session === filter.session) &&
+                (filter.operator === ALL ||
+                    getOperator(entry) === filter.operator) &&
+                (filter.type === ALL || entry.type === filter.type)
+        )
+        .reverse();
+
+    return (
+        <>
+            <Box className="audit-log">
+                <Box className="audit-log-filters">
+                    <FilterSelect
+                        label="Session"
+                        value={filter.session}
+                        options={distinct(entries, (e) => e.session)}
+                        onChange={(session) =>
+                            setFilter({ ...filter, session: session })
+                        }
+                    />
+                    <FilterSelect
+                        label="Operator"
+                        value={filter.operator}
+                        options={distinct(entries, getOperator)}
+                        onChange={(operator) =>
+                            setFilter({ ...filter, operator: operator })
+                        }
+                    />
+                    <FilterSelect
+                        label="Type"
+                        value={filter.type}
+                        options={distinct(entries, (e) => e.type)}
+                        onChange={(type) =>
+                            setFilter({ ...filter, type: type })
+                        }
+                    />
+                    <Button onClick={refresh}>Refresh</Button>
+                    <span>
+                        {filtered.length} of {entries.length} entries
+                    </span>
+                </Box>
+                <Table size="small">
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>Time</TableCell>
+                            <TableCell>Robot</TableCell>
+                            <TableCell>Participant</TableCell>
+                            <TableCell>Event</TableCell>
+                            <TableCell>Type</TableCell>
+                            <TableCell>Details</TableCell>
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {filtered
+                            .slice(0, MAX_SHOWN_ENTRIES)
+                            .map((entry, i) => (
+                                <TableRow key={i}>
+                                    <TableCell>
+                                        {new Date(entry.time).toLocaleString()}
+                                    </TableCell>
+                                    <TableCell>{entry.robot}</TableCell>
+                                    <TableCell>
+                                        {entry.participant &&
+                                            `${getOperator(entry)} (${entry.participant.role})`}
+                                    </TableCell>
+                                    <TableCell>{entry.event}</TableCell>
+                                    <TableCell>{entry.type}</TableCell>
+                                    <TableCell className="audit-log-data">
+                                        {entry.data !== undefined &&
+                                            JSON.stringify(entry.data)}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                    </TableBody>
+                </Table>
+            </Box>
+            <Snackbar
+                anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+                open={error !== ""}
+                onClose={() => setError("")}
+                autoHideDuration={6000}
+                message={error}
+                ContentProps={{
+                    sx: {
+                        background: "red",
+                    },
+                }}
+            />
+        </>
+    );
+};
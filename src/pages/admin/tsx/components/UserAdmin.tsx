@@ -0,0 +1,188 @@
+import "admin/css/UserAdmin.css";
+import React, { useEffect, useState } from "react";
+import Box from "@mui/material/Box";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import Checkbox from "@mui/material/Checkbox";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import TextField from "@mui/material/TextField";
+import Table from "@mui/material/Table";
+import TableBody from "@mui/material/TableBody";
+import TableCell from "@mui/material/TableCell";
+import TableHead from "@mui/material/TableHead";
+import TableRow from "@mui/material/TableRow";
+import Snackbar from "@mui/material/Snackbar";
+import { sendRequest, User } from "../index";
+
+const EMPTY_USER: User = { username: "", admin: false, robots: [] };
+
+/**
+ * Lists the users of the local signaling server, and lets admins add, edit
+ * and remove them.
+ */
+export const UserAdmin = () => {
+    const [users, setUsers] = useState<User[]>([]);
+    const [editedUser, setEditedUser] = useState<User>(EMPTY_USER);
+    const [robots, setRobots] = useState("");
+    const [error, setError] = useState("");
+
+    const refresh = () => {
+        sendRequest("list_users")
+            .then((response) => setUsers(response.users))
+            .catch((e) => setError(e.message));
+    };
+
+    useEffect(refresh, []);
+
+    const edit = (user: User) => {
+        setEditedUser(user);
+        setRobots(user.robots.join(", "));
+    };
+
+    const save = (event: React.FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const user: User = {
+            ...editedUser,
+            robots: robots
+                .split(",")
+                .map((robot) => robot.trim())
+                .filter((robot) => robot),
+        };
+        sendRequest("save_user", user)
+            .then(() => {
+                edit(EMPTY_USER);
+                refresh();
+            })
+            .catch((e) => setError(e.message));
+    };
+
+    const remove = (username: string) => {
+        if (!window.confirm(`Remove ${username}?`)) return;
+        sendRequest("delete_user", username)
+            .then(refresh)
+            .catch((e) => setError(e.message));
+    };
+
+    const isNewUser = !users.some((u) => u.username === editedUser.username);
+
+    return (
+        <>
+            <Box className="user-admin">
+                <Table size="small">
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>Email</TableCell>
+                            <TableCell>Admin</TableCell>
+                            <TableCell>Robots</TableCell>
+                            <TableCell />
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {users.map((user) => (
+                            <TableRow key={user.username}>
+                                <TableCell>{user.username}</TableCell>
+                                <TableCell>{user.admin ? "Yes" : ""}</TableCell>
+                                <TableCell>
+                                    {user.admin
+                                        ? "All"
+                                        : user.robots.join(", ")}
+                                </TableCell>
+                                <TableCell align="right">
+                                    <Button
+                                        size="small"
+                                        onClick={() => edit(user)}
+                                    >
+                                        Edit
+                                    </Button>
+                                    <Button
+                                        size="small"
+                                        color="error"
+                                        onClick={() => remove(user.username)}
+                                    >
+                                        Remove
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+                <Box
+                    component="form"
+                    onSubmit={save}
+                    className="user-admin-form"
+                >
+                    <Typography variant="h6">
+                        {isNewUser ? "Add user" : `Edit ${editedUser.username}`}
+                    </Typography>
+                    <TextField
+                        label="Email"
+                        size="small"
+                        required
+                        value={editedUser.username}
+                        onChange={(e) =>
+                            setEditedUser({
+                                ...editedUser,
+                                username: e.target.value,
+                            })
+                        }
+                    />
+                    <TextField
+                        label={
+                            isNewUser
+                                ? "Password"
+                                : "New password (leave empty to keep)"
+                        }
+                        type="password"
+                        size="small"
+                        required={isNewUser}
+                        value={editedUser.password || ""}
+                        onChange={(e) =>
+                            setEditedUser({
+                                ...editedUser,
+                                password: e.target.value,
+                            })
+                        }
+                    />
+                    <TextField
+                        label="Robots (fleet IDs separated by commas, * for all)"
+                        size="small"
+                        value={robots}
+                        onChange={(e) => setRobots(e.target.value)}
+                    />
+                    <FormControlLabel
+                        control={
+                            <Checkbox
+                                checked={editedUser.admin}
+                                onChange={(e) =>
+                                    setEditedUser({
+                                        ...editedUser,
+                                        admin: e.target.checked,
+                                    })
+                                }
+                            />
+                        }
+                        label="Admin"
+                    />
+                    <Box>
+                        <Button type="submit" variant="contained">
+                            Save
+                        </Button>
+                        <Button onClick={() => edit(EMPTY_USER)}>Cancel</Button>
+                    </Box>
+                </Box>
+            </Box>
+            <Snackbar
+                anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+                open={error !== ""}
+                onClose={() => setError("")}
+                autoHideDuration={6000}
+                message={error}
+                ContentProps={{
+                    sx: {
+                        background: "red",
+                    },
+                }}
+            />
+        </>
+    );
+};
@@ -0,0 +1,38 @@
+import "home/css/index.css";
+import React from "react";
+import { createRoot } from "react-dom/client";
+import io from "socket.io-client";
+import { getSessionToken } from "shared/signaling/LocalSession";
+import { AdminView } from "./components/AdminView";
+
+export type User = {
+    username: string;
+    admin: boolean;
+    /** Fleet IDs of the robots the user may join, or "*" for every robot */
+    robots: string[];
+    /** Only sent when setting the password */
+    password?: string;
+};
+
+const socket = io();
+const container = document.getElementById("root");
+const root = createRoot(container!);
+
+/**
+ * Sends an admin request to the local signaling server, on behalf
+ * of the user logged in on the home page.
+ *
+ * @param event the name of the request
+ * @param args arguments of the request, after the session token
+ * @returns the response, rejected with the server's error if it failed
+ */
+export function sendRequest(event: string, ...args): Promise<any> {
+    return new Promise((resolve, reject) => {
+        socket.emit(event, getSessionToken(), ...args, (response) => {
+            if (response.success) resolve(response);
+            else reject(Error(response.error));
+        });
+    });
+}
+
+root.render(<AdminView />);
@@ -153,19 +153,21 @@ export const CallRobotSelector = (props: { style?: React.CSSProperties }) => {
                 className="rs-container"
                 style={props.style}
             >
-                {Object.entries(callableRobots).map(([key, value], idx) => {
-                    if (value["is_active"]) {
-                        return (
-                            <Grid key={idx} size={{ md: 12, lg: 6 }}>
-                                <CallRobotItem
-                                    key={idx}
-                                    name={value["name"]}
-                                    status={value["status"]}
-                                />
-                            </Grid>
-                        );
-                    }
-                })}
+                {Object.entries(callableRobots)
+                    .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
+                    .map(([key, value]) => {
+                        if (value["is_active"]) {
+                            return (
+                                <Grid key={key} size={{ md: 12, lg: 6 }}>
+                                    <CallRobotItem
+                                        key={key}
+                                        name={value["name"]}
+                                        status={value["status"]}
+                                    />
+                                </Grid>
+                            );
+                        }
+                    })}
             </Grid>
         </Box>
     );
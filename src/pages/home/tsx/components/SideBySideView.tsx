@@ -19,7 +19,7 @@ export const SideBySideView = (props) => {
     const handleLogout = () => {
         loginHandler.logout().catch((error) => {
             setfailureToastMessage(
-                `Please contact Hello Robot Support. ERROR ${error.code}: ${error.message}`,
+                `Please contact Hello Robot Support. ERROR ${error.code}: ${error.message}`
             );
             setOpenFailureToast(true);
         });
@@ -36,6 +36,11 @@ export const SideBySideView = (props) => {
                     >
                         Stretch Web Teleop
                     </Typography>
+                    {loginHandler.isAdmin() && (
+                        <Button color="inherit" href="/admin/">
+                            Admin
+                        </Button>
+                    )}
                     <Button color="inherit" onClick={handleLogout}>
                         Logout
                     </Button>
@@ -80,6 +85,11 @@ export const SideBySideView = (props) => {
                     >
                         Stretch Web Teleop
                     </Typography>
+                    {loginHandler.isAdmin() && (
+                        <Button color="inherit" href="/admin/">
+                            Admin
+                        </Button>
+                    )}
                     <Button color="inherit" onClick={handleLogout}>
                         Logout
                     </Button>
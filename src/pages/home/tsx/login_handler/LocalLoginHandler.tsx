@@ -1,41 +1,63 @@
 import { LoginHandler } from "./LoginHandler";
 import io, { Socket } from "socket.io-client";
+import {
+    clearSessionToken,
+    getSessionToken,
+    storeSessionToken,
+} from "shared/signaling/LocalSession";
 
 export class LocalLoginHandler extends LoginHandler {
     private socket: Socket;
     private _loginState: string;
+    private _isAdmin: boolean = false;
 
     constructor(onLoginHandlerReadyCallback: () => void) {
         super(onLoginHandlerReadyCallback);
-        this._loginState = "authenticated";
+        this._loginState = "not_authenticated";
         this.socket = io();
         this.socket.on("connect", () => {
             console.log("Connected to local socket");
         });
 
         this.logout = this.logout.bind(this);
-        // Allow the initialization process to complete before invoking the callback
-        setTimeout(() => {
+        // Pick up the session of an earlier login. The server accepts any
+        // session while it has no users.
+        this.socket.emit("resume_session", getSessionToken(), (response) => {
+            if (response.success) {
+                this._loginState = "authenticated";
+                this._isAdmin = response.user?.admin || false;
+            } else {
+                clearSessionToken();
+            }
             this.onReadyCallback();
-        }, 0);
+        });
     }
 
     public loginState(): string {
         return this._loginState;
     }
 
+    public isAdmin(): boolean {
+        return this._isAdmin;
+    }
+
     public listRooms(resultCallback) {
-        this.socket.emit("list_rooms");
+        this.socket.emit("list_rooms", getSessionToken());
         this.socket.on("update_rooms", (ret) => {
-            let robo_info = ret["robot_id"];
-            robo_info["is_active"] = true;
-            resultCallback("robot_id", robo_info);
+            // Every robot room the server hosts, keyed by fleet ID
+            Object.entries(ret).forEach(([robo_id, robo_info]) => {
+                robo_info["is_active"] = true;
+                resultCallback(robo_id, robo_info);
+            });
         });
     }
 
     public logout(): Promise<undefined> {
         return new Promise<undefined>((resolve, reject) => {
+            this.socket.emit("logout", getSessionToken());
+            clearSessionToken();
             this._loginState = "not_authenticated";
+            this._isAdmin = false;
             this.onReadyCallback();
             resolve(undefined);
         });
@@ -44,19 +66,34 @@ export class LocalLoginHandler extends LoginHandler {
     public login(
         username: string,
         password: string,
-        remember_me: boolean,
+        remember_me: boolean
     ): Promise<undefined> {
         return new Promise<undefined>((resolve, reject) => {
-            this._loginState = "authenticated";
-            this.onReadyCallback();
-            resolve(undefined);
+            const credentials = {
+                username: username,
+                password: password,
+                remember: remember_me,
+            };
+            this.socket.emit("login", credentials, (response) => {
+                if (!response.success) {
+                    // Same code as Firebase, so the login view shows it
+                    reject({ code: "auth/invalid-login-credentials" });
+                    return;
+                }
+                if (response.token)
+                    storeSessionToken(response.token, remember_me);
+                this._loginState = "authenticated";
+                this._isAdmin = response.user?.admin || false;
+                this.onReadyCallback();
+                resolve(undefined);
+            });
         });
     }
 
     public forgot_password(username: string): Promise<undefined> {
         return new Promise<undefined>((resolve, reject) => {
             reject(
-                Error("LocalLoginHandler.forgot_password() is not implemented"),
+                Error("LocalLoginHandler.forgot_password() is not implemented")
             );
             // resolve(undefined);
         });
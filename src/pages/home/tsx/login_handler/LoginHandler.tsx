@@ -7,6 +7,11 @@ export abstract class LoginHandler {
 
     public abstract loginState(): string;
 
+    /** @returns whether the user may manage the other users */
+    public isAdmin(): boolean {
+        return false;
+    }
+
     public abstract listRooms(resultCallback);
 
     public abstract logout(): Promise<undefined>;
@@ -14,7 +19,7 @@ export abstract class LoginHandler {
     public abstract login(
         username: string,
         password: string,
-        remember_me: boolean,
+        remember_me: boolean
     ): Promise<undefined>;
 
     public abstract forgot_password(username: string): Promise<undefined>;
@@ -1,6 +1,9 @@
 import React from "react";
 import { AudioControl } from "./static_components/AudioControl";
 import { SpeedControl } from "./static_components/SpeedControl";
+import { ConnectionQualityHUD } from "./static_components/ConnectionQualityHUD";
+import { ControlIndicator } from "./static_components/ControlIndicator";
+import { SessionRecordButton } from "./static_components/SessionRecordButton";
 import { LayoutArea } from "./static_components/LayoutArea";
 import { CustomizeButton } from "./static_components/CustomizeButton";
 import { GlobalOptionsProps, Sidebar } from "./static_components/Sidebar";
@@ -16,6 +19,7 @@ import {
     underMapFunctionProvider,
     underVideoFunctionProvider,
     homeTheRobotFunctionProvider,
+    connectionQualityFunctionProvider,
     hasBetaTeleopKit,
     stretchTool,
 } from ".";
@@ -33,9 +37,17 @@ import {
 import { FunctionProvider } from "./function_providers/FunctionProvider";
 import {
     addToLayout,
+    duplicateInLayout,
+    getFromLayout,
     moveInLayout,
     removeFromLayout,
 } from "./utils/layout_helpers";
+import { LayoutReport } from "./utils/layout_schema";
+import {
+    downloadUserData,
+    ImportResolutions,
+    UserDataBundle,
+} from "./utils/user_data_bundle";
 import { MovementRecorder } from "./layout_components/MovementRecorder";
 import { Alert } from "./basic_components/Alert";
 import "operator/css/Operator.css";
@@ -66,6 +78,11 @@ export const Operator = (props: {
         React.useState<ActionState>();
     const [showTabletState, setShowTabletState] =
         React.useState<ActionState>(false);
+    const [layoutReport, setLayoutReport] = React.useState<
+        LayoutReport | undefined
+    >(() => props.storageHandler.takeLayoutReport());
+    const [velocityWatchdogState, setVelocityWatchdogState] =
+        React.useState<ActionState>();
     const [robotNotHomed, setRobotNotHomed] =
         React.useState<ActionState>(false);
     function showHomeTheRobotGlobalControl(isHomed: ActionState) {
@@ -74,6 +91,11 @@ export const Operator = (props: {
     homeTheRobotFunctionProvider.setIsHomedCallback(
         showHomeTheRobotGlobalControl
     );
+    // Keep the speed control in sync when the velocity scale is limited
+    // because of a poor connection
+    connectionQualityFunctionProvider.setVelocityScaleCallback(
+        setVelocityScale
+    );
 
     const layout = React.useRef<LayoutDefinition>(props.layout);
 
@@ -154,6 +176,22 @@ export const Operator = (props: {
         }
     }, [showTabletState]);
 
+    // Callback for when the robot stopped a motion because the operator's
+    // heartbeats stopped arriving. Used to render alerts to the operator.
+    function velocityWatchdogStateCallback(state: ActionState) {
+        setVelocityWatchdogState(state);
+    }
+    buttonFunctionProvider.setWatchdogOperatorCallback(
+        velocityWatchdogStateCallback
+    );
+    React.useEffect(() => {
+        if (!velocityWatchdogState) return;
+        const timeout = setTimeout(() => {
+            setVelocityWatchdogState(undefined);
+        }, 5000);
+        return () => clearTimeout(timeout);
+    }, [velocityWatchdogState]);
+
     let remoteStreams = props.remoteStreams;
 
     /** Rerenders the operator */
@@ -264,6 +302,18 @@ export const Operator = (props: {
         setSelectedDef(undefined);
     }
 
+    /** Callback when the duplicate button in the sidebar is clicked */
+    function handleDuplicate() {
+        if (!selectedPath)
+            throw Error(
+                "handleDuplicate called when selectedPath is undefined"
+            );
+        const newPath = duplicateInLayout(selectedPath, layout.current);
+        updateLayout();
+        setSelectedPath(newPath);
+        setSelectedDef(getFromLayout(newPath, layout.current));
+    }
+
     /**
      * Callback when the customization button is clicked.
      */
@@ -315,12 +365,29 @@ export const Operator = (props: {
                 ? props.storageHandler.loadDefaultLayout(
                       layoutName as DefaultLayoutName
                   )
-                : props.storageHandler.loadCustomLayout(layoutName);
+                : props.storageHandler.loadValidCustomLayout(layoutName);
+            setLayoutReport(props.storageHandler.takeLayoutReport());
             updateLayout();
         },
         saveLayout: (layoutName: string) => {
             props.storageHandler.saveCustomLayout(layout.current, layoutName);
         },
+        exportUserData: () =>
+            downloadUserData(props.storageHandler.exportUserData()),
+        findImportConflicts: (bundle: UserDataBundle) =>
+            props.storageHandler.findImportConflicts(bundle),
+        importUserData: (
+            bundle: UserDataBundle,
+            resolutions: ImportResolutions
+        ) => {
+            const summary = props.storageHandler.importUserData(
+                bundle,
+                resolutions
+            );
+            // Rerender so the imported layouts, poses and texts are listed
+            updateLayout();
+            return summary;
+        },
     };
 
     const actionModes = Object.values(ActionMode);
@@ -346,6 +413,9 @@ export const Operator = (props: {
                         FunctionProvider.velocityScale = newScale;
                     }}
                 />
+                <ConnectionQualityHUD />
+                <ControlIndicator />
+                <SessionRecordButton />
                 <CustomizeButton
                     customizing={customizing}
                     onClick={handleToggleCustomize}
@@ -429,6 +499,33 @@ export const Operator = (props: {
                     </div>
                 </div>
             )}
+            {layoutReport && (
+                <div className="operator-collision-alerts">
+                    <div className="operator-alert">
+                        <Alert type="warning">
+                            <span>
+                                {layoutReport.layoutName} had problems and was
+                                repaired: {layoutReport.problems.join(" ")}
+                            </span>
+                        </Alert>
+                    </div>
+                </div>
+            )}
+            {velocityWatchdogState && (
+                <div className="operator-collision-alerts">
+                    <div
+                        className={className("operator-alert", {
+                            fadeIn: velocityWatchdogState !== undefined,
+                            fadeOut: velocityWatchdogState == undefined,
+                        })}
+                    >
+                        <Alert
+                            type={velocityWatchdogState.alert_type}
+                            message={velocityWatchdogState.state}
+                        />
+                    </div>
+                </div>
+            )}
             <div id="operator-global-controls">
                 <div
                     className={className("operator-pose-recorder", {
@@ -455,6 +552,7 @@ export const Operator = (props: {
             <Sidebar
                 hidden={!customizing}
                 onDelete={handleDelete}
+                onDuplicate={handleDuplicate}
                 updateLayout={updateLayout}
                 onSelect={handleSelect}
                 selectedDefinition={selectedDefinition}
@@ -10,12 +10,14 @@ import {
     ActionMode,
     LayoutGridDefinition,
 } from "../utils/component_definitions";
+import { LAYOUT_SCHEMA_VERSION } from "../utils/layout_schema";
 
 /**
  * Basic Layout
  */
 export const BASIC_LAYOUT: LayoutDefinition = {
     type: ComponentType.Layout,
+    version: LAYOUT_SCHEMA_VERSION,
     displayMovementRecorder: false,
     displayTextToSpeech: false,
     displayLabels: true,
@@ -1,4 +1,5 @@
 import {
+    ActionState,
     JOINT_VELOCITIES,
     JOINT_INCREMENTS,
     ValidJoints,
@@ -89,6 +90,11 @@ export class ButtonFunctionProvider extends FunctionProvider {
      */
     private operatorCallback?: (buttonStateMap: ButtonStateMap) => void =
         undefined;
+    /**
+     * Callback function to alert the operator when the robot stopped a
+     * motion because its heartbeats stopped arriving.
+     */
+    private watchdogOperatorCallback?: (state: ActionState) => void = undefined;
 
     constructor() {
         super();
@@ -107,7 +113,7 @@ export class ButtonFunctionProvider extends FunctionProvider {
      */
     public updateJointStates(
         inJointLimit: ValidJointStateDict,
-        inCollision: ValidJointStateDict,
+        inCollision: ValidJointStateDict
     ) {
         // For all the joints that are in collision, set their corresponding buttons
         // either to collision (for the button corresponding to the direction the
@@ -134,14 +140,14 @@ export class ButtonFunctionProvider extends FunctionProvider {
                     buttonNeg,
                     inCollisionNeg
                         ? ButtonState.Collision
-                        : ButtonState.Inactive,
+                        : ButtonState.Inactive
                 );
             if (!prevButtonStatePos || inCollisionPos !== prevInCollisionPos)
                 this.buttonStateMap.set(
                     buttonPos,
                     inCollisionPos
                         ? ButtonState.Collision
-                        : ButtonState.Inactive,
+                        : ButtonState.Inactive
                 );
         });
 
@@ -164,7 +170,7 @@ export class ButtonFunctionProvider extends FunctionProvider {
             )
                 this.buttonStateMap.set(
                     buttonNeg,
-                    inLimitNeg ? ButtonState.Inactive : ButtonState.Limit,
+                    inLimitNeg ? ButtonState.Inactive : ButtonState.Limit
                 );
             if (
                 prevButtonStatePos == undefined ||
@@ -172,7 +178,7 @@ export class ButtonFunctionProvider extends FunctionProvider {
             )
                 this.buttonStateMap.set(
                     buttonPos,
-                    inLimitPos ? ButtonState.Inactive : ButtonState.Limit,
+                    inLimitPos ? ButtonState.Inactive : ButtonState.Limit
                 );
         });
 
@@ -186,11 +192,31 @@ export class ButtonFunctionProvider extends FunctionProvider {
      * @param callback operator's callback function to update the button state map
      */
     public setOperatorCallback(
-        callback: (buttonStateMap: ButtonStateMap) => void,
+        callback: (buttonStateMap: ButtonStateMap) => void
     ) {
         this.operatorCallback = callback;
     }
 
+    /**
+     * Sets the local pointer to the operator's callback function, to be called
+     * whenever the robot's velocity watchdog stops a motion.
+     *
+     * @param callback operator's callback function to show the alert
+     */
+    public setWatchdogOperatorCallback(callback: (state: ActionState) => void) {
+        this.watchdogOperatorCallback = callback;
+    }
+
+    /**
+     * Handler for the robot stopping a motion because the heartbeats of the
+     * velocity command stopped arriving.
+     *
+     * @param state alert to show the operator
+     */
+    public setVelocityWatchdogState(state: ActionState) {
+        if (this.watchdogOperatorCallback) this.watchdogOperatorCallback(state);
+    }
+
     /**
      * Sets a type of a button pad button to active.
      *
@@ -239,7 +265,7 @@ export class ButtonFunctionProvider extends FunctionProvider {
      * @returns the {@link ButtonFunctions} for the button
      */
     public provideFunctions(
-        buttonPadFunction: ButtonPadButton,
+        buttonPadFunction: ButtonPadButton
     ): ButtonFunctions {
         let action: () => void;
         const onLeave = () => {
@@ -250,7 +276,7 @@ export class ButtonFunctionProvider extends FunctionProvider {
         const jointName: ValidJoints =
             getJointNameFromButtonFunction(buttonPadFunction);
         const multiplier: number = negativeButtonPadFunctions.has(
-            buttonPadFunction,
+            buttonPadFunction
         )
             ? -1
             : 1;
@@ -297,7 +323,7 @@ export class ButtonFunctionProvider extends FunctionProvider {
                             this.incrementalJointMovement(jointName, increment);
                             FunctionProvider.remoteRobot?.setToggle(
                                 "setFollowGripper",
-                                false,
+                                false
                             );
                         };
                         break;
@@ -310,7 +336,7 @@ export class ButtonFunctionProvider extends FunctionProvider {
                         setTimeout(
                             () =>
                                 this.setButtonInactiveState(buttonPadFunction),
-                            1000,
+                            1000
                         );
                     },
                     onLeave: onLeave,
@@ -350,7 +376,7 @@ export class ButtonFunctionProvider extends FunctionProvider {
                             this.continuousJointMovement(jointName, increment);
                             FunctionProvider.remoteRobot?.setToggle(
                                 "setFollowGripper",
-                                false,
+                                false
                             );
                         };
                         break;
@@ -375,7 +401,7 @@ export class ButtonFunctionProvider extends FunctionProvider {
                               if (this.activeVelocityAction) {
                                   this.stopCurrentAction();
                                   this.setButtonInactiveState(
-                                      buttonPadFunction,
+                                      buttonPadFunction
                                   );
                               } else {
                                   action();
@@ -396,7 +422,7 @@ export class ButtonFunctionProvider extends FunctionProvider {
  * negative or positive direction respectively)
  */
 function getButtonsFromJointName(
-    jointName: ValidJoints,
+    jointName: ValidJoints
 ): [ButtonPadButton, ButtonPadButton] | undefined {
     switch (jointName) {
         case "joint_gripper_finger_left":
@@ -449,7 +475,7 @@ function getButtonsFromJointName(
  * @returns the name of the corresponding joint
  */
 function getJointNameFromButtonFunction(
-    buttonType: ButtonPadButton,
+    buttonType: ButtonPadButton
 ): ValidJoints {
     switch (buttonType) {
         case ButtonPadButton.BaseReverse:
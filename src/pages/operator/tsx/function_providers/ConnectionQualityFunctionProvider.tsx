@@ -0,0 +1,125 @@
+import { ConnectionQuality } from "shared/util";
+import { VELOCITY_SCALE } from "../static_components/SpeedControl";
+import { FunctionProvider } from "./FunctionProvider";
+
+export enum ConnectionQualityLevel {
+    Good = "good",
+    Degraded = "degraded",
+    Poor = "poor",
+}
+
+/** Round trip times in milliseconds above which the connection is degraded/poor */
+const DEGRADED_ROUND_TRIP_TIME = 300;
+const POOR_ROUND_TRIP_TIME = 800;
+
+/** Packet loss of any stream above which the connection is degraded/poor */
+const DEGRADED_PACKET_LOSS = 0.05;
+const POOR_PACKET_LOSS = 0.15;
+
+/** Highest velocity scale the operator can drive with at each level */
+const VELOCITY_SCALE_LIMITS: { [level in ConnectionQualityLevel]: number } = {
+    [ConnectionQualityLevel.Good]: Infinity,
+    [ConnectionQualityLevel.Degraded]: VELOCITY_SCALE[1].scale,
+    [ConnectionQualityLevel.Poor]: VELOCITY_SCALE[0].scale,
+};
+
+export class ConnectionQualityFunctionProvider extends FunctionProvider {
+    private level: ConnectionQualityLevel = ConnectionQualityLevel.Good;
+    /** Velocity scale chosen by the operator before it was limited */
+    private unlimitedVelocityScale?: number;
+    /**
+     * Callback function to update the connection quality HUD in the operator
+     */
+    private qualityCallback?: (
+        quality: ConnectionQuality,
+        level: ConnectionQualityLevel
+    ) => void = undefined;
+    /**
+     * Callback function to update the speed control in the operator when the
+     * velocity scale is changed because of the connection quality
+     */
+    private velocityScaleCallback?: (velocityScale: number) => void = undefined;
+
+    constructor() {
+        super();
+        this.updateQuality = this.updateQuality.bind(this);
+    }
+
+    /**
+     * Handler for new connection quality samples. Limits the velocity scale
+     * when the connection is degraded, and additionally blocks press-and-hold
+     * actions when it is poor, since a release may then reach the robot late.
+     *
+     * @param quality the latest connection quality sample
+     */
+    public updateQuality(quality: ConnectionQuality) {
+        const level = this.getLevel(quality);
+        if (level !== this.level) {
+            console.warn(`Connection quality is ${level}`, quality);
+            this.level = level;
+            this.limitVelocityScale();
+            FunctionProvider.pressAndHoldBlocked =
+                level === ConnectionQualityLevel.Poor;
+        }
+        if (this.qualityCallback) this.qualityCallback(quality, level);
+    }
+
+    private getLevel(quality: ConnectionQuality): ConnectionQualityLevel {
+        const rtt = quality.roundTripTime || 0;
+        const loss = Math.max(
+            0,
+            ...Object.values(quality.streams).map((s) => s.packetLoss)
+        );
+        if (rtt > POOR_ROUND_TRIP_TIME || loss > POOR_PACKET_LOSS)
+            return ConnectionQualityLevel.Poor;
+        if (rtt > DEGRADED_ROUND_TRIP_TIME || loss > DEGRADED_PACKET_LOSS)
+            return ConnectionQualityLevel.Degraded;
+        return ConnectionQualityLevel.Good;
+    }
+
+    /**
+     * Drops the velocity scale to the limit of the current level, and
+     * restores the operator's choice once the connection recovers.
+     */
+    private limitVelocityScale() {
+        if (this.unlimitedVelocityScale === undefined)
+            this.unlimitedVelocityScale = FunctionProvider.velocityScale;
+
+        const velocityScale = Math.min(
+            this.unlimitedVelocityScale,
+            VELOCITY_SCALE_LIMITS[this.level]
+        );
+        if (this.level === ConnectionQualityLevel.Good)
+            this.unlimitedVelocityScale = undefined;
+        if (velocityScale === FunctionProvider.velocityScale) return;
+
+        FunctionProvider.velocityScale = velocityScale;
+        if (this.velocityScaleCallback)
+            this.velocityScaleCallback(velocityScale);
+    }
+
+    /**
+     * Records a callback from the operator. The callback is called with every
+     * new connection quality sample.
+     *
+     * @param callback callback to the operator
+     */
+    public setQualityCallback(
+        callback: (
+            quality: ConnectionQuality,
+            level: ConnectionQualityLevel
+        ) => void
+    ) {
+        this.qualityCallback = callback;
+    }
+
+    /**
+     * Records a callback from the operator. The callback is called whenever
+     * the velocity scale is changed because of the connection quality.
+     *
+     * @param callback callback to the operator
+     */
+    public setVelocityScaleCallback(callback: (velocityScale: number) => void) {
+        this.velocityScaleCallback = callback;
+    }
+}
@@ -0,0 +1,102 @@
+import { ControlRequestMessage, ControlStateMessage } from "shared/util";
+import { FunctionProvider } from "./FunctionProvider";
+
+export type ControlFunctions = {
+    requestControl: () => void;
+    grantControl: (participantId: string) => void;
+    dismissRequest: (participantId: string) => void;
+};
+
+export class ControlFunctionProvider extends FunctionProvider {
+    private controlState?: ControlStateMessage;
+    /** Requests from other operators, while this operator is in control */
+    private requests: ControlRequestMessage[] = [];
+    /**
+     * Callback function to update the control indicator in the operator
+     * header
+     */
+    private operatorCallback?: (
+        controlState: ControlStateMessage | undefined,
+        requests: ControlRequestMessage[]
+    ) => void = undefined;
+
+    constructor() {
+        super();
+        this.provideFunctions = this.provideFunctions.bind(this);
+        this.updateControlState = this.updateControlState.bind(this);
+        this.handleControlRequest = this.handleControlRequest.bind(this);
+    }
+
+    /** @returns the latest control state, if the robot announced one */
+    public getControlState(): ControlStateMessage | undefined {
+        return this.controlState;
+    }
+
+    /** @returns the pending requests from other operators */
+    public getRequests(): ControlRequestMessage[] {
+        return [...this.requests];
+    }
+
+    /**
+     * Handler for the robot announcing who is in control.
+     *
+     * @param controlState the latest control state
+     */
+    public updateControlState(controlState: ControlStateMessage) {
+        this.controlState = controlState;
+        // Only the operator in control can grant requests
+        if (!controlState.hasControl) this.requests = [];
+        this.notifyOperator();
+    }
+
+    /**
+     * Handler for another operator asking this operator for control.
+     *
+     * @param request the forwarded control request
+     */
+    public handleControlRequest(request: ControlRequestMessage) {
+        this.requests = this.requests.filter(
+            (r) => r.participantId !== request.participantId
+        );
+        this.requests.push(request);
+        this.notifyOperator();
+    }
+
+    public provideFunctions(): ControlFunctions {
+        return {
+            requestControl: () =>
+                FunctionProvider.remoteRobot?.requestControl(),
+            grantControl: (participantId: string) => {
+                FunctionProvider.remoteRobot?.grantControl(participantId);
+                this.requests = [];
+                this.notifyOperator();
+            },
+            dismissRequest: (participantId: string) => {
+                this.requests = this.requests.filter(
+                    (r) => r.participantId !== participantId
+                );
+                this.notifyOperator();
+            },
+        };
+    }
+
+    private notifyOperator() {
+        if (this.operatorCallback)
+            this.operatorCallback(this.controlState, [...this.requests]);
+    }
+
+    /**
+     * Records a callback from the operator. The callback is called whenever
+     * control changes hands or another operator asks for control.
+     *
+     * @param callback callback to the operator
+     */
+    public setOperatorCallback(
+        callback: (
+            controlState: ControlStateMessage | undefined,
+            requests: ControlRequestMessage[]
+        ) => void
+    ) {
+        this.operatorCallback = callback;
+    }
+}
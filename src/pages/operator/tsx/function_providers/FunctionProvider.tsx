@@ -11,6 +11,8 @@ export abstract class FunctionProvider {
     protected static remoteRobot?: RemoteRobot;
     public static velocityScale: number;
     public static actionMode: ActionMode;
+    /** Set while the connection is too poor for press-and-hold actions */
+    public static pressAndHoldBlocked: boolean = false;
     public activeVelocityAction?: VelocityCommand;
     public velocityExecutionHeartbeat?: number; // ReturnType<typeof setInterval>
 
@@ -40,7 +42,7 @@ export abstract class FunctionProvider {
         this.stopCurrentAction();
         this.activeVelocityAction = FunctionProvider.remoteRobot?.driveBase(
             linVel,
-            angVel,
+            angVel
         );
     }
 
@@ -50,29 +52,53 @@ export abstract class FunctionProvider {
             FunctionProvider.remoteRobot?.incrementalMove(jointName, increment);
     }
 
+    /**
+     * @returns true if continuous actions may not start because press-and-hold
+     *          is blocked by a poor connection
+     */
+    private isPressAndHoldBlocked() {
+        if (
+            FunctionProvider.pressAndHoldBlocked &&
+            FunctionProvider.actionMode === ActionMode.PressAndHold
+        ) {
+            console.warn("Press-and-hold is disabled on a poor connection");
+            return true;
+        }
+        return false;
+    }
+
     public continuousBaseDrive(linVel: number, angVel: number) {
         this.stopCurrentAction();
+        if (this.isPressAndHoldBlocked()) return;
         this.activeVelocityAction = FunctionProvider.remoteRobot?.driveBase(
             linVel,
             angVel,
+            true
         );
         this.velocityExecutionHeartbeat = window.setInterval(() => {
             this.activeVelocityAction = FunctionProvider.remoteRobot?.driveBase(
                 linVel,
                 angVel,
+                true
             );
         }, 150);
     }
 
     public continuousJointMovement(jointName: ValidJoints, increment: number) {
         this.stopCurrentAction();
+        if (this.isPressAndHoldBlocked()) return;
         this.activeVelocityAction =
-            FunctionProvider.remoteRobot?.incrementalMove(jointName, increment);
+            FunctionProvider.remoteRobot?.incrementalMove(
+                jointName,
+                increment,
+                true
+            );
         this.velocityExecutionHeartbeat = window.setInterval(() => {
             this.activeVelocityAction =
                 FunctionProvider.remoteRobot?.incrementalMove(
                     jointName,
                     increment,
+                    true
                 );
         }, 150);
     }
@@ -92,6 +118,8 @@ export abstract class FunctionProvider {
         if (this.velocityExecutionHeartbeat) {
             clearInterval(this.velocityExecutionHeartbeat);
             this.velocityExecutionHeartbeat = undefined;
+            // Let the robot's watchdog know the heartbeats stopped on purpose
+            FunctionProvider.remoteRobot?.endVelocityHeartbeat();
         }
     }
 }
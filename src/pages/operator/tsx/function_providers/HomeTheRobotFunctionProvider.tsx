@@ -1,4 +1,5 @@
 import { FunctionProvider } from "./FunctionProvider";
+import { CommandError } from "shared/remoterobot";
 import { HomeTheRobotFunction } from "../layout_components/HomeTheRobot";
 
 export class HomeTheRobotFunctionProvider extends FunctionProvider {
@@ -49,7 +50,11 @@ export class HomeTheRobotFunctionProvider extends FunctionProvider {
         switch (homeTheRobotFunction) {
             case HomeTheRobotFunction.Home:
                 return () => {
-                    FunctionProvider.remoteRobot?.homeTheRobot();
+                    FunctionProvider.remoteRobot
+                        ?.homeTheRobotAsync()
+                        .catch((error: CommandError) =>
+                            console.error("Homing failed:", error.message)
+                        );
                 };
         }
     }
@@ -1,23 +1,124 @@
-import { ROSPose } from "shared/util";
+import {
+    MapsMessage,
+    NavigationPlan,
+    NavigationPlanMessage,
+    ROSOccupancyGrid,
+    ROSPose,
+} from "shared/util";
 import { MapFunction } from "../layout_components/Map";
 import { FunctionProvider } from "./FunctionProvider";
-import { occupancyGrid } from "operator/tsx/index";
+import { CommandError } from "shared/remoterobot";
+
+/** The robot's maps, as shown by the map selector */
+export type MapsState = {
+    /** Names of the maps the robot can load */
+    maps: string[];
+    /** Name of the map the robot is using, if known */
+    active?: string;
+    /** Name of the map the robot is loading */
+    loading?: string;
+    /** Why the last map could not be loaded */
+    error?: string;
+    /** The latest complete occupancy grid */
+    grid?: ROSOccupancyGrid;
+};
 
 export class MapFunctionProvider extends FunctionProvider {
+    private mapsState: MapsState;
+    /**
+     * Callback function to update the map component when the maps or the
+     * occupancy grid change
+     */
+    private operatorCallback?: (state: MapsState) => void = undefined;
+    private navigationPlan: NavigationPlan;
+    /**
+     * Callback function to update the map component when the robot plans a
+     * new path
+     */
+    private planCallback?: (plan: NavigationPlan) => void = undefined;
+
     constructor() {
         super();
         this.provideFunctions = this.provideFunctions.bind(this);
+        this.setMaps = this.setMaps.bind(this);
+        this.updateOccupancyGrid = this.updateOccupancyGrid.bind(this);
+        this.updateNavigationPlan = this.updateNavigationPlan.bind(this);
+        this.mapsState = { maps: [] };
+        this.navigationPlan = { global: [], local: [] };
+        this.requestMaps();
+    }
+
+    /**
+     * Asks the robot for its maps and occupancy grid, e.g. again after
+     * reconnecting to it.
+     */
+    public requestMaps() {
         FunctionProvider.remoteRobot?.getOccupancyGrid("getOccupancyGrid");
+        FunctionProvider.remoteRobot?.getMaps();
+    }
+
+    /** @returns the robot's maps, and the latest occupancy grid */
+    public getMapsState(): MapsState {
+        return this.mapsState;
+    }
+
+    /**
+     * Handler for the robot listing its maps.
+     *
+     * @param message the maps and the active one
+     */
+    public setMaps(message: MapsMessage) {
+        this.mapsState = {
+            ...this.mapsState,
+            maps: message.maps,
+            active: message.active,
+        };
+        this.notifyOperator();
+    }
+
+    /**
+     * Handler for the last chunk of an occupancy grid arriving, e.g. after
+     * the robot loaded another map.
+     *
+     * @param grid the complete occupancy grid
+     */
+    public updateOccupancyGrid(grid: ROSOccupancyGrid) {
+        this.mapsState = { ...this.mapsState, grid: grid };
+        this.notifyOperator();
+    }
+
+    /** @returns the latest paths and costmap from the robot's planners */
+    public getNavigationPlan(): NavigationPlan {
+        return this.navigationPlan;
+    }
+
+    /**
+     * Handler for the robot's planners publishing a path or a costmap.
+     *
+     * @param message the parts of the plan that changed
+     */
+    public updateNavigationPlan(message: NavigationPlanMessage) {
+        // Only the parts the robot sent changed
+        this.navigationPlan = {
+            global: message.global || this.navigationPlan.global,
+            local: message.local || this.navigationPlan.local,
+            costmap: message.costmap || this.navigationPlan.costmap,
+        };
+        if (this.planCallback) this.planCallback(this.navigationPlan);
     }
 
     public provideFunctions(mapFunction: MapFunction) {
         switch (mapFunction) {
             case MapFunction.GetMap:
-                return occupancyGrid;
+                return this.mapsState.grid;
             case MapFunction.GetPose:
                 return () => {
                     return FunctionProvider.remoteRobot?.getMapPose();
                 };
+            case MapFunction.GetLaserScan:
+                return () => {
+                    return FunctionProvider.remoteRobot?.getLaserScan() || [];
+                };
             case MapFunction.MoveBase:
                 return (pose: ROSPose) => {
                     // FunctionProvider.remoteRobot?.stopExecution()
@@ -33,6 +134,55 @@ export class MapFunctionProvider extends FunctionProvider {
                     }
                     return false;
                 };
+            case MapFunction.LoadMap:
+                return (name: string) => {
+                    if (!FunctionProvider.remoteRobot) return;
+                    this.mapsState = {
+                        ...this.mapsState,
+                        loading: name,
+                        error: undefined,
+                    };
+                    this.notifyOperator();
+                    FunctionProvider.remoteRobot
+                        .loadMapAsync(name)
+                        .catch((error: CommandError) => {
+                            this.mapsState = {
+                                ...this.mapsState,
+                                error: error.message,
+                            };
+                        })
+                        .finally(() => {
+                            this.mapsState = {
+                                ...this.mapsState,
+                                loading: undefined,
+                            };
+                            this.notifyOperator();
+                        });
+                };
         }
     }
+
+    private notifyOperator() {
+        if (this.operatorCallback) this.operatorCallback(this.mapsState);
+    }
+
+    /**
+     * Sets the local pointer to the operator's callback function, to be called
+     * whenever the maps or the occupancy grid change.
+     *
+     * @param callback operator's callback function to update the map
+     */
+    public setOperatorCallback(callback: (state: MapsState) => void) {
+        this.operatorCallback = callback;
+    }
+
+    /**
+     * Sets the local pointer to the map's callback function, to be called
+     * whenever the robot plans a new path or its costmap changes.
+     *
+     * @param callback callback function to update the plan on the map
+     */
+    public setPlanCallback(callback: (plan: NavigationPlan) => void) {
+        this.planCallback = callback;
+    }
 }
@@ -28,7 +28,7 @@ export class MovementRecorderFunctionProvider extends FunctionProvider {
                     wrist_roll: boolean,
                     wrist_pitch: boolean,
                     wrist_yaw: boolean,
-                    gripper: boolean,
+                    gripper: boolean
                 ) => {
                     let prevJoint: ValidJoints | undefined;
                     let prevJointDirection: number | undefined;
@@ -42,7 +42,7 @@ export class MovementRecorderFunctionProvider extends FunctionProvider {
                                 wrist_roll,
                                 wrist_pitch,
                                 wrist_yaw,
-                                gripper,
+                                gripper
                             );
                         const prevPose =
                             this.poses.length == 0
@@ -53,7 +53,7 @@ export class MovementRecorderFunctionProvider extends FunctionProvider {
                                 if (
                                     Math.abs(
                                         currentPose[key as ValidJoints]! -
-                                            prevPose[key as ValidJoints]!,
+                                            prevPose[key as ValidJoints]!
                                     ) > 0.025
                                 ) {
                                     // If there is no prevJoint or the current joint moving has changed
@@ -63,7 +63,7 @@ export class MovementRecorderFunctionProvider extends FunctionProvider {
                                             currentPose[key as ValidJoints] -
                                                 prevPose[
                                                     prevJoint as ValidJoints
-                                                ],
+                                                ]
                                         );
                                         this.poses.push(currentPose);
                                         return;
@@ -71,7 +71,7 @@ export class MovementRecorderFunctionProvider extends FunctionProvider {
 
                                     currJointDirection = Math.sign(
                                         currentPose[key as ValidJoints] -
-                                            prevPose[prevJoint as ValidJoints],
+                                            prevPose[prevJoint as ValidJoints]
                                     );
 
                                     // If the direction of joint movement has not been changed
@@ -124,7 +124,7 @@ export class MovementRecorderFunctionProvider extends FunctionProvider {
                     let recordingNames =
                         this.storageHandler.getRecordingNames();
                     this.storageHandler.deleteRecording(
-                        recordingNames[recordingID],
+                        recordingNames[recordingID]
                     );
                 };
             case MovementRecorderFunction.DeleteRecordingName:
@@ -136,10 +136,18 @@ export class MovementRecorderFunctionProvider extends FunctionProvider {
                     let recordingNames =
                         this.storageHandler.getRecordingNames();
                     let recording = this.storageHandler.getRecording(
-                        recordingNames[recordingID],
+                        recordingNames[recordingID]
                     );
                     FunctionProvider.remoteRobot?.playbackPoses(recording);
                 };
+            case MovementRecorderFunction.RecordingWarning:
+                return (recordingID: number) => {
+                    let recordingNames =
+                        this.storageHandler.getRecordingNames();
+                    return this.storageHandler.checkRecording(
+                        recordingNames[recordingID]
+                    );
+                };
             case MovementRecorderFunction.LoadRecordingName:
                 return (name: string) => {
                     let recording = this.storageHandler.getRecording(name);
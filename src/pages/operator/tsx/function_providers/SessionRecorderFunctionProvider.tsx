@@ -0,0 +1,179 @@
+import ROSLIB from "roslib";
+import { cmd } from "shared/commands";
+import {
+    downloadFile,
+    RemoteStream,
+    ValidJointStateMessage,
+} from "shared/util";
+import {
+    packSessionBundle,
+    RECORDED_CAMERAS,
+    SESSION_BUNDLE_VERSION,
+    SessionTimeline,
+} from "shared/sessionbundle";
+import { FunctionProvider } from "./FunctionProvider";
+
+export type SessionRecorderFunctions = {
+    startRecording: () => void;
+    stopRecording: () => void;
+};
+
+export class SessionRecorderFunctionProvider extends FunctionProvider {
+    private remoteStreams: Map<string, RemoteStream>;
+    private robot?: string;
+    private timeline?: SessionTimeline;
+    private videoRecorders: { [camera: string]: MediaRecorder } = {};
+    private videoChunks: { [camera: string]: Blob[] } = {};
+    /** Callback function to update the record button in the operator header */
+    private operatorCallback?: (isRecording: boolean) => void = undefined;
+
+    /**
+     * @param remoteStreams the camera streams received from the robot
+     * @param robot fleet ID of the robot, stored with the recording
+     */
+    constructor(remoteStreams: Map<string, RemoteStream>, robot?: string) {
+        super();
+        this.remoteStreams = remoteStreams;
+        this.robot = robot;
+        this.provideFunctions = this.provideFunctions.bind(this);
+        this.recordJointState = this.recordJointState.bind(this);
+        this.recordMapPose = this.recordMapPose.bind(this);
+        this.recordCommand = this.recordCommand.bind(this);
+    }
+
+    public isRecording(): boolean {
+        return this.timeline !== undefined;
+    }
+
+    private elapsed(): number {
+        return Date.now() - this.timeline!.startTime;
+    }
+
+    public recordJointState(message: ValidJointStateMessage) {
+        if (!this.timeline) return;
+        this.timeline.jointStates.push({
+            t: this.elapsed(),
+            robotPose: message.robotPose,
+            jointsInLimits: message.jointsInLimits,
+            jointsInCollision: message.jointsInCollision,
+        });
+    }
+
+    public recordMapPose(pose: ROSLIB.Transform) {
+        if (!this.timeline) return;
+        this.timeline.mapPoses.push({ t: this.elapsed(), pose: pose });
+    }
+
+    public recordCommand(command: cmd) {
+        if (!this.timeline) return;
+        this.timeline.commands.push({ t: this.elapsed(), command: command });
+    }
+
+    /**
+     * Starts recording the camera videos, joint states, map poses and
+     * commands. Cameras whose stream has not arrived are left out.
+     */
+    private startRecording() {
+        if (this.timeline) return;
+        this.timeline = {
+            version: SESSION_BUNDLE_VERSION,
+            robot: this.robot,
+            startTime: Date.now(),
+            duration: 0,
+            videos: {},
+            jointStates: [],
+            mapPoses: [],
+            commands: [],
+        };
+        RECORDED_CAMERAS.forEach((camera) => {
+            const remoteStream = this.remoteStreams.get(camera);
+            if (!remoteStream || remoteStream.track.readyState === "ended") {
+                console.warn(`Not recording ${camera}, it has no video`);
+                return;
+            }
+            const recorder = new MediaRecorder(
+                new MediaStream([remoteStream.track]),
+                { mimeType: "video/webm" }
+            );
+            this.videoChunks[camera] = [];
+            recorder.ondataavailable = (event) => {
+                if (event.data.size > 0)
+                    this.videoChunks[camera].push(event.data);
+            };
+            recorder.start(1000);
+            this.videoRecorders[camera] = recorder;
+            this.timeline!.videos[camera] = `${camera}.webm`;
+        });
+        console.log("Started recording the session");
+        if (this.operatorCallback) this.operatorCallback(true);
+    }
+
+    /**
+     * Stops recording and downloads the session bundle, e.g. when the
+     * operator stops it or the connection to the robot drops.
+     */
+    public async stopRecording() {
+        const timeline = this.timeline;
+        if (!timeline) return;
+        this.timeline = undefined;
+        timeline.duration = Date.now() - timeline.startTime;
+        if (this.operatorCallback) this.operatorCallback(false);
+
+        const videos: { [camera: string]: Blob } = {};
+        await Promise.all(
+            Object.entries(this.videoRecorders).map(
+                ([camera, recorder]) =>
+                    new Promise<void>((resolve) => {
+                        const finish = () => {
+                            videos[camera] = new Blob(
+                                this.videoChunks[camera],
+                                { type: "video/webm" }
+                            );
+                            resolve();
+                        };
+                        // Recorders stop by themselves when their track ends
+                        if (recorder.state === "inactive") {
+                            finish();
+                            return;
+                        }
+                        recorder.onstop = finish;
+                        recorder.stop();
+                    })
+            )
+        );
+        this.videoRecorders = {};
+        this.videoChunks = {};
+
+        const bundle = await packSessionBundle({
+            timeline: timeline,
+            videos: videos,
+        });
+        const start = new Date(timeline.startTime)
+            .toISOString()
+            .replace(/[:.]/g, "-");
+        downloadFile(
+            bundle,
+            `${timeline.robot || "stretch"}-session-${start}.tar`
+        );
+        console.log("Saved the session recording");
+    }
+
+    public provideFunctions(): SessionRecorderFunctions {
+        return {
+            startRecording: () => this.startRecording(),
+            stopRecording: () => {
+                this.stopRecording();
+            },
+        };
+    }
+
+    /**
+     * Records a callback from the operator. The callback is called whenever
+     * a recording starts or stops.
+     *
+     * @param callback callback to the operator
+     */
+    public setOperatorCallback(callback: (isRecording: boolean) => void) {
+        this.operatorCallback = callback;
+    }
+}
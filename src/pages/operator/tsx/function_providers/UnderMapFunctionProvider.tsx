@@ -1,6 +1,12 @@
-import { ActionState, ROSPose, waitUntil } from "shared/util";
+import { ActionState, ROSPose, ROSQuaternion, waitUntil } from "shared/util";
+import {
+    findKeepOutZone,
+    MapAnnotation,
+    MapPoint,
+} from "../utils/map_annotations";
 import { StorageHandler } from "../storage_handler/StorageHandler";
 import { FunctionProvider } from "./FunctionProvider";
+import { CommandError } from "shared/remoterobot";
 import { resolve } from "path";
 
 export enum UnderMapButton {
@@ -15,29 +21,227 @@ export enum UnderMapButton {
     GetSavedPoses,
     NavigateToAruco,
     GoalReached,
+    GetMapAnnotations,
+    SaveMapAnnotations,
+    CheckGoal,
+    ResetMission,
+    ClearMission,
+    AddMissionPose,
+    AddMissionPoint,
+    RemoveMissionWaypoint,
+    StartMission,
+    PauseMission,
+    ResumeMission,
+    SkipMissionWaypoint,
+    AbortMission,
+    SetPoseEstimate,
+    Relocalize,
 }
 
+/** A stop of a mission */
+export type MissionWaypoint = {
+    name: string;
+    position: MapPoint;
+    /** Heading at the stop, clicked points face the way the robot drove */
+    orientation?: ROSQuaternion;
+};
+
+export enum MissionStatus {
+    Planning = "planning",
+    Running = "running",
+    Paused = "paused",
+    Done = "done",
+    Aborted = "aborted",
+    Failed = "failed",
+}
+
+/** An ordered list of waypoints and how far the robot got through it */
+export type MissionState = {
+    waypoints: MissionWaypoint[];
+    status: MissionStatus;
+    /** Index of the waypoint the robot is driving to, or would drive to next */
+    current: number;
+    /** Why the mission failed */
+    error?: string;
+    /** Map the waypoints were placed on */
+    map?: string;
+};
+
 export class UnderMapFunctionProvider extends FunctionProvider {
     private selectGoal: boolean;
     private storageHandler: StorageHandler;
     private navigationSuccess?: boolean;
+    private mission: MissionState;
+    /**
+     * Incremented whenever the mission is paused, skips a waypoint or stops,
+     * so goals sent before then are ignored when they end
+     */
+    private missionRun: number;
     /**
      * Callback function to update the move base state in the operator
      */
     private operatorCallback?: (state: ActionState) => void = undefined;
+    /**
+     * Callback function to update the map when the mission changes
+     */
+    private missionCallback?: (mission: MissionState) => void = undefined;
 
     constructor(storageHandler: StorageHandler) {
         super();
         this.provideFunctions = this.provideFunctions.bind(this);
         this.selectGoal = false;
         this.storageHandler = storageHandler;
+        this.mission = {
+            waypoints: [],
+            status: MissionStatus.Planning,
+            current: 0,
+        };
+        this.missionRun = 0;
+    }
+
+    /** @returns the mission's waypoints and how far the robot got */
+    public getMission(): MissionState {
+        return this.mission;
     }
 
     public setMoveBaseState(state: ActionState) {
         if (state.alert_type == "success") this.navigationSuccess = true;
+        this.showAlert(state);
+    }
+
+    /**
+     * Shows a message where the navigation status is shown, without it
+     * counting as the result of a goal.
+     */
+    private showAlert(state: ActionState) {
         if (this.operatorCallback) this.operatorCallback(state);
     }
 
+    /**
+     * Refuses goals inside the keep-out zones of the robot's current map.
+     * @param goal position of the navigation goal
+     * @returns true if the robot may be sent to the goal
+     */
+    private checkGoal(goal: MapPoint): boolean {
+        const zone = findKeepOutZone(
+            this.storageHandler.getMapAnnotations(),
+            goal
+        );
+        if (!zone) return true;
+        this.setMoveBaseState({
+            state: `The goal is inside the keep-out zone "${zone.name}"`,
+            alert_type: "error",
+        });
+        return false;
+    }
+
+    private updateMission(mission: Partial<MissionState>) {
+        this.mission = { ...this.mission, ...mission };
+        if (this.missionCallback) this.missionCallback(this.mission);
+    }
+
+    /** @returns true while the robot is driving to the mission's waypoints */
+    private missionActive(): boolean {
+        return (
+            this.mission.status === MissionStatus.Running ||
+            this.mission.status === MissionStatus.Paused
+        );
+    }
+
+    /**
+     * Adds a waypoint at the end of the mission, unless it is inside a
+     * keep-out zone.
+     */
+    private addWaypoint(waypoint: MissionWaypoint) {
+        if (!this.checkGoal(waypoint.position)) return;
+        // Waypoints can be added to a mission that ended to run it again
+        const status = this.missionActive()
+            ? this.mission.status
+            : MissionStatus.Planning;
+        this.updateMission({
+            waypoints: [...this.mission.waypoints, waypoint],
+            status: status,
+            error: undefined,
+        });
+    }
+
+    /** Stops the mission and removes its waypoints */
+    private clearMission(map?: string) {
+        if (this.missionActive()) {
+            this.missionRun++;
+            FunctionProvider.remoteRobot?.stopMoveBase();
+        }
+        this.updateMission({
+            waypoints: [],
+            status: MissionStatus.Planning,
+            current: 0,
+            error: undefined,
+            map: map,
+        });
+    }
+
+    /**
+     * @param waypoint the waypoint to drive to
+     * @returns the goal to send to the robot
+     */
+    private waypointPose(waypoint: MissionWaypoint): ROSPose {
+        let orientation = waypoint.orientation;
+        if (!orientation) {
+            // Face away from where the robot is, i.e. the way it drove
+            const robot = FunctionProvider.remoteRobot?.getMapPose();
+            const yaw = robot
+                ? Math.atan2(
+                      waypoint.position.y - robot.translation.y,
+                      waypoint.position.x - robot.translation.x
+                  )
+                : 0;
+            orientation = {
+                x: 0,
+                y: 0,
+                z: Math.sin(yaw / 2),
+                w: Math.cos(yaw / 2),
+            } as ROSQuaternion;
+        }
+        return {
+            position: { x: waypoint.position.x, y: waypoint.position.y, z: 0 },
+            orientation: orientation,
+        } as ROSPose;
+    }
+
+    /**
+     * Drives to the remaining waypoints one after the other, until the
+     * mission ends or is paused.
+     */
+    private async runMission() {
+        const run = ++this.missionRun;
+        while (this.mission.current < this.mission.waypoints.length) {
+            const waypoint = this.mission.waypoints[this.mission.current];
+            // The keep-out zones may have changed since it was added
+            if (!this.checkGoal(waypoint.position)) {
+                this.updateMission({
+                    status: MissionStatus.Failed,
+                    error: `${waypoint.name} is inside a keep-out zone`,
+                });
+                return;
+            }
+            try {
+                await FunctionProvider.remoteRobot?.moveBaseAsync(
+                    this.waypointPose(waypoint)
+                );
+            } catch (error) {
+                if (run !== this.missionRun) return;
+                this.updateMission({
+                    status: MissionStatus.Failed,
+                    error: `Could not reach ${waypoint.name}: ${(error as CommandError).message}`,
+                });
+                return;
+            }
+            if (run !== this.missionRun) return;
+            this.updateMission({ current: this.mission.current + 1 });
+        }
+        this.updateMission({ status: MissionStatus.Done });
+    }
+
     public provideFunctions(button: UnderMapButton) {
         switch (button) {
             case UnderMapButton.SelectGoal:
@@ -48,7 +252,7 @@ export class UnderMapFunctionProvider extends FunctionProvider {
                 return () => FunctionProvider.remoteRobot?.stopMoveBase();
             case UnderMapButton.DeleteGoal:
                 return (idx: number) => {
-                    let poses = this.storageHandler.getMapPoseNames();
+                    let poses = this.storageHandler.getActiveMapPoseNames();
                     this.storageHandler.deleteMapPose(poses[idx]);
                 };
             case UnderMapButton.SaveGoal:
@@ -60,8 +264,17 @@ export class UnderMapFunctionProvider extends FunctionProvider {
             case UnderMapButton.LoadGoal:
                 return (idx: number) => {
                     this.navigationSuccess = undefined;
-                    let poses = this.storageHandler.getMapPoseNames();
+                    let poses = this.storageHandler.getActiveMapPoseNames();
                     let pose = this.storageHandler.getMapPose(poses[idx]);
+                    if (!this.checkGoal(pose.translation)) return;
+                    const warning = this.storageHandler.checkMapPose(
+                        poses[idx]
+                    );
+                    if (warning)
+                        this.setMoveBaseState({
+                            state: warning,
+                            alert_type: "warning",
+                        });
                     let rosPose = {
                         position: {
                             x: pose.translation.x,
@@ -75,16 +288,31 @@ export class UnderMapFunctionProvider extends FunctionProvider {
                             w: pose.rotation.w,
                         },
                     } as ROSPose;
-                    FunctionProvider.remoteRobot?.moveBase(rosPose);
+                    FunctionProvider.remoteRobot
+                        ?.moveBaseAsync(rosPose)
+                        .catch((error: CommandError) => {
+                            // Failures once navigation started are already
+                            // reported through the move base state
+                            if (error.status == "rejected")
+                                this.setMoveBaseState({
+                                    state: error.message,
+                                    alert_type: "error",
+                                });
+                            else console.warn(error.message);
+                        });
                     return pose.translation;
                 };
             case UnderMapButton.NavigateToAruco:
                 return (idx: number) => {
                     let poseTypes = this.storageHandler.getMapPoseTypes();
-                    if (poseTypes[idx] != "ARUCO") return;
+                    let poseNames = this.storageHandler.getMapPoseNames();
+                    let poseName =
+                        this.storageHandler.getActiveMapPoseNames()[idx];
+                    if (poseTypes[poseNames.indexOf(poseName)] != "ARUCO")
+                        return;
                     waitUntil(
                         () => this.navigationSuccess != undefined,
-                        120000,
+                        120000
                     ).then(() => {
                         // If navigation failed don't try navigating to marker
                         if (!this.navigationSuccess) {
@@ -93,8 +321,7 @@ export class UnderMapFunctionProvider extends FunctionProvider {
                         }
 
                         this.navigationSuccess = undefined;
-                        let poseNames = this.storageHandler.getMapPoseNames();
-                        let name = poseNames[idx];
+                        let name = poseName;
                         let markerNames =
                             this.storageHandler.getArucoMarkerNames();
                         let markerIndex = markerNames.indexOf(name);
@@ -119,7 +346,7 @@ export class UnderMapFunctionProvider extends FunctionProvider {
                         }
                         FunctionProvider.remoteRobot?.navigateToAruco(
                             name,
-                            pose,
+                            pose
                         );
                     });
                 };
@@ -129,15 +356,21 @@ export class UnderMapFunctionProvider extends FunctionProvider {
                 };
             case UnderMapButton.GetSavedPoseNames:
                 return () => {
-                    return this.storageHandler.getMapPoseNames();
+                    return this.storageHandler.getActiveMapPoseNames();
                 };
             case UnderMapButton.GetSavedPoseTypes:
                 return () => {
-                    return this.storageHandler.getMapPoseTypes();
+                    const types = this.storageHandler.getMapPoseTypes();
+                    const names = this.storageHandler.getMapPoseNames();
+                    return this.storageHandler
+                        .getActiveMapPoseNames()
+                        .map((name) => types[names.indexOf(name)]);
                 };
             case UnderMapButton.GetSavedPoses:
                 return () => {
-                    return this.storageHandler.getMapPoses();
+                    return this.storageHandler
+                        .getActiveMapPoseNames()
+                        .map((name) => this.storageHandler.getMapPose(name));
                 };
             case UnderMapButton.GoalReached:
                 return () => {
@@ -153,9 +386,149 @@ export class UnderMapFunctionProvider extends FunctionProvider {
                     });
                     return promise;
                 };
+            case UnderMapButton.GetMapAnnotations:
+                return () => this.storageHandler.getMapAnnotations();
+            case UnderMapButton.SaveMapAnnotations:
+                return (annotations: MapAnnotation[]) =>
+                    this.storageHandler.saveMapAnnotations(annotations);
+            case UnderMapButton.CheckGoal:
+                return (goal: MapPoint) => this.checkGoal(goal);
+            case UnderMapButton.ResetMission:
+                return (map: string) => {
+                    // The waypoints are only meaningful on their map
+                    if (this.mission.map !== map) this.clearMission(map);
+                };
+            case UnderMapButton.ClearMission:
+                return () => this.clearMission(this.mission.map);
+            case UnderMapButton.AddMissionPose:
+                return (idx: number) => {
+                    let poses = this.storageHandler.getActiveMapPoseNames();
+                    let pose = this.storageHandler.getMapPose(poses[idx]);
+                    this.addWaypoint({
+                        name: poses[idx],
+                        position: {
+                            x: pose.translation.x,
+                            y: pose.translation.y,
+                        },
+                        orientation: {
+                            x: pose.rotation.x,
+                            y: pose.rotation.y,
+                            z: pose.rotation.z,
+                            w: pose.rotation.w,
+                        } as ROSQuaternion,
+                    });
+                };
+            case UnderMapButton.AddMissionPoint:
+                return (point: MapPoint) =>
+                    this.addWaypoint({
+                        name: `Point ${this.mission.waypoints.length + 1}`,
+                        position: { x: point.x, y: point.y },
+                    });
+            case UnderMapButton.RemoveMissionWaypoint:
+                return (idx: number) => {
+                    // Waypoints already reached or being driven to stay
+                    if (this.missionActive() && idx <= this.mission.current)
+                        return;
+                    this.updateMission({
+                        waypoints: this.mission.waypoints.filter(
+                            (_, i) => i !== idx
+                        ),
+                    });
+                };
+            case UnderMapButton.StartMission:
+                return () => {
+                    if (this.missionActive()) return;
+                    if (this.mission.waypoints.length === 0) return;
+                    this.updateMission({
+                        status: MissionStatus.Running,
+                        current: 0,
+                        error: undefined,
+                    });
+                    this.runMission();
+                };
+            case UnderMapButton.PauseMission:
+                return () => {
+                    if (this.mission.status !== MissionStatus.Running) return;
+                    this.missionRun++;
+                    FunctionProvider.remoteRobot?.stopMoveBase();
+                    this.updateMission({ status: MissionStatus.Paused });
+                };
+            case UnderMapButton.ResumeMission:
+                return () => {
+                    if (this.mission.status !== MissionStatus.Paused) return;
+                    // Drives to the waypoint it was paused on again
+                    this.updateMission({ status: MissionStatus.Running });
+                    this.runMission();
+                };
+            case UnderMapButton.SkipMissionWaypoint:
+                return () => {
+                    if (!this.missionActive()) return;
+                    this.updateMission({ current: this.mission.current + 1 });
+                    if (this.mission.status === MissionStatus.Paused) {
+                        if (
+                            this.mission.current >=
+                            this.mission.waypoints.length
+                        )
+                            this.updateMission({ status: MissionStatus.Done });
+                        return;
+                    }
+                    // The next goal replaces the one the robot is driving to
+                    if (this.mission.current < this.mission.waypoints.length)
+                        this.runMission();
+                    else {
+                        this.missionRun++;
+                        FunctionProvider.remoteRobot?.stopMoveBase();
+                        this.updateMission({ status: MissionStatus.Done });
+                    }
+                };
+            case UnderMapButton.SetPoseEstimate:
+                return (pose: ROSPose) => {
+                    FunctionProvider.remoteRobot
+                        ?.setPoseEstimateAsync(pose)
+                        .then(() =>
+                            this.showAlert({
+                                state: "Pose estimate set",
+                                alert_type: "success",
+                            })
+                        )
+                        .catch((error: CommandError) =>
+                            this.showAlert({
+                                state: error.message,
+                                alert_type: "error",
+                            })
+                        );
+                };
+            case UnderMapButton.Relocalize:
+                return () => {
+                    this.showAlert({
+                        state: "Relocalizing, drive the robot around a little so it can find where it is",
+                        alert_type: "info",
+                    });
+                    FunctionProvider.remoteRobot
+                        ?.relocalizeAsync()
+                        .then(() =>
+                            this.showAlert({
+                                state: "Relocalized, check that the robot is where it should be on the map",
+                                alert_type: "success",
+                            })
+                        )
+                        .catch((error: CommandError) =>
+                            this.showAlert({
+                                state: error.message,
+                                alert_type: "error",
+                            })
+                        );
+                };
+            case UnderMapButton.AbortMission:
+                return () => {
+                    if (!this.missionActive()) return;
+                    this.missionRun++;
+                    FunctionProvider.remoteRobot?.stopMoveBase();
+                    this.updateMission({ status: MissionStatus.Aborted });
+                };
             default:
                 throw Error(
-                    `Cannot get function for unknown UnderMapButton ${button}`,
+                    `Cannot get function for unknown UnderMapButton ${button}`
                 );
         }
     }
@@ -169,4 +542,14 @@ export class UnderMapFunctionProvider extends FunctionProvider {
     public setOperatorCallback(callback: (state: ActionState) => void) {
         this.operatorCallback = callback;
     }
+
+    /**
+     * Sets the local pointer to the map's callback function, to be called
+     * whenever the mission changes.
+     *
+     * @param callback callback function to update the mission on the map
+     */
+    public setMissionCallback(callback: (mission: MissionState) => void) {
+        this.missionCallback = callback;
+    }
 }
@@ -9,6 +9,7 @@ import {
     StretchTool,
     delay,
     getStretchTool,
+    mapIdentity,
     waitUntil,
 } from "shared/util";
 import { RemoteRobot } from "shared/remoterobot";
@@ -18,6 +19,7 @@ import { DEFAULT_VELOCITY_SCALE } from "./static_components/SpeedControl";
 import { StorageHandler } from "./storage_handler/StorageHandler";
 import { FirebaseStorageHandler } from "./storage_handler/FirebaseStorageHandler";
 import { LocalStorageHandler } from "./storage_handler/LocalStorageHandler";
+import { ServerStorageHandler } from "./storage_handler/ServerStorageHandler";
 import { FirebaseOptions } from "firebase/app";
 import { ButtonFunctionProvider } from "./function_providers/ButtonFunctionProvider";
 import { FunctionProvider } from "./function_providers/FunctionProvider";
@@ -34,8 +36,18 @@ import "operator/css/index.css";
 import { RunStopFunctionProvider } from "./function_providers/RunStopFunctionProvider";
 import { BatteryVoltageFunctionProvider } from "./function_providers/BatteryVoltageFunctionProvider";
 import { WebGazerFunctionProvider } from "./function_providers/WebGazerFunctionProvider";
+import { ConnectionQualityFunctionProvider } from "./function_providers/ConnectionQualityFunctionProvider";
+import { ControlFunctionProvider } from "./function_providers/ControlFunctionProvider";
+import { SessionRecorderFunctionProvider } from "./function_providers/SessionRecorderFunctionProvider";
 import { waitUntilAsync } from "../../../shared/util";
 
+/**
+ * How long the connection may stay down before the operator gives up on it
+ * and reconnects. Longer than an ICE restart takes, so a
+ * restart gets a chance to recover the connection first.
+ */
+const RECONNECT_AFTER_MS = 10000;
+
 let allRemoteStreams: Map<string, RemoteStream> = new Map<
     string,
     RemoteStream
@@ -43,10 +55,21 @@ let allRemoteStreams: Map<string, RemoteStream> = new Map<
 let remoteRobot: RemoteRobot;
 let connection: WebRTCConnection;
 let root: Root;
+/** Whether the operator is trying to reconnect after the connection dropped */
+let reconnecting = false;
 export let hasBetaTeleopKit: boolean;
 export let stretchTool: StretchTool;
 export let occupancyGrid: ROSOccupancyGrid | undefined = undefined;
 export let storageHandler: StorageHandler;
+/** Observers watch the session without being able to control the robot */
+export const isObserver =
+    new URL(window.location.href).searchParams.get("role") === "observer";
+/** Fleet ID of the robot, if the operator page was opened with one */
+const robotId =
+    new URL(window.location.href).searchParams.get("robot") || undefined;
+/** Name shown to the other participants, e.g. as the operator in control */
+const participantName =
+    new URL(window.location.href).searchParams.get("name") || undefined;
 
 // Create the function providers. These abstract the logic between the React
 // components and remote robot.
@@ -65,6 +88,12 @@ export var homeTheRobotFunctionProvider: HomeTheRobotFunctionProvider =
     new HomeTheRobotFunctionProvider();
 export var webGazerFunctionProvider: WebGazerFunctionProvider =
     new WebGazerFunctionProvider();
+export var connectionQualityFunctionProvider: ConnectionQualityFunctionProvider =
+    new ConnectionQualityFunctionProvider();
+export var controlFunctionProvider: ControlFunctionProvider =
+    new ControlFunctionProvider();
+export var sessionRecorderFunctionProvider: SessionRecorderFunctionProvider =
+    new SessionRecorderFunctionProvider(allRemoteStreams, robotId);
 
 // Create the WebRTC connection and connect the operator room
 connection = new WebRTCConnection({
@@ -89,12 +118,24 @@ new Promise<void>(async (resolve) => {
     await connection.configure_signaler(room_name);
     console.log("Signaler ready!");
 
+    await connectToRobot();
+    initializeOperator();
+    resolve();
+});
+
+/**
+ * Joins the robot room and waits until data flows from the robot, retrying
+ * until it succeeds.
+ */
+async function connectToRobot() {
     let connected = false;
     while (!connected) {
         connection.hangup();
 
         // Attempt to join robot room
-        let joinedRobotRoom = await connection.addOperatorToRobotRoom();
+        let joinedRobotRoom = isObserver
+            ? await connection.addObserverToRobotRoom(participantName)
+            : await connection.addOperatorToRobotRoom(participantName);
         if (!joinedRobotRoom) {
             console.log("Operator failed to join robot room");
             await delay(500);
@@ -104,7 +145,7 @@ new Promise<void>(async (resolve) => {
         // Wait for WebRTC connection to resolve, timeout after 10 seconds
         let isResolved = await waitUntil(
             () => connection.connectionState() == "connected",
-            10000,
+            10000
         );
         if (!isResolved) {
             console.warn("WebRTC connection could not resolve");
@@ -115,7 +156,7 @@ new Promise<void>(async (resolve) => {
         // Wait for data to flow through the data channel, timeout after 10 seconds
         connected = await waitUntilAsync(
             async () => await connection.isConnected(),
-            10000,
+            10000
         );
         if (!connected) {
             console.warn("No data flowing through data channel");
@@ -124,10 +165,23 @@ new Promise<void>(async (resolve) => {
         }
 
         await delay(1000); // 1 second delay to allow data to flow through data channel
-        initializeOperator();
-        resolve();
     }
-});
+}
+
+/**
+ * Reconnects to the robot after the connection dropped, then re-renders the
+ * operator so the camera views show the new tracks. The new remote robot
+ * sends the camera settings of the previous one again.
+ */
+async function reconnectToRobot() {
+    if (reconnecting) return;
+    reconnecting = true;
+    console.warn("Reconnecting to the robot");
+    await connectToRobot();
+    reconnecting = false;
+    console.log("Reconnected to the robot");
+    if (storageHandler) mountOperator(storageHandler);
+}
 
 // Create root once when index is loaded
 const container = document.getElementById("root");
@@ -148,6 +202,13 @@ function handleRemoteTrackAdded(event: RTCTrackEvent) {
     }
     console.log("OPERATOR: adding remote tracks");
 
+    // After a reconnect the robot sends new tracks for the same cameras,
+    // which replace the ended tracks of the previous session
+    const previous = allRemoteStreams.get(streamName);
+    if (previous && previous.track.id !== track.id) {
+        console.log("Replacing remote track", streamName);
+        previous.track.stop();
+    }
     allRemoteStreams.set(streamName, { track: track, stream: stream });
 }
 
@@ -166,10 +227,11 @@ function handleWebRTCMessage(message: WebRTCMessage | WebRTCMessage[]) {
 
     switch (message.type) {
         case "validJointState":
+            sessionRecorderFunctionProvider.recordJointState(message);
             remoteRobot.sensors.checkValidJointState(
                 message.robotPose,
                 message.jointsInLimits,
-                message.jointsInCollision,
+                message.jointsInCollision
             );
             break;
         case "mode":
@@ -187,17 +249,42 @@ function handleWebRTCMessage(message: WebRTCMessage | WebRTCMessage[]) {
         case "stretchTool":
             console.log("index stretchTool", message.value);
             stretchTool = getStretchTool(message.value);
+            storageHandler?.updateScope({ tool: stretchTool });
             break;
         case "occupancyGrid":
-            if (!occupancyGrid) {
+            // The grid arrives in chunks. Once it is complete, another chunk
+            // starts a new copy, e.g. requested by another participant.
+            if (
+                !occupancyGrid ||
+                occupancyGrid.data.length >=
+                    occupancyGrid.info.width * occupancyGrid.info.height
+            ) {
                 occupancyGrid = message.message;
+                storageHandler?.updateScope({
+                    map: mapIdentity(message.message.info),
+                });
             } else {
                 occupancyGrid.data = occupancyGrid.data.concat(
-                    message.message.data,
+                    message.message.data
                 );
             }
+            if (
+                occupancyGrid.data.length >=
+                occupancyGrid.info.width * occupancyGrid.info.height
+            )
+                mapFunctionProvider?.updateOccupancyGrid(occupancyGrid);
+            break;
+        case "maps":
+            mapFunctionProvider?.setMaps(message);
+            break;
+        case "navigationPlan":
+            mapFunctionProvider?.updateNavigationPlan(message);
+            break;
+        case "laserScan":
+            remoteRobot.setLaserScan(message.points);
             break;
         case "amclPose":
+            sessionRecorderFunctionProvider.recordMapPose(message.message);
             remoteRobot.setMapPose(message.message);
             break;
         case "goalStatus":
@@ -222,6 +309,24 @@ function handleWebRTCMessage(message: WebRTCMessage | WebRTCMessage[]) {
         case "batteryVoltage":
             remoteRobot.sensors.setBatteryVoltage(message.message);
             break;
+        case "velocityWatchdog":
+            console.warn("velocityWatchdog", message.message);
+            buttonFunctionProvider.setVelocityWatchdogState(message.message);
+            break;
+        case "controlState":
+            controlFunctionProvider.updateControlState(message);
+            break;
+        case "controlRequest":
+            controlFunctionProvider.handleControlRequest(message);
+            break;
+        case "commandResult":
+            remoteRobot.handleCommandResult(message);
+            break;
+        case "protocolError":
+            console.error(
+                `Robot rejected ${message.rejectedType} message (${message.code}): ${message.message}`
+            );
+            break;
         default:
             throw Error(`unhandled WebRTC message type ${message.type}`);
     }
@@ -236,14 +341,18 @@ function initializeOperator() {
     const storageHandlerReadyCallback = () => {
         underMapFunctionProvider = new UnderMapFunctionProvider(storageHandler);
         movementRecorderFunctionProvider = new MovementRecorderFunctionProvider(
-            storageHandler,
+            storageHandler
         );
         textToSpeechFunctionProvider = new TextToSpeechFunctionProvider(
-            storageHandler,
+            storageHandler
         );
         renderOperator(storageHandler);
     };
     storageHandler = createStorageHandler(storageHandlerReadyCallback);
+    storageHandler.updateScope({
+        tool: stretchTool,
+        map: occupancyGrid ? mapIdentity(occupancyGrid.info) : undefined,
+    });
 }
 
 /**
@@ -251,31 +360,45 @@ function initializeOperator() {
  * WebRTC connection.
  */
 function configureRemoteRobot() {
+    const previousRemoteRobot = remoteRobot;
     remoteRobot = new RemoteRobot({
-        robotChannel: (message: cmd) => connection.sendData(message),
+        robotChannel: (message: cmd) => {
+            if (isObserver) {
+                console.warn(`Observers cannot send ${message.type} commands`);
+                return;
+            }
+            connection.sendData(message);
+            sessionRecorderFunctionProvider.recordCommand(message);
+        },
     });
     occupancyGrid = undefined;
     remoteRobot.getHasBetaTeleopKit("getHasBetaTeleopKit");
     remoteRobot.getStretchTool("getStretchTool");
+    if (previousRemoteRobot) remoteRobot.restoreSettings(previousRemoteRobot);
     FunctionProvider.addRemoteRobot(remoteRobot);
-    mapFunctionProvider = new MapFunctionProvider();
+    // The map component keeps using the same provider after a reconnect
+    if (mapFunctionProvider) mapFunctionProvider.requestMaps();
+    else mapFunctionProvider = new MapFunctionProvider();
     remoteRobot.sensors.setFunctionProviderCallback(
-        buttonFunctionProvider.updateJointStates,
+        buttonFunctionProvider.updateJointStates
     );
     remoteRobot.sensors.setJointStateFunctionProviderCallback(
-        underVideoFunctionProvider.jointStateCallback,
+        underVideoFunctionProvider.jointStateCallback
     );
     remoteRobot.sensors.setBatteryFunctionProviderCallback(
-        batteryVoltageFunctionProvider.updateVoltage,
+        batteryVoltageFunctionProvider.updateVoltage
     );
     remoteRobot.sensors.setModeFunctionProviderCallback(
-        homeTheRobotFunctionProvider.updateModeState,
+        homeTheRobotFunctionProvider.updateModeState
     );
     remoteRobot.sensors.setIsHomedFunctionProviderCallback(
-        homeTheRobotFunctionProvider.updateIsHomedState,
+        homeTheRobotFunctionProvider.updateIsHomedState
     );
     remoteRobot.sensors.setRunStopFunctionProviderCallback(
-        runStopFunctionProvider.updateRunStopState,
+        runStopFunctionProvider.updateRunStopState
+    );
+    connection.startQualityMonitor(
+        connectionQualityFunctionProvider.updateQuality
     );
 }
 
@@ -300,9 +423,18 @@ function createStorageHandler(storageHandlerReadyCallback: () => void) {
             return new FirebaseStorageHandler(
                 storageHandlerReadyCallback,
                 config,
+                robotId
+            );
+        case "server":
+            return new ServerStorageHandler(
+                storageHandlerReadyCallback,
+                robotId
             );
         default:
-            return new LocalStorageHandler(storageHandlerReadyCallback);
+            return new LocalStorageHandler(
+                storageHandlerReadyCallback,
+                robotId
+            );
     }
 }
 
@@ -314,51 +446,77 @@ function createStorageHandler(storageHandlerReadyCallback: () => void) {
 function renderOperator(storageHandler: StorageHandler) {
     const layout = storageHandler.loadCurrentLayoutOrDefault();
     FunctionProvider.initialize(DEFAULT_VELOCITY_SCALE, layout.actionMode);
+    mountOperator(storageHandler);
+
+    var loader = document.createElement("div");
+    loader.className = "loader";
+    var loaderText = document.createElement("div");
+    loaderText.className = "reconnecting-text";
+    var text = document.createElement("p");
+    text.textContent = "Reconnecting...";
+    loaderText.appendChild(text);
+    var loaderBackground = document.createElement("div");
+    loaderBackground.className = "loader-background";
+
+    let disconnectedSince: number | undefined = undefined;
+    setInterval(async () => {
+        let connected = await connection.isConnected();
+        // Only the desktop interface shows that it is reconnecting
+        if (!isMobile && !connected && !window.document.body.contains(loader)) {
+            window.document.body.appendChild(loaderBackground);
+            window.document.body.appendChild(loaderText);
+            window.document.body.appendChild(loader);
+        } else if (connected && window.document.body.contains(loader)) {
+            window.document.body.removeChild(loaderBackground);
+            window.document.body.removeChild(loaderText);
+            window.document.body.removeChild(loader);
+        }
+
+        // Connections can also end without the peer connection failing,
+        // e.g. when the robot page is reloaded
+        if (connected || reconnecting) {
+            disconnectedSince = undefined;
+        } else if (disconnectedSince === undefined) {
+            disconnectedSince = Date.now();
+        } else if (Date.now() - disconnectedSince > RECONNECT_AFTER_MS) {
+            disconnectedSince = undefined;
+            disconnectFromRobot();
+        }
+    }, 1000);
+}
 
+/**
+ * Renders the operator from the current layout. Rendering it again keeps its
+ * state, and the camera views pick up the streams of a new connection from
+ * the new copy of the remote streams.
+ *
+ * @param storageHandler the storage handler
+ */
+function mountOperator(storageHandler: StorageHandler) {
+    const layout = storageHandler.loadCurrentLayoutOrDefault();
+    const remoteStreams = new Map(allRemoteStreams);
     !isMobile
         ? root.render(
               <Operator
-                  remoteStreams={allRemoteStreams}
+                  remoteStreams={remoteStreams}
                   layout={layout}
                   storageHandler={storageHandler}
-              />,
+              />
           )
         : root.render(
               <MobileOperator
-                  remoteStreams={allRemoteStreams}
+                  remoteStreams={remoteStreams}
                   storageHandler={storageHandler}
-              />,
+              />
           );
-
-    if (!isMobile) {
-        var loader = document.createElement("div");
-        loader.className = "loader";
-        var loaderText = document.createElement("div");
-        loaderText.className = "reconnecting-text";
-        var text = document.createElement("p");
-        text.textContent = "Reconnecting...";
-        loaderText.appendChild(text);
-        var loaderBackground = document.createElement("div");
-        loaderBackground.className = "loader-background";
-
-        setInterval(async () => {
-            let connected = await connection.isConnected();
-            if (!connected && !window.document.body.contains(loader)) {
-                window.document.body.appendChild(loaderBackground);
-                window.document.body.appendChild(loaderText);
-                window.document.body.appendChild(loader);
-            } else if (connected && window.document.body.contains(loader)) {
-                window.document.body.removeChild(loaderBackground);
-                window.document.body.removeChild(loaderText);
-                window.document.body.removeChild(loader);
-            }
-        }, 1000);
-    }
 }
 
 function disconnectFromRobot() {
-    connection.hangup();
-    connection.stop();
+    remoteRobot?.rejectPendingCommands("Lost connection to the robot");
+    connection.stopQualityMonitor();
+    // The videos end with the connection, save what was recorded so far
+    sessionRecorderFunctionProvider.stopRecording();
+    reconnectToRobot();
 }
 
 window.onbeforeunload = () => {
@@ -98,7 +98,7 @@ export const CameraView = (props: CustomizableComponentProps) => {
     // Get the stream to display inside the video
     const stream: MediaStream = React.useMemo(
         () => getStream(definition.id, props.sharedState.remoteStreams),
-        [definition],
+        [definition, props.sharedState.remoteStreams],
     );
 
     React.useEffect(() => {
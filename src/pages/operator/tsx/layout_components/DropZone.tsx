@@ -8,6 +8,7 @@ import {
     LayoutDefinition,
 } from "../utils/component_definitions";
 import { SharedState } from "./CustomizableComponent";
+import { canDropInto } from "../utils/layout_helpers";
 import { className } from "shared/util";
 import { PopupModal } from "../basic_components/PopupModal";
 import "operator/css/DropZone.css";
@@ -56,8 +57,7 @@ export const DropZone = (props: DropZoneProps) => {
         }
 
         // Must pass drop zone rules about which components can go where
-        if (!dropzoneRules(selectedDefinition.type, parentDef.type))
-            return false;
+        if (!canDropInto(parentDef.type, selectedDefinition.type)) return false;
 
         // Don't need to check if dropzone is adjacent if the active component
         // is coming from the sidebar component provider
@@ -115,7 +115,7 @@ export const DropZone = (props: DropZoneProps) => {
             ComponentType.Panel
         )
             throw Error(
-                `Should only call createNewPanel() when the active selected component is of type Panel`,
+                `Should only call createNewPanel() when the active selected component is of type Panel`
             );
 
         const def = props.sharedState.dropZoneState
@@ -123,12 +123,12 @@ export const DropZone = (props: DropZoneProps) => {
 
         if (def.children.length > 1)
             throw Error(
-                `createNewPanel() called with active panel definition that already has children: ${def.children}`,
+                `createNewPanel() called with active panel definition that already has children: ${def.children}`
             );
 
         if (props.sharedState.selectedPath !== undefined)
             throw Error(
-                `Called createNewPanel() when active selected path was not undefined ${props.sharedState.selectedPath}`,
+                `Called createNewPanel() when active selected path was not undefined ${props.sharedState.selectedPath}`
             );
 
         // Create a child tab and add it to the Panel's children
@@ -215,48 +215,6 @@ const NewPanelModal = (props: {
     );
 };
 
-/**
- * Checks if the active component is allowed to be placed in this drop zone.
- *
- * @param active type of the active component the user selected
- * @param parent type of the parent component containing this drop zone
- * @returns true if the active component is allowed to be dropped, false otherwise
- */
-function dropzoneRules(active: ComponentType, parent: ComponentType) {
-    // Tabs can only go into layout
-    if (
-        active === ComponentType.Panel &&
-        parent !== ComponentType.LayoutGrid &&
-        parent !== ComponentType.Layout
-    )
-        return false;
-
-    // Single tab can only go into tabs
-    if (active === ComponentType.SingleTab && parent !== ComponentType.Panel)
-        return false;
-
-    // Only tabs can go into panel
-    if (
-        active !== ComponentType.Panel &&
-        (parent === ComponentType.LayoutGrid || parent == ComponentType.Layout)
-    )
-        return false;
-
-    // Only single tab can go into tabs
-    if (active !== ComponentType.SingleTab && parent === ComponentType.Panel)
-        return false;
-
-    // Only button pad and predictive display can go into video stream
-    if (
-        active !== ComponentType.ButtonPad &&
-        active !== ComponentType.PredictiveDisplay &&
-        parent === ComponentType.CameraView
-    )
-        return false;
-
-    return true;
-}
-
 /**
  * Checks if two paths are adjacent to one another.
  *
@@ -278,7 +236,7 @@ function pathsAdjacent(selectedPath: string, path: string) {
     const activePrefix = splitActivePath.slice(0, -1);
     const selfPrefix = splitSelfPath.slice(0, -1);
     const matchingPrefix = activePrefix.every(
-        (val, index) => val === selfPrefix[index],
+        (val, index) => val === selfPrefix[index]
     );
     if (!matchingPrefix) return false;
 
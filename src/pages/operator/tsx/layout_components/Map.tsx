@@ -11,13 +11,20 @@ import { Canvas } from "../static_components/Canvas";
 import { OccupancyGrid } from "../static_components/OccupancyGrid";
 import {
     AMCLPose,
+    NavigationPlan,
     ROSOccupancyGrid,
+    ROSPoint,
     ROSPose,
     className,
+    mapIdentity,
     waitUntil,
 } from "shared/util";
 import ROSLIB from "roslib";
-import { UnderMapButton } from "../function_providers/UnderMapFunctionProvider";
+import {
+    MissionState,
+    MissionStatus,
+    UnderMapButton,
+} from "../function_providers/UnderMapFunctionProvider";
 import { underMapFunctionProvider } from "operator/tsx/index";
 import { CheckToggleButton } from "../basic_components/CheckToggleButton";
 import { useState } from "react";
@@ -29,21 +36,45 @@ import { RadioFunctions, RadioGroup } from "../basic_components/RadioGroup";
 import PlayCircle from "@mui/icons-material/PlayCircle";
 import Save from "@mui/icons-material/Save";
 import Cancel from "@mui/icons-material/Cancel";
+import Delete from "@mui/icons-material/DeleteOutline";
+import { MapsState } from "../function_providers/MapFunctionProvider";
+import {
+    MAP_ANNOTATION_LABELS,
+    MapAnnotation,
+    MapAnnotationType,
+    MapPoint,
+    minimumPoints,
+} from "../utils/map_annotations";
 
 export enum MapFunction {
     GetMap,
     GetPose,
+    GetLaserScan,
     MoveBase,
     GoalReached,
+    LoadMap,
 }
 
 export interface MapFunctions {
     GetMap: ROSOccupancyGrid;
     GetPose: () => ROSLIB.Transform;
-    MoveBase: (pose: ROSPose) => void;
+    /** @returns the latest laser scan, in the robot's base frame */
+    GetLaserScan: () => ROSPoint[];
+    /** @returns false if the goal was refused */
+    MoveBase: (pose: ROSPose) => boolean;
     GoalReached: () => boolean;
+    LoadMap: (name: string) => void;
     SelectGoal: () => boolean;
     SetSelectGoal: (selectGoal: boolean) => void;
+    /** @returns true while clicks on the map add points to an annotation */
+    DrawingAnnotation: () => boolean;
+    AddAnnotationPoint: (point: ROSPoint) => void;
+    /** @returns true while clicks on the map add waypoints to the mission */
+    AddingWaypoints: () => boolean;
+    AddWaypoint: (point: ROSPoint) => void;
+    /** @returns true while dragging on the map sets the robot's pose */
+    SettingPoseEstimate: () => boolean;
+    SetPoseEstimate: (pose: ROSPose) => void;
 }
 
 export interface UnderMapFunctions {
@@ -51,7 +82,8 @@ export interface UnderMapFunctions {
     CancelGoal: () => void;
     DeleteGoal: (goalId: number) => void;
     SaveGoal: (name: string) => void;
-    LoadGoal: (goalID: number) => void;
+    /** @returns position of the goal, or undefined if it was refused */
+    LoadGoal: (goalID: number) => ROSLIB.Vector3 | undefined;
     GetPose: () => ROSLIB.Transform;
     GetSavedPoseNames: () => string[];
     GetSavedPoseTypes: () => string[];
@@ -60,25 +92,74 @@ export interface UnderMapFunctions {
         toggle: boolean,
         poses: ROSLIB.Transform[],
         poseNames: string[],
-        poseTypes: string[],
+        poseTypes: string[]
     ) => void;
     DisplayGoalMarker: (pose: ROSLIB.Vector3) => void;
     NavigateToAruco: (goalID: number) => void;
-    Play: () => void;
+    /** @returns false if the goal was refused */
+    Play: () => boolean;
     RemoveGoalMarker: () => void;
     GoalReached: () => Promise<boolean>;
+    GetMapAnnotations: () => MapAnnotation[];
+    SaveMapAnnotations: (annotations: MapAnnotation[]) => void;
+    /** @returns false if the robot may not be sent to the goal */
+    CheckGoal: (goal: MapPoint) => boolean;
+    ResetMission: (map: string) => void;
+    ClearMission: () => void;
+    AddMissionPose: (goalID: number) => void;
+    AddMissionPoint: (point: MapPoint) => void;
+    RemoveMissionWaypoint: (idx: number) => void;
+    StartMission: () => void;
+    PauseMission: () => void;
+    ResumeMission: () => void;
+    SkipMissionWaypoint: () => void;
+    AbortMission: () => void;
+    SetPoseEstimate: (pose: ROSPose) => void;
+    Relocalize: () => void;
 }
 
 export const Map = (props: CustomizableComponentProps) => {
     const definition = props.definition as MapDefinition;
     const [active, setActive] = React.useState<boolean>(false);
     const [occupancyGrid, setOccupanyGrid] = React.useState<OccupancyGrid>();
-    const [selectGoal, setSelectGoal] = React.useState<boolean>(false);
+    // Read by the map canvas when it is clicked
+    const selectGoalRef = React.useRef<boolean>(false);
+    const [mapsState, setMapsState] = React.useState<MapsState>(
+        mapFunctionProvider.getMapsState()
+    );
+    const [annotations, setAnnotations] = React.useState<MapAnnotation[]>([]);
+    const [draft, setDraft] = React.useState<MapAnnotation>();
+    // The map canvas reads the annotation being drawn when it is clicked
+    const draftRef = React.useRef<MapAnnotation>();
+    const [mission, setMission] = React.useState<MissionState>(
+        underMapFunctionProvider.getMission()
+    );
+    const [plan, setPlan] = React.useState<NavigationPlan>(
+        mapFunctionProvider.getNavigationPlan()
+    );
+    const [addingWaypoints, setAddingWaypoints] =
+        React.useState<boolean>(false);
+    const addingWaypointsRef = React.useRef<boolean>(false);
+    const [settingPose, setSettingPose] = React.useState<boolean>(false);
+    const settingPoseRef = React.useRef<boolean>(false);
+    const [followRobot, setFollowRobot] = React.useState<boolean>(false);
+    // The functions of the latest render, for effects that only run when the
+    // map changes
+    const mapFnRef = React.useRef<MapFunctions>();
+    const underMapFnRef = React.useRef<UnderMapFunctions>();
     const { customizing, hideLabels } = props.sharedState;
     const selected = isSelected(props);
+    mapFunctionProvider.setOperatorCallback(setMapsState);
+    underMapFunctionProvider.setMissionCallback(setMission);
+    mapFunctionProvider.setPlanCallback(setPlan);
+    const displayPlan = definition.displayPlan !== false;
+    const displayCostmap = definition.displayCostmap === true;
+    const displayLaserScan = definition.displayLaserScan !== false;
 
-    // Constrain the width or height when the stream gets too large
+    // Redraw the map whenever a new occupancy grid arrives, e.g. after the
+    // robot loaded another map
     React.useEffect(() => {
+        const mapFn = mapFnRef.current!;
         let map = mapFn.GetMap;
         let width = map ? map.info.width : 60;
         let height = map ? map.info.height : 100;
@@ -94,10 +175,131 @@ export const Map = (props: CustomizableComponentProps) => {
         });
         canvas.scaleToDimensions(
             occupancyGridMap.width,
-            occupancyGridMap.height,
+            occupancyGridMap.height
         );
         setOccupanyGrid(occupancyGridMap);
-    }, []);
+        return () => {
+            occupancyGridMap.remove();
+            canvas.remove();
+        };
+    }, [mapsState.grid]);
+
+    // The saved poses and annotations depend on the map, start over when it
+    // changes
+    const mapKey = mapsState.grid ? mapIdentity(mapsState.grid.info) : "";
+
+    React.useEffect(() => {
+        const underMapFn = underMapFnRef.current!;
+        setAnnotations(underMapFn.GetMapAnnotations());
+        updateDraft(undefined);
+        if (mapKey) underMapFn.ResetMission(mapKey);
+    }, [mapKey]);
+
+    React.useEffect(() => {
+        if (occupancyGrid) occupancyGrid.displayAnnotations(annotations, draft);
+    }, [occupancyGrid, annotations, draft]);
+
+    React.useEffect(() => {
+        if (occupancyGrid) occupancyGrid.displayMission(mission);
+    }, [occupancyGrid, mission]);
+
+    React.useEffect(() => {
+        if (occupancyGrid)
+            occupancyGrid.displayNavigationPlan(
+                plan,
+                displayPlan,
+                displayCostmap
+            );
+    }, [occupancyGrid, plan, displayPlan, displayCostmap]);
+
+    React.useEffect(() => {
+        if (occupancyGrid) occupancyGrid.setDisplayLaserScan(displayLaserScan);
+    }, [occupancyGrid, displayLaserScan]);
+
+    React.useEffect(() => {
+        if (occupancyGrid) occupancyGrid.setFollowRobot(followRobot);
+    }, [occupancyGrid, followRobot]);
+
+    function updateAddingWaypoints(adding: boolean) {
+        addingWaypointsRef.current = adding;
+        setAddingWaypoints(adding);
+    }
+
+    function updateSettingPose(setting: boolean) {
+        settingPoseRef.current = setting;
+        setSettingPose(setting);
+    }
+
+    function updateDraft(annotation?: MapAnnotation) {
+        draftRef.current = annotation;
+        setDraft(annotation);
+    }
+
+    function addAnnotationPoint(point: ROSPoint) {
+        const annotation = draftRef.current;
+        if (!annotation) return;
+        // A label only has a position, clicking again moves it
+        const points =
+            annotation.type === MapAnnotationType.Label
+                ? []
+                : annotation.points;
+        updateDraft({
+            ...annotation,
+            points: [...points, { x: point.x, y: point.y }],
+        });
+    }
+
+    function saveAnnotations(next: MapAnnotation[]) {
+        underMapFn.SaveMapAnnotations(next);
+        setAnnotations(next);
+    }
+
+    function setAddingWaypointsMode(adding: boolean) {
+        // Clicks on the map either add waypoints, pick a goal or draw
+        if (adding) {
+            handleSelectGoal(false);
+            updateDraft(undefined);
+            updateSettingPose(false);
+        }
+        updateAddingWaypoints(adding);
+    }
+
+    function setSettingPoseMode(setting: boolean) {
+        if (setting) {
+            handleSelectGoal(false);
+            updateDraft(undefined);
+            updateAddingWaypoints(false);
+        }
+        updateSettingPose(setting);
+    }
+
+    const annotationFn: MapAnnotationFunctions = {
+        Start: (type: MapAnnotationType) => {
+            // Clicks on the map would otherwise also pick a goal
+            handleSelectGoal(false);
+            updateAddingWaypoints(false);
+            updateSettingPose(false);
+            updateDraft({ type: type, name: "", points: [] });
+        },
+        Undo: () => {
+            if (!draftRef.current) return;
+            updateDraft({
+                ...draftRef.current,
+                points: draftRef.current.points.slice(0, -1),
+            });
+        },
+        Cancel: () => updateDraft(undefined),
+        Finish: (name: string) => {
+            if (!draftRef.current) return;
+            saveAnnotations([
+                ...annotations,
+                { ...draftRef.current, name: name },
+            ]);
+            updateDraft(undefined);
+        },
+        Delete: (idx: number) =>
+            saveAnnotations(annotations.filter((_, i) => i !== idx)),
+    };
 
     function handleSelect(event: React.MouseEvent<HTMLDivElement>) {
         event.stopPropagation();
@@ -105,85 +307,153 @@ export const Map = (props: CustomizableComponentProps) => {
     }
 
     const handleSelectGoal = React.useCallback((selectGoal: boolean) => {
-        setSelectGoal(selectGoal);
-        mapFn.SelectGoal = (): boolean => {
-            return selectGoal;
-        };
+        // Picking a goal and drawing on the map both use clicks on the map
+        if (selectGoal) {
+            updateDraft(undefined);
+            updateAddingWaypoints(false);
+            updateSettingPose(false);
+        }
+        selectGoalRef.current = selectGoal;
     }, []);
 
+    const moveBase = mapFunctionProvider.provideFunctions(
+        MapFunction.MoveBase
+    ) as (pose: ROSPose) => void;
     let mapFn: MapFunctions = {
         GetMap: mapFunctionProvider.provideFunctions(
-            MapFunction.GetMap,
+            MapFunction.GetMap
         ) as ROSOccupancyGrid,
         GetPose: mapFunctionProvider.provideFunctions(
-            MapFunction.GetPose,
+            MapFunction.GetPose
         ) as () => ROSLIB.Transform,
-        MoveBase: mapFunctionProvider.provideFunctions(
-            MapFunction.MoveBase,
-        ) as (pose: ROSPose) => void,
+        GetLaserScan: mapFunctionProvider.provideFunctions(
+            MapFunction.GetLaserScan
+        ) as () => ROSPoint[],
+        MoveBase: (pose: ROSPose) => {
+            if (!underMapFn.CheckGoal(pose.position)) return false;
+            moveBase(pose);
+            return true;
+        },
         GoalReached: mapFunctionProvider.provideFunctions(
-            MapFunction.GoalReached,
+            MapFunction.GoalReached
         ) as () => boolean,
-        SelectGoal: (): boolean => {
-            return selectGoal;
-        },
+        LoadMap: mapFunctionProvider.provideFunctions(MapFunction.LoadMap) as (
+            name: string
+        ) => void,
+        SelectGoal: () => selectGoalRef.current,
         SetSelectGoal: (selectGoal: boolean) => {
             handleSelectGoal(selectGoal);
         },
+        DrawingAnnotation: () => draftRef.current !== undefined,
+        AddAnnotationPoint: addAnnotationPoint,
+        AddingWaypoints: () => addingWaypointsRef.current,
+        AddWaypoint: (point: ROSPoint) => underMapFn.AddMissionPoint(point),
+        SettingPoseEstimate: () => settingPoseRef.current,
+        SetPoseEstimate: (pose: ROSPose) => {
+            underMapFn.SetPoseEstimate(pose);
+            updateSettingPose(false);
+        },
     };
 
     let underMapFn: UnderMapFunctions = {
         SelectGoal: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.SelectGoal,
+            UnderMapButton.SelectGoal
         ) as () => void,
         CancelGoal: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.CancelGoal,
+            UnderMapButton.CancelGoal
         ) as () => void,
         DeleteGoal: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.DeleteGoal,
+            UnderMapButton.DeleteGoal
         ) as (goalID: number) => void,
         SaveGoal: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.SaveGoal,
+            UnderMapButton.SaveGoal
         ) as (name: string) => void,
         LoadGoal: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.LoadGoal,
-        ) as () => void,
+            UnderMapButton.LoadGoal
+        ) as (goalID: number) => ROSLIB.Vector3 | undefined,
         GetPose: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.GetPose,
+            UnderMapButton.GetPose
         ) as () => ROSLIB.Transform,
         GetSavedPoseNames: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.GetSavedPoseNames,
+            UnderMapButton.GetSavedPoseNames
         ) as () => string[],
         GetSavedPoseTypes: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.GetSavedPoseTypes,
+            UnderMapButton.GetSavedPoseTypes
         ) as () => string[],
         GetSavedPoses: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.GetSavedPoses,
+            UnderMapButton.GetSavedPoses
         ) as () => ROSLIB.Transform[],
         DisplayPoseMarkers: (
             toggle: boolean,
             poses: ROSLIB.Transform[],
             poseNames: string[],
-            poseTypes: string[],
+            poseTypes: string[]
         ) => {
             return occupancyGrid!.displayPoseMarkers(
                 toggle,
                 poses,
                 poseNames,
-                poseTypes,
+                poseTypes
             );
         },
         DisplayGoalMarker: (pose: ROSLIB.Vector3) =>
             occupancyGrid!.createGoalMarker(pose.x, pose.y, true),
         NavigateToAruco: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.NavigateToAruco,
+            UnderMapButton.NavigateToAruco
         ) as (goalID: number) => void,
         Play: () => occupancyGrid!.play(),
         RemoveGoalMarker: () => occupancyGrid!.removeGoalMarker(),
         GoalReached: underMapFunctionProvider.provideFunctions(
-            UnderMapButton.GoalReached,
+            UnderMapButton.GoalReached
         ) as () => Promise<boolean>,
+        GetMapAnnotations: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.GetMapAnnotations
+        ) as () => MapAnnotation[],
+        SaveMapAnnotations: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.SaveMapAnnotations
+        ) as (annotations: MapAnnotation[]) => void,
+        CheckGoal: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.CheckGoal
+        ) as (goal: MapPoint) => boolean,
+        ResetMission: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.ResetMission
+        ) as (map: string) => void,
+        ClearMission: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.ClearMission
+        ) as () => void,
+        AddMissionPose: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.AddMissionPose
+        ) as (goalID: number) => void,
+        AddMissionPoint: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.AddMissionPoint
+        ) as (point: MapPoint) => void,
+        RemoveMissionWaypoint: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.RemoveMissionWaypoint
+        ) as (idx: number) => void,
+        StartMission: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.StartMission
+        ) as () => void,
+        PauseMission: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.PauseMission
+        ) as () => void,
+        ResumeMission: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.ResumeMission
+        ) as () => void,
+        SkipMissionWaypoint: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.SkipMissionWaypoint
+        ) as () => void,
+        AbortMission: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.AbortMission
+        ) as () => void,
+        SetPoseEstimate: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.SetPoseEstimate
+        ) as (pose: ROSPose) => void,
+        Relocalize: underMapFunctionProvider.provideFunctions(
+            UnderMapButton.Relocalize
+        ) as () => void,
     };
+    mapFnRef.current = mapFn;
+    underMapFnRef.current = underMapFn;
 
     return (
         <React.Fragment>
@@ -191,6 +461,7 @@ export const Map = (props: CustomizableComponentProps) => {
                 className={isMobile ? "mobile-map-container" : "map-container"}
             >
                 {!isMobile ? <h4 className="map-title">Map</h4> : <></>}
+                <MapSelector state={mapsState} loadMap={mapFn.LoadMap} />
                 <div
                     id="map"
                     className={className("map", {
@@ -200,10 +471,19 @@ export const Map = (props: CustomizableComponentProps) => {
                     })}
                     onClick={handleSelect}
                 ></div>
+                <MapViewButtons
+                    followRobot={followRobot}
+                    setFollowRobot={setFollowRobot}
+                    showWholeMap={() => {
+                        setFollowRobot(false);
+                        occupancyGrid?.resetZoom();
+                    }}
+                />
                 {
                     !isMobile && (
                         // <div className={"under-video-area"}>
                         <UnderMapButtons
+                            key={mapKey}
                             handleSelectGoal={handleSelectGoal}
                             functs={underMapFn}
                             hideLabels={hideLabels}
@@ -211,18 +491,119 @@ export const Map = (props: CustomizableComponentProps) => {
                     )
                     // </div>
                 }
+                {!isMobile && (
+                    <MissionButtons
+                        mission={mission}
+                        adding={addingWaypoints}
+                        setAdding={setAddingWaypointsMode}
+                        functs={underMapFn}
+                    />
+                )}
+                {!isMobile && (
+                    <LocalizationButtons
+                        settingPose={settingPose}
+                        setSettingPose={setSettingPoseMode}
+                        functs={underMapFn}
+                    />
+                )}
+                {!isMobile && (
+                    <MapAnnotationButtons
+                        annotations={annotations}
+                        draft={draft}
+                        functs={annotationFn}
+                    />
+                )}
+                {
+                    // </div>
+                }
             </div>
             {isMobile && (
                 <UnderMapButtons
+                    key={mapKey}
                     handleSelectGoal={handleSelectGoal}
                     functs={underMapFn}
                     hideLabels={hideLabels}
                 />
             )}
+            {isMobile && (
+                <MissionButtons
+                    mission={mission}
+                    adding={addingWaypoints}
+                    setAdding={setAddingWaypointsMode}
+                    functs={underMapFn}
+                />
+            )}
+            {isMobile && (
+                <LocalizationButtons
+                    settingPose={settingPose}
+                    setSettingPose={setSettingPoseMode}
+                    functs={underMapFn}
+                />
+            )}
+            {isMobile && (
+                <MapAnnotationButtons
+                    annotations={annotations}
+                    draft={draft}
+                    functs={annotationFn}
+                />
+            )}
         </React.Fragment>
     );
 };
 
+/**
+ * Lets the operator keep the robot in the middle of the map while it drives,
+ * or zoom back out to the whole map. The map zooms with the mouse wheel or by
+ * pinching, and pans by dragging.
+ */
+const MapViewButtons = (props: {
+    followRobot: boolean;
+    setFollowRobot: (follow: boolean) => void;
+    showWholeMap: () => void;
+}) => {
+    return (
+        <div className={isMobile ? "map-view-mobile" : "map-view"}>
+            <CheckToggleButton
+                checked={props.followRobot}
+                onClick={() => props.setFollowRobot(!props.followRobot)}
+                label="Follow Robot"
+            />
+            <button onClick={props.showWholeMap}>Show Whole Map</button>
+        </div>
+    );
+};
+
+/**
+ * Lets the operator switch between the maps saved on the robot. Hidden when
+ * the robot has no maps to choose from.
+ */
+const MapSelector = (props: {
+    state: MapsState;
+    loadMap: (name: string) => void;
+}) => {
+    const { maps, active, loading, error } = props.state;
+    if (maps.length === 0) return <></>;
+    const activeIdx = active ? maps.indexOf(active) : -1;
+
+    return (
+        <div className={isMobile ? "map-selector-mobile" : "map-selector"}>
+            {loading ? (
+                <span>Loading {loading}...</span>
+            ) : (
+                <Dropdown
+                    onChange={(idx) => props.loadMap(maps[idx])}
+                    possibleOptions={maps}
+                    selectedIndex={activeIdx < 0 ? undefined : activeIdx}
+                    placeholderText="Select a map"
+                    showActive
+                    placement="bottom"
+                />
+            )}
+            {error && <p className="map-selector-error">{error}</p>}
+        </div>
+    );
+};
+
 /**
  * Buttons to display under the map.
  */
@@ -232,7 +613,7 @@ const UnderMapButtons = (props: {
     hideLabels?: boolean;
 }) => {
     const [poses, setPoses] = useState<string[]>(
-        props.functs.GetSavedPoseNames(),
+        props.functs.GetSavedPoseNames()
     );
     const [selectedIdx, setSelectedIdx] = React.useState<number>();
     const [selectGoal, setSelectGoal] = React.useState<boolean>(false);
@@ -243,7 +624,7 @@ const UnderMapButtons = (props: {
     let radioFuncts: RadioFunctions = {
         Delete: (label: string) =>
             props.functs.DeleteGoal(
-                props.functs.GetSavedPoseNames().indexOf(label),
+                props.functs.GetSavedPoseNames().indexOf(label)
             ),
         GetLabels: () => props.functs.GetSavedPoseNames(),
         SelectedLabel: (label: string) =>
@@ -266,7 +647,7 @@ const UnderMapButtons = (props: {
                     displayGoals,
                     props.functs.GetSavedPoses(),
                     props.functs.GetSavedPoseNames(),
-                    props.functs.GetSavedPoseTypes(),
+                    props.functs.GetSavedPoseTypes()
                 );
             }
             setName("");
@@ -305,14 +686,14 @@ const UnderMapButtons = (props: {
 
     function formatNamesandTypes(
         names: string[],
-        types: string[],
+        types: string[]
     ): React.JSX.Element[] {
         let elements: React.JSX.Element[] = [];
         names.map((name, index) => {
             elements.push(
                 <p>
                     <em>{types[index]}</em> {name}
-                </p>,
+                </p>
             );
         });
         return elements;
@@ -336,15 +717,15 @@ const UnderMapButtons = (props: {
                         className="map-play-btn"
                         onPointerDown={() => {
                             if (!play && selectGoal) {
-                                props.functs.Play();
+                                if (!props.functs.Play()) return;
                                 setPlay(true);
                                 setSelectGoal(false);
                                 props.functs
                                     .GoalReached()
                                     .then((goalReached) => setPlay(false));
                             } else if (!play && selectedIdx != undefined) {
-                                let pose: ROSLIB.Vector3 =
-                                    props.functs.LoadGoal(selectedIdx)!;
+                                let pose = props.functs.LoadGoal(selectedIdx);
+                                if (!pose) return;
                                 props.functs.DisplayGoalMarker(pose);
                                 props.functs.NavigateToAruco(selectedIdx);
                                 setPlay(true);
@@ -416,15 +797,15 @@ const UnderMapButtons = (props: {
                         className="mobile-map-play-btn"
                         onPointerDown={() => {
                             if (!play && selectGoal) {
-                                props.functs.Play();
+                                if (!props.functs.Play()) return;
                                 setPlay(true);
                                 setSelectGoal(false);
                                 props.functs
                                     .GoalReached()
                                     .then((goalReached) => setPlay(false));
                             } else if (!play && selectedIdx != undefined) {
-                                let pose: ROSLIB.Vector3 =
-                                    props.functs.LoadGoal(selectedIdx)!;
+                                let pose = props.functs.LoadGoal(selectedIdx);
+                                if (!pose) return;
                                 props.functs.DisplayGoalMarker(pose);
                                 props.functs.NavigateToAruco(selectedIdx);
                                 setPlay(true);
@@ -468,3 +849,304 @@ const UnderMapButtons = (props: {
         </React.Fragment>
     );
 };
+
+/**
+ * Lets the operator plan a mission through saved destinations and points
+ * clicked on the map, and pause, skip or abort it while it runs.
+ */
+const MissionButtons = (props: {
+    mission: MissionState;
+    adding: boolean;
+    setAdding: (adding: boolean) => void;
+    functs: UnderMapFunctions;
+}) => {
+    const { waypoints, status, current, error } = props.mission;
+    const active =
+        status === MissionStatus.Running || status === MissionStatus.Paused;
+
+    function statusText(): string {
+        const progress = `${Math.min(current + 1, waypoints.length)} of ${waypoints.length}`;
+        switch (status) {
+            case MissionStatus.Running:
+                return `Driving to ${waypoints[current].name} (${progress})`;
+            case MissionStatus.Paused:
+                return `Paused before ${waypoints[current].name} (${progress})`;
+            case MissionStatus.Done:
+                return "Mission complete";
+            case MissionStatus.Aborted:
+                return `Mission aborted (${progress})`;
+            case MissionStatus.Failed:
+                return error || "Mission failed";
+            default:
+                return waypoints.length === 1
+                    ? "1 waypoint"
+                    : `${waypoints.length} waypoints`;
+        }
+    }
+
+    return (
+        <div className={isMobile ? "map-mission-mobile" : "map-mission"}>
+            <CheckToggleButton
+                checked={props.adding}
+                onClick={() => props.setAdding(!props.adding)}
+                label="Plan Mission"
+            />
+            {props.adding && (
+                <>
+                    <p className="map-mission-hint">
+                        Click on the map to add waypoints, or add a saved
+                        destination.
+                    </p>
+                    <Dropdown
+                        onChange={(idx) => props.functs.AddMissionPose(idx)}
+                        possibleOptions={props.functs.GetSavedPoseNames()}
+                        placeholderText="Add destination..."
+                        placement="top"
+                    />
+                </>
+            )}
+            {waypoints.length > 0 && (
+                <>
+                    <ol className="map-mission-waypoints">
+                        {waypoints.map((waypoint, idx) => (
+                            <li
+                                key={idx}
+                                className={className("map-mission-waypoint", {
+                                    reached: active && idx < current,
+                                    current: active && idx === current,
+                                })}
+                            >
+                                <span>{waypoint.name}</span>
+                                {!(active && idx <= current) && (
+                                    <button
+                                        className="map-mission-remove-btn"
+                                        onClick={() =>
+                                            props.functs.RemoveMissionWaypoint(
+                                                idx
+                                            )
+                                        }
+                                    >
+                                        <Delete />
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+                    <p
+                        className={className("map-mission-status", {
+                            failed: status === MissionStatus.Failed,
+                        })}
+                    >
+                        {statusText()}
+                    </p>
+                    <div className="map-mission-btns">
+                        {!active && (
+                            <>
+                                <button
+                                    className="map-play-btn"
+                                    onClick={() => {
+                                        props.setAdding(false);
+                                        props.functs.StartMission();
+                                    }}
+                                >
+                                    <span>Start Mission</span>
+                                    <PlayCircle />
+                                </button>
+                                <button onClick={props.functs.ClearMission}>
+                                    Clear
+                                </button>
+                            </>
+                        )}
+                        {status === MissionStatus.Running && (
+                            <button onClick={props.functs.PauseMission}>
+                                Pause
+                            </button>
+                        )}
+                        {status === MissionStatus.Paused && (
+                            <button onClick={props.functs.ResumeMission}>
+                                Resume
+                            </button>
+                        )}
+                        {active && (
+                            <>
+                                <button
+                                    onClick={props.functs.SkipMissionWaypoint}
+                                >
+                                    Skip
+                                </button>
+                                <button
+                                    className="map-cancel-btn"
+                                    onClick={props.functs.AbortMission}
+                                >
+                                    <span>Abort</span>
+                                    <Cancel />
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Lets the operator tell the robot where it is when it got lost, either by
+ * dragging its pose on the map or by having it relocalize on its own.
+ */
+const LocalizationButtons = (props: {
+    settingPose: boolean;
+    setSettingPose: (setting: boolean) => void;
+    functs: UnderMapFunctions;
+}) => {
+    return (
+        <div
+            className={
+                isMobile ? "map-localization-mobile" : "map-localization"
+            }
+        >
+            <CheckToggleButton
+                checked={props.settingPose}
+                onClick={() => props.setSettingPose(!props.settingPose)}
+                label="Set Pose Estimate"
+            />
+            <button
+                onClick={() => {
+                    props.setSettingPose(false);
+                    props.functs.Relocalize();
+                }}
+            >
+                Relocalize
+            </button>
+            {props.settingPose && (
+                <p className="map-localization-hint">
+                    Press on the map where the robot is and drag towards where
+                    it is facing.
+                </p>
+            )}
+        </div>
+    );
+};
+
+interface MapAnnotationFunctions {
+    Start: (type: MapAnnotationType) => void;
+    Undo: () => void;
+    Cancel: () => void;
+    Finish: (name: string) => void;
+    Delete: (idx: number) => void;
+}
+
+/**
+ * Lets the operator draw keep-out zones, rooms, charging areas and labels on
+ * the map, and lists the ones saved for it.
+ */
+const MapAnnotationButtons = (props: {
+    annotations: MapAnnotation[];
+    draft?: MapAnnotation;
+    functs: MapAnnotationFunctions;
+}) => {
+    const [editing, setEditing] = React.useState<boolean>(false);
+    const [showNameModal, setShowNameModal] = React.useState<boolean>(false);
+    const [name, setName] = React.useState<string>("");
+    const types = Object.values(MapAnnotationType);
+    const { draft } = props;
+
+    function handleAccept() {
+        if (name.length > 0) props.functs.Finish(name);
+        setName("");
+    }
+
+    return (
+        <div
+            className={isMobile ? "map-annotations-mobile" : "map-annotations"}
+        >
+            <CheckToggleButton
+                checked={editing}
+                onClick={() => {
+                    if (editing) props.functs.Cancel();
+                    setEditing(!editing);
+                }}
+                label="Edit Map"
+            />
+            {editing && !draft && (
+                <Dropdown
+                    onChange={(idx) => props.functs.Start(types[idx])}
+                    possibleOptions={types.map(
+                        (type) => MAP_ANNOTATION_LABELS[type]
+                    )}
+                    placeholderText="Draw..."
+                    placement="top"
+                />
+            )}
+            {editing && draft && (
+                <div className="map-annotation-draft">
+                    <p>
+                        {draft.type === MapAnnotationType.Label
+                            ? "Click on the map where the label should go."
+                            : `Click on the map to add the corners of the ${MAP_ANNOTATION_LABELS[
+                                  draft.type
+                              ].toLowerCase()}.`}
+                    </p>
+                    <button
+                        onClick={props.functs.Undo}
+                        disabled={draft.points.length === 0}
+                    >
+                        Undo point
+                    </button>
+                    <button
+                        onClick={() => setShowNameModal(true)}
+                        disabled={
+                            draft.points.length < minimumPoints(draft.type)
+                        }
+                    >
+                        Finish
+                    </button>
+                    <button onClick={props.functs.Cancel}>Cancel</button>
+                </div>
+            )}
+            {editing && (
+                <ul className="map-annotation-list">
+                    {props.annotations.map((annotation, idx) => (
+                        <li key={idx}>
+                            <span>
+                                <em>
+                                    {MAP_ANNOTATION_LABELS[annotation.type]}
+                                </em>{" "}
+                                {annotation.name}
+                            </span>
+                            <button
+                                className="map-annotation-delete-btn"
+                                onClick={() => props.functs.Delete(idx)}
+                            >
+                                <Delete />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <PopupModal
+                setShow={setShowNameModal}
+                show={showNameModal}
+                onAccept={handleAccept}
+                id="save-map-annotation-modal"
+                acceptButtonText="Save"
+                acceptDisabled={name.length < 1}
+                size={isMobile ? "small" : "large"}
+                mobile={isMobile}
+            >
+                <input
+                    autoFocus
+                    type="text"
+                    id="new-map-annotation-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder={
+                        draft && draft.type === MapAnnotationType.Label
+                            ? "Enter text of the label"
+                            : "Enter name of the zone"
+                    }
+                />
+            </PopupModal>
+        </div>
+    );
+};
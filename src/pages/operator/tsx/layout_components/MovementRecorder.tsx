@@ -23,6 +23,7 @@ export enum MovementRecorderFunction {
     Cancel,
     DeleteRecordingName,
     LoadRecordingName,
+    RecordingWarning,
 }
 
 export interface MovementRecorderFunctions {
@@ -33,13 +34,14 @@ export interface MovementRecorderFunctions {
         wrist_roll: boolean,
         wrist_pitch: boolean,
         wrist_yaw: boolean,
-        gripper: boolean,
+        gripper: boolean
     ) => void;
     SaveRecording: (name: string) => void;
     StopRecording: () => void;
     SavedRecordingNames: () => string[];
     DeleteRecording: (recordingID: number) => void;
     LoadRecording: (recordingID: number) => void;
+    RecordingWarning: (recordingID: number) => string | undefined;
 }
 
 export const MovementRecorder = (props: {
@@ -49,7 +51,7 @@ export const MovementRecorder = (props: {
 }) => {
     let functions: MovementRecorderFunctions = {
         Record: movementRecorderFunctionProvider.provideFunctions(
-            MovementRecorderFunction.Record,
+            MovementRecorderFunction.Record
         ) as (
             head: boolean,
             arm: boolean,
@@ -57,28 +59,31 @@ export const MovementRecorder = (props: {
             wrist_roll: boolean,
             wrist_pitch: boolean,
             wrist_yaw: boolean,
-            gripper: boolean,
+            gripper: boolean
         ) => void,
         SaveRecording: movementRecorderFunctionProvider.provideFunctions(
-            MovementRecorderFunction.SaveRecording,
+            MovementRecorderFunction.SaveRecording
         ) as (name: string) => void,
         StopRecording: movementRecorderFunctionProvider.provideFunctions(
-            MovementRecorderFunction.StopRecording,
+            MovementRecorderFunction.StopRecording
         ) as () => void,
         SavedRecordingNames: movementRecorderFunctionProvider.provideFunctions(
-            MovementRecorderFunction.SavedRecordingNames,
+            MovementRecorderFunction.SavedRecordingNames
         ) as () => string[],
         DeleteRecording: movementRecorderFunctionProvider.provideFunctions(
-            MovementRecorderFunction.DeleteRecording,
+            MovementRecorderFunction.DeleteRecording
         ) as (recordingID: number) => void,
         LoadRecording: movementRecorderFunctionProvider.provideFunctions(
-            MovementRecorderFunction.LoadRecording,
+            MovementRecorderFunction.LoadRecording
         ) as (recordingID: number) => void,
+        RecordingWarning: movementRecorderFunctionProvider.provideFunctions(
+            MovementRecorderFunction.RecordingWarning
+        ) as (recordingID: number) => string | undefined,
     };
 
     let radioFuncts: RadioFunctions = {
         Delete: movementRecorderFunctionProvider.provideFunctions(
-            MovementRecorderFunction.DeleteRecordingName,
+            MovementRecorderFunction.DeleteRecordingName
         ) as (name: string) => void,
         GetLabels: functions.SavedRecordingNames,
         SelectedLabel: (label: string) =>
@@ -86,7 +91,7 @@ export const MovementRecorder = (props: {
     };
 
     const [recordings, setRecordings] = useState<string[]>(
-        functions.SavedRecordingNames(),
+        functions.SavedRecordingNames()
     );
     const [selectedIdx, setSelectedIdx] = React.useState<number>();
     const [showJointSelectionModal, setShowJointSelectionModal] =
@@ -94,7 +99,32 @@ export const MovementRecorder = (props: {
     const [showSaveRecordingModal, setShowSaveRecordingModal] =
         useState<boolean>(false);
     const [isRecording, setIsRecording] = React.useState<boolean>(
-        props.isRecording ? props.isRecording : false,
+        props.isRecording ? props.isRecording : false
+    );
+    /** Warning about the recording the user asked to play, until they confirm */
+    const [playWarning, setPlayWarning] = React.useState<string>();
+
+    /** Plays a recording, after confirming if it was made with another tool */
+    function playRecording(recordingID: number) {
+        const warning = functions.RecordingWarning(recordingID);
+        if (warning) setPlayWarning(warning);
+        else functions.LoadRecording(recordingID);
+    }
+
+    const PlayWarningModal = () => (
+        <PopupModal
+            setShow={(show) => {
+                if (!show) setPlayWarning(undefined);
+            }}
+            show={playWarning !== undefined}
+            onAccept={() => functions.LoadRecording(selectedIdx!)}
+            id="play-warning-modal"
+            acceptButtonText="Play anyway"
+            size={isMobile ? "small" : "medium"}
+            mobile={isMobile}
+        >
+            <p>{playWarning}</p>
+        </PopupModal>
     );
 
     const JointSelectionModal = (props: {
@@ -118,7 +148,7 @@ export const MovementRecorder = (props: {
                 wristRoll,
                 wristPitch,
                 wristYaw,
-                gripper,
+                gripper
             );
             setHead(false);
             setArm(false);
@@ -311,7 +341,7 @@ export const MovementRecorder = (props: {
                         className="play-btn btn-label"
                         onClick={() => {
                             if (selectedIdx != undefined) {
-                                functions.LoadRecording(selectedIdx);
+                                playRecording(selectedIdx);
                             }
                         }}
                     >
@@ -372,6 +402,7 @@ export const MovementRecorder = (props: {
                 setShow={setShowSaveRecordingModal}
                 show={showSaveRecordingModal}
             />
+            <PlayWarningModal />
         </React.Fragment>
     ) : (
         <React.Fragment>
@@ -399,7 +430,7 @@ export const MovementRecorder = (props: {
                     className="mobile-movement-play-btn"
                     onClick={() => {
                         if (selectedIdx != undefined && selectedIdx > -1) {
-                            functions.LoadRecording(selectedIdx);
+                            playRecording(selectedIdx);
                         }
                     }}
                 >
@@ -416,6 +447,7 @@ export const MovementRecorder = (props: {
                 setShow={setShowSaveRecordingModal}
                 show={showSaveRecordingModal}
             />
+            <PlayWarningModal />
         </React.Fragment>
     );
 };
@@ -7,6 +7,8 @@ export class Canvas extends React.Component {
     private width: number;
     private height: number;
     public scene?: createjs.Stage;
+    /** Redraws the scene on every tick, kept to stop listening on removal */
+    private tick = (event: Object) => this.scene?.update(event);
 
     constructor(props: {
         divID: string;
@@ -37,7 +39,15 @@ export class Canvas extends React.Component {
 
         // update at 30fps
         createjs.Ticker.framerate = 30;
-        createjs.Ticker.addEventListener("tick", this.scene);
+        createjs.Ticker.addEventListener("tick", this.tick);
+    }
+
+    /** Removes the canvas from the page and stops updating it */
+    remove() {
+        if (!this.scene) return;
+        createjs.Ticker.removeEventListener("tick", this.tick);
+        this.scene.removeAllEventListeners();
+        (this.scene.canvas as HTMLCanvasElement).remove();
     }
 
     scaleToDimensions(width: number, height: number) {
@@ -0,0 +1,57 @@
+import "operator/css/ConnectionQualityHUD.css";
+import React from "react";
+import { className, ConnectionQuality } from "shared/util";
+import { connectionQualityFunctionProvider } from "..";
+import { ConnectionQualityLevel } from "../function_providers/ConnectionQualityFunctionProvider";
+
+/**
+ * Compact display of the round trip time to the robot and the frame rate,
+ * jitter and packet loss of the camera streams.
+ */
+export const ConnectionQualityHUD = () => {
+    const [quality, setQuality] = React.useState<ConnectionQuality>();
+    const [level, setLevel] = React.useState<ConnectionQualityLevel>(
+        ConnectionQualityLevel.Good
+    );
+
+    connectionQualityFunctionProvider.setQualityCallback(
+        (quality: ConnectionQuality, level: ConnectionQualityLevel) => {
+            setQuality(quality);
+            setLevel(level);
+        }
+    );
+
+    const rtt =
+        quality?.roundTripTime !== undefined
+            ? `${Math.round(quality.roundTripTime)} ms`
+            : "-- ms";
+
+    // Per stream details are shown when hovering over the HUD
+    const details = quality
+        ? Object.entries(quality.streams)
+              .map(([name, stream]) => {
+                  const fps =
+                      stream.framesPerSecond !== undefined
+                          ? `${Math.round(stream.framesPerSecond)} fps, `
+                          : "";
+                  return `${name}: ${fps}${Math.round(stream.jitter)} ms jitter, ${(stream.packetLoss * 100).toFixed(1)}% loss`;
+              })
+              .join("\n")
+        : "Waiting for connection statistics";
+    const warning =
+        level === ConnectionQualityLevel.Poor
+            ? "\nPoor connection: speed limited, press-and-hold disabled"
+            : level === ConnectionQualityLevel.Degraded
+              ? "\nDegraded connection: speed limited"
+              : "";
+
+    return (
+        <div
+            className={className("connection-quality-hud", { [level]: true })}
+            title={details + warning}
+        >
+            <span className="connection-quality-indicator" />
+            <span>{rtt}</span>
+        </div>
+    );
+};
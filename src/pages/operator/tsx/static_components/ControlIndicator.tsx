@@ -0,0 +1,76 @@
+import "operator/css/ControlIndicator.css";
+import React from "react";
+import {
+    className,
+    ControlRequestMessage,
+    ControlStateMessage,
+} from "shared/util";
+import { controlFunctionProvider, isObserver } from "..";
+import { ControlFunctions } from "../function_providers/ControlFunctionProvider";
+
+/**
+ * Shows which operator is in control of the robot, lets other operators ask
+ * for control, and lets the operator in control hand it off.
+ */
+export const ControlIndicator = () => {
+    const functs: ControlFunctions = controlFunctionProvider.provideFunctions();
+    // The robot announces who is in control as soon as the data channel
+    // opens, which may be before this component is rendered
+    const [controlState, setControlState] = React.useState<
+        ControlStateMessage | undefined
+    >(controlFunctionProvider.getControlState());
+    const [requests, setRequests] = React.useState<ControlRequestMessage[]>(
+        controlFunctionProvider.getRequests()
+    );
+
+    controlFunctionProvider.setOperatorCallback(
+        (
+            controlState: ControlStateMessage | undefined,
+            requests: ControlRequestMessage[]
+        ) => {
+            setControlState(controlState);
+            setRequests(requests);
+        }
+    );
+
+    const hasControl = controlState?.hasControl || false;
+    const controller = hasControl
+        ? "You are in control"
+        : controlState?.controller
+          ? `${controlState.controller} is in control`
+          : "Nobody is in control";
+
+    return (
+        <div className="control-indicator">
+            <span className={className("control-status", { hasControl })}>
+                {controller}
+            </span>
+            {!hasControl && !isObserver && (
+                <button onClick={functs.requestControl}>Request control</button>
+            )}
+            {hasControl &&
+                requests.map((request) => (
+                    <div
+                        key={request.participantId}
+                        className="control-request"
+                    >
+                        <span>{request.name} asks for control</span>
+                        <button
+                            onClick={() =>
+                                functs.grantControl(request.participantId)
+                            }
+                        >
+                            Grant
+                        </button>
+                        <button
+                            onClick={() =>
+                                functs.dismissRequest(request.participantId)
+                            }
+                        >
+                            Dismiss
+                        </button>
+                    </div>
+                ))}
+        </div>
+    );
+};
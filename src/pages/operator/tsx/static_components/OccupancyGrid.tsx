@@ -2,9 +2,33 @@
 
 import React from "react";
 import createjs from "createjs-module";
-import { ROSOccupancyGrid, ROSPoint, ROSPose } from "shared/util";
+import {
+    NavigationPlan,
+    ROSOccupancyGrid,
+    ROSPoint,
+    ROSPose,
+} from "shared/util";
 import ROSLIB from "roslib";
 import { MapFunctions } from "../layout_components/Map";
+import {
+    MAP_ANNOTATION_COLORS,
+    MapAnnotation,
+    MapAnnotationType,
+    MapPoint,
+} from "../utils/map_annotations";
+import {
+    MissionState,
+    MissionStatus,
+} from "../function_providers/UnderMapFunctionProvider";
+
+/** Shorter drags than this, in meters, keep the robot's current heading */
+const MIN_POSE_ESTIMATE_DRAG = 0.1;
+
+/** How far the map can be zoomed in, relative to the whole map fitting */
+const MAX_ZOOM = 10;
+
+/** Milliseconds to wait after zooming before redrawing the layers */
+const ZOOM_REDRAW_DELAY = 150;
 
 export class OccupancyGrid extends React.Component {
     private rootObject: createjs.Stage;
@@ -17,12 +41,48 @@ export class OccupancyGrid extends React.Component {
     private map: ROSOccupancyGrid;
     private goal_position?: ROSPoint;
     private goalMarker?: createjs.Shape;
-    private getGoalReached?: NodeJS.Timer;
+    /** Where the operator pressed to set the robot's pose, in ROS coordinates */
+    private poseEstimateStart?: ROSPoint;
+    private poseEstimateMarker?: createjs.Shape;
+    private getGoalReached?: ReturnType<typeof setInterval>;
+    private robotMarker?: createjs.Shape;
+    /** Where the robot was last drawn, in map pixels */
+    private robotPosition?: { x: number; y: number };
+    /** How much the map is zoomed in, 1 shows the whole map */
+    private zoom: number;
+    /** Keeps the robot in the middle of the canvas */
+    private followRobot: boolean;
+    /** Where a drag to pan the map started */
+    private panStart?: {
+        pointerID: number;
+        stageX: number;
+        stageY: number;
+        x: number;
+        y: number;
+    };
+    /** Distance between the fingers of a pinch, in stage pixels */
+    private pinchDistance?: number;
+    private zoomRedrawTimeout?: NodeJS.Timeout;
+    /** Redraws each layer with what it shows, after the zoom changed */
+    private layerRedraws: { [layer: string]: () => void };
+    private setPoseInterval?: ReturnType<typeof setInterval>;
+    private laserScanInterval?: ReturnType<typeof setInterval>;
+    /** Points the laser scanner hit, around the robot */
+    private laserScanShape: createjs.Shape;
+    private displayLaserScan: boolean;
     private savedPoseMarkers: {
         circle: createjs.Shape;
         label: createjs.Text;
     }[];
     private savedPoseMarkersLabels: string[];
+    /** Local costmap around the robot, right above the map */
+    private costmapLayer: createjs.Container;
+    /** Zones and labels drawn on the map, below the markers */
+    private annotationLayer: createjs.Container;
+    /** Paths planned to the navigation goal */
+    private planLayer: createjs.Container;
+    /** Waypoints of the mission and the order they are driven to */
+    private missionLayer: createjs.Container;
     private functs: MapFunctions;
     constructor(props: { functs: MapFunctions; rootObject: createjs.Stage }) {
         super(props);
@@ -35,6 +95,19 @@ export class OccupancyGrid extends React.Component {
         this.functs = props.functs;
         this.savedPoseMarkers = [];
         this.savedPoseMarkersLabels = [];
+        this.costmapLayer = new createjs.Container();
+        this.annotationLayer = new createjs.Container();
+        this.planLayer = new createjs.Container();
+        this.missionLayer = new createjs.Container();
+        this.laserScanShape = new createjs.Shape();
+        this.displayLaserScan = true;
+        this.zoom = 1;
+        this.followRobot = false;
+        this.layerRedraws = {};
+        this.onWheel = this.onWheel.bind(this);
+        this.onTouchStart = this.onTouchStart.bind(this);
+        this.onTouchMove = this.onTouchMove.bind(this);
+        this.onTouchEnd = this.onTouchEnd.bind(this);
         this.createOccupancyGridClient();
     }
 
@@ -44,7 +117,7 @@ export class OccupancyGrid extends React.Component {
 
         var graphics = new createjs.Graphics();
         graphics.beginFill(
-            createjs.Graphics.getRGB(color[0], color[1], color[2], 0.5),
+            createjs.Graphics.getRGB(color[0], color[1], color[2], 0.5)
         );
         graphics.drawCircle(0, 0, radius);
 
@@ -80,13 +153,13 @@ export class OccupancyGrid extends React.Component {
             color[0],
             color[1],
             color[2],
-            0.7,
+            0.7
         );
         var fillColor = createjs.Graphics.getRGB(
             color[0],
             color[1],
             color[2],
-            0.7,
+            0.7
         );
 
         // draw the arrow
@@ -190,6 +263,11 @@ export class OccupancyGrid extends React.Component {
         // create the bitmap
         this.bitmap = new createjs.Bitmap(canvas);
         this.rootObject.addChild(this.bitmap);
+        this.rootObject.addChild(this.costmapLayer);
+        this.rootObject.addChild(this.annotationLayer);
+        this.rootObject.addChild(this.planLayer);
+        this.rootObject.addChild(this.laserScanShape);
+        this.rootObject.addChild(this.missionLayer);
 
         // scale the image
         this.scaleX = this.map.info.resolution;
@@ -232,9 +310,11 @@ export class OccupancyGrid extends React.Component {
     }
 
     globalToRos(x: number, y: number) {
-        var rosX = (x / 5) * this.scaleX! + this.origin!.position.x;
+        // Undo the zoom and the pan to find the pixel of the map
+        var local = this.rootObject.globalToLocal(x, y);
+        var rosX = local.x * this.scaleX! + this.origin!.position.x;
         var rosY =
-            (this.height - y / 5) * this.scaleY! + this.origin!.position.y;
+            (this.height - local.y) * this.scaleY! + this.origin!.position.y;
         console.log(rosX, rosY);
         return {
             x: rosX,
@@ -245,9 +325,10 @@ export class OccupancyGrid extends React.Component {
 
     addCurrenPoseMarker() {
         var robotMarker = this.drawNavigationArrow(false, [255, 128, 0]);
+        this.robotMarker = robotMarker;
         this.rootObject.addChild(robotMarker);
 
-        const setPoseInterval = setInterval(() => {
+        this.setPoseInterval = setInterval(() => {
             let pose = this.functs.GetPose();
             let globalCoord = this.rosToGlobal(pose.translation);
             robotMarker.x = globalCoord.x;
@@ -257,15 +338,67 @@ export class OccupancyGrid extends React.Component {
             robotMarker.scaleX = 1.0 / this.rootObject.scaleX;
             robotMarker.scaleY = 1.0 / this.rootObject.scaleY;
             robotMarker.visible = true;
+            this.robotPosition = globalCoord;
+            if (this.followRobot) this.setView(this.zoom, 0, 0);
             this.rootObject.update();
         }, 1000);
     }
 
+    /**
+     * Redraws the latest laser scan around the robot's current pose a few
+     * times a second.
+     */
+    addLaserScan() {
+        this.laserScanInterval = setInterval(() => {
+            this.laserScanShape.visible = this.displayLaserScan;
+            if (!this.displayLaserScan) return;
+            const pose = this.functs.GetPose();
+            const q = pose.rotation;
+            const yaw = Math.atan2(
+                2 * (q.w * q.z + q.x * q.y),
+                1 - 2 * (q.y * q.y + q.z * q.z)
+            );
+            const size = 4 / this.rootObject.scaleX;
+            const graphics = this.laserScanShape.graphics;
+            graphics.clear().beginFill(createjs.Graphics.getRGB(255, 0, 0));
+            this.functs.GetLaserScan().forEach((point) => {
+                // Points are relative to the robot, turn them into the map
+                const global = this.rosToGlobal({
+                    x:
+                        pose.translation.x +
+                        point.x * Math.cos(yaw) -
+                        point.y * Math.sin(yaw),
+                    y:
+                        pose.translation.y +
+                        point.x * Math.sin(yaw) +
+                        point.y * Math.cos(yaw),
+                    z: 0,
+                } as ROSLIB.Vector3);
+                graphics.drawRect(
+                    global.x - size / 2,
+                    global.y - size / 2,
+                    size,
+                    size
+                );
+            });
+            this.rootObject.update();
+        }, 250);
+    }
+
+    /**
+     * @param display whether to show what the laser scanner sees
+     */
+    public setDisplayLaserScan(display: boolean) {
+        this.displayLaserScan = display;
+        this.laserScanShape.visible = display;
+        this.rootObject.update();
+    }
+
     public displayPoseMarkers(
         display: boolean,
         poses: ROSLIB.Transform[],
         poseNames: string[],
-        poseTypes: string[],
+        poseTypes: string[]
     ) {
         if (!display) {
             this.savedPoseMarkers.forEach((marker) => {
@@ -283,13 +416,13 @@ export class OccupancyGrid extends React.Component {
                     globalCoord.x,
                     globalCoord.y,
                     color,
-                    poseNames[index],
+                    poseNames[index]
                 );
                 poseMarker.circle.visible = true;
                 poseMarker.label.visible = false;
 
                 var label_idx = this.savedPoseMarkersLabels.indexOf(
-                    poseNames[index],
+                    poseNames[index]
                 );
                 // If old pose marker label exists, overwrite marker
                 if (label_idx !== -1) {
@@ -310,6 +443,242 @@ export class OccupancyGrid extends React.Component {
         this.rootObject.update();
     }
 
+    /**
+     * Draws a zone or a label in the annotation layer.
+     * @param annotation the annotation to draw
+     * @param draft true while the operator is still adding points to it
+     */
+    drawAnnotation(annotation: MapAnnotation, draft: boolean) {
+        const [r, g, b] = MAP_ANNOTATION_COLORS[annotation.type];
+        const points = annotation.points.map((point: MapPoint) =>
+            this.rosToGlobal({
+                x: point.x,
+                y: point.y,
+                z: 0,
+            } as ROSLIB.Vector3)
+        );
+        if (points.length === 0) return;
+
+        const textScale = 1.0 / this.rootObject.scaleX;
+        if (annotation.type !== MapAnnotationType.Label || draft) {
+            var shape = new createjs.Shape();
+            shape.graphics
+                .setStrokeStyle(textScale * 3)
+                .beginStroke(createjs.Graphics.getRGB(r, g, b, 0.9));
+            if (!draft)
+                shape.graphics.beginFill(
+                    createjs.Graphics.getRGB(r, g, b, 0.25)
+                );
+            shape.graphics.moveTo(points[0].x, points[0].y);
+            points
+                .slice(1)
+                .forEach((point) => shape.graphics.lineTo(point.x, point.y));
+            if (!draft) shape.graphics.closePath();
+            shape.graphics.endStroke();
+            // Mark the corners of a zone that is being drawn
+            if (draft)
+                points.forEach((point) =>
+                    shape.graphics
+                        .beginFill(createjs.Graphics.getRGB(r, g, b, 0.9))
+                        .drawCircle(point.x, point.y, textScale * 6)
+                );
+            this.annotationLayer.addChild(shape);
+        }
+        if (draft || !annotation.name) return;
+
+        // Name zones at the average of their corners
+        var label = new createjs.Text(
+            annotation.name,
+            "bold 30px Arial",
+            createjs.Graphics.getRGB(r, g, b)
+        );
+        label.x =
+            points.reduce((sum, point) => sum + point.x, 0) / points.length;
+        label.y =
+            points.reduce((sum, point) => sum + point.y, 0) / points.length;
+        label.textAlign = "center";
+        label.textBaseline = "middle";
+        label.scaleX = textScale;
+        label.scaleY = textScale;
+        this.annotationLayer.addChild(label);
+    }
+
+    /**
+     * Replaces the zones and labels shown on the map.
+     * @param annotations the saved annotations of the map
+     * @param draft the annotation the operator is drawing, if any
+     */
+    public displayAnnotations(
+        annotations: MapAnnotation[],
+        draft?: MapAnnotation
+    ) {
+        this.layerRedraws.annotations = () =>
+            this.displayAnnotations(annotations, draft);
+        this.annotationLayer.removeAllChildren();
+        if (!this.map) return;
+        annotations.forEach((annotation) =>
+            this.drawAnnotation(annotation, false)
+        );
+        if (draft) this.drawAnnotation(draft, true);
+        this.rootObject.update();
+    }
+
+    /**
+     * Draws a path as a line through its points.
+     * @param points the points of the path, in the map frame
+     * @param color color of the line, as RGB
+     * @param width width of the line, in screen pixels
+     */
+    drawPath(points: ROSPoint[], color: number[], width: number) {
+        if (points.length < 2) return;
+        const globalPoints = points.map((point) =>
+            this.rosToGlobal(point as ROSLIB.Vector3)
+        );
+        var path = new createjs.Shape();
+        path.graphics
+            .setStrokeStyle(width / this.rootObject.scaleX, "round", "round")
+            .beginStroke(
+                createjs.Graphics.getRGB(color[0], color[1], color[2], 0.9)
+            )
+            .moveTo(globalPoints[0].x, globalPoints[0].y);
+        globalPoints
+            .slice(1)
+            .forEach((point) => path.graphics.lineTo(point.x, point.y));
+        path.graphics.endStroke();
+        this.planLayer.addChild(path);
+    }
+
+    /**
+     * Draws the costmap as a translucent image over the map, from blue for
+     * low costs to red for obstacles. Free and unknown cells stay clear.
+     * @param costmap the local costmap, in the map frame
+     */
+    drawCostmap(costmap: ROSOccupancyGrid) {
+        const { width, height, resolution, origin } = costmap.info;
+        if (width === 0 || height === 0) return;
+        var canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+        var context = canvas.getContext("2d");
+        var imageData = context!.createImageData(width, height);
+        for (var row = 0; row < height; row++) {
+            for (var col = 0; col < width; col++) {
+                // Rows of the grid go up, rows of the image go down
+                var cost = costmap.data[col + (height - row - 1) * width];
+                if (cost <= 0) continue;
+                var i = (col + row * width) * 4;
+                imageData.data[i] = Math.round((255 * cost) / 100);
+                imageData.data[i + 1] = 0;
+                imageData.data[i + 2] = Math.round((255 * (100 - cost)) / 100);
+                imageData.data[i + 3] = cost >= 99 ? 200 : 120;
+            }
+        }
+        context!.putImageData(imageData, 0, 0);
+
+        // Place the bottom left corner of the image at the costmap's origin
+        var bitmap = new createjs.Bitmap(canvas);
+        var corner = this.rosToGlobal(origin.position as ROSLIB.Vector3);
+        bitmap.x = corner.x;
+        bitmap.y = corner.y;
+        bitmap.regY = height;
+        bitmap.scaleX = resolution / this.scaleX!;
+        bitmap.scaleY = resolution / this.scaleY!;
+        bitmap.rotation = this.rosQuaternionToGlobalTheta(
+            origin.orientation as ROSLIB.Quaternion
+        );
+        this.costmapLayer.addChild(bitmap);
+    }
+
+    /**
+     * Replaces the paths and the costmap shown on the map.
+     * @param plan the latest plan from the robot
+     * @param showPaths whether to show the global and local paths
+     * @param showCostmap whether to show the local costmap
+     */
+    public displayNavigationPlan(
+        plan: NavigationPlan,
+        showPaths: boolean,
+        showCostmap: boolean
+    ) {
+        this.layerRedraws.plan = () =>
+            this.displayNavigationPlan(plan, showPaths, showCostmap);
+        this.planLayer.removeAllChildren();
+        this.costmapLayer.removeAllChildren();
+        if (!this.map) return;
+        if (showCostmap && plan.costmap) this.drawCostmap(plan.costmap);
+        if (showPaths) {
+            this.drawPath(plan.global || [], [0, 160, 0], 3);
+            this.drawPath(plan.local || [], [255, 200, 0], 5);
+        }
+        this.rootObject.update();
+    }
+
+    /**
+     * Replaces the mission shown on the map, with the waypoints numbered in
+     * the order they are driven to.
+     * @param mission the mission to show
+     */
+    public displayMission(mission: MissionState) {
+        this.layerRedraws.mission = () => this.displayMission(mission);
+        this.missionLayer.removeAllChildren();
+        if (!this.map || mission.waypoints.length === 0) return;
+
+        const points = mission.waypoints.map((waypoint) =>
+            this.rosToGlobal({
+                x: waypoint.position.x,
+                y: waypoint.position.y,
+                z: 0,
+            } as ROSLIB.Vector3)
+        );
+        const textScale = 1.0 / this.rootObject.scaleX;
+        const running =
+            mission.status === MissionStatus.Running ||
+            mission.status === MissionStatus.Paused;
+        // Reached waypoints are grey, the one the robot drives to is orange
+        const color = (idx: number) => {
+            if (!running) return createjs.Graphics.getRGB(120, 0, 200);
+            if (idx < mission.current)
+                return createjs.Graphics.getRGB(150, 150, 150);
+            if (idx === mission.current)
+                return createjs.Graphics.getRGB(255, 128, 0);
+            return createjs.Graphics.getRGB(120, 0, 200);
+        };
+
+        var path = new createjs.Shape();
+        path.graphics.setStrokeStyle(textScale * 3);
+        path.graphics.setStrokeDash([textScale * 10, textScale * 6]);
+        points.slice(1).forEach((point, idx) => {
+            path.graphics
+                .beginStroke(color(idx + 1))
+                .moveTo(points[idx].x, points[idx].y)
+                .lineTo(point.x, point.y)
+                .endStroke();
+        });
+        this.missionLayer.addChild(path);
+
+        points.forEach((point, idx) => {
+            var circle = new createjs.Shape();
+            circle.graphics
+                .beginFill(color(idx))
+                .drawCircle(point.x, point.y, textScale * 14);
+            this.missionLayer.addChild(circle);
+
+            var number = new createjs.Text(
+                `${idx + 1}`,
+                "bold 20px Arial",
+                "white"
+            );
+            number.x = point.x;
+            number.y = point.y;
+            number.textAlign = "center";
+            number.textBaseline = "middle";
+            number.scaleX = textScale;
+            number.scaleY = textScale;
+            this.missionLayer.addChild(number);
+        });
+        this.rootObject.update();
+    }
+
     public createGoalMarker(x: number, y: number, ros: boolean) {
         let globalCoord = { x: x, y: y };
         if (ros)
@@ -336,16 +705,27 @@ export class OccupancyGrid extends React.Component {
         }, 1000);
     }
 
-    play() {
+    /**
+     * Sends the robot to the selected goal.
+     * @returns false if the goal was refused, e.g. inside a keep-out zone
+     */
+    play(): boolean {
+        let sent = true;
         if (this.goal_position) {
-            this.functs.MoveBase({
+            sent = this.functs.MoveBase({
                 position: this.goal_position,
                 orientation: { x: 0, y: 0, z: -0.45, w: 0.893 },
             } as ROSPose);
         }
         this.goal_position = undefined;
+        // Let the operator pick another goal
+        if (!sent) {
+            this.removeGoalMarker();
+            return false;
+        }
         // if (isMobile) this.functs.SetSelectGoal(false)
         this.functs.SetSelectGoal(false);
+        return true;
     }
 
     removeGoalMarker() {
@@ -354,22 +734,314 @@ export class OccupancyGrid extends React.Component {
         if (this.goalMarker) this.rootObject.removeChild(this.goalMarker);
     }
 
+    /** Stops updating the markers, before the map is replaced */
+    remove() {
+        if (this.setPoseInterval) clearInterval(this.setPoseInterval);
+        if (this.laserScanInterval) clearInterval(this.laserScanInterval);
+        if (this.getGoalReached) clearInterval(this.getGoalReached);
+        if (this.zoomRedrawTimeout) clearTimeout(this.zoomRedrawTimeout);
+        const canvas = this.rootObject.canvas as HTMLCanvasElement;
+        canvas.removeEventListener("wheel", this.onWheel);
+        canvas.removeEventListener("touchstart", this.onTouchStart);
+        canvas.removeEventListener("touchmove", this.onTouchMove);
+        canvas.removeEventListener("touchend", this.onTouchEnd);
+    }
+
+    /**
+     * @param follow whether to keep the robot in the middle of the map while
+     *     it drives
+     */
+    public setFollowRobot(follow: boolean) {
+        this.followRobot = follow;
+        this.panStart = undefined;
+        this.setView(this.zoom, this.rootObject.x, this.rootObject.y);
+    }
+
+    /** Zooms out to show the whole map */
+    public resetZoom() {
+        this.setView(1, 0, 0);
+    }
+
+    /** @returns the scale at which the whole map fits the canvas */
+    private fitScale(): number {
+        return (this.rootObject.canvas as HTMLCanvasElement).width / this.width;
+    }
+
+    /**
+     * Zooms and pans the map. The map is kept covering the canvas, unless the
+     * robot is followed, then the robot is kept in the middle instead.
+     * @param zoom how much to zoom in, 1 shows the whole map
+     * @param x where the left edge of the map goes, in stage pixels
+     * @param y where the top edge of the map goes, in stage pixels
+     */
+    private setView(zoom: number, x: number, y: number) {
+        if (!this.map) return;
+        const canvas = this.rootObject.canvas as HTMLCanvasElement;
+        this.zoom = Math.min(Math.max(zoom, 1), MAX_ZOOM);
+        const scale = this.fitScale() * this.zoom;
+        if (this.followRobot && this.robotPosition) {
+            x = canvas.width / 2 - this.robotPosition.x * scale;
+            y = canvas.height / 2 - this.robotPosition.y * scale;
+        } else {
+            x = Math.min(Math.max(x, canvas.width - this.width * scale), 0);
+            y = Math.min(Math.max(y, canvas.height - this.height * scale), 0);
+        }
+        const rescaled = scale !== this.rootObject.scaleX;
+        this.rootObject.scaleX = scale;
+        this.rootObject.scaleY = scale;
+        this.rootObject.x = x;
+        this.rootObject.y = y;
+        if (rescaled) this.rescaleMarkers();
+        this.rootObject.update();
+    }
+
+    /**
+     * Zooms in or out, keeping the point of the map under the pointer where
+     * it is.
+     * @param stageX where the pointer is, in stage pixels
+     * @param stageY where the pointer is, in stage pixels
+     * @param factor how much to zoom in, below 1 zooms out
+     */
+    private zoomAt(stageX: number, stageY: number, factor: number) {
+        const local = this.rootObject.globalToLocal(stageX, stageY);
+        const zoom = Math.min(Math.max(this.zoom * factor, 1), MAX_ZOOM);
+        const scale = this.fitScale() * zoom;
+        this.setView(zoom, stageX - local.x * scale, stageY - local.y * scale);
+    }
+
+    /**
+     * Keeps the markers the same size on screen, and redraws the layers once
+     * the operator stops zooming.
+     */
+    private rescaleMarkers() {
+        const scale = 1.0 / this.rootObject.scaleX;
+        const markers: createjs.DisplayObject[] = [];
+        this.savedPoseMarkers.forEach((marker) =>
+            markers.push(marker.circle, marker.label)
+        );
+        if (this.robotMarker) markers.push(this.robotMarker);
+        if (this.goalMarker) markers.push(this.goalMarker);
+        if (this.poseEstimateMarker) markers.push(this.poseEstimateMarker);
+        markers.forEach((marker) => {
+            marker.scaleX = scale;
+            marker.scaleY = scale;
+        });
+
+        if (this.zoomRedrawTimeout) clearTimeout(this.zoomRedrawTimeout);
+        this.zoomRedrawTimeout = setTimeout(() => {
+            Object.values(this.layerRedraws).forEach((redraw) => redraw());
+        }, ZOOM_REDRAW_DELAY);
+    }
+
+    /**
+     * @returns where a point of the page is on the stage, the canvas is shown
+     *     smaller than it is drawn
+     */
+    private clientToStage(clientX: number, clientY: number) {
+        const canvas = this.rootObject.canvas as HTMLCanvasElement;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: ((clientX - rect.left) * canvas.width) / rect.width,
+            y: ((clientY - rect.top) * canvas.height) / rect.height,
+        };
+    }
+
+    private onWheel(event: WheelEvent) {
+        event.preventDefault();
+        const point = this.clientToStage(event.clientX, event.clientY);
+        this.zoomAt(point.x, point.y, Math.exp(-event.deltaY / 500));
+    }
+
+    private onTouchStart(event: TouchEvent) {
+        if (event.touches.length !== 2) return;
+        // Two fingers zoom instead of panning
+        this.panStart = undefined;
+        this.pinchDistance = this.touchDistance(event.touches);
+    }
+
+    private onTouchMove(event: TouchEvent) {
+        if (event.touches.length !== 2 || !this.pinchDistance) return;
+        event.preventDefault();
+        const [a, b] = [event.touches[0], event.touches[1]];
+        const distance = this.touchDistance(event.touches);
+        const middle = this.clientToStage(
+            (a.clientX + b.clientX) / 2,
+            (a.clientY + b.clientY) / 2
+        );
+        this.zoomAt(middle.x, middle.y, distance / this.pinchDistance);
+        this.pinchDistance = distance;
+    }
+
+    private onTouchEnd(event: TouchEvent) {
+        if (event.touches.length < 2) this.pinchDistance = undefined;
+    }
+
+    /** @returns the distance between the first two touches, in stage pixels */
+    private touchDistance(touches: TouchList): number {
+        const a = this.clientToStage(touches[0].clientX, touches[0].clientY);
+        const b = this.clientToStage(touches[1].clientX, touches[1].clientY);
+        return Math.hypot(a.x - b.x, a.y - b.y);
+    }
+
+    /** @returns true while clicks on the map pick a goal, a pose or points */
+    private clickModeActive(): boolean {
+        return (
+            this.functs.SelectGoal() ||
+            this.functs.DrawingAnnotation() ||
+            this.functs.AddingWaypoints() ||
+            this.functs.SettingPoseEstimate()
+        );
+    }
+
     createOccupancyGridClient() {
         this.createOccupancyGrid();
 
         if (!this.map) return;
 
         this.addCurrenPoseMarker();
+        this.addLaserScan();
 
         this.rootObject.on("mousedown", (event) => {
             let evt = event as createjs.MouseEvent;
+            if (this.functs.DrawingAnnotation()) {
+                this.functs.AddAnnotationPoint(
+                    this.globalToRos(evt.stageX, evt.stageY)
+                );
+                return;
+            }
+            if (this.functs.AddingWaypoints()) {
+                this.functs.AddWaypoint(
+                    this.globalToRos(evt.stageX, evt.stageY)
+                );
+                return;
+            }
+            if (this.functs.SettingPoseEstimate()) {
+                this.startPoseEstimate(evt.stageX, evt.stageY);
+                return;
+            }
             // convert to ROS coordinates
             this.goal_position = this.globalToRos(evt.stageX, evt.stageY);
 
             if (this.functs.SelectGoal()) {
-                this.createGoalMarker(evt.stageX / 5, evt.stageY / 5, false);
+                let local = this.rootObject.globalToLocal(
+                    evt.stageX,
+                    evt.stageY
+                );
+                this.createGoalMarker(local.x, local.y, false);
                 this.functs.SetSelectGoal(false);
             }
         });
+        // Dragging pans the map, unless the drag is used to pick something
+        this.rootObject.on("stagemousedown", (event) => {
+            let evt = event as createjs.MouseEvent;
+            if (this.followRobot || this.pinchDistance) return;
+            if (this.clickModeActive()) return;
+            this.panStart = {
+                pointerID: evt.pointerID,
+                stageX: evt.stageX,
+                stageY: evt.stageY,
+                x: this.rootObject.x,
+                y: this.rootObject.y,
+            };
+        });
+        this.rootObject.on("stagemousemove", (event) => {
+            let evt = event as createjs.MouseEvent;
+            this.aimPoseEstimate(evt.stageX, evt.stageY);
+            if (!this.panStart || evt.pointerID !== this.panStart.pointerID)
+                return;
+            this.setView(
+                this.zoom,
+                this.panStart.x + evt.stageX - this.panStart.stageX,
+                this.panStart.y + evt.stageY - this.panStart.stageY
+            );
+        });
+        this.rootObject.on("stagemouseup", (event) => {
+            let evt = event as createjs.MouseEvent;
+            this.finishPoseEstimate(evt.stageX, evt.stageY);
+            this.panStart = undefined;
+        });
+
+        const canvas = this.rootObject.canvas as HTMLCanvasElement;
+        canvas.addEventListener("wheel", this.onWheel, { passive: false });
+        canvas.addEventListener("touchstart", this.onTouchStart);
+        canvas.addEventListener("touchmove", this.onTouchMove, {
+            passive: false,
+        });
+        canvas.addEventListener("touchend", this.onTouchEnd);
+    }
+
+    /**
+     * Places the robot's new pose where the operator pressed, it faces where
+     * they drag to.
+     */
+    private startPoseEstimate(stageX: number, stageY: number) {
+        this.poseEstimateStart = this.globalToRos(stageX, stageY);
+        if (this.poseEstimateMarker)
+            this.rootObject.removeChild(this.poseEstimateMarker);
+        this.poseEstimateMarker = this.drawNavigationArrow(
+            false,
+            [0, 170, 255]
+        );
+        const local = this.rootObject.globalToLocal(stageX, stageY);
+        this.poseEstimateMarker.x = local.x;
+        this.poseEstimateMarker.y = local.y;
+        this.poseEstimateMarker.rotation =
+            this.rosYawToGlobalTheta(this.currentYaw()) - 90.0;
+        this.poseEstimateMarker.scaleX = 1.0 / this.rootObject.scaleX;
+        this.poseEstimateMarker.scaleY = 1.0 / this.rootObject.scaleY;
+        this.rootObject.addChild(this.poseEstimateMarker);
+        this.rootObject.update();
+    }
+
+    private aimPoseEstimate(stageX: number, stageY: number) {
+        if (!this.poseEstimateStart || !this.poseEstimateMarker) return;
+        const yaw = this.poseEstimateYaw(this.globalToRos(stageX, stageY));
+        this.poseEstimateMarker.rotation = this.rosYawToGlobalTheta(yaw) - 90.0;
+        this.rootObject.update();
+    }
+
+    private finishPoseEstimate(stageX: number, stageY: number) {
+        if (!this.poseEstimateStart) return;
+        const position = this.poseEstimateStart;
+        const yaw = this.poseEstimateYaw(this.globalToRos(stageX, stageY));
+        this.poseEstimateStart = undefined;
+        if (this.poseEstimateMarker)
+            this.rootObject.removeChild(this.poseEstimateMarker);
+        this.poseEstimateMarker = undefined;
+        this.rootObject.update();
+        this.functs.SetPoseEstimate({
+            position: position,
+            orientation: {
+                x: 0,
+                y: 0,
+                z: Math.sin(yaw / 2),
+                w: Math.cos(yaw / 2),
+            },
+        } as ROSPose);
+    }
+
+    /**
+     * @param end where the pointer is, in ROS coordinates
+     * @returns the direction from the pressed point to the pointer, or the
+     *     robot's current heading if the pointer barely moved
+     */
+    private poseEstimateYaw(end: ROSPoint): number {
+        const start = this.poseEstimateStart!;
+        const dx = end.x - start.x;
+        const dy = end.y - start.y;
+        if (Math.hypot(dx, dy) < MIN_POSE_ESTIMATE_DRAG)
+            return this.currentYaw();
+        return Math.atan2(dy, dx);
+    }
+
+    /** @returns the robot's heading on the map, in radians */
+    private currentYaw(): number {
+        const rotation = this.functs.GetPose().rotation;
+        return -(this.rosQuaternionToGlobalTheta(rotation) * Math.PI) / 180.0;
+    }
+
+    /** @returns the canvas rotation in degrees for a heading in radians */
+    private rosYawToGlobalTheta(yaw: number): number {
+        return (-yaw * 180.0) / Math.PI;
     }
 }
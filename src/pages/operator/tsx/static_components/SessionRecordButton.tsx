@@ -0,0 +1,34 @@
+import "operator/css/SessionRecordButton.css";
+import React from "react";
+import { className } from "shared/util";
+import { sessionRecorderFunctionProvider } from "..";
+import { SessionRecorderFunctions } from "../function_providers/SessionRecorderFunctionProvider";
+
+/**
+ * Starts and stops recording the session. The recording is downloaded when
+ * it stops, and can be played back on the replay page.
+ */
+export const SessionRecordButton = () => {
+    const functs: SessionRecorderFunctions =
+        sessionRecorderFunctionProvider.provideFunctions();
+    const [isRecording, setIsRecording] = React.useState<boolean>(
+        sessionRecorderFunctionProvider.isRecording()
+    );
+
+    sessionRecorderFunctionProvider.setOperatorCallback(setIsRecording);
+
+    return (
+        <button
+            className={className("session-record-button", { isRecording })}
+            onClick={isRecording ? functs.stopRecording : functs.startRecording}
+            title={
+                isRecording
+                    ? "Stop recording and download the session"
+                    : "Record the videos, joint states and commands of this session"
+            }
+        >
+            <span className="session-record-indicator" />
+            {isRecording ? "Stop recording" : "Record"}
+        </button>
+    );
+};
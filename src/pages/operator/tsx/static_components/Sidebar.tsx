@@ -23,10 +23,22 @@ import { storageHandler } from "operator/tsx/index";
 import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
 import ExpandLessIcon from "@mui/icons-material/ExpandLess";
 import DeleteForeverIcon from "@mui/icons-material/DeleteForever";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import {
+    ConflictResolution,
+    ImportConflict,
+    ImportResolutions,
+    ImportSummary,
+    readUserDataFile,
+    UserDataBundle,
+    USER_DATA_KIND_LABELS,
+    USER_DATA_KINDS,
+} from "../utils/user_data_bundle";
 
 type SidebarProps = {
     hidden: boolean;
     onDelete: () => void;
+    onDuplicate: () => void;
     updateLayout: () => void;
     onSelect: (def: ComponentDefinition, path?: string) => void;
     selectedDefinition?: ComponentDefinition;
@@ -65,6 +77,21 @@ export const Sidebar = (props: SidebarProps) => {
                 )}
             </div>
             <div id="sidebar-footer">
+                <button
+                    id="duplicate-button"
+                    disabled={deleteDisabled}
+                    title={
+                        deleteDisabled
+                            ? "You must select an element before you can duplicate it"
+                            : ""
+                    }
+                    className={className("btn-turquoise", {})}
+                    onClick={
+                        deleteDisabled ? undefined : () => props.onDuplicate()
+                    }
+                >
+                    <ContentCopyIcon fontSize="large" />
+                </button>
                 <button
                     id="delete-button"
                     disabled={deleteDisabled}
@@ -141,6 +168,23 @@ export type GlobalOptionsProps = {
      * @param layoutName name of the layout to save.
      */
     saveLayout: (layoutName: string) => void;
+    /** Callback when the user exports all their saved data. */
+    exportUserData: () => void;
+    /**
+     * Finds the items in an imported bundle whose names are already taken.
+     * @param bundle the bundle the user picked
+     */
+    findImportConflicts: (bundle: UserDataBundle) => ImportConflict[];
+    /**
+     * Callback when the user imports a bundle.
+     * @param bundle the bundle the user picked
+     * @param resolutions what to do with each conflict
+     * @returns what was imported
+     */
+    importUserData: (
+        bundle: UserDataBundle,
+        resolutions: ImportResolutions
+    ) => ImportSummary;
 };
 
 /** Options which apply to the entire operator page. */
@@ -149,6 +193,27 @@ const SidebarGlobalOptions = (props: GlobalOptionsProps) => {
         React.useState<boolean>(false);
     const [showSaveLayoutModal, setShowSaveLayoutModal] =
         React.useState<boolean>(false);
+    const [importBundle, setImportBundle] = React.useState<UserDataBundle>();
+    const [importMessage, setImportMessage] = React.useState<string>("");
+    const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+    function handlePickFile(file: File) {
+        setImportMessage("");
+        readUserDataFile(file)
+            .then(setImportBundle)
+            .catch((e) => setImportMessage(`Could not import: ${e.message}`));
+    }
+
+    function handleImport(resolutions: ImportResolutions) {
+        const summary = props.importUserData(importBundle!, resolutions);
+        setImportMessage(
+            [
+                `Imported ${summary.imported} items, skipped ${summary.skipped}.`,
+                ...summary.renamed,
+                ...summary.problems,
+            ].join(" ")
+        );
+    }
 
     return (
         <React.Fragment>
@@ -181,6 +246,25 @@ const SidebarGlobalOptions = (props: GlobalOptionsProps) => {
                 <button onClick={() => setShowSaveLayoutModal(true)}>
                     Save layout
                 </button>
+                <button onClick={props.exportUserData}>
+                    Export saved data
+                </button>
+                <button onClick={() => fileInputRef.current?.click()}>
+                    Import saved data
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    hidden
+                    onChange={(e) => {
+                        if (e.target.files && e.target.files[0])
+                            handlePickFile(e.target.files[0]);
+                        // Allow picking the same file again
+                        e.target.value = "";
+                    }}
+                />
+                {importMessage && <p id="import-message">{importMessage}</p>}
             </div>
             <LoadLayoutModal
                 defaultLayouts={props.defaultLayouts}
@@ -195,6 +279,16 @@ const SidebarGlobalOptions = (props: GlobalOptionsProps) => {
                 setShow={setShowSaveLayoutModal}
                 show={showSaveLayoutModal}
             />
+            {importBundle && (
+                <ImportDataModal
+                    bundle={importBundle}
+                    conflicts={props.findImportConflicts(importBundle)}
+                    importUserData={handleImport}
+                    setShow={(show) => {
+                        if (!show) setImportBundle(undefined);
+                    }}
+                />
+            )}
         </React.Fragment>
     );
 };
@@ -303,6 +397,104 @@ const SaveLayoutModal = (props: {
     );
 };
 
+/** Options for an imported item whose name is already taken */
+const RESOLUTIONS: ConflictResolution[] = ["rename", "overwrite", "skip"];
+
+const RESOLUTION_LABELS: { [resolution in ConflictResolution]: string } = {
+    rename: "Keep both",
+    overwrite: "Replace",
+    skip: "Skip",
+};
+
+/**
+ * Popup listing what an imported bundle contains, so the user can choose
+ * what to do with each item whose name is already taken.
+ */
+const ImportDataModal = (props: {
+    bundle: UserDataBundle;
+    conflicts: ImportConflict[];
+    importUserData: (resolutions: ImportResolutions) => void;
+    setShow: (show: boolean) => void;
+}) => {
+    const [resolutions, setResolutions] = React.useState<ImportResolutions>(
+        () => {
+            const initial: ImportResolutions = {
+                layouts: {},
+                mapPoses: {},
+                recordings: {},
+            };
+            props.conflicts.forEach(
+                (conflict) => (initial[conflict.kind][conflict.name] = "rename")
+            );
+            return initial;
+        }
+    );
+
+    function setResolution(
+        conflict: ImportConflict,
+        resolution: ConflictResolution
+    ) {
+        setResolutions({
+            ...resolutions,
+            [conflict.kind]: {
+                ...resolutions[conflict.kind],
+                [conflict.name]: resolution,
+            },
+        });
+    }
+
+    const counts = USER_DATA_KINDS.map(
+        (kind) =>
+            `${Object.keys(props.bundle[kind]).length} ${USER_DATA_KIND_LABELS[kind].toLowerCase()}s`
+    ).concat(`${props.bundle.texts.length} saved texts`);
+
+    return (
+        <PopupModal
+            setShow={props.setShow}
+            show={true}
+            onAccept={() => props.importUserData(resolutions)}
+            id="import-data-modal"
+            acceptButtonText="Import"
+            size="medium"
+        >
+            <b>Import saved data</b>
+            <p>
+                Exported {new Date(props.bundle.exportedAt).toLocaleString()}:{" "}
+                {counts.join(", ")}.
+            </p>
+            {props.conflicts.length > 0 && (
+                <React.Fragment>
+                    <p>These names are already taken:</p>
+                    {props.conflicts.map((conflict) => (
+                        <div
+                            className="import-conflict"
+                            key={`${conflict.kind}-${conflict.name}`}
+                        >
+                            <span>
+                                <em>{USER_DATA_KIND_LABELS[conflict.kind]}</em>{" "}
+                                {conflict.name}
+                            </span>
+                            <Dropdown
+                                onChange={(idx) =>
+                                    setResolution(conflict, RESOLUTIONS[idx])
+                                }
+                                selectedIndex={RESOLUTIONS.indexOf(
+                                    resolutions[conflict.kind][conflict.name]
+                                )}
+                                possibleOptions={RESOLUTIONS.map(
+                                    (resolution) =>
+                                        RESOLUTION_LABELS[resolution]
+                                )}
+                                placement="bottom"
+                            />
+                        </div>
+                    ))}
+                </React.Fragment>
+            )}
+        </PopupModal>
+    );
+};
+
 /*******************************************************************************
  * Component specific options
  */
@@ -333,6 +525,9 @@ const SidebarOptions = (props: OptionsProps) => {
             break;
         case ComponentType.SingleTab:
             contents = <TabOptions {...props} />;
+            break;
+        case ComponentType.Map:
+            contents = <MapOptions {...props} />;
     }
     return <div id="sidebar-options">{contents}</div>;
 };
@@ -844,6 +1039,43 @@ const VideoStreamOptions = (props: OptionsProps) => {
     );
 };
 
+/** Options for the map layout component. */
+const MapOptions = (props: OptionsProps) => {
+    const definition = props.selectedDefinition as MapDefinition;
+    const displayPlan = definition.displayPlan !== false;
+    const displayCostmap = definition.displayCostmap === true;
+    const displayLaserScan = definition.displayLaserScan !== false;
+
+    return (
+        <React.Fragment>
+            <OnOffToggleButton
+                on={displayPlan}
+                onClick={() => {
+                    definition.displayPlan = !displayPlan;
+                    props.updateLayout();
+                }}
+                label="Navigation Plan"
+            />
+            <OnOffToggleButton
+                on={displayCostmap}
+                onClick={() => {
+                    definition.displayCostmap = !displayCostmap;
+                    props.updateLayout();
+                }}
+                label="Costmap"
+            />
+            <OnOffToggleButton
+                on={displayLaserScan}
+                onClick={() => {
+                    definition.displayLaserScan = !displayLaserScan;
+                    props.updateLayout();
+                }}
+                label="Laser Scan"
+            />
+        </React.Fragment>
+    );
+};
+
 /** Options when user selects a single tab within a panel. */
 const TabOptions = (props: OptionsProps) => {
     const definition = props.selectedDefinition as TabDefinition;
@@ -1,4 +1,4 @@
-import { StorageHandler } from "./StorageHandler";
+import { DEFAULT_ROBOT, StorageHandler } from "./StorageHandler";
 import { LayoutDefinition } from "../utils/component_definitions";
 
 import {
@@ -24,8 +24,19 @@ import {
     update,
     push,
 } from "firebase/database";
-import { ArucoMarkersInfo, RobotPose } from "shared/util";
+import { ArucoMarkersInfo, RobotPose, StretchTool } from "shared/util";
 import ROSLIB from "roslib";
+import { MapAnnotation } from "../utils/map_annotations";
+
+/**
+ * Firebase keys can't contain some characters map identities have, e.g. the
+ * dot of the resolution.
+ * @param map identity of the map
+ * @returns the key the map's data is stored under
+ */
+function mapKey(map: string): string {
+    return map.replace(/[.#$/[\]]/g, "_");
+}
 
 /** Uses Firebase to store data. */
 export class FirebaseStorageHandler extends StorageHandler {
@@ -41,7 +52,10 @@ export class FirebaseStorageHandler extends StorageHandler {
     private poses: { [name: string]: RobotPose };
     private mapPoses: { [name: string]: ROSLIB.Transform };
     private mapPoseTypes: { [name: string]: string };
+    private mapPoseMaps: { [name: string]: string };
+    private mapAnnotations: { [mapKey: string]: MapAnnotation[] };
     private recordings: { [name: string]: RobotPose[] };
+    private recordingTools: { [name: string]: StretchTool };
     private textToSpeech: string[];
     private markerNames: string[];
     private markerIDs: string[];
@@ -50,8 +64,9 @@ export class FirebaseStorageHandler extends StorageHandler {
     constructor(
         onStorageHandlerReadyCallback: () => void,
         config: FirebaseOptions,
+        robot?: string
     ) {
-        super(onStorageHandlerReadyCallback);
+        super(onStorageHandlerReadyCallback, robot);
         this.config = config;
         this.app = getApp();
         this.database = getDatabase(this.app);
@@ -64,13 +79,16 @@ export class FirebaseStorageHandler extends StorageHandler {
         this.poses = {};
         this.mapPoses = {};
         this.mapPoseTypes = {};
+        this.mapPoseMaps = {};
+        this.mapAnnotations = {};
         this.recordings = {};
+        this.recordingTools = {};
         this.textToSpeech = [];
         this.markerNames = [];
         this.markerIDs = [];
         this.markerInfo = {} as ArucoMarkersInfo;
         onAuthStateChanged(this.auth, (user) =>
-            this.handleAuthStateChange(user),
+            this.handleAuthStateChange(user)
         );
     }
 
@@ -83,9 +101,23 @@ export class FirebaseStorageHandler extends StorageHandler {
                 .then(async (userData) => {
                     this.layouts = userData.layouts;
                     this.currentLayout = userData.currentLayout;
-                    this.mapPoses = userData.map_poses;
-                    this.mapPoseTypes = userData.map_pose_types;
+                    // Poses saved before they belonged to a robot are shown
+                    // until the robot saves poses of its own
+                    const robotData =
+                        (userData.robots &&
+                            userData.robots[this.scope.robot]) ||
+                        {};
+                    const poseData = robotData.map_poses ? robotData : userData;
+                    this.mapPoses = poseData.map_poses || {};
+                    this.mapPoseTypes = poseData.map_pose_types || {};
+                    this.mapPoseMaps = poseData.map_pose_maps || {};
+                    const annotationData =
+                        this.scope.robot === DEFAULT_ROBOT
+                            ? userData
+                            : robotData;
+                    this.mapAnnotations = annotationData.map_annotations || {};
                     this.recordings = userData.recordings;
+                    this.recordingTools = userData.recording_tools || {};
                     this.textToSpeech = userData.text_to_speech;
 
                     this.onReadyCallback();
@@ -93,7 +125,7 @@ export class FirebaseStorageHandler extends StorageHandler {
                 .catch((error) => {
                     console.log(
                         "Detected that FirebaseModel isn't initialized for user ",
-                        this.uid,
+                        this.uid
                     );
                     this.onReadyCallback();
                 });
@@ -102,7 +134,7 @@ export class FirebaseStorageHandler extends StorageHandler {
 
     private async getUserDataFirebase() {
         const snapshot = await get(
-            child(ref(this.database), "/operators/" + this.uid),
+            child(ref(this.database), "/operators/" + this.uid)
         );
 
         if (snapshot.exists()) {
@@ -128,7 +160,7 @@ export class FirebaseStorageHandler extends StorageHandler {
 
     public saveCustomLayout(
         layout: LayoutDefinition,
-        layoutName: string,
+        layoutName: string
     ): void {
         this.layouts[layoutName] = layout;
         this.writeLayouts(this.layouts);
@@ -164,26 +196,30 @@ export class FirebaseStorageHandler extends StorageHandler {
         return Object.keys(this.mapPoses);
     }
 
-    public saveMapPose(name: string, pose: ROSLIB.Transform, poseType: string) {
+    public saveMapPose(
+        name: string,
+        pose: ROSLIB.Transform,
+        poseType: string,
+        map: string | null | undefined = this.scope.map
+    ) {
         this.mapPoses[name] = pose;
         this.mapPoseTypes[name] = poseType;
-        this.writeMapPoses(this.mapPoses);
-        this.writeMapPoseTypes(this.mapPoseTypes);
+        if (map) this.mapPoseMaps[name] = map;
+        else delete this.mapPoseMaps[name];
+        this.writeMapPoses();
     }
 
-    private async writeMapPoses(poses: { [name: string]: ROSLIB.Transform }) {
-        this.mapPoses = poses;
-
-        let updates: any = {};
-        updates["/operators/" + this.uid + "/map_poses"] = poses;
-        return update(ref(this.database), updates);
+    /** @returns the path of the current robot's data for the user */
+    private robotPath(): string {
+        if (this.scope.robot === DEFAULT_ROBOT) return "/operators/" + this.uid;
+        return "/operators/" + this.uid + "/robots/" + this.scope.robot;
     }
 
-    private async writeMapPoseTypes(poseTypes: { [name: string]: string }) {
-        this.mapPoseTypes = poseTypes;
-
+    private async writeMapPoses() {
         let updates: any = {};
-        updates["/operators/" + this.uid + "/map_pose_types"] = poseTypes;
+        updates[this.robotPath() + "/map_poses"] = this.mapPoses;
+        updates[this.robotPath() + "/map_pose_types"] = this.mapPoseTypes;
+        updates[this.robotPath() + "/map_pose_maps"] = this.mapPoseMaps;
         return update(ref(this.database), updates);
     }
 
@@ -205,7 +241,11 @@ export class FirebaseStorageHandler extends StorageHandler {
 
     public getMapPoseTypes(): string[] {
         if (!this.mapPoseTypes) return [];
-        return Object.keys(this.mapPoseTypes);
+        return this.getMapPoseNames().map((name) => this.mapPoseTypes[name]);
+    }
+
+    public getMapPoseMap(poseName: string): string | undefined {
+        return this.mapPoseMaps[poseName];
     }
 
     public deleteMapPose(poseName: string): void {
@@ -213,8 +253,24 @@ export class FirebaseStorageHandler extends StorageHandler {
         if (!pose) throw Error(`Could not delete pose ${poseName}`);
         delete this.mapPoses[poseName];
         delete this.mapPoseTypes[poseName];
-        this.writeMapPoses(this.mapPoses);
-        this.writeMapPoseTypes(this.mapPoseTypes);
+        delete this.mapPoseMaps[poseName];
+        this.writeMapPoses();
+    }
+
+    protected loadMapAnnotations(map: string): unknown[] {
+        return this.mapAnnotations[mapKey(map)] || [];
+    }
+
+    protected writeMapAnnotations(
+        map: string,
+        annotations: MapAnnotation[]
+    ): void {
+        this.mapAnnotations[mapKey(map)] = annotations;
+
+        let updates: any = {};
+        updates[this.robotPath() + "/map_annotations/" + mapKey(map)] =
+            annotations;
+        update(ref(this.database), updates);
     }
 
     public getRecordingNames(): string[] {
@@ -229,16 +285,28 @@ export class FirebaseStorageHandler extends StorageHandler {
         return JSON.parse(JSON.stringify(recording));
     }
 
-    public savePoseRecording(recordingName: string, poses: RobotPose[]): void {
+    public savePoseRecording(
+        recordingName: string,
+        poses: RobotPose[],
+        tool: StretchTool | null | undefined = this.scope.tool
+    ): void {
         this.recordings[recordingName] = poses;
+        if (tool) this.recordingTools[recordingName] = tool;
+        else delete this.recordingTools[recordingName];
         this.writeRecordings(this.recordings);
     }
 
+    public getRecordingTool(recordingName: string): StretchTool | undefined {
+        return this.recordingTools[recordingName];
+    }
+
     private async writeRecordings(recordings: { [name: string]: RobotPose[] }) {
         this.recordings = recordings;
 
         let updates: any = {};
         updates["/operators/" + this.uid + "/recordings"] = recordings;
+        updates["/operators/" + this.uid + "/recording_tools"] =
+            this.recordingTools;
         return update(ref(this.database), updates);
     }
 
@@ -247,6 +315,7 @@ export class FirebaseStorageHandler extends StorageHandler {
         if (!recording)
             throw Error(`Could not delete recording ${recordingName}`);
         delete this.recordings[recordingName];
+        delete this.recordingTools[recordingName];
         this.writeRecordings(this.recordings);
     }
 
@@ -1,7 +1,8 @@
-import { StorageHandler } from "./StorageHandler";
+import { DEFAULT_ROBOT, StorageHandler } from "./StorageHandler";
 import { LayoutDefinition } from "../utils/component_definitions";
-import { ArucoMarkersInfo, RobotPose } from "shared/util";
+import { ArucoMarkersInfo, RobotPose, StretchTool } from "shared/util";
 import ROSLIB from "roslib";
+import { MapAnnotation } from "../utils/map_annotations";
 
 /** Uses browser local storage to store data. */
 export class LocalStorageHandler extends StorageHandler {
@@ -10,11 +11,14 @@ export class LocalStorageHandler extends StorageHandler {
     public static POSE_NAMES_KEY = "user_pose_names";
     public static MAP_POSE_NAMES_KEY = "user_map_pose_names";
     public static MAP_POSE_TYPES_KEY = "user_map_pose_types";
+    public static MAP_POSE_MAPS_KEY = "user_map_pose_maps";
+    public static MAP_ANNOTATIONS_KEY = "user_map_annotations";
     public static POSE_RECORDING_NAMES_KEY = "user_pose_recording_names";
+    public static POSE_RECORDING_TOOLS_KEY = "user_pose_recording_tools";
     public static TEXT_TO_SPEECH_KEY = "text_to_speech";
 
-    constructor(onStorageHandlerReadyCallback: () => void) {
-        super(onStorageHandlerReadyCallback);
+    constructor(onStorageHandlerReadyCallback: () => void, robot?: string) {
+        super(onStorageHandlerReadyCallback, robot);
         // Allow the initialization process to complete before invoking the callback
         setTimeout(() => {
             this.getCustomLayoutNames();
@@ -22,6 +26,35 @@ export class LocalStorageHandler extends StorageHandler {
         }, 0);
     }
 
+    /**
+     * Gets the key map pose data of the current robot is stored under. The
+     * default robot keeps the keys from before poses belonged to a robot, so
+     * poses saved back then still show up.
+     * @param key the key shared by all robots
+     * @returns the key for the current robot
+     */
+    private robotKey(key: string): string {
+        if (this.scope.robot === DEFAULT_ROBOT) return key;
+        return `${key}@${this.scope.robot}`;
+    }
+
+    private getDictionary(key: string): { [name: string]: string } {
+        const storedJson = localStorage.getItem(key);
+        if (!storedJson) return {};
+        return JSON.parse(storedJson);
+    }
+
+    private setDictionaryEntry(
+        key: string,
+        name: string,
+        value: string | undefined
+    ) {
+        const dictionary = this.getDictionary(key);
+        if (value === undefined) delete dictionary[name];
+        else dictionary[name] = value;
+        localStorage.setItem(key, JSON.stringify(dictionary));
+    }
+
     public loadCustomLayout(layoutName: string): LayoutDefinition {
         const storedJson = localStorage.getItem(layoutName);
         if (!storedJson)
@@ -31,13 +64,13 @@ export class LocalStorageHandler extends StorageHandler {
 
     public saveCustomLayout(
         layout: LayoutDefinition,
-        layoutName: string,
+        layoutName: string
     ): void {
         const layoutNames = this.getCustomLayoutNames();
-        layoutNames.push(layoutName);
+        if (!layoutNames.includes(layoutName)) layoutNames.push(layoutName);
         localStorage.setItem(
             LocalStorageHandler.LAYOUT_NAMES_KEY,
-            JSON.stringify(layoutNames),
+            JSON.stringify(layoutNames)
         );
         localStorage.setItem(layoutName, JSON.stringify(layout));
     }
@@ -45,13 +78,13 @@ export class LocalStorageHandler extends StorageHandler {
     public saveCurrentLayout(layout: LayoutDefinition): void {
         localStorage.setItem(
             LocalStorageHandler.CURRENT_LAYOUT_KEY,
-            JSON.stringify(layout),
+            JSON.stringify(layout)
         );
     }
 
     public loadCurrentLayout(): LayoutDefinition | null {
         const storedJson = localStorage.getItem(
-            LocalStorageHandler.CURRENT_LAYOUT_KEY,
+            LocalStorageHandler.CURRENT_LAYOUT_KEY
         );
         if (!storedJson) return null;
         return JSON.parse(storedJson);
@@ -59,7 +92,7 @@ export class LocalStorageHandler extends StorageHandler {
 
     public getCustomLayoutNames(): string[] {
         const storedJson = localStorage.getItem(
-            LocalStorageHandler.LAYOUT_NAMES_KEY,
+            LocalStorageHandler.LAYOUT_NAMES_KEY
         );
         if (!storedJson) return [];
         return JSON.parse(storedJson);
@@ -69,6 +102,7 @@ export class LocalStorageHandler extends StorageHandler {
         poseName: string,
         pose: ROSLIB.Transform,
         poseType: string,
+        map: string | null | undefined = this.scope.map
     ) {
         const poseNames = this.getMapPoseNames();
         const poseTypes = this.getMapPoseTypes();
@@ -82,26 +116,36 @@ export class LocalStorageHandler extends StorageHandler {
             poseTypes[idx] = poseType;
         }
         localStorage.setItem(
-            LocalStorageHandler.MAP_POSE_NAMES_KEY,
-            JSON.stringify(poseNames),
+            this.robotKey(LocalStorageHandler.MAP_POSE_NAMES_KEY),
+            JSON.stringify(poseNames)
+        );
+        localStorage.setItem(
+            this.robotKey(LocalStorageHandler.MAP_POSE_TYPES_KEY),
+            JSON.stringify(poseTypes)
         );
         localStorage.setItem(
-            LocalStorageHandler.MAP_POSE_TYPES_KEY,
-            JSON.stringify(poseTypes),
+            this.robotKey("map_" + poseName),
+            JSON.stringify(pose)
+        );
+        this.setDictionaryEntry(
+            this.robotKey(LocalStorageHandler.MAP_POSE_MAPS_KEY),
+            poseName,
+            map ?? undefined
         );
-        localStorage.setItem("map_" + poseName, JSON.stringify(pose));
     }
 
     public getMapPoseNames(): string[] {
         const storedJson = localStorage.getItem(
-            LocalStorageHandler.MAP_POSE_NAMES_KEY,
+            this.robotKey(LocalStorageHandler.MAP_POSE_NAMES_KEY)
         );
         if (!storedJson) return [];
         return JSON.parse(storedJson);
     }
 
     public getMapPose(poseName: string): ROSLIB.Transform {
-        const storedJson = localStorage.getItem("map_" + poseName);
+        const storedJson = localStorage.getItem(
+            this.robotKey("map_" + poseName)
+        );
         if (!storedJson) throw Error(`Could not load pose ${poseName}`);
         return JSON.parse(storedJson);
     }
@@ -118,33 +162,63 @@ export class LocalStorageHandler extends StorageHandler {
 
     public getMapPoseTypes(): string[] {
         const storedJson = localStorage.getItem(
-            LocalStorageHandler.MAP_POSE_TYPES_KEY,
+            this.robotKey(LocalStorageHandler.MAP_POSE_TYPES_KEY)
         );
         if (!storedJson) return [];
         return JSON.parse(storedJson);
     }
 
+    public getMapPoseMap(poseName: string): string | undefined {
+        return this.getDictionary(
+            this.robotKey(LocalStorageHandler.MAP_POSE_MAPS_KEY)
+        )[poseName];
+    }
+
     public deleteMapPose(poseName: string): void {
         const poseNames = this.getMapPoseNames();
         if (!poseNames.includes(poseName)) return;
-        localStorage.removeItem("map_" + poseName);
+        localStorage.removeItem(this.robotKey("map_" + poseName));
         const index = poseNames.indexOf(poseName);
         poseNames.splice(index, 1);
         const poseTypes = this.getMapPoseTypes();
         poseTypes.splice(index, 1);
         localStorage.setItem(
-            LocalStorageHandler.MAP_POSE_NAMES_KEY,
-            JSON.stringify(poseNames),
+            this.robotKey(LocalStorageHandler.MAP_POSE_NAMES_KEY),
+            JSON.stringify(poseNames)
         );
         localStorage.setItem(
-            LocalStorageHandler.MAP_POSE_TYPES_KEY,
-            JSON.stringify(poseTypes),
+            this.robotKey(LocalStorageHandler.MAP_POSE_TYPES_KEY),
+            JSON.stringify(poseTypes)
         );
+        this.setDictionaryEntry(
+            this.robotKey(LocalStorageHandler.MAP_POSE_MAPS_KEY),
+            poseName,
+            undefined
+        );
+    }
+
+    protected loadMapAnnotations(map: string): unknown[] {
+        const storedJson = localStorage.getItem(
+            this.robotKey(LocalStorageHandler.MAP_ANNOTATIONS_KEY)
+        );
+        if (!storedJson) return [];
+        return JSON.parse(storedJson)[map] || [];
+    }
+
+    protected writeMapAnnotations(
+        map: string,
+        annotations: MapAnnotation[]
+    ): void {
+        const key = this.robotKey(LocalStorageHandler.MAP_ANNOTATIONS_KEY);
+        const storedJson = localStorage.getItem(key);
+        const maps = storedJson ? JSON.parse(storedJson) : {};
+        maps[map] = annotations;
+        localStorage.setItem(key, JSON.stringify(maps));
     }
 
     public getRecordingNames(): string[] {
         const storedJson = localStorage.getItem(
-            LocalStorageHandler.POSE_RECORDING_NAMES_KEY,
+            LocalStorageHandler.POSE_RECORDING_NAMES_KEY
         );
         if (!storedJson) return [];
         return JSON.parse(storedJson);
@@ -157,20 +231,35 @@ export class LocalStorageHandler extends StorageHandler {
         return JSON.parse(storedJson);
     }
 
-    public savePoseRecording(recordingName: string, poses: RobotPose[]): void {
+    public savePoseRecording(
+        recordingName: string,
+        poses: RobotPose[],
+        tool: StretchTool | null | undefined = this.scope.tool
+    ): void {
         const recordingNames = this.getRecordingNames();
         if (!recordingNames.includes(recordingName))
             recordingNames.push(recordingName);
         localStorage.setItem(
             LocalStorageHandler.POSE_RECORDING_NAMES_KEY,
-            JSON.stringify(recordingNames),
+            JSON.stringify(recordingNames)
         );
         localStorage.setItem(
             "recording_" + recordingName,
-            JSON.stringify(poses),
+            JSON.stringify(poses)
+        );
+        this.setDictionaryEntry(
+            LocalStorageHandler.POSE_RECORDING_TOOLS_KEY,
+            recordingName,
+            tool ?? undefined
         );
     }
 
+    public getRecordingTool(recordingName: string): StretchTool | undefined {
+        return this.getDictionary(LocalStorageHandler.POSE_RECORDING_TOOLS_KEY)[
+            recordingName
+        ] as StretchTool | undefined;
+    }
+
     public deleteRecording(recordingName: string): void {
         const recordingNames = this.getRecordingNames();
         if (!recordingNames.includes(recordingName)) return;
@@ -179,13 +268,18 @@ export class LocalStorageHandler extends StorageHandler {
         recordingNames.splice(index, 1);
         localStorage.setItem(
             LocalStorageHandler.POSE_RECORDING_NAMES_KEY,
-            JSON.stringify(recordingNames),
+            JSON.stringify(recordingNames)
+        );
+        this.setDictionaryEntry(
+            LocalStorageHandler.POSE_RECORDING_TOOLS_KEY,
+            recordingName,
+            undefined
         );
     }
 
     public getSavedTexts(): string[] {
         const storedJson = localStorage.getItem(
-            LocalStorageHandler.TEXT_TO_SPEECH_KEY,
+            LocalStorageHandler.TEXT_TO_SPEECH_KEY
         );
         if (!storedJson) return [];
         return JSON.parse(storedJson);
@@ -197,7 +291,7 @@ export class LocalStorageHandler extends StorageHandler {
         texts.push(text);
         localStorage.setItem(
             LocalStorageHandler.TEXT_TO_SPEECH_KEY,
-            JSON.stringify(texts),
+            JSON.stringify(texts)
         );
     }
 
@@ -208,7 +302,7 @@ export class LocalStorageHandler extends StorageHandler {
         texts.splice(index, 1);
         localStorage.setItem(
             LocalStorageHandler.TEXT_TO_SPEECH_KEY,
-            JSON.stringify(texts),
+            JSON.stringify(texts)
         );
     }
 }
@@ -0,0 +1,258 @@
+import { DEFAULT_ROBOT, StorageHandler } from "./StorageHandler";
+import { LocalStorageHandler } from "./LocalStorageHandler";
+import { LayoutDefinition } from "../utils/component_definitions";
+import { RobotPose, StretchTool } from "shared/util";
+import { getSessionToken } from "shared/signaling/LocalSession";
+import ROSLIB from "roslib";
+import { MapAnnotation } from "../utils/map_annotations";
+
+/** Path of the storage endpoints on the local server, see `server.js` */
+const STORAGE_URL = "/storage";
+
+type StoredMapPose = { pose: ROSLIB.Transform; type: string; map?: string };
+
+/** Recordings saved before they kept their tool are plain lists of poses */
+type StoredRecording = { poses: RobotPose[]; tool?: StretchTool } | RobotPose[];
+
+/**
+ * Stores data as files on the robot through the local server, so every
+ * operator of the robot shares the same saved layouts, poses, recordings and
+ * texts. The last used layout stays in the browser, since each operator
+ * arranges their own screen.
+ */
+export class ServerStorageHandler extends StorageHandler {
+    private layouts: { [name: string]: LayoutDefinition };
+    private mapPoses: { [name: string]: StoredMapPose };
+    private mapAnnotations: { [map: string]: MapAnnotation[] };
+    private recordings: { [name: string]: StoredRecording };
+    private textToSpeech: string[];
+
+    constructor(onStorageHandlerReadyCallback: () => void, robot?: string) {
+        super(onStorageHandlerReadyCallback, robot);
+        this.layouts = {};
+        this.mapPoses = {};
+        this.mapAnnotations = {};
+        this.recordings = {};
+        this.textToSpeech = [];
+
+        this.request("GET", this.storageUrl(""))
+            .then((data) => {
+                this.layouts = data.layouts;
+                this.mapPoses = data.map_poses;
+                this.mapAnnotations = data.map_annotations;
+                this.recordings = data.recordings;
+                this.textToSpeech = data.texts;
+            })
+            .catch((error) =>
+                console.error("Could not load the saved data:", error)
+            )
+            .finally(() => this.onReadyCallback());
+    }
+
+    /**
+     * @param path path of the endpoint under the storage URL
+     * @returns the URL of the endpoint, for the current robot. The server
+     *          takes a URL without a robot to be about the robot it runs on.
+     */
+    private storageUrl(path: string): string {
+        const url = STORAGE_URL + path;
+        if (this.scope.robot === DEFAULT_ROBOT) return url;
+        return `${url}?robot=${encodeURIComponent(this.scope.robot)}`;
+    }
+
+    /**
+     * Sends a request to the storage endpoints.
+     * @param method HTTP method of the request
+     * @param url path of the endpoint
+     * @param body value to send as JSON
+     * @returns the response body
+     */
+    private async request(method: string, url: string, body?: any) {
+        const headers: { [name: string]: string } = {
+            "Content-Type": "application/json",
+        };
+        const token = getSessionToken();
+        if (token) headers["Authorization"] = `Bearer ${token}`;
+        const response = await fetch(url, {
+            method: method,
+            headers: headers,
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        const result = await response.json();
+        if (!response.ok) throw result.error || response.statusText;
+        return result;
+    }
+
+    /** Writes one item of a collection, the local copy is already updated */
+    private writeItem(collection: string, name: string, value: any) {
+        this.request(
+            "PUT",
+            this.storageUrl(`/${collection}/${encodeURIComponent(name)}`),
+            value
+        ).catch((error) =>
+            console.error(`Could not save ${collection} ${name}:`, error)
+        );
+    }
+
+    private deleteItem(collection: string, name: string) {
+        this.request(
+            "DELETE",
+            this.storageUrl(`/${collection}/${encodeURIComponent(name)}`)
+        ).catch((error) =>
+            console.error(`Could not delete ${collection} ${name}:`, error)
+        );
+    }
+
+    private writeTextToSpeech() {
+        this.request("PUT", this.storageUrl("/texts"), this.textToSpeech).catch(
+            (error) => console.error("Could not save the texts:", error)
+        );
+    }
+
+    public loadCustomLayout(layoutName: string): LayoutDefinition {
+        const layout = this.layouts[layoutName];
+        if (!layout) throw Error(`Could not load custom layout ${layoutName}`);
+        return JSON.parse(JSON.stringify(layout));
+    }
+
+    public saveCustomLayout(
+        layout: LayoutDefinition,
+        layoutName: string
+    ): void {
+        this.layouts[layoutName] = layout;
+        this.writeItem("layouts", layoutName, layout);
+    }
+
+    public saveCurrentLayout(layout: LayoutDefinition): void {
+        localStorage.setItem(
+            LocalStorageHandler.CURRENT_LAYOUT_KEY,
+            JSON.stringify(layout)
+        );
+    }
+
+    public loadCurrentLayout(): LayoutDefinition | null {
+        const storedJson = localStorage.getItem(
+            LocalStorageHandler.CURRENT_LAYOUT_KEY
+        );
+        if (!storedJson) return null;
+        return JSON.parse(storedJson);
+    }
+
+    public getCustomLayoutNames(): string[] {
+        return Object.keys(this.layouts);
+    }
+
+    public saveMapPose(
+        poseName: string,
+        pose: ROSLIB.Transform,
+        poseType: string,
+        map: string | null | undefined = this.scope.map
+    ) {
+        this.mapPoses[poseName] = {
+            pose: pose,
+            type: poseType,
+            map: map ?? undefined,
+        };
+        this.writeItem("map_poses", poseName, this.mapPoses[poseName]);
+    }
+
+    public getMapPoseNames(): string[] {
+        return Object.keys(this.mapPoses);
+    }
+
+    public getMapPose(poseName: string): ROSLIB.Transform {
+        const mapPose = this.mapPoses[poseName];
+        if (!mapPose) throw Error(`Could not load pose ${poseName}`);
+        return JSON.parse(JSON.stringify(mapPose.pose));
+    }
+
+    public getMapPoses(): ROSLIB.Transform[] {
+        return this.getMapPoseNames().map((poseName) =>
+            this.getMapPose(poseName)
+        );
+    }
+
+    public getMapPoseTypes(): string[] {
+        return Object.values(this.mapPoses).map((mapPose) => mapPose.type);
+    }
+
+    public getMapPoseMap(poseName: string): string | undefined {
+        const mapPose = this.mapPoses[poseName];
+        return mapPose ? mapPose.map : undefined;
+    }
+
+    public deleteMapPose(poseName: string): void {
+        if (!(poseName in this.mapPoses)) return;
+        delete this.mapPoses[poseName];
+        this.deleteItem("map_poses", poseName);
+    }
+
+    protected loadMapAnnotations(map: string): unknown[] {
+        return this.mapAnnotations[map] || [];
+    }
+
+    protected writeMapAnnotations(
+        map: string,
+        annotations: MapAnnotation[]
+    ): void {
+        this.mapAnnotations[map] = annotations;
+        this.writeItem("map_annotations", map, annotations);
+    }
+
+    public getRecordingNames(): string[] {
+        return Object.keys(this.recordings);
+    }
+
+    public getRecording(recordingName: string): RobotPose[] {
+        const recording = this.recordings[recordingName];
+        if (!recording)
+            throw Error(`Could not load recording ${recordingName}`);
+        const poses = Array.isArray(recording) ? recording : recording.poses;
+        return JSON.parse(JSON.stringify(poses));
+    }
+
+    public savePoseRecording(
+        recordingName: string,
+        poses: RobotPose[],
+        tool: StretchTool | null | undefined = this.scope.tool
+    ): void {
+        this.recordings[recordingName] = {
+            poses: poses,
+            tool: tool ?? undefined,
+        };
+        this.writeItem(
+            "recordings",
+            recordingName,
+            this.recordings[recordingName]
+        );
+    }
+
+    public getRecordingTool(recordingName: string): StretchTool | undefined {
+        const recording = this.recordings[recordingName];
+        if (!recording || Array.isArray(recording)) return;
+        return recording.tool;
+    }
+
+    public deleteRecording(recordingName: string): void {
+        if (!(recordingName in this.recordings)) return;
+        delete this.recordings[recordingName];
+        this.deleteItem("recordings", recordingName);
+    }
+
+    public getSavedTexts(): string[] {
+        return [...this.textToSpeech];
+    }
+
+    public saveText(text: string): void {
+        if (this.textToSpeech.includes(text)) return;
+        this.textToSpeech.push(text);
+        this.writeTextToSpeech();
+    }
+
+    public deleteText(text: string): void {
+        const index = this.textToSpeech.indexOf(text);
+        if (index < 0) return;
+        this.textToSpeech.splice(index, 1);
+        this.writeTextToSpeech();
+    }
+}
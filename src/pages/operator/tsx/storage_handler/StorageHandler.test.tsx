@@ -0,0 +1,214 @@
+/**
+ * @jest-environment jsdom
+ */
+import { StretchTool } from "shared/util";
+import { LocalStorageHandler } from "operator/tsx/storage_handler/LocalStorageHandler";
+import {
+    ImportResolutions,
+    parseUserDataBundle,
+    UserDataBundle,
+    USER_DATA_BUNDLE_VERSION,
+} from "operator/tsx/utils/user_data_bundle";
+
+const oldPose = {
+    translation: { x: 1, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, w: 1 },
+};
+const newPose = {
+    translation: { x: 2, y: 3, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, w: 1 },
+};
+
+function createHandler() {
+    const handler = new LocalStorageHandler(() => {}, "stretch-1");
+    handler.updateScope({ map: "map-a", tool: StretchTool.GRIPPER });
+    return handler;
+}
+
+/** A bundle with one layout, map pose and recording, all named "Saved" */
+function createBundle(handler: LocalStorageHandler): UserDataBundle {
+    const layout = handler.loadDefaultLayout("Basic Layout");
+    layout.displayLabels = false;
+    return {
+        version: USER_DATA_BUNDLE_VERSION,
+        exportedAt: 1000,
+        layouts: { Saved: layout },
+        mapPoses: { Saved: { pose: newPose, type: "MAP", map: "map-b" } },
+        recordings: { Saved: [{ joint_lift: 0.8 }] },
+        recordingTools: { Saved: StretchTool.DEX_GRIPPER },
+        texts: [],
+    };
+}
+
+/** Saves a layout, map pose and recording named "Saved" */
+function saveExisting(handler: LocalStorageHandler) {
+    handler.saveCustomLayout(
+        handler.loadDefaultLayout("Basic Layout"),
+        "Saved"
+    );
+    handler.saveMapPose("Saved", oldPose, "MAP");
+    handler.savePoseRecording("Saved", [{ joint_lift: 0.2 }]);
+}
+
+/** @returns the same resolution for every conflict in {@link createBundle} */
+function resolveAll(
+    resolution: ImportResolutions["layouts"][string]
+): ImportResolutions {
+    return {
+        layouts: { Saved: resolution },
+        mapPoses: { Saved: resolution },
+        recordings: { Saved: resolution },
+    };
+}
+
+describe("importUserData", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("finds the items whose names are taken", () => {
+        const handler = createHandler();
+        saveExisting(handler);
+        expect(handler.findImportConflicts(createBundle(handler))).toEqual([
+            { kind: "layouts", name: "Saved" },
+            { kind: "mapPoses", name: "Saved" },
+            { kind: "recordings", name: "Saved" },
+        ]);
+    });
+
+    it("saves items that don't conflict with their map and tool", () => {
+        const handler = createHandler();
+        const summary = handler.importUserData(
+            createBundle(handler),
+            resolveAll("skip")
+        );
+        expect(summary).toEqual({
+            imported: 3,
+            skipped: 0,
+            renamed: [],
+            problems: [],
+        });
+        expect(handler.loadCustomLayout("Saved").displayLabels).toBe(false);
+        expect(handler.getMapPose("Saved")).toEqual(newPose);
+        expect(handler.getMapPoseMap("Saved")).toBe("map-b");
+        expect(handler.getRecordingTool("Saved")).toBe(StretchTool.DEX_GRIPPER);
+    });
+
+    it("saves conflicting items under a new name when renaming", () => {
+        const handler = createHandler();
+        saveExisting(handler);
+        const summary = handler.importUserData(
+            createBundle(handler),
+            resolveAll("rename")
+        );
+        expect(summary.imported).toBe(3);
+        expect(summary.renamed).toEqual([
+            'Layout "Saved" was imported as "Saved (2)".',
+            'Map pose "Saved" was imported as "Saved (2)".',
+            'Movement recording "Saved" was imported as "Saved (2)".',
+        ]);
+        expect(handler.getCustomLayoutNames()).toEqual(["Saved", "Saved (2)"]);
+        expect(handler.getMapPose("Saved")).toEqual(oldPose);
+        expect(handler.getMapPose("Saved (2)")).toEqual(newPose);
+        expect(handler.getRecording("Saved")).toEqual([{ joint_lift: 0.2 }]);
+        expect(handler.getRecording("Saved (2)")).toEqual([
+            { joint_lift: 0.8 },
+        ]);
+    });
+
+    it("doesn't rename onto another item in the bundle", () => {
+        const handler = createHandler();
+        saveExisting(handler);
+        const bundle = createBundle(handler);
+        bundle.recordings["Saved (2)"] = [{ joint_lift: 0.5 }];
+        const summary = handler.importUserData(bundle, resolveAll("rename"));
+        expect(summary.renamed).toContain(
+            'Movement recording "Saved" was imported as "Saved (3)".'
+        );
+        expect(handler.getRecording("Saved (2)")).toEqual([
+            { joint_lift: 0.5 },
+        ]);
+        expect(handler.getRecording("Saved (3)")).toEqual([
+            { joint_lift: 0.8 },
+        ]);
+    });
+
+    it("replaces conflicting items when overwriting", () => {
+        const handler = createHandler();
+        saveExisting(handler);
+        const summary = handler.importUserData(
+            createBundle(handler),
+            resolveAll("overwrite")
+        );
+        expect(summary).toEqual({
+            imported: 3,
+            skipped: 0,
+            renamed: [],
+            problems: [],
+        });
+        expect(handler.getCustomLayoutNames()).toEqual(["Saved"]);
+        expect(handler.loadCustomLayout("Saved").displayLabels).toBe(false);
+        expect(handler.getMapPoseNames()).toEqual(["Saved"]);
+        expect(handler.getMapPose("Saved")).toEqual(newPose);
+        expect(handler.getMapPoseMap("Saved")).toBe("map-b");
+        expect(handler.getRecording("Saved")).toEqual([{ joint_lift: 0.8 }]);
+        expect(handler.getRecordingTool("Saved")).toBe(StretchTool.DEX_GRIPPER);
+    });
+
+    it("keeps the stored items when skipping", () => {
+        const handler = createHandler();
+        saveExisting(handler);
+        const summary = handler.importUserData(
+            createBundle(handler),
+            resolveAll("skip")
+        );
+        expect(summary.imported).toBe(0);
+        expect(summary.skipped).toBe(3);
+        expect(handler.loadCustomLayout("Saved").displayLabels).toBe(true);
+        expect(handler.getMapPose("Saved")).toEqual(oldPose);
+        expect(handler.getRecording("Saved")).toEqual([{ joint_lift: 0.2 }]);
+    });
+
+    it("skips conflicts without a resolution", () => {
+        const handler = createHandler();
+        saveExisting(handler);
+        const summary = handler.importUserData(createBundle(handler), {
+            layouts: {},
+            mapPoses: {},
+            recordings: {},
+        });
+        expect(summary.skipped).toBe(3);
+        expect(handler.getMapPose("Saved")).toEqual(oldPose);
+    });
+
+    it("doesn't give items from a version 1 bundle the current map and tool", () => {
+        const handler = createHandler();
+        const bundle = parseUserDataBundle(
+            JSON.stringify({
+                version: 1,
+                exportedAt: 1000,
+                mapPoses: { Door: { pose: newPose, type: "MAP" } },
+                recordings: { Wave: [{ joint_lift: 0.8 }] },
+            })
+        );
+        handler.importUserData(bundle, resolveAll("skip"));
+        expect(handler.getMapPoseMap("Door")).toBeUndefined();
+        expect(handler.getRecordingTool("Wave")).toBeUndefined();
+        expect(handler.checkMapPose("Door")).toBeUndefined();
+    });
+
+    it("imports what it exported", () => {
+        const handler = createHandler();
+        saveExisting(handler);
+        handler.saveText("Hello");
+        const exported = JSON.stringify(handler.exportUserData());
+        localStorage.clear();
+        const summary = handler.importUserData(
+            parseUserDataBundle(exported),
+            resolveAll("skip")
+        );
+        expect(summary.imported).toBe(4);
+        expect(handler.exportUserData()).toEqual({
+            ...JSON.parse(exported),
+            exportedAt: expect.any(Number),
+        });
+    });
+});
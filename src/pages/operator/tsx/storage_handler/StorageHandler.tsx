@@ -1,8 +1,39 @@
 import ROSLIB from "roslib";
 import { BASIC_LAYOUT } from "../default_layouts/SIMPLE_LAYOUT";
 import { LayoutDefinition } from "operator/tsx/utils/component_definitions";
-import { ArucoMarkersInfo, RobotPose } from "shared/util";
+import { ArucoMarkersInfo, RobotPose, StretchTool } from "shared/util";
 import { ARUCO_MARKER_INFO } from "../utils/aruco_markers_dict";
+import { loadLayout, LayoutReport } from "../utils/layout_schema";
+import { isMapAnnotation, MapAnnotation } from "../utils/map_annotations";
+import {
+    ImportConflict,
+    ImportResolutions,
+    ImportSummary,
+    isRecording,
+    isTransform,
+    uniqueName,
+    UserDataBundle,
+    UserDataKind,
+    USER_DATA_BUNDLE_VERSION,
+    USER_DATA_KIND_LABELS,
+    USER_DATA_KINDS,
+} from "../utils/user_data_bundle";
+
+/** Name the last used layout goes by in layout reports */
+const CURRENT_LAYOUT_NAME = "Last used layout";
+
+/** Robot the data belongs to when the operator page is opened without one */
+export const DEFAULT_ROBOT = "default";
+
+/** Where data is saved and loaded */
+export type StorageScope = {
+    /** Fleet ID of the robot, map poses are only listed on their own robot */
+    robot: string;
+    /** Identity of the robot's map, see `mapIdentity` */
+    map?: string;
+    /** Tool attached to the robot */
+    tool?: StretchTool;
+};
 
 /** Type for all the possible names of default layouts. */
 export type DefaultLayoutName = "Basic Layout";
@@ -23,9 +54,29 @@ export abstract class StorageHandler {
      * user has signed into Firebase.
      */
     public onReadyCallback: () => void;
+    /** Problems found in the last layout loaded, until they are shown */
+    private layoutReport?: LayoutReport;
+    /** Robot, map and tool new map poses and recordings are saved for */
+    protected scope: StorageScope;
 
-    constructor(onStorageHandlerReadyCallback: () => void) {
+    /**
+     * @param onStorageHandlerReadyCallback see {@link onReadyCallback}
+     * @param robot fleet ID of the robot whose map poses are loaded
+     */
+    constructor(
+        onStorageHandlerReadyCallback: () => void,
+        robot: string = DEFAULT_ROBOT
+    ) {
         this.onReadyCallback = onStorageHandlerReadyCallback.bind(this);
+        this.scope = { robot: robot };
+    }
+
+    /**
+     * Updates the map and tool of the robot, once the robot reports them.
+     * @param scope the map and tool that changed
+     */
+    public updateScope(scope: { map?: string; tool?: StretchTool }) {
+        this.scope = { ...this.scope, ...scope };
     }
 
     /**
@@ -42,7 +93,7 @@ export abstract class StorageHandler {
      */
     public abstract saveCustomLayout(
         layout: LayoutDefinition,
-        layoutName: string,
+        layoutName: string
     ): void;
 
     /**
@@ -63,14 +114,17 @@ export abstract class StorageHandler {
     public abstract getCustomLayoutNames(): string[];
 
     /**
-     * Save the map pose and its identifier
+     * Save the map pose and its identifier for the current robot
      * @param name the name of the pose
      * @param pose the pose on the map to save
+     * @param map identity of the map the pose is on, defaults to the
+     *            robot's current map, null if it is not known
      */
     public abstract saveMapPose(
         poseName: string,
         pose: ROSLIB.Transform,
         poseType: string,
+        map?: string | null
     ): void;
 
     /**
@@ -98,12 +152,37 @@ export abstract class StorageHandler {
      */
     public abstract getMapPoseTypes(): string[];
 
+    /**
+     * Gets the map a map pose was saved on
+     * @param poseName the name of the map pose
+     * @returns identity of the map, or undefined if the pose was saved before
+     *          poses recorded their map
+     */
+    public abstract getMapPoseMap(poseName: string): string | undefined;
+
     /**
      * Removes the map pose from storage
      * @param name the name of the map pose
      */
     public abstract deleteMapPose(poseName: string): void;
 
+    /**
+     * Gets the zones and labels drawn on a map of the current robot
+     * @param map identity of the map
+     * @returns the annotations, as they were stored
+     */
+    protected abstract loadMapAnnotations(map: string): unknown[];
+
+    /**
+     * Replaces the zones and labels drawn on a map of the current robot
+     * @param map identity of the map
+     * @param annotations all the annotations of the map
+     */
+    protected abstract writeMapAnnotations(
+        map: string,
+        annotations: MapAnnotation[]
+    ): void;
+
     /**
      * Get the list of all saved pose sequence recordings
      * @returns list of all saved pose sequence recordings
@@ -121,12 +200,25 @@ export abstract class StorageHandler {
      * Save the pose sequence and its identifier
      * @param recordingName the name of the recording
      * @param poses the pose sequence to save
+     * @param tool tool the poses were recorded with, defaults to the robot's
+     *             current tool, null if it is not known
      */
     public abstract savePoseRecording(
         recordingName: string,
         poses: RobotPose[],
+        tool?: StretchTool | null
     ): void;
 
+    /**
+     * Gets the tool a recording was made with
+     * @param recordingName the name of the recording
+     * @returns the tool, or undefined if the recording was saved before
+     *          recordings recorded their tool
+     */
+    public abstract getRecordingTool(
+        recordingName: string
+    ): StretchTool | undefined;
+
     /**
      * Removes the recording from storage
      * @param recordingName the name of the recording
@@ -151,6 +243,67 @@ export abstract class StorageHandler {
      */
     public abstract deleteText(text: string): void;
 
+    /**
+     * Gets the names of the map poses on the robot's current map. Poses
+     * saved before they kept their map are listed on every map.
+     * @returns the names of the map poses
+     */
+    public getActiveMapPoseNames(): string[] {
+        return this.getMapPoseNames().filter((poseName) => {
+            const map = this.getMapPoseMap(poseName);
+            return !map || !this.scope.map || map === this.scope.map;
+        });
+    }
+
+    /**
+     * Gets the zones and labels drawn on the robot's current map. Annotations
+     * that can't be read are left out.
+     * @returns the annotations, or none while the map is unknown
+     */
+    public getMapAnnotations(): MapAnnotation[] {
+        if (!this.scope.map) return [];
+        return this.loadMapAnnotations(this.scope.map).filter(isMapAnnotation);
+    }
+
+    /**
+     * Replaces the zones and labels drawn on the robot's current map.
+     * @param annotations all the annotations of the map
+     */
+    public saveMapAnnotations(annotations: MapAnnotation[]) {
+        if (!this.scope.map)
+            throw Error("Cannot save annotations before the map is loaded");
+        this.writeMapAnnotations(this.scope.map, annotations);
+    }
+
+    /**
+     * Checks that a map pose was saved on the robot's current map.
+     * @param poseName the name of the map pose
+     * @returns a warning for the operator, or undefined if the pose is fine
+     */
+    public checkMapPose(poseName: string): string | undefined {
+        const map = this.getMapPoseMap(poseName);
+        if (!map || !this.scope.map || map === this.scope.map) return;
+        return `"${poseName}" was saved on a different map, the robot may not end up where you expect.`;
+    }
+
+    /**
+     * Checks that a recording was made with the robot's current tool.
+     * @param recordingName the name of the recording
+     * @returns a warning for the operator, or undefined if the recording is fine
+     */
+    public checkRecording(recordingName: string): string | undefined {
+        const tool = this.getRecordingTool(recordingName);
+        const current = this.scope.tool;
+        if (
+            !tool ||
+            !current ||
+            tool === current ||
+            [tool, current].includes(StretchTool.UNKNOWN)
+        )
+            return;
+        return `"${recordingName}" was recorded with the ${tool} tool, but the robot has the ${current} tool.`;
+    }
+
     /**
      * Gets the last saved state from the user's layout, or gets the default
      * layout if the user has no saved state.
@@ -161,7 +314,223 @@ export abstract class StorageHandler {
         const currentLayout = this.loadCurrentLayout();
         if (!currentLayout) return Object.values(DEFAULT_LAYOUTS)[0];
         console.log("loading saved layout");
-        return currentLayout;
+        const layout = this.checkLayout(currentLayout, CURRENT_LAYOUT_NAME);
+        // Store the repairs, so they are only reported once
+        if (this.layoutReport) this.saveCurrentLayout(layout);
+        return layout;
+    }
+
+    /**
+     * Loads a user saved custom layout, migrated to the current schema and
+     * repaired if needed. See {@link takeLayoutReport} for what was repaired.
+     * @param layoutName name of the layout to load
+     * @returns the layout definition
+     */
+    public loadValidCustomLayout(layoutName: string): LayoutDefinition {
+        return this.checkLayout(this.loadCustomLayout(layoutName), layoutName);
+    }
+
+    /**
+     * Gets the problems found in the last layout loaded, once.
+     * @returns the report, or undefined if the layout had no problems
+     */
+    public takeLayoutReport(): LayoutReport | undefined {
+        const report = this.layoutReport;
+        this.layoutReport = undefined;
+        return report;
+    }
+
+    private checkLayout(stored: unknown, layoutName: string): LayoutDefinition {
+        const { layout, report } = loadLayout(
+            stored,
+            layoutName,
+            this.loadDefaultLayout(
+                this.getDefaultLayoutNames()[0] as DefaultLayoutName
+            )
+        );
+        this.layoutReport = report;
+        return layout;
+    }
+
+    /**
+     * Collects everything the user saved into one bundle.
+     * @returns the bundle, see {@link downloadUserData} to save it as a file
+     */
+    public exportUserData(): UserDataBundle {
+        const bundle: UserDataBundle = {
+            version: USER_DATA_BUNDLE_VERSION,
+            exportedAt: Date.now(),
+            layouts: {},
+            mapPoses: {},
+            recordings: {},
+            recordingTools: {},
+            texts: this.getSavedTexts(),
+        };
+        this.getCustomLayoutNames().forEach(
+            (name) => (bundle.layouts[name] = this.loadCustomLayout(name))
+        );
+        const poseTypes = this.getMapPoseTypes();
+        this.getMapPoseNames().forEach(
+            (name, idx) =>
+                (bundle.mapPoses[name] = {
+                    pose: this.getMapPose(name),
+                    type: poseTypes[idx],
+                    map: this.getMapPoseMap(name) ?? null,
+                })
+        );
+        this.getRecordingNames().forEach((name) => {
+            bundle.recordings[name] = this.getRecording(name);
+            bundle.recordingTools[name] = this.getRecordingTool(name) ?? null;
+        });
+        return bundle;
+    }
+
+    /**
+     * Finds the items in a bundle whose names are already taken.
+     * @param bundle the bundle to import
+     * @returns the conflicting items, for the user to resolve
+     */
+    public findImportConflicts(bundle: UserDataBundle): ImportConflict[] {
+        const conflicts: ImportConflict[] = [];
+        USER_DATA_KINDS.forEach((kind) => {
+            const existing = this.getNames(kind);
+            Object.keys(bundle[kind]).forEach((name) => {
+                if (existing.includes(name))
+                    conflicts.push({ kind: kind, name: name });
+            });
+        });
+        return conflicts;
+    }
+
+    /**
+     * Saves the items in a bundle. Layouts are migrated and repaired like
+     * stored ones, and items that can't be read are left out.
+     * @param bundle the bundle to import
+     * @param resolutions what to do with each of the conflicts found by
+     *                    {@link findImportConflicts}, conflicts without one
+     *                    are skipped
+     * @returns what was imported
+     */
+    public importUserData(
+        bundle: UserDataBundle,
+        resolutions: ImportResolutions
+    ): ImportSummary {
+        const summary: ImportSummary = {
+            imported: 0,
+            skipped: 0,
+            renamed: [],
+            problems: [],
+        };
+        USER_DATA_KINDS.forEach((kind) => {
+            const label = USER_DATA_KIND_LABELS[kind];
+            const existing = this.getNames(kind);
+            const taken = [...existing, ...Object.keys(bundle[kind])];
+            Object.entries(bundle[kind]).forEach(([name, item]) => {
+                let saveAs = name;
+                if (existing.includes(name)) {
+                    const resolution = resolutions[kind][name] || "skip";
+                    if (resolution === "skip") {
+                        summary.skipped++;
+                        return;
+                    }
+                    if (resolution === "rename") {
+                        saveAs = uniqueName(name, taken);
+                        taken.push(saveAs);
+                        summary.renamed.push(
+                            `${label} "${name}" was imported as "${saveAs}".`
+                        );
+                    }
+                }
+                const problems: string[] = [];
+                if (this.importItem(bundle, kind, name, saveAs, problems))
+                    summary.imported++;
+                problems.forEach((problem) =>
+                    summary.problems.push(`${label} "${name}": ${problem}`)
+                );
+            });
+        });
+        bundle.texts.forEach((text) => {
+            if (typeof text !== "string" || this.getSavedTexts().includes(text))
+                return;
+            this.saveText(text);
+            summary.imported++;
+        });
+        return summary;
+    }
+
+    /**
+     * Saves one item from a bundle.
+     * @param name name of the item in the bundle
+     * @param saveAs name to save the item as
+     * @param problems list to add a sentence to for each problem with the item
+     * @returns true if the item was saved
+     */
+    private importItem(
+        bundle: UserDataBundle,
+        kind: UserDataKind,
+        name: string,
+        saveAs: string,
+        problems: string[]
+    ): boolean {
+        const item: unknown = bundle[kind][name];
+        switch (kind) {
+            case "layouts": {
+                const fallback = this.loadDefaultLayout(
+                    this.getDefaultLayoutNames()[0] as DefaultLayoutName
+                );
+                const { layout, report } = loadLayout(item, saveAs, fallback);
+                // Don't save the default layout under the imported name
+                if (layout === fallback) {
+                    problems.push(
+                        "It is not a layout, so it was not imported."
+                    );
+                    return false;
+                }
+                if (report) problems.push(...report.problems);
+                this.saveCustomLayout(layout, saveAs);
+                return true;
+            }
+            case "mapPoses": {
+                const mapPose = item as UserDataBundle["mapPoses"][string];
+                if (!mapPose || !isTransform(mapPose.pose)) {
+                    problems.push("It is not a pose, so it was not imported.");
+                    return false;
+                }
+                this.saveMapPose(
+                    saveAs,
+                    mapPose.pose,
+                    typeof mapPose.type === "string" ? mapPose.type : "MAP",
+                    typeof mapPose.map === "string" ? mapPose.map : null
+                );
+                return true;
+            }
+            case "recordings": {
+                if (!isRecording(item)) {
+                    problems.push(
+                        "It is not a list of joint positions, so it was not imported."
+                    );
+                    return false;
+                }
+                const tool = bundle.recordingTools[name];
+                this.savePoseRecording(
+                    saveAs,
+                    item,
+                    Object.values(StretchTool).includes(tool!) ? tool : null
+                );
+                return true;
+            }
+        }
+    }
+
+    private getNames(kind: UserDataKind): string[] {
+        switch (kind) {
+            case "layouts":
+                return this.getCustomLayoutNames();
+            case "mapPoses":
+                return this.getMapPoseNames();
+            case "recordings":
+                return this.getRecordingNames();
+        }
     }
 
     /**
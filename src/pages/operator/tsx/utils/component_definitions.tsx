@@ -73,7 +73,11 @@ export enum CustomOverlayId {
  * (e.g. which video stream camera, or which button pad)
  * @note any new components with ID fields should be added to this type
  */
-export type ComponentId = CameraViewId | ButtonPadId | ButtonPadIdMobile | CustomOverlayId;
+export type ComponentId =
+    | CameraViewId
+    | ButtonPadId
+    | ButtonPadIdMobile
+    | CustomOverlayId;
 
 /**
  * Definition for any interface component. Any video stream, button pad,
@@ -99,6 +103,8 @@ export type ParentComponentDefinition = ComponentDefinition & {
 };
 
 export type LayoutDefinition = ComponentDefinition & {
+    /** Schema version the layout was saved with, see layout_schema.tsx */
+    version?: number;
     displayMovementRecorder: boolean;
     displayTextToSpeech: boolean;
     displayLabels: boolean;
@@ -242,6 +248,15 @@ export type MapDefinition = ComponentDefinition & {
      * Enable/disable the click listener on the map for settings a goal
      */
     selectGoal?: boolean;
+    /**
+     * Show the paths the robot planned to the navigation goal, on unless
+     * turned off
+     */
+    displayPlan?: boolean;
+    /** Show the robot's local costmap over the map */
+    displayCostmap?: boolean;
+    /** Show what the laser scanner sees, on unless turned off */
+    displayLaserScan?: boolean;
 };
 
 /**
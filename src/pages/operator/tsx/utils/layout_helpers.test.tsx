@@ -0,0 +1,294 @@
+import {
+    ActionMode,
+    ButtonPadId,
+    CameraViewDefinition,
+    CameraViewId,
+    ComponentDefinition,
+    ComponentType,
+    LayoutDefinition,
+    PanelDefinition,
+    TabDefinition,
+} from "operator/tsx/utils/component_definitions";
+import {
+    LayoutError,
+    addToLayout,
+    duplicateInLayout,
+    findInLayout,
+    getFromLayout,
+    moveInLayout,
+    removeFromLayout,
+    validateLayout,
+} from "operator/tsx/utils/layout_helpers";
+import {
+    camera,
+    grid,
+    panel,
+    tab,
+} from "operator/tsx/utils/layout_test_fixtures";
+
+const map: ComponentDefinition = { type: ComponentType.Map };
+const runStop: ComponentDefinition = { type: ComponentType.RunStopButton };
+const battery: ComponentDefinition = { type: ComponentType.BatteryGuage };
+
+/**
+ * A layout with two grids: the first has a panel with a camera view and a
+ * map, the second a panel with the run stop and battery gauge.
+ */
+function createLayout(): LayoutDefinition {
+    return {
+        type: ComponentType.Layout,
+        displayMovementRecorder: false,
+        displayTextToSpeech: false,
+        displayLabels: true,
+        actionMode: ActionMode.StepActions,
+        children: [
+            grid(
+                panel(
+                    tab(
+                        "Camera",
+                        camera(CameraViewId.realsense),
+                        { ...map },
+                        { ...runStop }
+                    )
+                )
+            ),
+            grid(panel(tab("Status", { ...runStop }, { ...battery }))),
+        ],
+    };
+}
+
+/** @returns the types of the components in a tab, in order */
+function typesIn(layout: LayoutDefinition, tabPath: string) {
+    return (getFromLayout(tabPath, layout) as TabDefinition).children.map(
+        (child) => child.type
+    );
+}
+
+describe("addToLayout", () => {
+    it("inserts the component at the path", () => {
+        const layout = createLayout();
+        expect(addToLayout({ ...battery }, "0-0-0-1", layout)).toBe("0-0-0-1");
+        expect(typesIn(layout, "0-0-0")).toEqual([
+            ComponentType.CameraView,
+            ComponentType.BatteryGuage,
+            ComponentType.Map,
+            ComponentType.RunStopButton,
+        ]);
+    });
+
+    it("wraps a panel dropped into the layout in a new grid", () => {
+        const layout = createLayout();
+        const added = panel(tab("New"));
+        expect(addToLayout(added, "1", layout)).toBe("1-0");
+        expect(layout.children.length).toBe(3);
+        expect(layout.children[1].type).toBe(ComponentType.LayoutGrid);
+        expect(layout.children[1].children[0]).toBe(added);
+    });
+
+    it("refuses components where they cannot be", () => {
+        const layout = createLayout();
+        expect(() => addToLayout({ ...map }, "0-0", layout)).toThrow(
+            LayoutError
+        );
+        expect(() => addToLayout({ ...map }, "0-0-0-0-0", layout)).toThrow(
+            LayoutError
+        );
+    });
+
+    it("refuses indices past the end of the parent", () => {
+        const layout = createLayout();
+        expect(() => addToLayout({ ...map }, "0-0-0-4", layout)).toThrow(
+            LayoutError
+        );
+    });
+});
+
+describe("moveInLayout", () => {
+    it("accounts for the component leaving when moved later in its parent", () => {
+        const layout = createLayout();
+        // Drop zone after the run stop, which shifts once the camera is gone
+        expect(moveInLayout("0-0-0-0", "0-0-0-3", layout)).toBe("0-0-0-2");
+        expect(typesIn(layout, "0-0-0")).toEqual([
+            ComponentType.Map,
+            ComponentType.RunStopButton,
+            ComponentType.CameraView,
+        ]);
+    });
+
+    it("moves a component earlier in its parent", () => {
+        const layout = createLayout();
+        expect(moveInLayout("0-0-0-2", "0-0-0-0", layout)).toBe("0-0-0-0");
+        expect(typesIn(layout, "0-0-0")).toEqual([
+            ComponentType.RunStopButton,
+            ComponentType.CameraView,
+            ComponentType.Map,
+        ]);
+    });
+
+    it("moves a component to another tab", () => {
+        const layout = createLayout();
+        expect(moveInLayout("0-0-0-1", "1-0-0-0", layout)).toBe("1-0-0-0");
+        expect(typesIn(layout, "0-0-0")).toEqual([
+            ComponentType.CameraView,
+            ComponentType.RunStopButton,
+        ]);
+        expect(typesIn(layout, "1-0-0")).toEqual([
+            ComponentType.Map,
+            ComponentType.RunStopButton,
+            ComponentType.BatteryGuage,
+        ]);
+    });
+
+    it("refuses to move a component into itself", () => {
+        const layout = createLayout();
+        const before = JSON.stringify(layout);
+        expect(() => moveInLayout("0-0", "0-0-0", layout)).toThrow(LayoutError);
+        expect(JSON.stringify(layout)).toBe(before);
+    });
+
+    it("prunes the grid a panel left empty", () => {
+        const layout = createLayout();
+        const moved = layout.children[1].children[0];
+        expect(moveInLayout("1-0", "0-1", layout)).toBe("0-1");
+        expect(layout.children.length).toBe(1);
+        expect(layout.children[0].children[1]).toBe(moved);
+    });
+
+    it("keeps the new parent when the component was the last in its old one", () => {
+        const layout = createLayout();
+        // Moving the only panel of the second grid into a new grid
+        const moved = layout.children[1].children[0];
+        expect(moveInLayout("1-0", "2", layout)).toBe("1-0");
+        expect(layout.children.length).toBe(2);
+        expect(layout.children[1].children).toEqual([moved]);
+    });
+});
+
+describe("removeFromLayout", () => {
+    it("removes the component", () => {
+        const layout = createLayout();
+        removeFromLayout("0-0-0-1", layout);
+        expect(typesIn(layout, "0-0-0")).toEqual([
+            ComponentType.CameraView,
+            ComponentType.RunStopButton,
+        ]);
+    });
+
+    it("keeps tabs that are left empty", () => {
+        const layout = createLayout();
+        removeFromLayout("1-0-0-0", layout);
+        removeFromLayout("1-0-0-0", layout);
+        expect(typesIn(layout, "1-0-0")).toEqual([]);
+    });
+
+    it("prunes the panel and grid left empty", () => {
+        const layout = createLayout();
+        removeFromLayout("1-0-0", layout);
+        expect(layout.children.length).toBe(1);
+    });
+
+    it("refuses paths without a component", () => {
+        const layout = createLayout();
+        expect(() => removeFromLayout("0-0-0-5", layout)).toThrow(LayoutError);
+        expect(() => removeFromLayout("0-x", layout)).toThrow(LayoutError);
+    });
+});
+
+describe("duplicateInLayout", () => {
+    it("inserts a copy right after the component", () => {
+        const layout = createLayout();
+        expect(duplicateInLayout("0-0-0-1", layout)).toBe("0-0-0-2");
+        expect(typesIn(layout, "0-0-0")).toEqual([
+            ComponentType.CameraView,
+            ComponentType.Map,
+            ComponentType.Map,
+            ComponentType.RunStopButton,
+        ]);
+    });
+
+    it("copies the children instead of sharing them", () => {
+        const layout = createLayout();
+        const original = getFromLayout("0-0", layout) as PanelDefinition;
+        const copy = getFromLayout(
+            duplicateInLayout("0-0", layout),
+            layout
+        ) as PanelDefinition;
+        expect(copy).toEqual(original);
+        expect(copy.children).not.toBe(original.children);
+        copy.children[0].children.pop();
+        expect(original.children[0].children.length).toBe(3);
+    });
+});
+
+describe("findInLayout", () => {
+    it("finds matching components in render order", () => {
+        const layout = createLayout();
+        const found = findInLayout(
+            (definition) => definition.type === ComponentType.RunStopButton,
+            layout
+        );
+        expect(found.map((entry) => entry.path)).toEqual([
+            "0-0-0-2",
+            "1-0-0-0",
+        ]);
+    });
+
+    it("passes each component's path to the predicate", () => {
+        const layout = createLayout();
+        const found = findInLayout((_, path) => path === "0-0-0-1", layout);
+        expect(found).toEqual([
+            { definition: getFromLayout("0-0-0-1", layout), path: "0-0-0-1" },
+        ]);
+    });
+
+    it("looks inside camera views", () => {
+        const layout = createLayout();
+        const view = getFromLayout("0-0-0-0", layout) as CameraViewDefinition;
+        view.children.push({
+            type: ComponentType.ButtonPad,
+            id: ButtonPadId.Base,
+        });
+        const found = findInLayout(
+            (definition) => definition.type === ComponentType.ButtonPad,
+            layout
+        );
+        expect(found.map((entry) => entry.path)).toEqual(["0-0-0-0-0"]);
+    });
+});
+
+describe("validateLayout", () => {
+    it("accepts a valid layout", () => {
+        expect(() => validateLayout(createLayout())).not.toThrow();
+    });
+
+    it("rejects a camera view directly under the layout", () => {
+        const layout = createLayout();
+        (layout.children as ComponentDefinition[]).push(
+            camera(CameraViewId.overhead)
+        );
+        expect(() => validateLayout(layout)).toThrow(
+            "Camera View at 2 cannot be inside a Layout"
+        );
+    });
+
+    it("rejects components a camera view cannot hold", () => {
+        const layout = createLayout();
+        const view = getFromLayout("0-0-0-0", layout) as CameraViewDefinition;
+        view.children.push({ ...map });
+        expect(() => validateLayout(layout)).toThrow(LayoutError);
+    });
+
+    it("rejects empty panels", () => {
+        const layout = createLayout();
+        layout.children[1].children[0].children = [];
+        expect(() => validateLayout(layout)).toThrow(
+            "Panel at 1-0 has no children"
+        );
+    });
+
+    it("rejects a root that is not a layout", () => {
+        const layout = createLayout();
+        layout.type = ComponentType.Panel;
+        expect(() => validateLayout(layout)).toThrow(LayoutError);
+    });
+});
@@ -6,87 +6,165 @@ import {
     LayoutGridDefinition,
 } from "operator/tsx/utils/component_definitions";
 
+/*
+ * A path points to a component in the layout with the index of each of its
+ * ancestors, joined by dashes. For example, "0-1-2" is the third child of the
+ * second child of the first child of the layout. When dropping a component,
+ * the last index is where it is inserted among the parent's children.
+ */
+
+/** Error raised when an operation would leave the layout in an invalid state */
+export class LayoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "LayoutError";
+    }
+}
+
+/** A component in the layout together with the path to it */
+export type LayoutEntry = {
+    definition: ComponentDefinition;
+    path: string;
+};
+
+/** Components that may only hold the given types of children */
+const ALLOWED_CHILDREN: { [type in ComponentType]?: ComponentType[] } = {
+    [ComponentType.Layout]: [ComponentType.LayoutGrid],
+    [ComponentType.LayoutGrid]: [ComponentType.Panel],
+    [ComponentType.Panel]: [ComponentType.SingleTab],
+    [ComponentType.CameraView]: [
+        ComponentType.ButtonPad,
+        ComponentType.PredictiveDisplay,
+        ComponentType.CustomOverlay,
+    ],
+};
+
+/** Types that only make sense as part of the layout's structure */
+const STRUCTURAL_TYPES = [
+    ComponentType.Layout,
+    ComponentType.LayoutGrid,
+    ComponentType.Panel,
+    ComponentType.SingleTab,
+];
+
+/** Parents that are removed once their last child is */
+const NON_EMPTY_TYPES = [ComponentType.LayoutGrid, ComponentType.Panel];
+
 /**
- * Moves a component from an old path to a new path
- * @param oldPath path to where the object was/is
- * @param newPath path to where the component should be moved
+ * Checks the nesting rules of the layout tree.
+ *
+ * @param parent type of the parent component
+ * @param child type of the child component
+ * @returns true if `child` may be a direct child of `parent`
+ */
+export function canContain(parent: ComponentType, child: ComponentType) {
+    if (parent === ComponentType.SingleTab)
+        return !STRUCTURAL_TYPES.includes(child);
+    const allowed = ALLOWED_CHILDREN[parent];
+    return allowed !== undefined && allowed.includes(child);
+}
+
+/**
+ * Checks whether a component can be dropped into a parent. This is the same
+ * as {@link canContain}, except that a panel dropped into the layout gets a
+ * layout grid of its own.
+ *
+ * @param parent type of the parent component
+ * @param child type of the component being dropped
+ * @returns true if `child` may be dropped into `parent`
+ */
+export function canDropInto(parent: ComponentType, child: ComponentType) {
+    if (parent === ComponentType.Layout && child === ComponentType.Panel)
+        return true;
+    return canContain(parent, child);
+}
+
+/**
+ * Checks that every component in the layout is allowed where it is, and
+ * that no layout grid or panel is empty.
+ *
  * @param layout the entire layout structure
- * @returns the new path to the moved object (note: it's possible this is different
- *      than the `newPath`)
+ * @throws LayoutError describing the first problem found
  */
-export function moveInLayout(
-    oldPath: string,
-    newPath: string,
-    layout: LayoutDefinition,
-): string {
-    // Get the child and its old parent
-    console.log("old path", oldPath);
-    console.log("newpath", newPath);
-    const oldPathSplit = oldPath.split("-");
-    const oldParent = getParent(oldPathSplit, layout);
-    console.log("old parent", oldParent);
-    let oldChildIdx = +oldPathSplit.slice(-1);
-    console.log("old child index", oldChildIdx);
-    const temp = getChildFromParent(oldParent, oldChildIdx);
-    console.log("temp", temp);
-
-    // Get the new parent
-    let newPathSplit = newPath.split("-");
-    const newChildIdx = +newPathSplit.slice(-1);
-    console.log("newChildIdx", newChildIdx);
-    const newParent = getParent(newPathSplit, layout);
-    console.log("newparent", newParent);
-
-    // Remove the child from the old parent
-    removeChildFromParent(oldParent, oldPathSplit, oldChildIdx, layout);
-
-    // Put the child into the new parent
-    putChildInParent(newParent, temp, newChildIdx);
-    console.log("after adding child", newParent.children);
-
-    // Same parent and moved to lower index, previous position index is now higher
-    if (oldParent === newParent && oldChildIdx > newChildIdx) oldChildIdx++;
-
-    // If newPath only contains one element it is a layout grid with one panel
-    // Add 0 to the path to point to select first child in layout grid
-    // if (newParent.type == ComponentType.LayoutGrid) {
-    //     console.log(newPathSplit)
-    if (newParent.type == ComponentType.LayoutGrid) {
-        if (+newPathSplit[0] === layout.children.length)
-            newPathSplit[0] = (+newPathSplit[0] - 1).toString();
-        return newPathSplit.join("-");
-    }
-    if (newParent.type == ComponentType.Layout) {
-        if (+newPathSplit[0] === layout.children.length)
-            newPathSplit[0] = (+newPathSplit[0] - 1).toString();
-        if (newPathSplit.length === 1) newPathSplit.push("0");
-        return newPathSplit.join("-");
-    }
-    // }
-
-    // Check if removing the old path changes the new path
-    // note: this happens when the old path was a sibling with a lower index to
-    //       any node in the
-    if (newPathSplit.length < oldPathSplit.length) return newPath;
-
-    const oldPathLastIdx = oldPathSplit.length - 1;
-    const oldPrefix = oldPathSplit.slice(0, oldPathLastIdx);
-    const newPrefix = newPathSplit.slice(0, oldPathLastIdx);
-    const sameParent = oldPrefix.every(
-        (val, index) => val === newPrefix[index],
-    );
+export function validateLayout(layout: LayoutDefinition) {
+    if (layout.type !== ComponentType.Layout)
+        throw new LayoutError(`The root of the layout is a ${layout.type}`);
+    const visit = (parent: ComponentDefinition, path: number[]) => {
+        const children = (parent as ParentComponentDefinition).children;
+        if (!children) return;
+        if (children.length === 0 && NON_EMPTY_TYPES.includes(parent.type))
+            throw new LayoutError(
+                `${parent.type} at ${formatPath(path)} has no children`
+            );
+        children.forEach((child, idx) => {
+            const childPath = [...path, idx];
+            if (!canContain(parent.type, child.type))
+                throw new LayoutError(
+                    `${child.type} at ${formatPath(childPath)} cannot be inside a ${parent.type}`
+                );
+            visit(child, childPath);
+        });
+    };
+    visit(layout, []);
+}
 
-    if (!sameParent) return newPath;
+/**
+ * @param path path to a component or drop zone
+ * @returns the index of each ancestor
+ */
+export function parsePath(path: string): number[] {
+    const indices = path.split("-").map(Number);
+    if (indices.some((idx) => !Number.isInteger(idx) || idx < 0))
+        throw new LayoutError(`Invalid layout path "${path}"`);
+    return indices;
+}
 
-    // index of new sibling node
-    const newCorrespondingIdx = +newPathSplit[oldPathLastIdx];
-    if (oldChildIdx < newCorrespondingIdx) {
-        // decrease new path index since the old path is deleted
-        newPathSplit[oldPathLastIdx] = "" + (+newPathSplit[oldPathLastIdx] - 1);
-        console.log("updated path", newPathSplit.join("-"));
-    }
+/**
+ * @param indices the index of each ancestor
+ * @returns the path to the component
+ */
+export function formatPath(indices: number[]): string {
+    return indices.join("-");
+}
 
-    return newPathSplit.join("-");
+/**
+ * Gets a component from the layout
+ * @param path path to the component
+ * @param layout the entire layout structure
+ * @returns the definition of the component
+ */
+export function getFromLayout(
+    path: string,
+    layout: LayoutDefinition
+): ComponentDefinition {
+    return getComponent(parsePath(path), layout);
+}
+
+/**
+ * Finds the components in the layout that match a predicate, in the order
+ * they are rendered.
+ *
+ * @param predicate called with each component and its path
+ * @param layout the entire layout structure
+ * @returns the matching components and their paths
+ */
+export function findInLayout(
+    predicate: (definition: ComponentDefinition, path: string) => boolean,
+    layout: LayoutDefinition
+): LayoutEntry[] {
+    const found: LayoutEntry[] = [];
+    const visit = (parent: ComponentDefinition, path: number[]) => {
+        const children = (parent as ParentComponentDefinition).children;
+        if (!children) return;
+        children.forEach((child, idx) => {
+            const childPath = formatPath([...path, idx]);
+            if (predicate(child, childPath))
+                found.push({ definition: child, path: childPath });
+            visit(child, [...path, idx]);
+        });
+    };
+    visit(layout, []);
+    return found;
 }
 
 /**
@@ -94,118 +172,219 @@ export function moveInLayout(
  * @param definition definition of the component to add into the layout
  * @param newPath path where to add the new component
  * @param layout the entire layout structure
+ * @returns the path to the added component
  */
 export function addToLayout(
     definition: ComponentDefinition,
     newPath: string,
-    layout: LayoutDefinition,
-) {
-    let newPathSplit = newPath.split("-");
-    const newChildIdx = +newPathSplit.slice(-1);
-    const newParent = getParent(newPathSplit, layout);
-    putChildInParent(newParent, definition, newChildIdx);
+    layout: LayoutDefinition
+): string {
+    const indices = parsePath(newPath);
+    insertChild(
+        getParent(indices, layout),
+        definition,
+        indices[indices.length - 1]
+    );
+    return pathTo(definition, layout);
+}
 
-    // If newPath only contains one element it is a layout grid with one panel
-    // Add 0 to the path to point to select first child in layout grid
-    return newPathSplit.length == 1 ? newPath + "-0" : newPath;
+/**
+ * Moves a component from an old path to a new path
+ * @param oldPath path to where the object was/is
+ * @param newPath path to the drop zone where the component should be moved
+ * @param layout the entire layout structure
+ * @returns the new path to the moved object (note: it's possible this is different
+ *      than the `newPath`, since removing the component shifts its siblings)
+ */
+export function moveInLayout(
+    oldPath: string,
+    newPath: string,
+    layout: LayoutDefinition
+): string {
+    const oldIndices = parsePath(oldPath);
+    const newIndices = parsePath(newPath);
+    if (
+        newIndices.length > oldIndices.length &&
+        oldIndices.every((idx, i) => idx === newIndices[i])
+    )
+        throw new LayoutError(
+            `Cannot move the component at ${oldPath} into itself`
+        );
+
+    const oldParent = getParent(oldIndices, layout);
+    const oldChildIdx = oldIndices[oldIndices.length - 1];
+    const child = getChild(oldParent, oldChildIdx, oldPath);
+    const newParent = getParent(newIndices, layout);
+    let newChildIdx = newIndices[newIndices.length - 1];
+
+    // Insert before removing, so the new parent can't be pruned away when the
+    // component was the last in its old parent
+    insertChild(newParent, child, newChildIdx);
+    if (oldParent === newParent && newChildIdx <= oldChildIdx)
+        oldParent.children.splice(oldChildIdx + 1, 1);
+    else oldParent.children.splice(oldChildIdx, 1);
+    pruneEmptyParents(layout);
+
+    return pathTo(child, layout);
 }
 
 /**
- * Deletes a component from the layout
+ * Deletes a component from the layout, along with any layout grid or panel
+ * left empty
  * @param path path to the component to delete
  * @param layout the entire layout structure
  */
 export function removeFromLayout(path: string, layout: LayoutDefinition) {
-    const splitPath = path.split("-");
-    const childIdx = +splitPath.slice(-1);
-    const parent = getParent(splitPath, layout);
-    removeChildFromParent(parent, splitPath, childIdx, layout);
+    const indices = parsePath(path);
+    const parent = getParent(indices, layout);
+    const childIdx = indices[indices.length - 1];
+    getChild(parent, childIdx, path);
+    parent.children.splice(childIdx, 1);
+    pruneEmptyParents(layout);
 }
 
 /**
- * Removes the child from the
- * @param parent parent component definition
- * @param childSplitPath path to child element, split into list of indices
- * @param childIdx index of child (last element in `splitPath`)
- * @param layout entire layout structure
+ * Inserts a copy of a component, including its children, right after it
+ * @param path path to the component to duplicate
+ * @param layout the entire layout structure
+ * @returns the path to the copy
  */
-function removeChildFromParent(
-    parent: ParentComponentDefinition,
-    childSplitPath: string[],
-    childIdx: number,
-    layout: LayoutDefinition,
-) {
-    // Remove the child from the parent
-    parent.children.splice(childIdx, 1);
+export function duplicateInLayout(
+    path: string,
+    layout: LayoutDefinition
+): string {
+    const indices = parsePath(path);
+    const parent = getParent(indices, layout);
+    const childIdx = indices[indices.length - 1];
+    const copy = copyDefinition(getChild(parent, childIdx, path));
+    // Panels are copied into a layout grid, next to the original
+    parent.children.splice(childIdx + 1, 0, copy);
+    return pathTo(copy, layout);
+}
 
-    // If it was the last child, also remove the parent. Continue iteratively.
-    let i = -2;
-    let parentIdx: number;
-    while (i >= -childSplitPath.length && parent.children.length === 0) {
-        // A tab and camera view are the only parent types that can have no children
-        if (parent.type === ComponentType.SingleTab || parent.type === ComponentType.CameraView) {
-            break;
-        }
-        parentIdx = +childSplitPath.slice(i, i + 1);
-        const grandparent = getParent(childSplitPath.slice(0, i + 1), layout);
-        grandparent.children.splice(parentIdx, 1);
-        parent = grandparent;
-        i -= 1;
-    }
+/**
+ * Copies a definition and its children. Other fields, such as a map's
+ * storage handler, are shared with the original.
+ */
+function copyDefinition(definition: ComponentDefinition): ComponentDefinition {
+    const children = (definition as ParentComponentDefinition).children;
+    if (!children) return { ...definition };
+    return {
+        ...definition,
+        children: children.map(copyDefinition),
+    } as ParentComponentDefinition;
+}
+
+/**
+ * Removes layout grids and panels without children, which happens when their
+ * last child is moved or deleted. Tabs and camera views may be empty.
+ */
+function pruneEmptyParents(parent: ComponentDefinition) {
+    const children = (parent as ParentComponentDefinition).children;
+    if (!children) return;
+    children.forEach(pruneEmptyParents);
+    (parent as ParentComponentDefinition).children = children.filter(
+        (child) =>
+            !NON_EMPTY_TYPES.includes(child.type) ||
+            (child as ParentComponentDefinition).children.length > 0
+    );
+}
+
+/**
+ * Gets the component at a path
+ * @param indices path to the component, split into a list of indices
+ * @param layout the layout object
+ * @returns the definition of the component
+ */
+function getComponent(
+    indices: number[],
+    layout: LayoutDefinition
+): ComponentDefinition {
+    let component: ComponentDefinition = layout;
+    indices.forEach((childIdx, i) => {
+        component = getChild(
+            component as ParentComponentDefinition,
+            childIdx,
+            formatPath(indices.slice(0, i + 1))
+        );
+    });
+    return component;
 }
 
 /**
  * Gets the parent definition for the given child path
- * @param splitPath path to child element, split into a list of indices
+ * @param indices path to child element, split into a list of indices
  * @param layout the layout object
  * @returns the parent definition
  */
 function getParent(
-    splitPath: string[],
-    layout: ParentComponentDefinition,
+    indices: number[],
+    layout: LayoutDefinition
 ): ParentComponentDefinition {
-    let pathIdx = 0;
-    let parent: ParentComponentDefinition = layout;
-    while (pathIdx < splitPath.length - 1) {
-        const childIdx = +splitPath[pathIdx];
-        parent = parent.children[childIdx] as ParentComponentDefinition;
-        pathIdx++;
-    }
-    return parent!;
+    const parent = getComponent(indices.slice(0, -1), layout);
+    if (!(parent as ParentComponentDefinition).children)
+        throw new LayoutError(
+            `${parent.type} at ${formatPath(indices.slice(0, -1))} cannot have children`
+        );
+    return parent as ParentComponentDefinition;
 }
 
 /**
  * Gets one of the children from a parent
  * @param parent definition of the parent component
  * @param childIdx index of the child element to retrieve
+ * @param path path to the child, for the error message
  * @returns the child component definition
  */
-function getChildFromParent(
+function getChild(
     parent: ParentComponentDefinition,
     childIdx: number,
+    path: string
 ): ComponentDefinition {
-    return parent.children[childIdx];
+    const child = parent.children ? parent.children[childIdx] : undefined;
+    if (!child) throw new LayoutError(`No component at ${path}`);
+    return child;
 }
 
 /**
- * Inserts a child into the parent at a certain index
+ * Inserts a child into the parent at a certain index, wrapping panels
+ * dropped into the layout in a new layout grid
  * @param parent definition of parent component
  * @param child definition of child component
  * @param childIdx index where to insert the child
  */
-function putChildInParent(
+function insertChild(
     parent: ParentComponentDefinition,
     child: ComponentDefinition,
-    childIdx: number,
+    childIdx: number
 ) {
-    if (parent.children) {
-        parent.type == ComponentType.Layout
-            ? parent.children.splice(childIdx, 0, {
+    if (!canDropInto(parent.type, child.type))
+        throw new LayoutError(
+            `${child.type} cannot be inside a ${parent.type}`
+        );
+    if (childIdx > parent.children.length)
+        throw new LayoutError(
+            `Cannot insert at ${childIdx}, the ${parent.type} has ${parent.children.length} children`
+        );
+    parent.children.splice(
+        childIdx,
+        0,
+        parent.type === ComponentType.Layout
+            ? ({
                   type: ComponentType.LayoutGrid,
                   children: [child],
               } as LayoutGridDefinition)
-            : parent.children.splice(childIdx, 0, child);
-    } else {
-        parent.children = [child];
-    }
+            : child
+    );
+}
+
+/**
+ * Finds the path to a component by identity, which stays correct however
+ * the indices of its ancestors shifted
+ */
+function pathTo(definition: ComponentDefinition, layout: LayoutDefinition) {
+    const entry = findInLayout((candidate) => candidate === definition, layout);
+    if (entry.length === 0)
+        throw new LayoutError(`${definition.type} is not in the layout`);
+    return entry[0].path;
 }
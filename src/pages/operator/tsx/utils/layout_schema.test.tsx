@@ -0,0 +1,183 @@
+import {
+    ActionMode,
+    CameraViewId,
+    ComponentDefinition,
+    ComponentType,
+    LayoutDefinition,
+    TabDefinition,
+} from "operator/tsx/utils/component_definitions";
+import {
+    LAYOUT_SCHEMA_VERSION,
+    loadLayout,
+} from "operator/tsx/utils/layout_schema";
+import {
+    camera,
+    grid,
+    panel,
+    tab,
+} from "operator/tsx/utils/layout_test_fixtures";
+
+const fallback: LayoutDefinition = {
+    type: ComponentType.Layout,
+    version: LAYOUT_SCHEMA_VERSION,
+    displayMovementRecorder: false,
+    displayTextToSpeech: false,
+    displayLabels: true,
+    actionMode: ActionMode.PressAndHold,
+    children: [],
+};
+
+const realsense = camera(CameraViewId.realsense);
+
+/** A component the interface cannot load, typed so it can be nested */
+function broken(component: object) {
+    return component as ComponentDefinition;
+}
+
+/** A layout as the current version of the interface saves it */
+function currentLayout(...children: object[]) {
+    return {
+        type: ComponentType.Layout,
+        version: LAYOUT_SCHEMA_VERSION,
+        displayMovementRecorder: true,
+        displayTextToSpeech: false,
+        displayLabels: true,
+        actionMode: ActionMode.StepActions,
+        children: children,
+    };
+}
+
+describe("loadLayout", () => {
+    // Repairs and migrations are logged, which is only noise here
+    beforeEach(() => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        jest.spyOn(console, "warn").mockImplementation(() => {});
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it("loads a current layout unchanged", () => {
+        const stored = currentLayout(grid(panel(tab("Tab", realsense))));
+        const { layout, report } = loadLayout(stored, "Current", fallback);
+        expect(report).toBeUndefined();
+        expect(layout).toEqual(stored);
+        expect(layout).not.toBe(stored);
+    });
+
+    it("migrates a version 0 layout", () => {
+        const stored = {
+            type: ComponentType.Layout,
+            displayMovementRecorder: true,
+            displayVoiceControl: true,
+            displayLabels: false,
+            actionMode: ActionMode.ClickClick,
+            children: [
+                panel(tab("Tab", realsense)),
+                panel(tab("Tab", { ...realsense })),
+            ],
+        };
+        const { layout, report } = loadLayout(stored, "Old", fallback);
+        expect(report).toBeUndefined();
+        expect(layout).toEqual({
+            type: ComponentType.Layout,
+            version: LAYOUT_SCHEMA_VERSION,
+            displayMovementRecorder: true,
+            displayTextToSpeech: true,
+            displayLabels: false,
+            actionMode: ActionMode.ClickClick,
+            children: [
+                grid(panel(tab("Tab", realsense))),
+                grid(panel(tab("Tab", realsense))),
+            ],
+        });
+        // The stored layout is left alone
+        expect(stored.children[0].type).toBe(ComponentType.Panel);
+    });
+
+    it("removes components it does not know", () => {
+        const stored = currentLayout(
+            grid(
+                panel(
+                    tab(
+                        "Tab",
+                        realsense,
+                        broken({ type: "Hologram" }),
+                        broken({ id: "no type" })
+                    )
+                )
+            )
+        );
+        const { layout, report } = loadLayout(stored, "Unknown", fallback);
+        expect(layout).toEqual(
+            currentLayout(grid(panel(tab("Tab", realsense))))
+        );
+        expect(report).toEqual({
+            layoutName: "Unknown",
+            problems: [
+                'Removed an unknown component "Hologram" at 0-0-0-1.',
+                "Removed an unknown component at 0-0-0-2.",
+            ],
+        });
+    });
+
+    it("removes the panels and grids left empty", () => {
+        const stored = currentLayout(
+            grid(panel(tab("Tab", realsense))),
+            grid(panel(broken({ type: "Hologram" }) as TabDefinition))
+        );
+        const { layout, report } = loadLayout(stored, "Empty", fallback);
+        expect(layout.children).toEqual([grid(panel(tab("Tab", realsense)))]);
+        expect(report!.problems).toEqual([
+            'Removed an unknown component "Hologram" at 1-0-0.',
+            "Removed the empty Panel at 1-0.",
+            "Removed the empty Layout Grid at 1.",
+        ]);
+    });
+
+    it("removes components where they cannot be", () => {
+        const stored = currentLayout(
+            grid(panel(tab("Tab", realsense))),
+            realsense
+        );
+        const { layout, report } = loadLayout(stored, "Nesting", fallback);
+        expect(layout.children).toEqual([grid(panel(tab("Tab", realsense)))]);
+        expect(report!.problems).toEqual([
+            "Removed Realsense Camera View at 1, it cannot be inside a Layout.",
+        ]);
+    });
+
+    it("repairs invalid options", () => {
+        const stored = {
+            ...currentLayout(grid(panel(tab("Tab", realsense)))),
+            displayLabels: "yes",
+            actionMode: "Telepathy",
+        };
+        const { layout, report } = loadLayout(stored, "Options", fallback);
+        expect(layout.displayLabels).toBe(true);
+        expect(layout.actionMode).toBe(fallback.actionMode);
+        expect(report!.problems).toEqual([
+            'Reset the invalid "displayLabels" option.',
+            'Reset the unknown action mode "Telepathy" to Press-And-Hold.',
+        ]);
+    });
+
+    it("reports layouts saved by a newer version", () => {
+        const stored = {
+            ...currentLayout(grid(panel(tab("Tab", realsense)))),
+            version: LAYOUT_SCHEMA_VERSION + 1,
+        };
+        const { layout, report } = loadLayout(stored, "Newer", fallback);
+        expect(layout.version).toBe(LAYOUT_SCHEMA_VERSION + 1);
+        expect(report!.problems.length).toBe(1);
+    });
+
+    it.each([undefined, null, "layout", [], { type: ComponentType.Panel }])(
+        "falls back when the stored value is %p",
+        (stored) => {
+            const { layout, report } = loadLayout(stored, "Broken", fallback);
+            expect(layout).toBe(fallback);
+            expect(report!.problems).toEqual([
+                "It is not a layout, so the default layout was loaded.",
+            ]);
+        }
+    );
+});
@@ -0,0 +1,273 @@
+import {
+    ActionMode,
+    ButtonPadId,
+    ButtonPadIdMobile,
+    CameraViewId,
+    ComponentDefinition,
+    ComponentType,
+    CustomOverlayId,
+    LayoutDefinition,
+} from "operator/tsx/utils/component_definitions";
+import { canContain } from "operator/tsx/utils/layout_helpers";
+
+/** A JSON object as it was stored, before it is checked */
+type StoredObject = { [key: string]: unknown };
+
+function isStoredObject(value: unknown): value is StoredObject {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/** @returns true if `value` is one of the strings in `values` */
+function isOneOf<T extends string>(value: unknown, values: T[]): value is T {
+    return typeof value === "string" && (values as string[]).includes(value);
+}
+
+/**
+ * Upgrades a stored layout from one schema version to the next, in place.
+ * Layouts are plain JSON at this point, so the migrations can't rely on
+ * the current definition types.
+ */
+type LayoutMigration = (layout: StoredObject) => void;
+
+/** Migrations indexed by the version they upgrade from */
+const MIGRATIONS: LayoutMigration[] = [
+    // 0 -> 1: Layouts saved before layout grids held their panels directly,
+    // and had a voice control option instead of the text-to-speech one.
+    (layout) => {
+        if (Array.isArray(layout.children)) {
+            layout.children = layout.children.map((child: unknown) =>
+                isStoredObject(child) && child.type === ComponentType.Panel
+                    ? { type: ComponentType.LayoutGrid, children: [child] }
+                    : child
+            );
+        }
+        if ("displayVoiceControl" in layout) {
+            if (layout.displayTextToSpeech === undefined)
+                layout.displayTextToSpeech = layout.displayVoiceControl;
+            delete layout.displayVoiceControl;
+        }
+    },
+];
+
+/**
+ * Version of the layout schema this page reads and writes. Bump it along
+ * with a new migration whenever a change to the component definitions would
+ * break layouts users already saved.
+ */
+export const LAYOUT_SCHEMA_VERSION = MIGRATIONS.length;
+
+/** What was wrong with a stored layout, for showing to the user */
+export type LayoutReport = {
+    /** Name of the layout, or "Last used layout" for the current one */
+    layoutName: string;
+    /** One sentence per component that was repaired or removed */
+    problems: string[];
+};
+
+/** Global options used when a layout is missing one */
+const DEFAULT_OPTIONS = {
+    displayMovementRecorder: false,
+    displayTextToSpeech: false,
+    displayLabels: true,
+};
+
+/** Valid ids for the components that need one */
+const VALID_IDS: { [type in ComponentType]?: string[] } = {
+    [ComponentType.CameraView]: Object.values(CameraViewId),
+    [ComponentType.ButtonPad]: [
+        ...Object.values(ButtonPadId),
+        ...Object.values(ButtonPadIdMobile),
+    ],
+};
+
+/** Components that are dropped along with their last child */
+const NON_EMPTY_TYPES = [ComponentType.LayoutGrid, ComponentType.Panel];
+
+/** Components that hold other components */
+const PARENT_TYPES = [
+    ComponentType.LayoutGrid,
+    ComponentType.Panel,
+    ComponentType.SingleTab,
+    ComponentType.CameraView,
+];
+
+function describe(definition: StoredObject, path: string) {
+    return definition.id
+        ? `${definition.id} ${definition.type} at ${path}`
+        : `${definition.type} at ${path}`;
+}
+
+/**
+ * Checks a stored component and repairs what it can.
+ *
+ * @param definition the stored component
+ * @param parentType type of the component it is stored in
+ * @param path path to the component in the layout
+ * @param problems list to add a sentence to for each repair
+ * @returns the repaired component, or undefined if it has to be removed
+ */
+function repairComponent(
+    definition: unknown,
+    parentType: ComponentType,
+    path: string,
+    problems: string[]
+): ComponentDefinition | undefined {
+    const type = isStoredObject(definition) ? definition.type : undefined;
+    if (
+        !isStoredObject(definition) ||
+        !isOneOf(type, Object.values(ComponentType))
+    ) {
+        problems.push(
+            `Removed an unknown component${type ? ` "${type}"` : ""} at ${path}.`
+        );
+        return;
+    }
+    if (!canContain(parentType, type)) {
+        problems.push(
+            `Removed ${describe(definition, path)}, it cannot be inside a ${parentType}.`
+        );
+        return;
+    }
+    const validIds = VALID_IDS[type];
+    if (validIds && !isOneOf(definition.id, validIds)) {
+        problems.push(
+            `Removed ${type} at ${path}, "${definition.id}" is not a known ${type}.`
+        );
+        return;
+    }
+    if (
+        type === ComponentType.CustomOverlay &&
+        definition.id !== undefined &&
+        !isOneOf(definition.id, Object.values(CustomOverlayId))
+    ) {
+        problems.push(
+            `Reset ${type} at ${path}, "${definition.id}" is not a known overlay.`
+        );
+        delete definition.id;
+    }
+    if (
+        type === ComponentType.SingleTab &&
+        typeof definition.label !== "string"
+    ) {
+        problems.push(`Named the unnamed Tab at ${path}.`);
+        definition.label = "Tab";
+    }
+    if (
+        type === ComponentType.CameraView &&
+        typeof definition.displayButtons !== "boolean"
+    )
+        definition.displayButtons = true;
+
+    if (PARENT_TYPES.includes(type)) {
+        let children: unknown[] = [];
+        if (Array.isArray(definition.children)) children = definition.children;
+        else if (definition.children !== undefined)
+            problems.push(
+                `Removed the invalid contents of ${describe(definition, path)}.`
+            );
+        const repaired = repairChildren(children, type, path, problems);
+        if (repaired.length === 0 && NON_EMPTY_TYPES.includes(type)) {
+            problems.push(`Removed the empty ${type} at ${path}.`);
+            return;
+        }
+        definition.children = repaired;
+    }
+    return definition as ComponentDefinition;
+}
+
+function repairChildren(
+    children: unknown[],
+    parentType: ComponentType,
+    parentPath: string,
+    problems: string[]
+): ComponentDefinition[] {
+    const repaired: ComponentDefinition[] = [];
+    children.forEach((child, idx) => {
+        const path = parentPath ? `${parentPath}-${idx}` : `${idx}`;
+        const definition = repairComponent(child, parentType, path, problems);
+        if (definition) repaired.push(definition);
+    });
+    return repaired;
+}
+
+/**
+ * Brings a stored layout up to the current schema version, then checks
+ * every component in it. Components that can't be repaired are removed, and
+ * a layout that can't be read at all is replaced by `fallback`.
+ *
+ * @param stored the layout as it was stored
+ * @param layoutName name of the layout, for the report
+ * @param fallback layout to use if the stored one is unusable
+ * @returns the usable layout, and a report if anything had to change
+ */
+export function loadLayout(
+    stored: unknown,
+    layoutName: string,
+    fallback: LayoutDefinition
+): { layout: LayoutDefinition; report?: LayoutReport } {
+    const problems: string[] = [];
+    const result = (layout: LayoutDefinition) => ({
+        layout: layout,
+        report:
+            problems.length > 0
+                ? { layoutName: layoutName, problems: problems }
+                : undefined,
+    });
+
+    // Work on a copy, the storage handler may have cached the stored layout
+    let copy: unknown;
+    try {
+        copy = JSON.parse(JSON.stringify(stored));
+    } catch (e) {
+        copy = undefined;
+    }
+    if (!isStoredObject(copy) || copy.type !== ComponentType.Layout) {
+        problems.push("It is not a layout, so the default layout was loaded.");
+        return result(fallback);
+    }
+    const layout = copy;
+
+    const version = typeof layout.version === "number" ? layout.version : 0;
+    if (version > LAYOUT_SCHEMA_VERSION) {
+        problems.push(
+            `It was saved by a newer version of the interface (layout version ${version}), some components may be missing.`
+        );
+    } else if (version < LAYOUT_SCHEMA_VERSION) {
+        console.log(
+            `Migrating layout "${layoutName}" from version ${version} to ${LAYOUT_SCHEMA_VERSION}`
+        );
+        MIGRATIONS.slice(version).forEach((migrate) => migrate(layout));
+    }
+    layout.version = Math.max(version, LAYOUT_SCHEMA_VERSION);
+
+    Object.entries(DEFAULT_OPTIONS).forEach(([option, value]) => {
+        if (typeof layout[option] !== "boolean") {
+            if (layout[option] !== undefined)
+                problems.push(`Reset the invalid "${option}" option.`);
+            layout[option] = value;
+        }
+    });
+    if (!isOneOf(layout.actionMode, Object.values(ActionMode))) {
+        if (layout.actionMode !== undefined)
+            problems.push(
+                `Reset the unknown action mode "${layout.actionMode}" to ${fallback.actionMode}.`
+            );
+        layout.actionMode = fallback.actionMode;
+    }
+    if (!Array.isArray(layout.children)) {
+        problems.push(
+            "It had no components, so the default layout was loaded."
+        );
+        return result(fallback);
+    }
+    layout.children = repairChildren(
+        layout.children,
+        ComponentType.Layout,
+        "",
+        problems
+    );
+
+    if (problems.length > 0)
+        console.warn(`Repaired layout "${layoutName}":`, problems);
+    return result(layout as LayoutDefinition);
+}
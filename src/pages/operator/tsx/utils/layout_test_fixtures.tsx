@@ -0,0 +1,37 @@
+/*
+ * Builders for the layouts used in the layout tests, so each test only
+ * spells out the components it is about.
+ */
+import {
+    CameraViewDefinition,
+    CameraViewId,
+    ComponentDefinition,
+    ComponentType,
+    LayoutGridDefinition,
+    PanelDefinition,
+    TabDefinition,
+} from "operator/tsx/utils/component_definitions";
+
+export function tab(
+    label: string,
+    ...children: ComponentDefinition[]
+): TabDefinition {
+    return { type: ComponentType.SingleTab, label: label, children: children };
+}
+
+export function panel(...children: TabDefinition[]): PanelDefinition {
+    return { type: ComponentType.Panel, children: children };
+}
+
+export function grid(...children: PanelDefinition[]): LayoutGridDefinition {
+    return { type: ComponentType.LayoutGrid, children: children };
+}
+
+export function camera(id: CameraViewId): CameraViewDefinition {
+    return {
+        type: ComponentType.CameraView,
+        id: id,
+        displayButtons: true,
+        children: [],
+    };
+}
@@ -0,0 +1,104 @@
+/** Kinds of annotations operators can draw on the map */
+export enum MapAnnotationType {
+    /** Area the robot must not be sent into */
+    KeepOut = "keepOut",
+    Room = "room",
+    ChargingArea = "chargingArea",
+    /** Text at a single point */
+    Label = "label",
+}
+
+/** How each type is referred to in the interface */
+export const MAP_ANNOTATION_LABELS: { [type in MapAnnotationType]: string } = {
+    [MapAnnotationType.KeepOut]: "Keep-out zone",
+    [MapAnnotationType.Room]: "Room",
+    [MapAnnotationType.ChargingArea]: "Charging area",
+    [MapAnnotationType.Label]: "Label",
+};
+
+/** Fill color of each type of zone, as RGB */
+export const MAP_ANNOTATION_COLORS: { [type in MapAnnotationType]: number[] } =
+    {
+        [MapAnnotationType.KeepOut]: [220, 0, 0],
+        [MapAnnotationType.Room]: [0, 90, 220],
+        [MapAnnotationType.ChargingArea]: [0, 170, 60],
+        [MapAnnotationType.Label]: [40, 40, 40],
+    };
+
+/** A point on the map, in meters in the map frame */
+export type MapPoint = { x: number; y: number };
+
+/** A zone or label drawn on a map */
+export type MapAnnotation = {
+    type: MapAnnotationType;
+    /** Name of the zone, or the text of the label */
+    name: string;
+    /** Corners of the zone in drawing order, or the position of the label */
+    points: MapPoint[];
+};
+
+/**
+ * @param type type of the annotation
+ * @returns how many points the annotation needs to be saved
+ */
+export function minimumPoints(type: MapAnnotationType): number {
+    return type === MapAnnotationType.Label ? 1 : 3;
+}
+
+/**
+ * Checks whether a point lies inside a zone, by counting how many of its
+ * edges a ray from the point crosses.
+ * @param point the point to check
+ * @param polygon corners of the zone
+ * @returns true if the point is inside the zone
+ */
+export function isInsidePolygon(point: MapPoint, polygon: MapPoint[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if (
+            a.y > point.y !== b.y > point.y &&
+            point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+        )
+            inside = !inside;
+    }
+    return inside;
+}
+
+/**
+ * @param annotations the annotations of the map
+ * @param point a navigation goal
+ * @returns the keep-out zone the goal is in, if any
+ */
+export function findKeepOutZone(
+    annotations: MapAnnotation[],
+    point: MapPoint
+): MapAnnotation | undefined {
+    return annotations.find(
+        (annotation) =>
+            annotation.type === MapAnnotationType.KeepOut &&
+            isInsidePolygon(point, annotation.points)
+    );
+}
+
+/**
+ * @returns true if the value is an annotation, e.g. one read from storage
+ */
+export function isMapAnnotation(value: any): value is MapAnnotation {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        Object.values(MapAnnotationType).includes(value.type) &&
+        typeof value.name === "string" &&
+        Array.isArray(value.points) &&
+        value.points.length >= minimumPoints(value.type) &&
+        value.points.every(
+            (point: any) =>
+                typeof point === "object" &&
+                point !== null &&
+                typeof point.x === "number" &&
+                typeof point.y === "number"
+        )
+    );
+}
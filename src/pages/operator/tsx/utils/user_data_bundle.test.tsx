@@ -0,0 +1,83 @@
+import {
+    parseUserDataBundle,
+    uniqueName,
+    USER_DATA_BUNDLE_VERSION,
+} from "operator/tsx/utils/user_data_bundle";
+
+const pose = {
+    translation: { x: 1, y: 2, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, w: 1 },
+};
+
+describe("parseUserDataBundle", () => {
+    it("reads a current bundle unchanged", () => {
+        const bundle = {
+            version: USER_DATA_BUNDLE_VERSION,
+            exportedAt: 1000,
+            layouts: {},
+            mapPoses: { Door: { pose: pose, type: "MAP", map: "map-a" } },
+            recordings: { Wave: [{ joint_lift: 0.5 }] },
+            recordingTools: { Wave: "gripper" },
+            texts: ["Hello"],
+        };
+        expect(parseUserDataBundle(JSON.stringify(bundle))).toEqual(bundle);
+    });
+
+    it("marks the maps and tools of a version 1 bundle as unknown", () => {
+        const bundle = parseUserDataBundle(
+            JSON.stringify({
+                version: 1,
+                exportedAt: 1000,
+                layouts: {},
+                mapPoses: { Door: { pose: pose, type: "MAP" } },
+                recordings: { Wave: [{ joint_lift: 0.5 }] },
+                texts: [],
+            })
+        );
+        expect(bundle.version).toBe(USER_DATA_BUNDLE_VERSION);
+        expect(bundle.mapPoses.Door).toEqual({
+            pose: pose,
+            type: "MAP",
+            map: null,
+        });
+        expect(bundle.recordingTools).toEqual({ Wave: null });
+    });
+
+    it("fills in the parts a bundle left out", () => {
+        const bundle = parseUserDataBundle(
+            JSON.stringify({ version: USER_DATA_BUNDLE_VERSION })
+        );
+        expect(bundle.layouts).toEqual({});
+        expect(bundle.mapPoses).toEqual({});
+        expect(bundle.recordings).toEqual({});
+        expect(bundle.recordingTools).toEqual({});
+        expect(bundle.texts).toEqual([]);
+    });
+
+    it.each([
+        ["{", "The file is not valid JSON"],
+        ["[]", "The file is not an exported user data bundle"],
+        ['{"layouts": {}}', "The file is not an exported user data bundle"],
+        ['{"version": 0}', "The file is not an exported user data bundle"],
+        [
+            `{"version": ${USER_DATA_BUNDLE_VERSION + 1}}`,
+            "The file was exported by a newer version of the interface",
+        ],
+        [
+            '{"version": 1, "recordings": []}',
+            "The movement recordings in the file are not readable",
+        ],
+        ['{"version": 1, "texts": "Hello"}', "The texts in the file"],
+    ])("rejects %s", (json, message) => {
+        expect(() => parseUserDataBundle(json)).toThrow(message);
+    });
+});
+
+describe("uniqueName", () => {
+    it("numbers the name past the ones taken", () => {
+        expect(uniqueName("Door", ["Door"])).toBe("Door (2)");
+        expect(uniqueName("Door", ["Door", "Door (2)", "Door (3)"])).toBe(
+            "Door (4)"
+        );
+    });
+});
@@ -0,0 +1,215 @@
+import ROSLIB from "roslib";
+import { downloadFile, RobotPose, StretchTool } from "shared/util";
+import { LayoutDefinition } from "operator/tsx/utils/component_definitions";
+
+/** A bundle as it was read from the file, before it is checked */
+type StoredBundle = { [key: string]: unknown };
+
+/** Upgrades a bundle from one format version to the next, in place */
+type BundleMigration = (bundle: StoredBundle) => void;
+
+/** Migrations indexed by the version they upgrade from, starting at 1 */
+const MIGRATIONS: BundleMigration[] = [
+    // 1 -> 2: Map poses didn't keep the map they were saved on and
+    // recordings didn't keep their tool. Both are marked as unknown, so they
+    // aren't saved as belonging to the robot's current map and tool.
+    (bundle) => {
+        if (isObject(bundle.mapPoses)) {
+            Object.values(bundle.mapPoses).forEach((mapPose) => {
+                if (isObject(mapPose)) mapPose.map = null;
+            });
+        }
+        const tools: { [name: string]: null } = {};
+        if (isObject(bundle.recordings))
+            Object.keys(bundle.recordings).forEach(
+                (name) => (tools[name] = null)
+            );
+        bundle.recordingTools = tools;
+    },
+];
+
+/**
+ * Version of the export format this page reads and writes. Bump it along
+ * with a new migration whenever the format of {@link UserDataBundle} changes.
+ */
+export const USER_DATA_BUNDLE_VERSION = MIGRATIONS.length + 1;
+
+/**
+ * Everything a user saved on the operator page, exported as one JSON file so
+ * it can be imported into another browser or onto another robot.
+ */
+export interface UserDataBundle {
+    version: number;
+    /** Epoch time in milliseconds the bundle was exported */
+    exportedAt: number;
+    layouts: { [name: string]: LayoutDefinition };
+    /**
+     * Map poses of the robot they were exported on, with their map. The map
+     * is null if it is not known.
+     */
+    mapPoses: {
+        [name: string]: {
+            pose: ROSLIB.Transform;
+            type: string;
+            map?: string | null;
+        };
+    };
+    recordings: { [name: string]: RobotPose[] };
+    /** Tool each recording was made with, null if it is not known */
+    recordingTools: { [name: string]: StretchTool | null | undefined };
+    /** Saved text-to-speech phrases */
+    texts: string[];
+}
+
+/** The named parts of a bundle, which can conflict with what is stored */
+export type UserDataKind = "layouts" | "mapPoses" | "recordings";
+
+export const USER_DATA_KINDS: UserDataKind[] = [
+    "layouts",
+    "mapPoses",
+    "recordings",
+];
+
+/** How each kind is referred to in the interface */
+export const USER_DATA_KIND_LABELS: { [kind in UserDataKind]: string } = {
+    layouts: "Layout",
+    mapPoses: "Map pose",
+    recordings: "Movement recording",
+};
+
+/** What to do with an imported item whose name is already taken */
+export type ConflictResolution = "rename" | "overwrite" | "skip";
+
+/** An imported item whose name is already taken */
+export type ImportConflict = { kind: UserDataKind; name: string };
+
+/** Resolution for each conflict, by kind and then name */
+export type ImportResolutions = {
+    [kind in UserDataKind]: { [name: string]: ConflictResolution };
+};
+
+/** What happened during an import, for showing to the user */
+export type ImportSummary = {
+    /** Number of items saved, including renamed and overwritten ones */
+    imported: number;
+    /** Number of conflicting items the user chose to skip */
+    skipped: number;
+    /** One sentence per item that was renamed */
+    renamed: string[];
+    /** One sentence per item that was repaired or could not be imported */
+    problems: string[];
+};
+
+/**
+ * Checks the structure of an exported file, and brings a bundle exported by
+ * an older version of the interface up to the current format.
+ *
+ * @param json contents of the file
+ * @returns the bundle
+ * @throws Error if the file is not a bundle this page can read
+ */
+export function parseUserDataBundle(json: string): UserDataBundle {
+    let bundle: unknown;
+    try {
+        bundle = JSON.parse(json);
+    } catch (e) {
+        throw Error("The file is not valid JSON");
+    }
+    if (
+        !isObject(bundle) ||
+        typeof bundle.version !== "number" ||
+        !Number.isInteger(bundle.version) ||
+        bundle.version < 1
+    )
+        throw Error("The file is not an exported user data bundle");
+    if (bundle.version > USER_DATA_BUNDLE_VERSION)
+        throw Error(
+            `The file was exported by a newer version of the interface (version ${bundle.version})`
+        );
+    USER_DATA_KINDS.forEach((kind) => {
+        if (bundle[kind] === undefined) bundle[kind] = {};
+        else if (!isObject(bundle[kind]))
+            throw Error(
+                `The ${USER_DATA_KIND_LABELS[kind].toLowerCase()}s in the file are not readable`
+            );
+    });
+    MIGRATIONS.slice(bundle.version - 1).forEach((migrate) => migrate(bundle));
+    bundle.version = USER_DATA_BUNDLE_VERSION;
+    // Tools are only used for warnings, so a bundle without them still imports
+    if (!isObject(bundle.recordingTools)) bundle.recordingTools = {};
+    if (bundle.texts === undefined) bundle.texts = [];
+    else if (!Array.isArray(bundle.texts))
+        throw Error("The texts in the file are not readable");
+    return bundle as unknown as UserDataBundle;
+}
+
+/**
+ * Reads a bundle from a file the user picked.
+ * @param file the exported file
+ * @returns the bundle, see {@link parseUserDataBundle}
+ */
+export async function readUserDataFile(file: File): Promise<UserDataBundle> {
+    return parseUserDataBundle(await file.text());
+}
+
+/**
+ * Downloads a bundle as a JSON file.
+ * @param bundle the bundle to download
+ */
+export function downloadUserData(bundle: UserDataBundle) {
+    const date = new Date(bundle.exportedAt).toISOString().slice(0, 10);
+    downloadFile(
+        new Blob([JSON.stringify(bundle, null, 2)], {
+            type: "application/json",
+        }),
+        `stretch-user-data-${date}.json`
+    );
+}
+
+/**
+ * Picks a name that is not taken, by numbering the original.
+ * @param name the original name
+ * @param taken names that are already used
+ * @returns the first of "name (2)", "name (3)", ... that is free
+ */
+export function uniqueName(name: string, taken: string[]): string {
+    let count = 2;
+    while (taken.includes(`${name} (${count})`)) count++;
+    return `${name} (${count})`;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * @returns true if the value has the fields of a `ROSLIB.Transform`
+ */
+export function isTransform(value: unknown): value is ROSLIB.Transform {
+    return (
+        isObject(value) &&
+        isObject(value.translation) &&
+        isObject(value.rotation) &&
+        ["x", "y", "z"].every(
+            (axis) => typeof value.translation[axis] === "number"
+        ) &&
+        ["x", "y", "z", "w"].every(
+            (axis) => typeof value.rotation[axis] === "number"
+        )
+    );
+}
+
+/**
+ * @returns true if the value is a list of joint positions, as saved by the
+ *          movement recorder
+ */
+export function isRecording(value: unknown): value is RobotPose[] {
+    return (
+        Array.isArray(value) &&
+        value.every(
+            (pose) =>
+                isObject(pose) &&
+                Object.values(pose).every((pos) => typeof pos === "number")
+        )
+    );
+}
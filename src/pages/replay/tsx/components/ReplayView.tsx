@@ -0,0 +1,261 @@
+import "replay/css/ReplayView.css";
+import React, { useEffect, useRef, useState } from "react";
+import { className, ValidJoints } from "shared/util";
+import {
+    SessionBundle,
+    SessionTimeline,
+    TimedEvent,
+    unpackSessionBundle,
+} from "shared/sessionbundle";
+
+/** Videos further than this from the timeline, in seconds, are re-synced */
+const MAX_VIDEO_DRIFT_S = 0.3;
+
+/** Commands sent within this many milliseconds are highlighted */
+const RECENT_COMMAND_MS = 1000;
+
+/**
+ * @returns the index of the last event at or before time `t`, or -1 if the
+ *          first event is later
+ */
+function lastIndexAt(events: TimedEvent<{}>[], t: number): number {
+    let low = 0;
+    let high = events.length - 1;
+    while (low <= high) {
+        const mid = Math.floor((low + high) / 2);
+        if (events[mid].t <= t) low = mid + 1;
+        else high = mid - 1;
+    }
+    return high;
+}
+
+/**
+ * @returns whether a joint was at one of its limits or in collision, the
+ *          same conditions the operator page warns about
+ */
+function isJointAtRisk(
+    jointState: SessionTimeline["jointStates"][number],
+    joint: ValidJoints
+): boolean {
+    const inLimits = jointState.jointsInLimits[joint];
+    const inCollision = jointState.jointsInCollision[joint];
+    return (
+        (inLimits !== undefined && !(inLimits[0] && inLimits[1])) ||
+        (inCollision !== undefined && (inCollision[0] || inCollision[1]))
+    );
+}
+
+function formatTime(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}.${String(Math.floor(ms % 1000)).padStart(3, "0")}`;
+}
+
+/**
+ * Plays back a session recorded on the operator page: the camera videos in
+ * sync with a timeline of the joint states, map poses and commands.
+ */
+export const ReplayView = () => {
+    const [bundle, setBundle] = useState<SessionBundle>();
+    const [videoUrls, setVideoUrls] = useState<{ [camera: string]: string }>(
+        {}
+    );
+    const [time, setTime] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [error, setError] = useState("");
+    const videoRefs = useRef<{ [camera: string]: HTMLVideoElement | null }>({});
+
+    const open = (file: File) => {
+        setPlaying(false);
+        unpackSessionBundle(file)
+            .then((bundle) => {
+                Object.values(videoUrls).forEach(URL.revokeObjectURL);
+                const urls: { [camera: string]: string } = {};
+                Object.entries(bundle.videos).forEach(
+                    ([camera, video]) =>
+                        (urls[camera] = URL.createObjectURL(video))
+                );
+                setVideoUrls(urls);
+                setBundle(bundle);
+                setTime(0);
+                setError("");
+            })
+            .catch((e) => setError(e.message));
+    };
+
+    // Advance the timeline while playing
+    useEffect(() => {
+        if (!playing || !bundle) return;
+        let frame: number;
+        let last = performance.now();
+        const step = (now: number) => {
+            const elapsed = now - last;
+            last = now;
+            setTime((time) =>
+                Math.min(time + elapsed, bundle.timeline.duration)
+            );
+            frame = requestAnimationFrame(step);
+        };
+        frame = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(frame);
+    }, [playing, bundle]);
+
+    // Stop at the end of the recording
+    useEffect(() => {
+        if (bundle && time >= bundle.timeline.duration) setPlaying(false);
+    }, [time, bundle]);
+
+    // Keep the videos in sync with the timeline
+    useEffect(() => {
+        Object.values(videoRefs.current).forEach((video) => {
+            if (!video) return;
+            if (Math.abs(video.currentTime - time / 1000) > MAX_VIDEO_DRIFT_S)
+                video.currentTime = time / 1000;
+            if (playing && video.paused) video.play().catch(() => {});
+            if (!playing && !video.paused) video.pause();
+        });
+    }, [time, playing]);
+
+    if (!bundle) {
+        return (
+            <div className="replay">
+                <h1>Replay a session</h1>
+                <p>
+                    Open a session recording downloaded from the operator page.
+                </p>
+                <input
+                    type="file"
+                    accept=".tar"
+                    onChange={(e) => e.target.files && open(e.target.files[0])}
+                />
+                {error && <p className="replay-error">{error}</p>}
+            </div>
+        );
+    }
+
+    const timeline = bundle.timeline;
+    const jointState =
+        timeline.jointStates[lastIndexAt(timeline.jointStates, time)];
+    const mapPose = timeline.mapPoses[lastIndexAt(timeline.mapPoses, time)];
+    const lastCommand = lastIndexAt(timeline.commands, time);
+
+    return (
+        <div className="replay">
+            <div className="replay-header">
+                <h1>
+                    {timeline.robot || "Session"},{" "}
+                    {new Date(timeline.startTime).toLocaleString()}
+                </h1>
+                <input
+                    type="file"
+                    accept=".tar"
+                    onChange={(e) => e.target.files && open(e.target.files[0])}
+                />
+            </div>
+            <div className="replay-videos">
+                {Object.entries(videoUrls).map(([camera, url]) => (
+                    <figure key={camera}>
+                        <video
+                            ref={(video) => (videoRefs.current[camera] = video)}
+                            src={url}
+                            muted
+                        />
+                        <figcaption>{camera}</figcaption>
+                    </figure>
+                ))}
+            </div>
+            <div className="replay-controls">
+                <button
+                    onClick={() => {
+                        if (time >= timeline.duration) setTime(0);
+                        setPlaying(!playing);
+                    }}
+                >
+                    {playing ? "Pause" : "Play"}
+                </button>
+                <div className="replay-timeline">
+                    <input
+                        type="range"
+                        min={0}
+                        max={timeline.duration}
+                        value={time}
+                        onChange={(e) => setTime(Number(e.target.value))}
+                    />
+                    {timeline.commands.map((command, i) => (
+                        <span
+                            key={i}
+                            className="replay-command-marker"
+                            style={{
+                                left: `${(command.t / timeline.duration) * 100}%`,
+                            }}
+                            title={command.command.type}
+                        />
+                    ))}
+                </div>
+                <span className="replay-time">
+                    {formatTime(time)} / {formatTime(timeline.duration)}
+                </span>
+            </div>
+            <div className="replay-details">
+                <section>
+                    <h2>Joint state</h2>
+                    {jointState ? (
+                        <table>
+                            <tbody>
+                                {Object.entries(jointState.robotPose).map(
+                                    ([joint, value]) => (
+                                        <tr
+                                            key={joint}
+                                            className={className("", {
+                                                warning: isJointAtRisk(
+                                                    jointState,
+                                                    joint as ValidJoints
+                                                ),
+                                            })}
+                                        >
+                                            <td>{joint}</td>
+                                            <td>{value.toFixed(3)}</td>
+                                        </tr>
+                                    )
+                                )}
+                            </tbody>
+                        </table>
+                    ) : (
+                        <p>No joint state yet</p>
+                    )}
+                    <h2>Map pose</h2>
+                    {mapPose ? (
+                        <p>
+                            x {mapPose.pose.translation.x.toFixed(2)}, y{" "}
+                            {mapPose.pose.translation.y.toFixed(2)}
+                        </p>
+                    ) : (
+                        <p>No map pose</p>
+                    )}
+                </section>
+                <section>
+                    <h2>Commands</h2>
+                    <ol className="replay-commands">
+                        {timeline.commands.map((command, i) => (
+                            <li
+                                key={i}
+                                className={className("", {
+                                    past: i <= lastCommand,
+                                    recent:
+                                        i <= lastCommand &&
+                                        time - command.t < RECENT_COMMAND_MS,
+                                })}
+                                onClick={() => setTime(command.t)}
+                                title={JSON.stringify(command.command)}
+                            >
+                                <span className="replay-time">
+                                    {formatTime(command.t)}
+                                </span>{" "}
+                                {command.command.type}
+                            </li>
+                        ))}
+                    </ol>
+                </section>
+            </div>
+        </div>
+    );
+};
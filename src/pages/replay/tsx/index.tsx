@@ -0,0 +1,8 @@
+import "home/css/index.css";
+import React from "react";
+import { createRoot } from "react-dom/client";
+import { ReplayView } from "./components/ReplayView";
+
+const container = document.getElementById("root");
+const root = createRoot(container!);
+root.render(<ReplayView />);
@@ -0,0 +1,94 @@
+import io, { Socket } from "socket.io-client";
+import { Participant } from "shared/webrtcconnections";
+import { AuditEvent, AuditLogEntry } from "shared/util";
+
+type AuditLogProps = {
+    /** Fleet ID of the robot, recorded with every entry */
+    robot: string;
+};
+
+/**
+ * Records what happened during teleop sessions, for incident review and user
+ * studies. Entries are sent to the local server, which appends them to a
+ * JSONL file on the robot host. A session starts when the first participant
+ * joins and ends when the last one leaves.
+ */
+export class AuditLog {
+    private robot: string;
+    private socket: Socket;
+    private session?: string;
+    private participantCount: number = 0;
+    /** Last recorded value of each state, so only changes are recorded */
+    private states: { [event: string]: any } = {};
+
+    constructor(props: AuditLogProps) {
+        this.robot = props.robot;
+        // socket.io buffers entries recorded while the server is unreachable
+        // and sends them once it reconnects
+        this.socket = io();
+    }
+
+    /**
+     * Records a participant joining, starting a session if it is the first.
+     *
+     * @param participant the participant that joined
+     */
+    participantJoined(participant: Participant) {
+        if (this.participantCount++ === 0)
+            this.session = new Date().toISOString();
+        this.record("connection", "joined", participant);
+    }
+
+    /**
+     * Records a participant leaving, ending the session if it was the last.
+     *
+     * @param participant the participant that left
+     */
+    participantLeft(participant: Participant) {
+        this.record("connection", "left", participant);
+        this.participantCount = Math.max(0, this.participantCount - 1);
+        if (this.participantCount === 0) this.session = undefined;
+    }
+
+    /**
+     * Records a state of the robot, e.g. its mode, if it changed since it was
+     * last recorded.
+     *
+     * @param event the state that was reported
+     * @param value the reported value
+     */
+    stateChanged(event: "runStop" | "mode", value: any) {
+        if (this.states[event] === value) return;
+        this.states[event] = value;
+        this.record(event, String(value), undefined, value);
+    }
+
+    /**
+     * Appends an entry to the audit log.
+     *
+     * @param event the kind of event
+     * @param type the command, action or connection event type
+     * @param participant the participant the event concerns, if any
+     * @param data details of the event, e.g. the command that was sent
+     */
+    record(
+        event: AuditEvent,
+        type: string,
+        participant?: Participant,
+        data?: any
+    ) {
+        this.socket.emit("audit_log", {
+            time: new Date().toISOString(),
+            robot: this.robot,
+            session: this.session,
+            participant: participant && {
+                id: participant.id,
+                name: participant.name,
+                role: participant.role,
+            },
+            event: event,
+            type: type,
+            data: data,
+        } as AuditLogEntry);
+    }
+}
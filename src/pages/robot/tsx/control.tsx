@@ -0,0 +1,126 @@
+import { Participant, ParticipantConnections } from "shared/webrtcconnections";
+import { ControlRequestMessage, ControlStateMessage } from "shared/util";
+
+type ControlArbiterProps = {
+    connections: ParticipantConnections;
+    /** Called before control passes to another operator */
+    onHandOff: () => void;
+};
+
+/**
+ * Decides which of the connected operators owns the command channel. The
+ * first operator to join takes control, and keeps it until it leaves or
+ * grants it to another operator that requested it.
+ */
+export class ControlArbiter {
+    private connections: ParticipantConnections;
+    private onHandOff: () => void;
+    private controller?: Participant;
+
+    constructor(props: ControlArbiterProps) {
+        this.connections = props.connections;
+        this.onHandOff = props.onHandOff;
+    }
+
+    /**
+     * @param participant the participant to check
+     * @returns whether the participant may send commands
+     */
+    hasControl(participant: Participant): boolean {
+        return this.controller?.id === participant.id;
+    }
+
+    /**
+     * Gives control to an operator that joined while nobody had it. Called
+     * when the session starts, so its first commands are not rejected. The
+     * operator itself learns it has control once its data channel is ready.
+     *
+     * @param participant the participant that joined
+     */
+    join(participant: Participant) {
+        if (this.controller || participant.role !== "operator") return;
+        this.controller = participant;
+        this.announce();
+    }
+
+    /**
+     * Releases control if the participant that left had it.
+     *
+     * @param participant the participant that left
+     */
+    leave(participant: Participant) {
+        if (!this.hasControl(participant)) return;
+        console.log(`${participant.name} left while in control`);
+        this.controller = undefined;
+        this.announce();
+    }
+
+    /**
+     * Handles a participant asking for control. Control is handed over
+     * right away if nobody has it, otherwise the operator in control is
+     * asked to grant it.
+     *
+     * @param participant the participant asking for control
+     */
+    requestControl(participant: Participant) {
+        if (participant.role !== "operator")
+            throw `${participant.role}s cannot take control`;
+        if (this.hasControl(participant)) return;
+        if (!this.controller) {
+            this.handOff(participant);
+            return;
+        }
+        this.controller.connection.sendData({
+            type: "controlRequest",
+            participantId: participant.id,
+            name: participant.name,
+        } as ControlRequestMessage);
+    }
+
+    /**
+     * Hands off control on behalf of the operator in control.
+     *
+     * @param participantId the participant to hand control to
+     */
+    grantControl(participantId: string) {
+        const participant = this.connections
+            .getParticipants()
+            .find((p) => p.id === participantId);
+        if (!participant) throw `Participant ${participantId} has left`;
+        if (participant.role !== "operator")
+            throw `${participant.role}s cannot take control`;
+        this.handOff(participant);
+    }
+
+    private handOff(participant: Participant) {
+        console.log(`Handing off control to ${participant.name}`);
+        this.onHandOff();
+        this.controller = participant;
+        this.announce();
+    }
+
+    /**
+     * Tells every participant who is in control. Participants whose data
+     * channel is not ready yet are told by {@link announceTo} once it is.
+     */
+    private announce() {
+        this.connections
+            .getParticipants()
+            .filter((participant) => participant.connection.isPeerReady())
+            .forEach((participant) => this.announceTo(participant));
+    }
+
+    /**
+     * Tells a participant who is in control, e.g. once the peer handshake
+     * on its data channel completes.
+     *
+     * @param participant the participant to tell
+     */
+    announceTo(participant: Participant) {
+        participant.connection.sendData({
+            type: "controlState",
+            controller: this.controller?.name,
+            hasControl: this.hasControl(participant),
+        } as ControlStateMessage);
+    }
+}
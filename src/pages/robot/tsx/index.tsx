@@ -1,8 +1,11 @@
 import React from "react";
 import { createRoot } from "react-dom/client";
 import "robot/css/index.css";
-import { Robot } from "../../robot/tsx/robot";
-import { WebRTCConnection } from "../../../shared/webrtcconnections";
+import { CommandDoneCallback, Robot } from "../../robot/tsx/robot";
+import {
+    Participant,
+    ParticipantConnections,
+} from "../../../shared/webrtcconnections";
 import {
     navigationProps,
     realsenseProps,
@@ -17,27 +20,59 @@ import {
     RobotPose,
     ROSOccupancyGrid,
     OccupancyGridMessage,
+    MapsMessage,
     MapPoseMessage,
+    NavigationPlan,
+    NavigationPlanMessage,
+    LaserScanMessage,
+    ROSPoint,
     GoalStatusMessage,
     ActionState,
     ActionStateMessage,
+    CommandResultMessage,
+    CommandStatus,
+    VelocityWatchdogMessage,
     ROSBatteryState,
     BatteryVoltageMessage,
     delay,
 } from "shared/util";
 import { AllVideoStreamComponent, VideoStream } from "./videostreams";
 import { AudioStream } from "./audiostreams";
+import {
+    DEFAULT_VELOCITY_WATCHDOG_TIMEOUT_MS,
+    VelocityWatchdog,
+} from "./watchdog";
+import { ControlArbiter } from "./control";
+import { AuditLog } from "./auditlog";
 import ROSLIB from "roslib";
 import {
     HasBetaTeleopKitMessage,
     StretchToolMessage,
 } from "../../../shared/util";
 import { loginFirebaseSignalerAsRobot } from "shared/signaling/get_signaler";
+import { ProtocolError, ProtocolErrorCode } from "shared/protocol";
+
+/**
+ * Creates the simulated robot when built with `--env robot=mock`, to work on
+ * the interface without ROS, and the ROS-backed robot otherwise. The mock
+ * robot and its map are only bundled in mock builds.
+ */
+async function createRobot(
+    props: ConstructorParameters<typeof Robot>[0]
+): Promise<Robot> {
+    if (process.env.robot === "mock") {
+        const { MockRobot } = await import("./mockrobot.js");
+        return new MockRobot(props);
+    }
+    return new Robot(props);
+}
 
-export const robot = new Robot({
+export let robot: Robot;
+createRobot({
     jointStateCallback: forwardJointStates,
     batteryStateCallback: forwardBatteryState,
     occupancyGridCallback: forwardOccupancyGrid,
+    mapsCallback: forwardMaps,
     moveBaseResultCallback: (goalState: ActionState) =>
         forwardActionState(goalState, "moveBaseState"),
     moveToPregraspResultCallback: (goalState: ActionState) =>
@@ -45,28 +80,56 @@ export const robot = new Robot({
     showTabletResultCallback: (goalState: ActionState) =>
         forwardActionState(goalState, "showTabletState"),
     amclPoseCallback: forwardAMCLPose,
+    navigationPlanCallback: forwardNavigationPlan,
+    laserScanCallback: forwardLaserScan,
     modeCallback: forwardMode,
     isHomedCallback: forwardIsHomed,
     isRunStoppedCallback: forwardIsRunStopped,
     hasBetaTeleopKitCallback: forwardHasBetaTeleopKit,
     stretchToolCallback: forwardStretchTool,
+}).then((created) => {
+    robot = created;
+    robot.setOnRosConnectCallback(handleRosConnect);
+    robot.connect();
 });
 
-export let connection: WebRTCConnection;
+// The robot browser is opened with its fleet ID, see start_robot_browser.js
+const robotName = new URL(window.location.href).searchParams.get("robot") || "";
+
+export let connection: ParticipantConnections;
 export let navigationStream = new VideoStream(navigationProps);
 export let realsenseStream = new VideoStream(realsenseProps);
 export let gripperStream = new VideoStream(gripperProps);
 export let audioStream = new AudioStream(audioProps);
+export let velocityWatchdog = new VelocityWatchdog({
+    timeout:
+        Number(process.env.velocityWatchdogTimeout) ||
+        DEFAULT_VELOCITY_WATCHDOG_TIMEOUT_MS,
+    onTimeout: handleVelocityWatchdogTimeout,
+});
 // let occupancyGrid: ROSOccupancyGrid | undefined;
+let latestHasBetaTeleopKit: boolean | undefined;
+let latestStretchTool: string | undefined;
+let latestOccupancyGrid: ROSOccupancyGrid | undefined;
+let latestMaps: MapsMessage | undefined;
+
+/** Where forwarded messages are sent, all participants by default */
+type MessageTarget = {
+    sendData: (obj: WebRTCMessage | WebRTCMessage[]) => void;
+};
 
-connection = new WebRTCConnection({
-    peerRole: "robot",
-    polite: false,
-    onRobotConnectionStart: handleSessionStart,
+connection = new ParticipantConnections({
+    onParticipantJoined: handleSessionStart,
+    onParticipantReady: handleParticipantReady,
+    onParticipantLeft: handleParticipantLeft,
     onMessage: handleMessage,
-    onConnectionEnd: disconnectFromRobot,
 });
-robot.setOnRosConnectCallback(async () => {
+export let controlArbiter = new ControlArbiter({
+    connections: connection,
+    onHandOff: stopAllMotion,
+});
+export let auditLog = new AuditLog({ robot: robotName });
+async function handleRosConnect() {
     robot.subscribeToVideo({
         topicName: "/navigation_camera/image_raw/rotated/compressed",
         callback: navigationStream.updateImage,
@@ -91,10 +154,10 @@ robot.setOnRosConnectCallback(async () => {
     robot.getJointLimits();
 
     console.log(
-        "Waiting for configured signaler (i.e. logging in if using Firebase)",
+        "Waiting for configured signaler (i.e. logging in if using Firebase)"
     );
     await loginFirebaseSignalerAsRobot();
-    await connection.configure_signaler("");
+    await connection.configure_signaler(robotName);
     console.log("Signaler ready! Joining room.");
     let joinedRobotRoom = await connection.joinRobotRoom();
     while (!joinedRobotRoom) {
@@ -103,39 +166,87 @@ robot.setOnRosConnectCallback(async () => {
     }
 
     return Promise.resolve();
-});
-robot.connect();
+}
 
-function handleSessionStart() {
-    connection.removeTracks();
+function handleSessionStart(participant: Participant) {
+    auditLog.participantJoined(participant);
+    controlArbiter.join(participant);
 
+    const participantConnection = participant.connection;
     console.log("adding local media stream to peer connection");
 
     let stream: MediaStream = navigationStream.outputVideoStream!;
     stream
         .getTracks()
-        .forEach((track) => connection.addTrack(track, stream, "overhead"));
+        .forEach((track) =>
+            participantConnection.addTrack(track, stream, "overhead")
+        );
 
     stream = realsenseStream.outputVideoStream!;
     stream
         .getTracks()
-        .forEach((track) => connection.addTrack(track, stream, "realsense"));
+        .forEach((track) =>
+            participantConnection.addTrack(track, stream, "realsense")
+        );
 
     stream = gripperStream.outputVideoStream!;
     stream
         .getTracks()
-        .forEach((track) => connection.addTrack(track, stream, "gripper"));
+        .forEach((track) =>
+            participantConnection.addTrack(track, stream, "gripper")
+        );
 
     stream = audioStream.outputAudioStream!;
     stream
         .getTracks()
-        .forEach((track) => connection.addTrack(track, stream, "audio"));
+        .forEach((track) =>
+            participantConnection.addTrack(track, stream, "audio")
+        );
 
-    connection.openDataChannels();
+    participantConnection.openDataChannels();
+}
+
+/**
+ * Tells a participant who is in control once the peer handshake on its data
+ * channel completes, since anything sent before that is dropped.
+ * Observers cannot request the state the operator asks for when it connects,
+ * so they are also sent the latest values.
+ * @param participant the participant whose data channel is ready
+ */
+function handleParticipantReady(participant: Participant) {
+    controlArbiter.announceTo(participant);
+    if (participant.role !== "observer") return;
+    const target = participant.connection;
+    if (latestHasBetaTeleopKit !== undefined)
+        forwardHasBetaTeleopKit(latestHasBetaTeleopKit, target);
+    if (latestStretchTool !== undefined)
+        forwardStretchTool(latestStretchTool, target);
+    if (latestOccupancyGrid) forwardOccupancyGrid(latestOccupancyGrid, target);
+    if (latestMaps) target.sendData(latestMaps);
+}
+
+/**
+ * Stops the robot when the operator's heartbeats for a velocity stream stop
+ * arriving, and lets the operator know.
+ * @param stream name of the velocity stream that timed out
+ */
+function handleVelocityWatchdogTimeout(stream: string) {
+    robot.stopBase();
+    robot.stopTrajectoryClient();
+
+    if (!connection) throw "WebRTC connection undefined!";
+    connection.sendData({
+        type: "velocityWatchdog",
+        message: {
+            state: "Lost contact with the operator, stopped the robot",
+            alert_type: "warning",
+        },
+    } as VelocityWatchdogMessage);
 }
 
 function forwardActionState(state: ActionState, type: string) {
     if (!connection) throw "WebRTC connection undefined!";
+    auditLog.record("actionState", type, undefined, state);
 
     if (state.alert_type != "info") {
         connection.sendData({
@@ -152,6 +263,7 @@ function forwardActionState(state: ActionState, type: string) {
 
 function forwardMode(mode: string) {
     if (!connection) throw "WebRTC connection undefined!";
+    auditLog.stateChanged("mode", mode);
 
     connection.sendData({
         type: "mode",
@@ -170,6 +282,7 @@ function forwardIsHomed(isHomed: boolean) {
 
 function forwardIsRunStopped(isRunStopped: boolean) {
     if (!connection) throw "WebRTC connection undefined!";
+    auditLog.stateChanged("runStop", isRunStopped);
 
     connection.sendData({
         type: "isRunStopped",
@@ -177,19 +290,24 @@ function forwardIsRunStopped(isRunStopped: boolean) {
     } as IsRunStoppedMessage);
 }
 
-function forwardHasBetaTeleopKit(value: boolean) {
-    if (!connection) throw "WebRTC connection undefined!";
+function forwardHasBetaTeleopKit(
+    value: boolean,
+    target: MessageTarget = connection
+) {
+    if (!target) throw "WebRTC connection undefined!";
+    latestHasBetaTeleopKit = value;
 
-    connection.sendData({
+    target.sendData({
         type: "hasBetaTeleopKit",
         value: value,
     } as HasBetaTeleopKitMessage);
 }
 
-function forwardStretchTool(value: string) {
-    if (!connection) throw "WebRTC connection undefined!";
+function forwardStretchTool(value: string, target: MessageTarget = connection) {
+    if (!target) throw "WebRTC connection undefined!";
+    latestStretchTool = value;
 
-    connection.sendData({
+    target.sendData({
         type: "stretchTool",
         value: value,
     } as StretchToolMessage);
@@ -198,7 +316,7 @@ function forwardStretchTool(value: string) {
 function forwardJointStates(
     robotPose: RobotPose,
     jointValues: ValidJointStateDict,
-    effortValues: ValidJointStateDict,
+    effortValues: ValidJointStateDict
 ) {
     if (!connection) throw "WebRTC connection undefined!";
 
@@ -219,8 +337,12 @@ function forwardBatteryState(batteryState: ROSBatteryState) {
     } as BatteryVoltageMessage);
 }
 
-function forwardOccupancyGrid(occupancyGrid: ROSOccupancyGrid) {
-    if (!connection) throw "WebRTC connection undefined";
+function forwardOccupancyGrid(
+    occupancyGrid: ROSOccupancyGrid,
+    target: MessageTarget = connection
+) {
+    if (!target) throw "WebRTC connection undefined";
+    latestOccupancyGrid = occupancyGrid;
 
     let splitOccupancyGrid: ROSOccupancyGrid = {
         header: occupancyGrid.header,
@@ -232,7 +354,7 @@ function forwardOccupancyGrid(occupancyGrid: ROSOccupancyGrid) {
     for (let i = 0; i < occupancyGrid.data.length; i += data_size) {
         const data_chunk = occupancyGrid.data.slice(i, i + data_size);
         splitOccupancyGrid.data = data_chunk;
-        connection.sendData({
+        target.sendData({
             type: "occupancyGrid",
             message: splitOccupancyGrid,
         } as OccupancyGridMessage);
@@ -246,6 +368,13 @@ function forwardOccupancyGrid(occupancyGrid: ROSOccupancyGrid) {
     // } as OccupancyGridMessage);
 }
 
+function forwardMaps(maps: string[], active?: string) {
+    if (!connection) throw "WebRTC connection undefined";
+    latestMaps = { type: "maps", maps: maps, active: active };
+
+    connection.sendData(latestMaps);
+}
+
 function forwardAMCLPose(transform: ROSLIB.Transform) {
     if (!connection) throw "WebRTC connection undefined";
 
@@ -255,18 +384,161 @@ function forwardAMCLPose(transform: ROSLIB.Transform) {
     } as MapPoseMessage);
 }
 
-function handleMessage(message: WebRTCMessage) {
-    if (!("type" in message)) {
-        console.error("Malformed message:", message);
+function forwardNavigationPlan(plan: NavigationPlan) {
+    if (!connection) throw "WebRTC connection undefined";
+
+    connection.sendData({
+        type: "navigationPlan",
+        ...plan,
+    } as NavigationPlanMessage);
+}
+
+function forwardLaserScan(points: ROSPoint[]) {
+    if (!connection) throw "WebRTC connection undefined";
+
+    connection.sendData({
+        type: "laserScan",
+        points: points,
+    } as LaserScanMessage);
+}
+
+/**
+ * Callback to handle a message from the operator browser. The connection has
+ * already validated the message against the protocol schemas. Commands sent
+ * with a request ID are answered with {@link CommandResultMessage}s. Only
+ * the operator in control may send commands, see {@link ControlArbiter}.
+ * Every command and its result is recorded in the {@link AuditLog}.
+ * @param message the {@link WebRTCMessage}
+ * @param participant the participant that sent the message
+ */
+function handleMessage(message: WebRTCMessage, participant: Participant) {
+    if (message.type === "protocolError") {
+        executeMessage(message);
         return;
     }
+    auditLog.record("command", message.type, participant, message);
+    if (participant.role === "observer") {
+        rejectMessage(message, participant, "Observers cannot send commands");
+        return;
+    }
+    if (message.type === "requestControl") {
+        controlArbiter.requestControl(participant);
+        return;
+    }
+    if (!controlArbiter.hasControl(participant)) {
+        rejectMessage(
+            message,
+            participant,
+            "Only the operator in control can send commands"
+        );
+        return;
+    }
+    if (message.type === "grantControl") {
+        try {
+            controlArbiter.grantControl(message.participantId);
+        } catch (error) {
+            console.error("Could not hand off control", error);
+        }
+        return;
+    }
+
+    const id = "id" in message ? message.id : undefined;
+    if (id === undefined) {
+        executeMessage(message);
+        return;
+    }
+
+    const reply = (status: CommandStatus, reason?: string) => {
+        auditLog.record("commandResult", message.type, participant, {
+            id: id,
+            status: status,
+            message: reason,
+        });
+        participant.connection.sendData({
+            type: "commandResult",
+            id: id,
+            commandType: message.type,
+            status: status,
+            message: reason,
+        } as CommandResultMessage);
+    };
+
+    let willFinishLater: boolean;
+    try {
+        willFinishLater = executeMessage(message, (error?: string) =>
+            error === undefined ? reply("completed") : reply("failed", error)
+        );
+    } catch (error) {
+        console.error(`Could not execute ${message.type}`, error);
+        reply("rejected", String(error));
+        return;
+    }
+    reply(willFinishLater ? "accepted" : "completed");
+}
 
+/**
+ * Tells a participant that the robot did not accept its message. Commands
+ * sent with a request ID are rejected through their command result.
+ * @param message the rejected {@link WebRTCMessage}
+ * @param participant the participant that sent the message
+ * @param reason why the message was rejected
+ */
+function rejectMessage(
+    message: WebRTCMessage,
+    participant: Participant,
+    reason: string
+) {
+    console.warn(`Rejecting ${message.type} from ${participant.name}`);
+    const id = "id" in message ? message.id : undefined;
+    auditLog.record("commandResult", message.type, participant, {
+        id: id,
+        status: "rejected",
+        message: reason,
+    });
+    if (id !== undefined) {
+        participant.connection.sendData({
+            type: "commandResult",
+            id: id,
+            commandType: message.type,
+            status: "rejected",
+            message: reason,
+        } as CommandResultMessage);
+        return;
+    }
+    participant.connection.sendData(
+        new ProtocolError(
+            ProtocolErrorCode.Forbidden,
+            reason,
+            message.type
+        ).toMessage()
+    );
+}
+
+/**
+ * Executes a message from the operator browser.
+ * @param message the {@link WebRTCMessage}
+ * @param onDone called when a long-running command finishes
+ * @returns true if the command is long-running and `onDone` will be called
+ */
+function executeMessage(
+    message: WebRTCMessage,
+    onDone?: CommandDoneCallback
+): boolean {
     switch (message.type) {
         case "driveBase":
             robot.executeBaseVelocity(message.modifier);
+            message.heartbeat
+                ? velocityWatchdog.heartbeat("base")
+                : velocityWatchdog.clear("base");
             break;
         case "incrementalMove":
             robot.executeIncrementalMove(message.jointName, message.increment);
+            message.heartbeat
+                ? velocityWatchdog.heartbeat(message.jointName)
+                : velocityWatchdog.clear(message.jointName);
+            break;
+        case "endVelocityHeartbeat":
+            velocityWatchdog.clearAll();
             break;
         case "stopTrajectory":
             robot.stopTrajectoryClient();
@@ -286,14 +558,16 @@ function handleMessage(message: WebRTCMessage) {
             });
             break;
         case "setRobotPose":
-            robot.executePoseGoal(message.pose);
-            break;
+            robot.executePoseGoal(message.pose, onDone);
+            return true;
         case "playbackPoses":
-            robot.executePoseGoals(message.poses, 0);
-            break;
+            robot.executePoseGoals(message.poses, 0, onDone).catch((error) => {
+                if (onDone) onDone(String(error));
+            });
+            return true;
         case "moveBase":
-            robot.executeMoveBaseGoal(message.pose);
-            break;
+            robot.executeMoveBaseGoal(message.pose, onDone);
+            return true;
         case "setFollowGripper":
             robot.setPanTiltFollowGripper(message.toggle);
             break;
@@ -319,15 +593,29 @@ function handleMessage(message: WebRTCMessage) {
         case "getOccupancyGrid":
             robot.getOccupancyGrid();
             break;
+        case "getMaps":
+            robot.getMaps();
+            break;
+        case "loadMap":
+            robot.loadMap(message.name, onDone);
+            return true;
+        case "setPoseEstimate":
+            robot.setPoseEstimate(message.pose);
+            break;
+        case "relocalize":
+            robot.relocalize(onDone);
+            return true;
         case "getHasBetaTeleopKit":
             robot.getHasBetaTeleopKit();
+            break;
         case "moveToPregrasp":
             robot.executeMoveToPregraspGoal(
                 message.scaled_x,
                 message.scaled_y,
                 message.horizontal,
+                onDone
             );
-            break;
+            return true;
         case "stopMoveToPregrasp":
             robot.stopMoveToPregraspClient();
             break;
@@ -338,31 +626,56 @@ function handleMessage(message: WebRTCMessage) {
             robot.playTextToSpeech(
                 message.text,
                 message.override_behavior,
-                message.is_slow,
+                message.is_slow
             );
             break;
         case "stopTextToSpeech":
             robot.stopTextToSpeech();
             break;
         case "showTablet":
-            robot.executeShowTabletGoal();
-            break;
+            robot.executeShowTabletGoal(onDone);
+            return true;
         case "stopShowTablet":
             robot.stopShowTabletClient();
             break;
         case "homeTheRobot":
-            robot.homeTheRobot();
+            robot.homeTheRobot(onDone);
+            return true;
+        case "protocolError":
+            console.error(
+                `Operator rejected ${message.rejectedType} message (${message.code}): ${message.message}`
+            );
             break;
     }
+    return false;
 }
 
-function disconnectFromRobot() {
-    robot.closeROSConnection();
-    connection.hangup();
+function handleParticipantLeft(participant: Participant) {
+    // The operator in control is gone, stop any motion it was still driving
+    if (
+        controlArbiter.hasControl(participant) &&
+        velocityWatchdog.isWatching()
+    ) {
+        robot.stopBase();
+        robot.stopTrajectoryClient();
+        velocityWatchdog.clearAll();
+    }
+    controlArbiter.leave(participant);
+    auditLog.participantLeft(participant);
+}
+
+/**
+ * Stops everything the robot is doing, so the next operator in control
+ * starts from a standstill.
+ */
+function stopAllMotion() {
+    velocityWatchdog.clearAll();
+    robot.stopBase();
+    robot.stopExecution(true);
 }
 
 window.onbeforeunload = () => {
-    robot.closeROSConnection();
+    robot?.closeROSConnection();
     connection.hangup();
 };
 
@@ -372,5 +685,5 @@ const root = createRoot(container!); // createRoot(container!) if you use TypeSc
 root.render(
     <AllVideoStreamComponent
         streams={[navigationStream, realsenseStream, gripperStream]}
-    />,
+    />
 );
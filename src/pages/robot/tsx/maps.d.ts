@@ -0,0 +1,12 @@
+// The map files the mock robot bundles. Webpack's file-loader emits them next
+// to the page and resolves the import to their URL.
+
+declare module "*.pgm" {
+    const url: string;
+    export default url;
+}
+
+declare module "*.yaml" {
+    const url: string;
+    export default url;
+}
@@ -0,0 +1,1102 @@
+import ROSLIB from "roslib";
+import {
+    ActionState,
+    gripperProps,
+    JOINT_LIMITS,
+    navigationProps,
+    realsenseProps,
+    ROSBatteryState,
+    ROSCompressedImage,
+    ROSJointState,
+    ROSOccupancyGrid,
+    ROSPoint,
+    ROSPose,
+    RobotPose,
+    ValidJoints,
+    VideoProps,
+} from "shared/util";
+import mapImage from "../../../../maps/map.pgm";
+import mapMetadata from "../../../../maps/map.yaml";
+import {
+    CommandDoneCallback,
+    MAPS_URL,
+    fetchJSON,
+    MAX_SCAN_POINTS,
+    moveBaseActionName,
+    moveToPregraspActionName,
+    Robot,
+    SCAN_THROTTLE_MS,
+    showTabletActionName,
+    trajectoryActionName,
+} from "./robot";
+
+/** Name of the map bundled with the page, `maps/map.yaml` */
+const BUNDLED_MAP = "map";
+
+/** Time between simulation steps */
+const TICK_MS = 50;
+
+/** Time between battery, mode, homing and run-stop updates */
+const STATUS_INTERVAL_MS = 1000;
+
+/** Base velocity commands expire after this long, like the real driver's */
+const BASE_VELOCITY_TIMEOUT_MS = 500;
+
+const HOMING_DURATION_MS = 3000;
+
+/** How long the mock pretends move to pre-grasp and show tablet take */
+const AUTONOMOUS_ACTION_DURATION_MS = 3000;
+
+/** Length of the mock's local plan, in meters */
+const LOCAL_PLAN_LENGTH = 1;
+
+/** Width of the mock's local costmap, a square around the robot, in meters */
+const LOCAL_COSTMAP_SIZE = 3;
+
+/** How far the mock's laser scanner sees, in meters */
+const LASER_RANGE = 5;
+
+const BATTERY_FULL_VOLTAGE = 12.6;
+const BATTERY_EMPTY_VOLTAGE = 10.8;
+/** Volts lost per second while idle, three times as many while moving */
+const BATTERY_DRAIN_RATE = 0.0005;
+
+/** Speeds, in meters or radians per second, joints move to their goals at */
+const JOINT_SPEEDS: { [key in ValidJoints]?: number } = {
+    joint_lift: 0.15,
+    wrist_extension: 0.15,
+    joint_wrist_yaw: 1.0,
+    joint_wrist_pitch: 1.0,
+    joint_wrist_roll: 1.0,
+    joint_gripper_finger_left: 0.5,
+    joint_head_pan: 1.0,
+    joint_head_tilt: 1.0,
+    translate_mobile_base: 0.3,
+    rotate_mobile_base: 0.6,
+};
+
+/** Distance or angle within which a joint has reached its goal */
+const GOAL_TOLERANCE = 0.001;
+
+/** Distance within which navigation has reached its goal, in meters */
+const NAVIGATION_TOLERANCE = 0.05;
+
+/** Height of the head above the floor, for pointing it at the gripper */
+const HEAD_HEIGHT = 1.3;
+
+/** Distance from the mast to the retracted gripper */
+const GRIPPER_OFFSET = 0.3;
+
+/** Name and result messages of each action, as the real robot reports them */
+const ACTION_LABELS: { [actionName: string]: string } = {
+    [trajectoryActionName]: "Trajectory",
+    [moveBaseActionName]: "Navigation",
+    [moveToPregraspActionName]: "Move To Pre-grasp",
+    [showTabletActionName]: "Show Tablet",
+};
+
+type MockCamera = {
+    label: string;
+    width: number;
+    height: number;
+    fps: number;
+    color: string;
+};
+
+const MOCK_CAMERAS: { [topicPrefix: string]: MockCamera } = {
+    "/navigation_camera/": {
+        label: "Navigation camera",
+        ...navigationProps,
+        color: "#31525b",
+    },
+    "/camera/": {
+        label: "Realsense camera",
+        ...realsenseProps,
+        color: "#5b4031",
+    },
+    "/gripper_camera/": {
+        label: "Gripper camera",
+        ...gripperProps,
+        color: "#3b315b",
+    },
+};
+
+type BasePose = { x: number; y: number; theta: number };
+
+/** A trajectory being followed, one waypoint after the other */
+type Trajectory = {
+    waypoints: RobotPose[];
+    index: number;
+    /**
+     * Goals of the current waypoint. The base's goals count down the
+     * distance and angle it has left to move.
+     */
+    goals: RobotPose;
+};
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+}
+
+/** @returns the angle wrapped to [-pi, pi) */
+function wrapAngle(angle: number): number {
+    return angle - 2 * Math.PI * Math.floor((angle + Math.PI) / (2 * Math.PI));
+}
+
+/**
+ * Loads a map as the occupancy grid the map server would send, following
+ * the map_server conventions for its metadata.
+ * @param metadataUrl URL of the map's YAML file
+ * @param imageUrl URL of the map's image, by default the `image` named in
+ *                 the YAML file
+ */
+async function loadOccupancyGrid(
+    metadataUrl: string,
+    imageUrl?: string
+): Promise<ROSOccupancyGrid> {
+    const metadata = await fetch(metadataUrl).then((response) => {
+        if (!response.ok) throw Error(`Could not fetch ${metadataUrl}`);
+        return response.text();
+    });
+    if (!imageUrl) {
+        const match = metadata.match(/^image:\s*(\S+)/m);
+        if (!match) throw Error("Map metadata has no image");
+        imageUrl = new URL(match[1], new URL(metadataUrl, window.location.href))
+            .href;
+    }
+    const image = await fetch(imageUrl).then((response) =>
+        response.arrayBuffer()
+    );
+
+    const bytes = new Uint8Array(image);
+    // The header is four whitespace separated fields, each may be followed
+    // by comments, and a single whitespace character before the pixels
+    const fields: string[] = [];
+    let offset = 0;
+    while (fields.length < 4) {
+        const match = new TextDecoder("ascii")
+            .decode(bytes.slice(offset, offset + 256))
+            .match(/^(\s|#[^\n]*\n)*(\S+)/);
+        if (!match) throw Error("Invalid map image");
+        fields.push(match[2]);
+        offset += match[0].length;
+    }
+    offset += 1;
+    const [magic, width, height, maxValue] = [
+        fields[0],
+        Number(fields[1]),
+        Number(fields[2]),
+        Number(fields[3]),
+    ];
+    if (magic !== "P5" || maxValue > 255)
+        throw Error("Only 8-bit binary PGM maps are supported");
+
+    const value = (key: string) => {
+        const match = metadata.match(new RegExp(`^${key}:\\s*(\\S+)`, "m"));
+        if (!match) throw Error(`Map metadata has no ${key}`);
+        return Number(match[1]);
+    };
+    const origin = metadata
+        .split(/^origin:/m)[1]
+        .match(/-?\d+(\.\d+)?(e-?\d+)?/g)!
+        .slice(0, 3)
+        .map(Number);
+    const negate = value("negate") === 1;
+    const occupiedThreshold = value("occupied_thresh");
+    const freeThreshold = value("free_thresh");
+
+    // Image rows go top to bottom, grid rows bottom to top
+    const data: number[] = [];
+    for (let row = height - 1; row >= 0; row--) {
+        for (let col = 0; col < width; col++) {
+            const pixel = bytes[offset + row * width + col];
+            const occupancy = negate
+                ? pixel / maxValue
+                : (maxValue - pixel) / maxValue;
+            if (occupancy > occupiedThreshold) data.push(100);
+            else if (occupancy < freeThreshold) data.push(0);
+            else data.push(-1);
+        }
+    }
+
+    return {
+        header: "map",
+        info: {
+            map_load_time: Date.now() / 1000,
+            resolution: value("resolution"),
+            width: width,
+            height: height,
+            origin: {
+                position: { x: origin[0], y: origin[1], z: 0 },
+                orientation: {
+                    x: 0,
+                    y: 0,
+                    z: Math.sin(origin[2] / 2),
+                    w: Math.cos(origin[2] / 2),
+                },
+            },
+        },
+        data: data,
+    } as ROSOccupancyGrid;
+}
+
+/**
+ * A simulated robot for developing the operator interface without ROS.
+ * Joints move towards their goals within the joint limits, the base drives
+ * around the map in `maps/`, the battery drains, and the cameras show
+ * generated frames. Selected with `--env robot=mock`, see development.md.
+ */
+export class MockRobot extends Robot {
+    private simulationInterval?: number;
+    private statusInterval?: number;
+    private scanInterval?: number;
+    private videoIntervals: number[] = [];
+    private positions: { [key in ValidJoints]?: number } = {
+        joint_lift: 0.6,
+        wrist_extension: 0.1,
+        joint_wrist_yaw: 3.19579,
+        joint_wrist_pitch: -0.497,
+        joint_wrist_roll: 0,
+        joint_gripper_finger_left: 0,
+        joint_head_pan: 0,
+        joint_head_tilt: -0.6,
+    };
+    private basePose: BasePose = { x: 0, y: 0, theta: 0 };
+    private baseVelocity = { linVel: 0, angVel: 0 };
+    private baseVelocityTime = 0;
+    private trajectory?: Trajectory;
+    private navigationGoal?: BasePose;
+    private autonomousActionTimers: { [actionName: string]: number } = {};
+    private mode = "navigation";
+    private isHomed = false;
+    private mockRunStopped = false;
+    private batteryVoltage = BATTERY_FULL_VOLTAGE;
+    private occupancyGrid?: ROSOccupancyGrid;
+    private followGripperTimeout?: number;
+
+    async connect(): Promise<void> {
+        console.log("Connecting to the mock robot");
+        this.jointLimits = { ...JOINT_LIMITS };
+        this.publishJointState();
+        loadOccupancyGrid(mapMetadata, mapImage)
+            .then((grid) => (this.occupancyGrid = grid))
+            .catch((error) => console.error("Could not load the map", error));
+
+        let lastTick = Date.now();
+        this.simulationInterval = window.setInterval(() => {
+            const now = Date.now();
+            this.step((now - lastTick) / 1000);
+            lastTick = now;
+        }, TICK_MS);
+        this.statusInterval = window.setInterval(
+            () => this.publishStatus(),
+            STATUS_INTERVAL_MS
+        );
+        this.publishStatus();
+        this.scanInterval = window.setInterval(
+            () => this.publishLaserScan(),
+            SCAN_THROTTLE_MS
+        );
+
+        if (this.onRosConnectCallback) await this.onRosConnectCallback();
+    }
+
+    closeROSConnection() {
+        clearInterval(this.simulationInterval);
+        clearInterval(this.statusInterval);
+        clearInterval(this.scanInterval);
+        this.videoIntervals.forEach((interval) => clearInterval(interval));
+        this.videoIntervals = [];
+    }
+
+    isROSConnected() {
+        return true;
+    }
+
+    /**
+     * Advances the simulation.
+     *
+     * @param dt seconds since the last step
+     */
+    private step(dt: number) {
+        if (Date.now() - this.baseVelocityTime > BASE_VELOCITY_TIMEOUT_MS)
+            this.baseVelocity = { linVel: 0, angVel: 0 };
+        const isMoving =
+            this.baseVelocity.linVel !== 0 ||
+            this.baseVelocity.angVel !== 0 ||
+            this.trajectory !== undefined ||
+            this.navigationGoal !== undefined;
+
+        this.moveBase(
+            this.baseVelocity.linVel * dt,
+            this.baseVelocity.angVel * dt
+        );
+        if (this.trajectory) this.stepTrajectory(dt);
+        if (this.navigationGoal) this.stepNavigation(dt);
+
+        const drain = BATTERY_DRAIN_RATE * (isMoving ? 3 : 1) * dt;
+        this.batteryVoltage = Math.max(
+            this.batteryVoltage - drain,
+            BATTERY_EMPTY_VOLTAGE
+        );
+        this.publishJointState();
+        if (isMoving) this.publishMapPose();
+    }
+
+    /**
+     * Drives the base forward and turns it, unless that would take it into
+     * an occupied cell of the map.
+     *
+     * @returns whether the base moved
+     */
+    private moveBase(distance: number, angle: number): boolean {
+        if (distance === 0 && angle === 0) return true;
+        const x = this.basePose.x + distance * Math.cos(this.basePose.theta);
+        const y = this.basePose.y + distance * Math.sin(this.basePose.theta);
+        if (this.isOccupied(x, y)) return false;
+        this.basePose = {
+            x: x,
+            y: y,
+            theta: wrapAngle(this.basePose.theta + angle),
+        };
+        return true;
+    }
+
+    private isOccupied(x: number, y: number): boolean {
+        if (!this.occupancyGrid) return false;
+        const info = this.occupancyGrid.info;
+        const col = Math.floor((x - info.origin.position.x) / info.resolution);
+        const row = Math.floor((y - info.origin.position.y) / info.resolution);
+        if (col < 0 || row < 0 || col >= info.width || row >= info.height)
+            return false;
+        return this.occupancyGrid.data[row * info.width + col] === 100;
+    }
+
+    private stepTrajectory(dt: number) {
+        const trajectory = this.trajectory!;
+        let reached = true;
+        (Object.keys(trajectory.goals) as ValidJoints[]).forEach((joint) => {
+            const maxStep = JOINT_SPEEDS[joint]! * dt;
+            const goal = trajectory.goals[joint]!;
+            if (
+                joint === "translate_mobile_base" ||
+                joint === "rotate_mobile_base"
+            ) {
+                const step = clamp(goal, -maxStep, maxStep);
+                const moved =
+                    joint === "translate_mobile_base"
+                        ? this.moveBase(step, 0)
+                        : this.moveBase(0, step);
+                // A blocked base gives up on the rest of the move
+                trajectory.goals[joint] = moved ? goal - step : 0;
+            } else {
+                const position = this.positions[joint]!;
+                this.positions[joint] =
+                    position + clamp(goal - position, -maxStep, maxStep);
+            }
+            if (
+                Math.abs(this.remaining(joint, trajectory.goals)) >
+                GOAL_TOLERANCE
+            )
+                reached = false;
+        });
+        if (!reached) return;
+
+        trajectory.index += 1;
+        if (trajectory.index < trajectory.waypoints.length) {
+            this.startWaypoint();
+        } else {
+            this.trajectory = undefined;
+            this.endAction(trajectoryActionName, "succeeded");
+        }
+    }
+
+    /** @returns how far `joint` still is from its goal */
+    private remaining(joint: ValidJoints, goals: RobotPose): number {
+        if (joint === "translate_mobile_base" || joint === "rotate_mobile_base")
+            return goals[joint]!;
+        return goals[joint]! - this.positions[joint]!;
+    }
+
+    /** Sets the goals for the current waypoint of the trajectory */
+    private startWaypoint() {
+        const trajectory = this.trajectory!;
+        trajectory.goals = {};
+        Object.entries(trajectory.waypoints[trajectory.index]).forEach(
+            ([name, value]) => {
+                let joint = name as ValidJoints;
+                if (joint === "joint_arm") joint = "wrist_extension";
+                if (!(joint in JOINT_SPEEDS)) {
+                    console.warn("The mock robot does not simulate", name);
+                    return;
+                }
+                const limits = this.jointLimits[joint];
+                const isBase =
+                    joint === "translate_mobile_base" ||
+                    joint === "rotate_mobile_base";
+                trajectory.goals[joint] =
+                    limits && !isBase
+                        ? clamp(value!, limits[0], limits[1])
+                        : value;
+            }
+        );
+    }
+
+    private startTrajectory(
+        waypoints: RobotPose[],
+        onDone?: CommandDoneCallback
+    ) {
+        this.switchToNavigationMode();
+        this.stopExecution();
+        this.setActionDoneCallback(trajectoryActionName, onDone);
+        if (this.mockRunStopped || waypoints.length === 0) {
+            this.trajectory = undefined;
+            this.endAction(trajectoryActionName, "failed");
+            return;
+        }
+        this.trajectory = { waypoints: waypoints, index: 0, goals: {} };
+        this.startWaypoint();
+    }
+
+    private stepNavigation(dt: number) {
+        const goal = this.navigationGoal!;
+        const dx = goal.x - this.basePose.x;
+        const dy = goal.y - this.basePose.y;
+        const distance = Math.sqrt(dx ** 2 + dy ** 2);
+        const maxDistance = JOINT_SPEEDS.translate_mobile_base! * dt;
+        const maxAngle = JOINT_SPEEDS.rotate_mobile_base! * dt;
+
+        // Turn towards the goal, drive there, then turn to the goal's heading
+        const heading =
+            distance > NAVIGATION_TOLERANCE ? Math.atan2(dy, dx) : goal.theta;
+        const turn = wrapAngle(heading - this.basePose.theta);
+        if (Math.abs(turn) > 0.1 || distance <= NAVIGATION_TOLERANCE) {
+            if (Math.abs(turn) < 0.02) {
+                this.navigationGoal = undefined;
+                this.endAction(
+                    moveBaseActionName,
+                    "succeeded",
+                    this.moveBaseResultCallback
+                );
+                return;
+            }
+            this.moveBase(0, clamp(turn, -maxAngle, maxAngle));
+        } else if (
+            !this.moveBase(
+                Math.min(distance, maxDistance),
+                clamp(turn, -maxAngle, maxAngle)
+            )
+        ) {
+            this.navigationGoal = undefined;
+            this.endAction(
+                moveBaseActionName,
+                "failed",
+                this.moveBaseResultCallback
+            );
+        }
+    }
+
+    setPoseEstimate(pose: ROSPose) {
+        const q = pose.orientation;
+        this.basePose = {
+            x: pose.position.x,
+            y: pose.position.y,
+            theta: Math.atan2(
+                2 * (q.w * q.z + q.x * q.y),
+                1 - 2 * (q.y ** 2 + q.z ** 2)
+            ),
+        };
+        this.publishMapPose();
+    }
+
+    /** The mock always knows where it is */
+    relocalize(onDone?: CommandDoneCallback) {
+        if (onDone) onDone();
+    }
+
+    /**
+     * Finishes a goal of `actionName` and reports the result, the way the
+     * real robot does when the action's status changes.
+     */
+    private endAction(
+        actionName: string,
+        outcome: "succeeded" | "canceled" | "failed",
+        callback?: (goalState: ActionState) => void
+    ) {
+        const message = `${ACTION_LABELS[actionName]} ${outcome}!`;
+        this.finishAction(
+            actionName,
+            outcome === "succeeded" ? undefined : message
+        );
+        if (callback)
+            callback({
+                state: message,
+                alert_type: outcome === "succeeded" ? "success" : "error",
+            });
+    }
+
+    private publishJointState() {
+        const names: ValidJoints[] = [];
+        const positions: number[] = [];
+        const addJoint = (name: ValidJoints, position: number) => {
+            names.push(name);
+            positions.push(position);
+        };
+        (Object.keys(this.positions) as ValidJoints[]).forEach((joint) =>
+            addJoint(joint, this.positions[joint]!)
+        );
+        // The real robot reports the extension split over its arm segments
+        (
+            [
+                "joint_arm_l0",
+                "joint_arm_l1",
+                "joint_arm_l2",
+                "joint_arm_l3",
+            ] as ValidJoints[]
+        ).forEach((joint) =>
+            addJoint(joint, this.positions.wrist_extension! / 4)
+        );
+        this.handleJointState({
+            name: names,
+            position: positions,
+            velocity: positions.map(() => 0),
+            effort: positions.map(() => 0),
+        } as unknown as ROSJointState);
+    }
+
+    private publishMapPose() {
+        if (!this.amclPoseCallback) return;
+        this.amclPoseCallback(
+            new ROSLIB.Transform({
+                translation: { x: this.basePose.x, y: this.basePose.y, z: 0 },
+                rotation: {
+                    x: 0,
+                    y: 0,
+                    z: Math.sin(this.basePose.theta / 2),
+                    w: Math.cos(this.basePose.theta / 2),
+                },
+            })
+        );
+    }
+
+    private publishStatus() {
+        if (this.batteryStateCallback)
+            this.batteryStateCallback({
+                voltage: this.batteryVoltage,
+            } as ROSBatteryState);
+        if (this.modeCallback) this.modeCallback(this.mode);
+        if (this.isHomedCallback) this.isHomedCallback(this.isHomed);
+        if (this.isRunStoppedCallback)
+            this.isRunStoppedCallback(this.mockRunStopped);
+        this.publishMapPose();
+        this.publishNavigationPlan();
+    }
+
+    /**
+     * Publishes a straight path to the navigation goal, which is the way the
+     * mock drives, and the map around the robot as its costmap.
+     */
+    private publishNavigationPlan() {
+        if (!this.navigationPlanCallback) return;
+        const goal = this.navigationGoal;
+        const robot = { x: this.basePose.x, y: this.basePose.y, z: 0 };
+        let global: ROSPoint[] = [];
+        let local: ROSPoint[] = [];
+        if (goal) {
+            const dx = goal.x - robot.x;
+            const dy = goal.y - robot.y;
+            const fraction = Math.min(
+                1,
+                LOCAL_PLAN_LENGTH / Math.max(Math.sqrt(dx ** 2 + dy ** 2), 1e-6)
+            );
+            global = [robot, { x: goal.x, y: goal.y, z: 0 }] as ROSPoint[];
+            local = [
+                robot,
+                {
+                    x: robot.x + dx * fraction,
+                    y: robot.y + dy * fraction,
+                    z: 0,
+                },
+            ] as ROSPoint[];
+        }
+        this.navigationPlanCallback({
+            global: global,
+            local: local,
+            costmap: this.localCostmap(),
+        });
+    }
+
+    /**
+     * Publishes where rays from the robot first hit an occupied cell of the
+     * map, in the robot's frame, like a laser scanner mounted at its center.
+     */
+    private publishLaserScan() {
+        if (!this.laserScanCallback || !this.occupancyGrid) return;
+        const step = this.occupancyGrid.info.resolution;
+        const points: ROSPoint[] = [];
+        for (let ray = 0; ray < MAX_SCAN_POINTS; ray++) {
+            const angle = (2 * Math.PI * ray) / MAX_SCAN_POINTS;
+            const heading = this.basePose.theta + angle;
+            for (let range = step; range <= LASER_RANGE; range += step) {
+                if (
+                    this.isOccupied(
+                        this.basePose.x + range * Math.cos(heading),
+                        this.basePose.y + range * Math.sin(heading)
+                    )
+                ) {
+                    points.push({
+                        x: range * Math.cos(angle),
+                        y: range * Math.sin(angle),
+                        z: 0,
+                    } as ROSPoint);
+                    break;
+                }
+            }
+        }
+        this.laserScanCallback(points);
+    }
+
+    /** @returns the part of the map around the robot, if the map is loaded */
+    private localCostmap(): ROSOccupancyGrid | undefined {
+        if (!this.occupancyGrid) return;
+        const info = this.occupancyGrid.info;
+        const size = Math.round(LOCAL_COSTMAP_SIZE / info.resolution);
+        const col0 = Math.floor(
+            (this.basePose.x - info.origin.position.x) / info.resolution -
+                size / 2
+        );
+        const row0 = Math.floor(
+            (this.basePose.y - info.origin.position.y) / info.resolution -
+                size / 2
+        );
+        const data: number[] = [];
+        for (let row = row0; row < row0 + size; row++) {
+            for (let col = col0; col < col0 + size; col++) {
+                const inside =
+                    col >= 0 &&
+                    row >= 0 &&
+                    col < info.width &&
+                    row < info.height;
+                data.push(
+                    inside
+                        ? this.occupancyGrid.data[row * info.width + col]
+                        : -1
+                );
+            }
+        }
+        return {
+            header: "map",
+            info: {
+                ...info,
+                width: size,
+                height: size,
+                origin: {
+                    position: {
+                        x: info.origin.position.x + col0 * info.resolution,
+                        y: info.origin.position.y + row0 * info.resolution,
+                        z: 0,
+                    },
+                    orientation: info.origin.orientation,
+                } as ROSPose,
+            },
+            data: data,
+        };
+    }
+
+    private setMode(mode: string) {
+        this.mode = mode;
+        if (this.modeCallback) this.modeCallback(mode);
+    }
+
+    subscribeToVideo(props: VideoProps) {
+        const prefix = Object.keys(MOCK_CAMERAS).find((prefix) =>
+            props.topicName.startsWith(prefix)
+        );
+        if (!prefix) {
+            console.warn("The mock robot has no camera for", props.topicName);
+            return;
+        }
+        const camera = MOCK_CAMERAS[prefix];
+        const canvas = document.createElement("canvas");
+        canvas.width = camera.width;
+        canvas.height = camera.height;
+        this.videoIntervals.push(
+            window.setInterval(() => {
+                this.drawFrame(camera, canvas);
+                const now = Date.now();
+                props.callback({
+                    header: {
+                        stamp: {
+                            sec: Math.floor(now / 1000),
+                            nanosec: (now % 1000) * 1e6,
+                        },
+                    },
+                    format: "jpeg",
+                    data: canvas.toDataURL("image/jpeg").split(",")[1],
+                } as unknown as ROSCompressedImage);
+            }, 1000 / camera.fps)
+        );
+    }
+
+    /** Draws a frame showing the state of the simulated robot */
+    private drawFrame(camera: MockCamera, canvas: HTMLCanvasElement) {
+        const context = canvas.getContext("2d")!;
+        const { width, height } = canvas;
+        context.fillStyle = camera.color;
+        context.fillRect(0, 0, width, height);
+
+        if (camera.label === "Gripper camera") {
+            // Fingers that open and close with the gripper
+            const gap =
+                (this.positions.joint_gripper_finger_left! + 0.4) * width * 0.6;
+            context.fillStyle = "#999";
+            context.fillRect(
+                width / 2 - gap / 2 - 60,
+                height * 0.55,
+                60,
+                height
+            );
+            context.fillRect(width / 2 + gap / 2, height * 0.55, 60, height);
+        } else {
+            // A horizon that moves with the head, so camera motion is visible
+            const horizon =
+                height / 2 + this.positions.joint_head_tilt! * height * 0.5;
+            context.strokeStyle = "#ddd";
+            context.lineWidth = 3;
+            context.beginPath();
+            context.moveTo(0, horizon);
+            context.lineTo(width, horizon);
+            context.stroke();
+        }
+
+        const lines = [
+            camera.label,
+            new Date().toLocaleTimeString(),
+            `mode: ${this.mode}${this.mockRunStopped ? " (run-stopped)" : ""}`,
+            `base: ${this.basePose.x.toFixed(2)}, ${this.basePose.y.toFixed(2)}, ${this.basePose.theta.toFixed(2)}`,
+            `lift: ${this.positions.joint_lift!.toFixed(3)}`,
+            `extension: ${this.positions.wrist_extension!.toFixed(3)}`,
+            `head: ${this.positions.joint_head_pan!.toFixed(2)}, ${this.positions.joint_head_tilt!.toFixed(2)}`,
+        ];
+        const fontSize = Math.round(width / 20);
+        context.fillStyle = "white";
+        context.font = `${fontSize}px sans-serif`;
+        lines.forEach((line, i) =>
+            context.fillText(line, fontSize, fontSize * 1.5 * (i + 1))
+        );
+    }
+
+    getHasBetaTeleopKit() {
+        if (this.hasBetaTeleopKitCallback) this.hasBetaTeleopKitCallback(false);
+    }
+
+    getStretchTool() {
+        if (this.stretchToolCallback)
+            this.stretchToolCallback("eoa_wrist_dw3_tool_sg3");
+    }
+
+    getOccupancyGrid() {
+        if (this.occupancyGrid) {
+            if (this.occupancyGridCallback)
+                this.occupancyGridCallback(this.occupancyGrid);
+            return;
+        }
+        loadOccupancyGrid(mapMetadata, mapImage)
+            .then((grid) => {
+                this.occupancyGrid = grid;
+                if (this.occupancyGridCallback)
+                    this.occupancyGridCallback(grid);
+            })
+            .catch((error) => console.error("Could not load the map", error));
+    }
+
+    /** Lists the maps server.js serves, the bundled map is loaded first */
+    async getMaps() {
+        let maps: { name: string }[] = [];
+        try {
+            maps = await fetchJSON(MAPS_URL);
+        } catch (error) {
+            console.error("Could not list the maps", error);
+        }
+        if (this.activeMap === undefined) this.activeMap = BUNDLED_MAP;
+        if (this.mapsCallback)
+            this.mapsCallback(
+                maps.map((map) => map.name),
+                this.activeMap
+            );
+    }
+
+    /** Reads the map files through server.js, see `GET /maps` */
+    loadMap(name: string, onDone?: CommandDoneCallback) {
+        loadOccupancyGrid(`${MAPS_URL}/${encodeURIComponent(name)}.yaml`)
+            .then((grid) => {
+                console.log("Loaded map", name);
+                this.occupancyGrid = grid;
+                this.activeMap = name;
+                this.navigationGoal = undefined;
+                if (this.occupancyGridCallback)
+                    this.occupancyGridCallback(grid);
+                this.getMaps();
+                if (onDone) onDone();
+            })
+            .catch((error) => {
+                console.error("Could not load map", name, error);
+                if (onDone) onDone(`Could not load map ${name}: ${error}`);
+            });
+    }
+
+    getJointLimits() {
+        // Already known, the mock uses the defaults from shared/util
+    }
+
+    setRealsenseDepthSensing(toggle: boolean) {
+        console.log("Mock robot: realsense depth sensing", toggle);
+    }
+
+    setGripperDepthSensing(toggle: boolean) {
+        console.log("Mock robot: gripper depth sensing", toggle);
+    }
+
+    setExpandedGripper(toggle: boolean) {
+        console.log("Mock robot: expanded gripper view", toggle);
+    }
+
+    setRealsenseShowBodyPose(toggle: boolean) {
+        console.log("Mock robot: show body pose", toggle);
+    }
+
+    setComputeBodyPose(toggle: boolean) {
+        console.log("Mock robot: compute body pose", toggle);
+    }
+
+    setRunStop(toggle: boolean) {
+        if (toggle) {
+            this.stopBase();
+            this.stopExecution(true);
+            this.setMode("runstopped");
+        } else if (this.mockRunStopped) {
+            this.setMode("navigation");
+        }
+        this.mockRunStopped = toggle;
+        if (this.isRunStoppedCallback) this.isRunStoppedCallback(toggle);
+    }
+
+    switchToNavigationMode() {
+        if (this.mode !== "navigation") this.setMode("navigation");
+    }
+
+    switchToPositionMode = () => {
+        if (this.mode !== "position") this.setMode("position");
+    };
+
+    homeTheRobot(onDone?: CommandDoneCallback) {
+        if (this.mockRunStopped) {
+            if (onDone) onDone("Homing failed: the robot is run-stopped");
+            return;
+        }
+        const previousMode = this.mode;
+        this.setMode("homing");
+        window.setTimeout(() => {
+            this.isHomed = true;
+            this.setMode(previousMode);
+            if (this.isHomedCallback) this.isHomedCallback(true);
+            console.log("Homing complete");
+            if (onDone) onDone();
+        }, HOMING_DURATION_MS);
+    }
+
+    executeBaseVelocity = (props: { linVel: number; angVel: number }): void => {
+        this.switchToNavigationMode();
+        this.stopExecution();
+        if (this.mockRunStopped) return;
+        this.baseVelocity = { linVel: props.linVel, angVel: props.angVel };
+        this.baseVelocityTime = Date.now();
+    };
+
+    stopBase() {
+        this.baseVelocity = { linVel: 0, angVel: 0 };
+    }
+
+    executePoseGoal(pose: RobotPose, onDone?: CommandDoneCallback) {
+        this.startTrajectory([pose], onDone);
+    }
+
+    async executePoseGoals(
+        poses: RobotPose[],
+        index: number,
+        onDone?: CommandDoneCallback
+    ) {
+        this.startTrajectory(poses, onDone);
+    }
+
+    executeIncrementalMove(jointName: ValidJoints, increment: number) {
+        let goal = increment;
+        // The base's joints are relative, the others absolute
+        if (
+            jointName !== "translate_mobile_base" &&
+            jointName !== "rotate_mobile_base"
+        )
+            goal += this.getJointValue(jointName);
+        this.startTrajectory([{ [jointName]: goal }]);
+    }
+
+    executeMoveBaseGoal(pose: ROSPose, onDone?: CommandDoneCallback) {
+        this.switchToNavigationMode();
+        this.setActionDoneCallback(moveBaseActionName, onDone);
+        if (this.mockRunStopped) {
+            this.endAction(
+                moveBaseActionName,
+                "failed",
+                this.moveBaseResultCallback
+            );
+            return;
+        }
+        const q = pose.orientation;
+        this.navigationGoal = {
+            x: pose.position.x,
+            y: pose.position.y,
+            theta: Math.atan2(
+                2 * (q.w * q.z + q.x * q.y),
+                1 - 2 * (q.y ** 2 + q.z ** 2)
+            ),
+        };
+    }
+
+    stopTrajectoryClient() {
+        if (!this.trajectory) return;
+        this.trajectory = undefined;
+        this.endAction(trajectoryActionName, "canceled");
+    }
+
+    stopMoveBaseClient() {
+        if (!this.navigationGoal) return;
+        this.navigationGoal = undefined;
+        this.endAction(
+            moveBaseActionName,
+            "canceled",
+            this.moveBaseResultCallback
+        );
+    }
+
+    /**
+     * Pretends to run an autonomous action, which succeeds after a while
+     * unless it is canceled.
+     */
+    private startAutonomousAction(
+        actionName: string,
+        callback: (goalState: ActionState) => void,
+        onDone?: CommandDoneCallback
+    ) {
+        this.setActionDoneCallback(actionName, onDone);
+        if (this.mockRunStopped) {
+            this.endAction(actionName, "failed", callback);
+            return;
+        }
+        this.autonomousActionTimers[actionName] = window.setTimeout(() => {
+            delete this.autonomousActionTimers[actionName];
+            this.endAction(actionName, "succeeded", callback);
+        }, AUTONOMOUS_ACTION_DURATION_MS);
+    }
+
+    private stopAutonomousAction(
+        actionName: string,
+        callback: (goalState: ActionState) => void
+    ) {
+        if (!(actionName in this.autonomousActionTimers)) return;
+        clearTimeout(this.autonomousActionTimers[actionName]);
+        delete this.autonomousActionTimers[actionName];
+        this.endAction(actionName, "canceled", callback);
+    }
+
+    executeMoveToPregraspGoal(
+        scaled_x?: number,
+        scaled_y?: number,
+        horizontal?: boolean,
+        onDone?: CommandDoneCallback
+    ) {
+        if (
+            scaled_x === undefined ||
+            scaled_y === undefined ||
+            horizontal === undefined
+        ) {
+            return;
+        }
+        this.startAutonomousAction(
+            moveToPregraspActionName,
+            this.moveToPregraspResultCallback,
+            onDone
+        );
+    }
+
+    stopMoveToPregraspClient() {
+        this.stopAutonomousAction(
+            moveToPregraspActionName,
+            this.moveToPregraspResultCallback
+        );
+    }
+
+    executeShowTabletGoal(onDone?: CommandDoneCallback) {
+        this.startAutonomousAction(
+            showTabletActionName,
+            this.showTabletResultCallback,
+            onDone
+        );
+    }
+
+    stopShowTabletClient() {
+        this.stopAutonomousAction(
+            showTabletActionName,
+            this.showTabletResultCallback
+        );
+    }
+
+    setPanTiltFollowGripper(followGripper: boolean) {
+        if (this.followGripperTimeout && followGripper) return;
+
+        if (followGripper) {
+            const lookAndRepeat = () => {
+                this.lookAtGripper(0, 0);
+                this.followGripperTimeout = window.setTimeout(
+                    lookAndRepeat,
+                    500
+                );
+            };
+            lookAndRepeat();
+        } else {
+            this.stopExecution();
+            clearTimeout(this.followGripperTimeout);
+            this.followGripperTimeout = undefined;
+        }
+    }
+
+    /**
+     * Points the head at where the gripper would be, from the lift height
+     * and arm extension, since the mock has no TF frames.
+     */
+    lookAtGripper(panOffset: number, tiltOffset: number) {
+        const pan = -Math.PI / 2 + panOffset;
+        const tilt =
+            Math.atan2(
+                this.positions.joint_lift! - HEAD_HEIGHT,
+                GRIPPER_OFFSET + this.positions.wrist_extension!
+            ) + tiltOffset;
+        if (
+            Math.abs(this.positions.joint_head_pan! - pan) < 0.02 &&
+            Math.abs(this.positions.joint_head_tilt! - tilt) < 0.02
+        )
+            return;
+        this.executePoseGoal({ joint_head_pan: pan, joint_head_tilt: tilt });
+    }
+
+    playTextToSpeech(
+        text: string,
+        override_behavior: number = 0,
+        is_slow: boolean = false
+    ) {
+        if (override_behavior === 1) window.speechSynthesis.cancel();
+        if (!text) return;
+        const utterance = new SpeechSynthesisUtterance(text);
+        if (is_slow) utterance.rate = 0.7;
+        window.speechSynthesis.speak(utterance);
+    }
+}
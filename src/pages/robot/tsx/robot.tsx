@@ -6,8 +6,12 @@ import {
     ValidJoints,
     VideoProps,
     ROSOccupancyGrid,
+    ROSMapMetaData,
+    ROSPoint,
     ROSPose,
+    NavigationPlan,
     ActionState,
+    ActionStatus,
     ActionStatusList,
     ROSBatteryState,
 } from "shared/util";
@@ -22,17 +26,140 @@ export var robotMode: "navigation" | "position" | "unknown" = "position";
 export var rosConnected = false;
 
 // Names of ROS actions
-const moveBaseActionName = "/navigate_to_pose";
-const moveToPregraspActionName = "/move_to_pregrasp";
-const showTabletActionName = "/show_tablet";
+export const trajectoryActionName =
+    "/stretch_controller/follow_joint_trajectory";
+export const moveBaseActionName = "/navigate_to_pose";
+export const moveToPregraspActionName = "/move_to_pregrasp";
+export const showTabletActionName = "/show_tablet";
+
+// Nav2 topics shown on the operator's map
+const globalPlanTopicName = "/plan";
+const localPlanTopicName = "/local_plan";
+const localCostmapTopicName = "/local_costmap/costmap";
+
+/** Minimum time between two forwarded plans, and between two costmaps */
+const PLAN_THROTTLE_MS = 500;
+const COSTMAP_THROTTLE_MS = 1000;
+
+/** Paths are thinned out to this many points before they are forwarded */
+const MAX_PLAN_POINTS = 100;
+
+const laserScanTopicName = "/scan";
+/** Minimum time between two forwarded laser scans */
+export const SCAN_THROTTLE_MS = 200;
+/** Laser scans are thinned out to this many points before they are forwarded */
+export const MAX_SCAN_POINTS = 180;
+
+type ROSLaserScan = {
+    angle_min: number;
+    angle_increment: number;
+    range_min: number;
+    range_max: number;
+    ranges: number[];
+};
+
+type ROSPath = {
+    header: { frame_id: string };
+    poses: { pose: ROSPose }[];
+};
+
+type ROSCostmap = {
+    header: { frame_id: string };
+    info: ROSMapMetaData;
+    data: number[];
+};
+
+/**
+ * Called once a long-running command has finished.
+ *
+ * @param error why the command did not succeed, undefined on success
+ */
+export type CommandDoneCallback = (error?: string) => void;
+
+/**
+ * A goal sent to a ROS action. Rosbridge does not tell the robot the ID the
+ * action server gives a goal, so it is learned from the action's status: the
+ * goals show up there in the order they were sent.
+ */
+type SentGoal = {
+    /** ID of the goal in the action's status, once it showed up there */
+    goalId?: string;
+    /** When the goal was sent, in milliseconds since the epoch */
+    sentAt: number;
+    onDone?: CommandDoneCallback;
+};
+
+/**
+ * Time a goal has to show up in its action's status. Rejected goals never
+ * do, and stop waiting for their ID once a later goal's ID shows up.
+ */
+const GOAL_ACCEPT_TIMEOUT_MS = 5000;
+
+/** Statuses of an `action_msgs/msg/GoalStatus` that end a goal */
+const GOAL_SUCCEEDED = 4;
+const GOAL_CANCELED = 5;
+const GOAL_ABORTED = 6;
+
+/** Lists the maps on the robot, served by server.js */
+export const MAPS_URL = "/maps";
+
+/** `result` of a successful `nav2_msgs/srv/LoadMap` call */
+const LOAD_MAP_SUCCESS = 0;
+
+/**
+ * Uncertainty of a pose estimate set by the operator, the variances of x, y
+ * and heading RViz uses for its "2D Pose Estimate" tool
+ */
+const POSE_ESTIMATE_COVARIANCE = (() => {
+    const covariance = new Array(36).fill(0);
+    covariance[0] = 0.25;
+    covariance[7] = 0.25;
+    covariance[35] = 0.06853891909122467;
+    return covariance;
+})();
+
+type RobotProps = {
+    jointStateCallback: (
+        robotPose: RobotPose,
+        jointValues: ValidJointStateDict,
+        effortValues: ValidJointStateDict
+    ) => void;
+    batteryStateCallback: (batteryState: ROSBatteryState) => void;
+    occupancyGridCallback: (occupancyGrid: ROSOccupancyGrid) => void;
+    mapsCallback: (maps: string[], active?: string) => void;
+    moveBaseResultCallback: (goalState: ActionState) => void;
+    moveToPregraspResultCallback: (goalState: ActionState) => void;
+    showTabletResultCallback: (goalState: ActionState) => void;
+    amclPoseCallback: (pose: ROSLIB.Transform) => void;
+    navigationPlanCallback: (plan: NavigationPlan) => void;
+    laserScanCallback: (points: ROSPoint[]) => void;
+    modeCallback: (mode: string) => void;
+    isHomedCallback: (isHomed: boolean) => void;
+    isRunStoppedCallback: (isRunStopped: boolean) => void;
+    hasBetaTeleopKitCallback: (value: boolean) => void;
+    stretchToolCallback: (value: string) => void;
+};
+
+/** @returns the ID of a goal in an action's status, as a string */
+function goalIdOf(goalStatus: ActionStatus) {
+    return String(goalStatus.goal_info.goal_id.uuid);
+}
+
+/** @returns the JSON body of a successful response from the local server */
+export async function fetchJSON(url: string) {
+    const response = await fetch(url);
+    const body = await response.json();
+    if (!response.ok) throw Error(body.error || response.statusText);
+    return body;
+}
 
-export class Robot extends React.Component {
+export class Robot extends React.Component<RobotProps> {
     private ros: ROSLIB.Ros;
     private readonly rosURL = "wss://localhost:9090";
     private rosReconnectTimerID?: ReturnType<typeof setTimeout>;
-    private onRosConnectCallback?: () => Promise<void>;
-    private jointLimits: { [key in ValidJoints]?: [number, number] } = {};
-    private jointState?: ROSJointState;
+    protected onRosConnectCallback?: () => Promise<void>;
+    protected jointLimits: { [key in ValidJoints]?: [number, number] } = {};
+    protected jointState?: ROSJointState;
     private poseGoal?: ROSLIB.ActionGoal;
     private poseGoalComplete?: boolean;
     private isRunStopped?: boolean;
@@ -59,55 +186,58 @@ export class Robot extends React.Component {
     private linkTabletTF?: ROSLIB.Transform;
     private linkWristYawTF?: ROSLIB.Transform;
     private linkHeadTiltTF?: ROSLIB.Transform;
-    private jointStateCallback: (
+    /** Pose of the odometry frame in the map, to place the local plan */
+    private odomTF?: ROSLIB.Transform;
+    /** Pose of the laser scanner on the robot */
+    private laserTF?: ROSLIB.Transform;
+    protected jointStateCallback: (
         robotPose: RobotPose,
         jointValues: ValidJointStateDict,
-        effortValues: ValidJointStateDict,
+        effortValues: ValidJointStateDict
     ) => void;
-    private batteryStateCallback: (batteryState: ROSBatteryState) => void;
-    private occupancyGridCallback: (occupancyGrid: ROSOccupancyGrid) => void;
-    private moveBaseResultCallback: (goalState: ActionState) => void;
-    private moveToPregraspResultCallback: (goalState: ActionState) => void;
-    private showTabletResultCallback: (goalState: ActionState) => void;
-    private amclPoseCallback: (pose: ROSLIB.Transform) => void;
-    private modeCallback: (mode: string) => void;
-    private isHomedCallback: (isHomed: boolean) => void;
-    private isRunStoppedCallback: (isRunStopped: boolean) => void;
-    private hasBetaTeleopKitCallback: (value: boolean) => void;
-    private stretchToolCallback: (value: string) => void;
+    protected batteryStateCallback: (batteryState: ROSBatteryState) => void;
+    protected occupancyGridCallback: (occupancyGrid: ROSOccupancyGrid) => void;
+    protected mapsCallback: (maps: string[], active?: string) => void;
+    protected moveBaseResultCallback: (goalState: ActionState) => void;
+    protected moveToPregraspResultCallback: (goalState: ActionState) => void;
+    protected showTabletResultCallback: (goalState: ActionState) => void;
+    protected amclPoseCallback: (pose: ROSLIB.Transform) => void;
+    protected navigationPlanCallback: (plan: NavigationPlan) => void;
+    protected laserScanCallback: (points: ROSPoint[]) => void;
+    protected modeCallback: (mode: string) => void;
+    protected isHomedCallback: (isHomed: boolean) => void;
+    protected isRunStoppedCallback: (isRunStopped: boolean) => void;
+    protected hasBetaTeleopKitCallback: (value: boolean) => void;
+    protected stretchToolCallback: (value: string) => void;
     private lookAtGripperInterval?: number; // ReturnType<typeof setInterval>
     private subscriptions: ROSLIB.Topic[] = [];
     private hasBetaTeleopKitParam: ROSLIB.Param;
     private stretchToolParam: ROSLIB.Param;
     private textToSpeechTopic?: ROSLIB.Topic;
+    private initialPoseTopic?: ROSLIB.Topic;
+    private relocalizeService?: ROSLIB.Service;
     private homeTheRobotService?: ROSLIB.Service;
-
-    constructor(props: {
-        jointStateCallback: (
-            robotPose: RobotPose,
-            jointValues: ValidJointStateDict,
-            effortValues: ValidJointStateDict,
-        ) => void;
-        batteryStateCallback: (batteryState: ROSBatteryState) => void;
-        occupancyGridCallback: (occupancyGrid: ROSOccupancyGrid) => void;
-        moveBaseResultCallback: (goalState: ActionState) => void;
-        moveToPregraspResultCallback: (goalState: ActionState) => void;
-        showTabletResultCallback: (goalState: ActionState) => void;
-        amclPoseCallback: (pose: ROSLIB.Transform) => void;
-        modeCallback: (mode: string) => void;
-        isHomedCallback: (isHomed: boolean) => void;
-        isRunStoppedCallback: (isRunStopped: boolean) => void;
-        hasBetaTeleopKitCallback: (value: boolean) => void;
-        stretchToolCallback: (value: string) => void;
-    }) {
+    /** Goals sent to each action that have not ended yet, oldest first */
+    private sentGoals: { [actionName: string]: SentGoal[] } = {};
+    /** IDs of the goals in the last status of each action */
+    private knownGoalIds: { [actionName: string]: Set<string> } = {};
+    /** Path of each map file the map server can load, by map name */
+    private mapFiles: { [name: string]: string } = {};
+    /** Name of the map the map server is serving, if known */
+    protected activeMap?: string;
+
+    constructor(props: RobotProps) {
         super(props);
         this.jointStateCallback = props.jointStateCallback;
         this.batteryStateCallback = props.batteryStateCallback;
         this.occupancyGridCallback = props.occupancyGridCallback;
+        this.mapsCallback = props.mapsCallback;
         this.moveBaseResultCallback = props.moveBaseResultCallback;
         this.moveToPregraspResultCallback = props.moveToPregraspResultCallback;
         this.showTabletResultCallback = props.showTabletResultCallback;
         this.amclPoseCallback = props.amclPoseCallback;
+        this.navigationPlanCallback = props.navigationPlanCallback;
+        this.laserScanCallback = props.laserScanCallback;
         this.modeCallback = props.modeCallback;
         this.isHomedCallback = props.isHomedCallback;
         this.isRunStoppedCallback = props.isRunStoppedCallback;
@@ -143,7 +273,7 @@ export class Robot extends React.Component {
                     await this.onRosConnectCallback();
             } else {
                 console.log(
-                    "Required ROS nodes are not yet loaded. Reconnecting.",
+                    "Required ROS nodes are not yet loaded. Reconnecting."
                 );
                 this.reconnect();
             }
@@ -155,6 +285,9 @@ export class Robot extends React.Component {
 
         this.ros.on("close", () => {
             console.log("Connection to ROS has been closed.");
+            // Their results can't arrive anymore, and the action clients are
+            // recreated on reconnection
+            this.finishAllActions("Lost the connection to ROS");
             this.reconnect();
         });
     }
@@ -177,7 +310,7 @@ export class Robot extends React.Component {
             "/navigation_camera/image_raw/rotated/compressed",
             "/stretch/joint_states",
         ],
-        timeout_ms: number = 5000,
+        timeout_ms: number = 5000
     ): Promise<boolean> {
         // For backwards compatibility with older versions of roslibjs, use the
         // local copy of getPublishers if the ROS object does not have it.
@@ -205,7 +338,7 @@ export class Robot extends React.Component {
                                     required_topics.length
                                 ) {
                                     console.log(
-                                        "Got publishers on all required topics.",
+                                        "Got publishers on all required topics."
                                     );
                                     isResolved = true;
                                     resolve(true);
@@ -221,11 +354,11 @@ export class Robot extends React.Component {
                             console.log(
                                 "Error in getting publishers for topic",
                                 topic,
-                                error,
+                                error
                             );
                             isResolved = true;
                             resolve(false);
-                        },
+                        }
                     );
                 }
                 resolve(
@@ -237,13 +370,13 @@ export class Robot extends React.Component {
                                     required_topics.length
                                 ) {
                                     console.log(
-                                        "Timed out with at least one required topic not having publishers.",
+                                        "Timed out with at least one required topic not having publishers."
                                     );
                                     resolve(false);
                                 }
                             }
-                        }, timeout_ms),
-                    ),
+                        }, timeout_ms)
+                    )
                 );
             } else {
                 console.log("ROS is not connected.");
@@ -261,26 +394,39 @@ export class Robot extends React.Component {
         this.subscribeToMode();
         this.subscribeToIsHomed();
         this.subscribeToIsRunStopped();
+        this.subscribeToActionResult(
+            trajectoryActionName,
+            undefined,
+            "Trajectory canceled!",
+            "Trajectory succeeded!",
+            "Trajectory failed!"
+        );
         this.subscribeToActionResult(
             moveBaseActionName,
-            this.moveBaseResultCallback,
+            (goalState: ActionState) => {
+                // Nav2 leaves its last plan published once it stops
+                if (this.navigationPlanCallback)
+                    this.navigationPlanCallback({ global: [], local: [] });
+                if (this.moveBaseResultCallback)
+                    this.moveBaseResultCallback(goalState);
+            },
             "Navigation canceled!",
             "Navigation succeeded!",
-            "Navigation failed!",
+            "Navigation failed!"
         );
         this.subscribeToActionResult(
             moveToPregraspActionName,
             this.moveToPregraspResultCallback,
             "Move To Pre-grasp canceled!",
             "Move To Pre-grasp succeeded!",
-            "Move To Pre-grasp failed!",
+            "Move To Pre-grasp failed!"
         );
         this.subscribeToActionResult(
             showTabletActionName,
             this.showTabletResultCallback,
             "Show Tablet canceled!",
             "Show Tablet succeeded!",
-            "Show Tablet failed!",
+            "Show Tablet failed!"
         );
         this.createTrajectoryClient();
         this.createMoveBaseClient();
@@ -299,8 +445,14 @@ export class Robot extends React.Component {
         this.createMapFrameTFClient();
         this.subscribeToHeadTiltTF();
         this.subscribeToMapTF();
+        this.subscribeToOdomTF();
+        this.subscribeToNavigationPlan();
+        this.subscribeToLaserTF();
+        this.subscribeToLaserScan();
         this.createTextToSpeechTopic();
         this.createHomeTheRobotService();
+        this.createInitialPoseTopic();
+        this.createRelocalizeService();
 
         return Promise.resolve();
     }
@@ -324,23 +476,31 @@ export class Robot extends React.Component {
         });
         this.subscriptions.push(jointStateTopic);
 
-        jointStateTopic.subscribe((msg: ROSJointState) => {
-            this.jointState = msg;
-            let robotPose: RobotPose = rosJointStatetoRobotPose(
-                this.jointState,
-            );
-            let jointValues: ValidJointStateDict = {};
-            let effortValues: ValidJointStateDict = {};
-            this.jointState.name.forEach((name?: ValidJoints) => {
-                let inLimits = this.inJointLimits(name);
-                let collision = this.inCollision(name);
-                if (inLimits) jointValues[name!] = inLimits;
-                if (collision) effortValues[name!] = collision;
-            });
+        jointStateTopic.subscribe((msg: ROSJointState) =>
+            this.handleJointState(msg)
+        );
+    }
 
-            if (this.jointStateCallback)
-                this.jointStateCallback(robotPose, jointValues, effortValues);
+    /**
+     * Stores the latest joint state and forwards it, along with which
+     * joints are at their limits or in collision.
+     *
+     * @param msg joint state published by the robot
+     */
+    protected handleJointState(msg: ROSJointState) {
+        this.jointState = msg;
+        let robotPose: RobotPose = rosJointStatetoRobotPose(this.jointState);
+        let jointValues: ValidJointStateDict = {};
+        let effortValues: ValidJointStateDict = {};
+        this.jointState.name.forEach((name?: ValidJoints) => {
+            let inLimits = this.inJointLimits(name);
+            let collision = this.inCollision(name);
+            if (inLimits) jointValues[name!] = inLimits;
+            if (collision) effortValues[name!] = collision;
         });
+
+        if (this.jointStateCallback)
+            this.jointStateCallback(robotPose, jointValues, effortValues);
     }
 
     subscribeToJointLimits() {
@@ -357,7 +517,7 @@ export class Robot extends React.Component {
                     "Got joint limit for",
                     name,
                     msg.position[idx],
-                    msg.velocity[idx],
+                    msg.velocity[idx]
                 );
                 if (name == "joint_arm") name = "wrist_extension";
                 this.jointLimits[name] = [msg.position[idx], msg.velocity[idx]];
@@ -482,7 +642,122 @@ export class Robot extends React.Component {
             (response: { map: ROSOccupancyGrid }) => {
                 if (this.occupancyGridCallback)
                     this.occupancyGridCallback(response.map);
+            }
+        );
+    }
+
+    /**
+     * Lists the maps saved on the robot, see `GET /maps` in server.js, along
+     * with the map the map server was launched with.
+     */
+    async getMaps() {
+        let maps: { name: string }[] = [];
+        let directory = "";
+        try {
+            const [listed, location] = await Promise.all([
+                fetchJSON(MAPS_URL),
+                fetchJSON(`${MAPS_URL}/directory`),
+            ]);
+            maps = listed;
+            directory = location.directory;
+        } catch (error) {
+            console.error("Could not list the maps", error);
+        }
+        this.mapFiles = {};
+        maps.forEach(
+            (map) => (this.mapFiles[map.name] = `${directory}/${map.name}.yaml`)
+        );
+
+        if (this.activeMap === undefined) {
+            const yamlFilename = new ROSLIB.Param({
+                ros: this.ros,
+                name: "/map_server:yaml_filename",
+            });
+            const launchedWith = await new Promise<string>((resolve) =>
+                yamlFilename.get((value: string) => resolve(value || ""))
+            );
+            this.activeMap = Object.keys(this.mapFiles).find((name) =>
+                launchedWith.endsWith(`/${name}.yaml`)
+            );
+        }
+        if (this.mapsCallback)
+            this.mapsCallback(Object.keys(this.mapFiles), this.activeMap);
+    }
+
+    /**
+     * Has the map server load another map, then sends its occupancy grid.
+     * Localization has to be reset afterwards, the robot's pose on the
+     * previous map means nothing on the new one.
+     * @param name name of the map, see {@link getMaps}
+     * @param onDone called once the map is loaded, or could not be
+     */
+    loadMap(name: string, onDone?: CommandDoneCallback) {
+        const path = this.mapFiles[name];
+        if (!path) throw `Unknown map ${name}`;
+        let loadMapService = new ROSLIB.Service({
+            ros: this.ros,
+            name: "/map_server/load_map",
+            serviceType: "nav2_msgs/srv/LoadMap",
+        });
+
+        var request = new ROSLIB.ServiceRequest({ map_url: path });
+        loadMapService.callService(
+            request,
+            (response: { map: ROSOccupancyGrid; result: number }) => {
+                if (response.result !== LOAD_MAP_SUCCESS) {
+                    console.error("Could not load map", name, response.result);
+                    if (onDone)
+                        onDone(
+                            `Could not load map ${name} (${response.result})`
+                        );
+                    return;
+                }
+                console.log("Loaded map", name);
+                this.activeMap = name;
+                if (this.occupancyGridCallback)
+                    this.occupancyGridCallback(response.map);
+                if (this.mapsCallback)
+                    this.mapsCallback(Object.keys(this.mapFiles), name);
+                if (onDone) onDone();
             },
+            (error) => {
+                console.error("Could not load map", name, error);
+                if (onDone) onDone(`Could not load map ${name}: ${error}`);
+            }
+        );
+    }
+
+    /**
+     * Tells AMCL where the robot is, e.g. when it got lost or after another
+     * map was loaded.
+     * @param pose position and heading of the robot, in the map frame
+     */
+    setPoseEstimate(pose: ROSPose) {
+        if (!this.initialPoseTopic) throw "initialPoseTopic is undefined";
+        this.initialPoseTopic.publish({
+            header: { frame_id: "map" },
+            pose: { pose: pose, covariance: POSE_ESTIMATE_COVARIANCE },
+        });
+    }
+
+    /**
+     * Has AMCL spread its guesses of where the robot is over the whole map.
+     * The robot should then drive around a bit so AMCL can tell which guess
+     * is right.
+     * @param onDone called once AMCL restarted, or could not
+     */
+    relocalize(onDone?: CommandDoneCallback) {
+        if (!this.relocalizeService) throw "relocalizeService is undefined";
+        this.relocalizeService.callService(
+            new ROSLIB.ServiceRequest({}),
+            () => {
+                console.log("Reinitialized global localization");
+                if (onDone) onDone();
+            },
+            (error) => {
+                console.error("Could not reinitialize localization", error);
+                if (onDone) onDone(`Could not relocalize: ${error}`);
+            }
         );
     }
 
@@ -502,7 +777,7 @@ export class Robot extends React.Component {
             },
             (error) => {
                 console.log("Got joint limits service failed", error);
-            },
+            }
         );
     }
 
@@ -511,7 +786,7 @@ export class Robot extends React.Component {
         callback?: (goalState: ActionState) => void,
         cancelMsg?: string,
         successMsg?: string,
-        failureMsg?: string,
+        failureMsg?: string
     ) {
         // Get the messages
         if (!cancelMsg) {
@@ -535,32 +810,137 @@ export class Robot extends React.Component {
         // Subscribe to the topic
         topic.subscribe((msg: ActionStatusList) => {
             console.log("Got action status msg", msg);
-            let status = msg.status_list.pop()?.status;
-            console.log("For action ", actionName, "got status ", status);
-            if (callback) {
-                if (status == 5)
-                    callback({
-                        state: cancelMsg,
-                        alert_type: "error",
-                    });
-                else if (status == 4)
-                    callback({
-                        state: successMsg,
-                        alert_type: "success",
-                    });
-                else if (status == 6)
-                    callback({
-                        state: failureMsg,
-                        alert_type: "error",
-                    });
+            this.identifySentGoals(actionName, msg);
+            msg.status_list.forEach((goalStatus) => {
+                const status = goalStatus.status;
+                const goals = this.sentGoals[actionName] || [];
+                const goal = goals.find(
+                    (goal) => goal.goalId === goalIdOf(goalStatus)
+                );
+                if (
+                    !goal ||
+                    ![GOAL_SUCCEEDED, GOAL_CANCELED, GOAL_ABORTED].includes(
+                        status
+                    )
+                )
+                    return;
+                console.log("For action ", actionName, "got status ", status);
+                // Only the newest goal's result is shown, not that of a goal
+                // it replaced
+                const isNewest = goal === goals[goals.length - 1];
+                goals.splice(goals.indexOf(goal), 1);
+                if (status == GOAL_SUCCEEDED) this.finishGoal(goal);
+                else if (status == GOAL_CANCELED)
+                    this.finishGoal(goal, cancelMsg);
+                else this.finishGoal(goal, failureMsg);
+                if (callback && isNewest) {
+                    if (status == GOAL_CANCELED)
+                        callback({
+                            state: cancelMsg,
+                            alert_type: "error",
+                        });
+                    else if (status == GOAL_SUCCEEDED)
+                        callback({
+                            state: successMsg,
+                            alert_type: "success",
+                        });
+                    else
+                        callback({
+                            state: failureMsg,
+                            alert_type: "error",
+                        });
+                }
+            });
+        });
+    }
+
+    /**
+     * Gives the IDs of the goals new in an action's status to the goals sent
+     * to it that were still waiting for one, oldest first.
+     *
+     * @param actionName name of the ROS action the status belongs to
+     * @param msg the action's status
+     */
+    identifySentGoals(actionName: string, msg: ActionStatusList) {
+        const knownGoalIds = this.knownGoalIds[actionName] || new Set();
+        const goals = this.sentGoals[actionName] || [];
+        msg.status_list.forEach((goalStatus) => {
+            const goalId = goalIdOf(goalStatus);
+            if (knownGoalIds.has(goalId)) return;
+            let goal = goals.find((goal) => goal.goalId === undefined);
+            // A goal that should have shown up long ago was rejected
+            while (
+                goal &&
+                goal !== goals[goals.length - 1] &&
+                Date.now() - goal.sentAt > GOAL_ACCEPT_TIMEOUT_MS
+            ) {
+                goals.splice(goals.indexOf(goal), 1);
+                this.finishGoal(goal, "The goal was not accepted");
+                goal = goals.find((goal) => goal.goalId === undefined);
             }
+            if (goal) goal.goalId = goalId;
         });
+        // Goals that ended long ago drop out of the status
+        this.knownGoalIds[actionName] = new Set(msg.status_list.map(goalIdOf));
+    }
+
+    /**
+     * Records a goal just sent to `actionName`. Goals still running on the
+     * same action are reported as failed, since the new goal replaces them.
+     *
+     * @param actionName name of the ROS action the goal was sent to
+     * @param onDone callback for the new goal, if any
+     */
+    setActionDoneCallback(actionName: string, onDone?: CommandDoneCallback) {
+        const goals = this.sentGoals[actionName] || [];
+        goals.forEach((goal) =>
+            this.finishGoal(goal, "Replaced by a newer goal")
+        );
+        goals.push({ sentAt: Date.now(), onDone: onDone });
+        this.sentGoals[actionName] = goals;
+    }
+
+    /**
+     * Calls and clears the callback of a goal, if it is still waiting.
+     *
+     * @param goal the goal that ended
+     * @param error why the goal did not succeed, undefined on success
+     */
+    finishGoal(goal: SentGoal, error?: string) {
+        const onDone = goal.onDone;
+        if (!onDone) return;
+        goal.onDone = undefined;
+        onDone(error);
+    }
+
+    /**
+     * Calls and clears the callbacks of the goals sent to `actionName`, and
+     * forgets them.
+     *
+     * @param actionName name of the ROS action whose goals ended
+     * @param error why the goals did not succeed, undefined on success
+     */
+    finishAction(actionName: string, error?: string) {
+        const goals = this.sentGoals[actionName] || [];
+        delete this.sentGoals[actionName];
+        goals.forEach((goal) => this.finishGoal(goal, error));
+    }
+
+    /**
+     * Reports every running goal as failed.
+     *
+     * @param error why the goals did not succeed
+     */
+    finishAllActions(error: string) {
+        Object.keys(this.sentGoals).forEach((actionName) =>
+            this.finishAction(actionName, error)
+        );
     }
 
     createTrajectoryClient() {
         this.trajectoryClient = new ROSLIB.ActionHandle({
             ros: this.ros,
-            name: "/stretch_controller/follow_joint_trajectory",
+            name: trajectoryActionName,
             actionType: "control_msgs/action/FollowJointTrajectory",
         });
     }
@@ -606,6 +986,22 @@ export class Robot extends React.Component {
         });
     }
 
+    createInitialPoseTopic() {
+        this.initialPoseTopic = new ROSLIB.Topic({
+            ros: this.ros,
+            name: "/initialpose",
+            messageType: "geometry_msgs/msg/PoseWithCovarianceStamped",
+        });
+    }
+
+    createRelocalizeService() {
+        this.relocalizeService = new ROSLIB.Service({
+            ros: this.ros,
+            name: "/reinitialize_global_localization",
+            serviceType: "std_srvs/srv/Empty",
+        });
+    }
+
     createSwitchToNavigationService() {
         this.switchToNavigationService = new ROSLIB.Service({
             ros: this.ros,
@@ -703,7 +1099,7 @@ export class Robot extends React.Component {
             "link_gripper_finger_left",
             (transform) => {
                 this.linkGripperFingerLeftTF = transform;
-            },
+            }
         );
     }
 
@@ -712,7 +1108,7 @@ export class Robot extends React.Component {
             "link_DW3_tablet_12in",
             (transform) => {
                 this.linkTabletTF = transform;
-            },
+            }
         );
     }
 
@@ -734,6 +1130,155 @@ export class Robot extends React.Component {
         });
     }
 
+    subscribeToLaserTF() {
+        this.robotFrameTfClient?.subscribe("laser", (transform) => {
+            this.laserTF = transform;
+        });
+    }
+
+    subscribeToLaserScan() {
+        const laserScanTopic: ROSLIB.Topic = new ROSLIB.Topic({
+            ros: this.ros,
+            name: laserScanTopicName,
+            messageType: "sensor_msgs/msg/LaserScan",
+            throttle_rate: SCAN_THROTTLE_MS,
+        });
+        this.subscriptions.push(laserScanTopic);
+
+        laserScanTopic.subscribe((msg: ROSLaserScan) => {
+            if (!this.laserScanCallback) return;
+            const step = Math.ceil(msg.ranges.length / MAX_SCAN_POINTS);
+            const points: ROSPoint[] = [];
+            for (let idx = 0; idx < msg.ranges.length; idx += step) {
+                const range = msg.ranges[idx];
+                // Rays that hit nothing are infinite or out of range
+                if (
+                    !Number.isFinite(range) ||
+                    range < msg.range_min ||
+                    range > msg.range_max
+                )
+                    continue;
+                const angle = msg.angle_min + idx * msg.angle_increment;
+                const point = new ROSLIB.Vector3({
+                    x: range * Math.cos(angle),
+                    y: range * Math.sin(angle),
+                    z: 0,
+                });
+                // Operators see the points around the robot, not the laser
+                if (this.laserTF) {
+                    point.multiplyQuaternion(this.laserTF.rotation);
+                    point.add(this.laserTF.translation);
+                }
+                points.push({
+                    x: Math.round(point.x * 100) / 100,
+                    y: Math.round(point.y * 100) / 100,
+                    z: 0,
+                } as ROSPoint);
+            }
+            this.laserScanCallback(points);
+        });
+    }
+
+    subscribeToOdomTF() {
+        this.mapFrameTfClient?.subscribe("odom", (transform) => {
+            this.odomTF = transform;
+        });
+    }
+
+    /**
+     * @param frame frame the pose is given in
+     * @param pose a pose from a Nav2 topic
+     * @returns the pose in the map frame
+     */
+    private toMapFrame(frame: string, pose: ROSPose): ROSLIB.Pose {
+        const mapPose = new ROSLIB.Pose({
+            position: pose.position,
+            orientation: pose.orientation,
+        });
+        // The local plan and costmap are usually in the odometry frame
+        if (frame.replace(/^\//, "") === "odom" && this.odomTF)
+            mapPose.applyTransform(this.odomTF);
+        return mapPose;
+    }
+
+    /**
+     * @param path a path published by Nav2
+     * @returns at most {@link MAX_PLAN_POINTS} points of the path, in the
+     * map frame
+     */
+    private pathToMapPoints(path: ROSPath): ROSPoint[] {
+        const step = Math.ceil(path.poses.length / MAX_PLAN_POINTS);
+        return path.poses
+            .filter(
+                (_, idx) => idx % step === 0 || idx === path.poses.length - 1
+            )
+            .map(({ pose }) => {
+                const position = this.toMapFrame(
+                    path.header.frame_id,
+                    pose
+                ).position;
+                return { x: position.x, y: position.y, z: 0 } as ROSPoint;
+            });
+    }
+
+    subscribeToNavigationPlan() {
+        const globalPlanTopic: ROSLIB.Topic = new ROSLIB.Topic({
+            ros: this.ros,
+            name: globalPlanTopicName,
+            messageType: "nav_msgs/msg/Path",
+            throttle_rate: PLAN_THROTTLE_MS,
+        });
+        this.subscriptions.push(globalPlanTopic);
+        globalPlanTopic.subscribe((msg: ROSPath) => {
+            if (this.navigationPlanCallback)
+                this.navigationPlanCallback({
+                    global: this.pathToMapPoints(msg),
+                });
+        });
+
+        const localPlanTopic: ROSLIB.Topic = new ROSLIB.Topic({
+            ros: this.ros,
+            name: localPlanTopicName,
+            messageType: "nav_msgs/msg/Path",
+            throttle_rate: PLAN_THROTTLE_MS,
+        });
+        this.subscriptions.push(localPlanTopic);
+        localPlanTopic.subscribe((msg: ROSPath) => {
+            if (this.navigationPlanCallback)
+                this.navigationPlanCallback({
+                    local: this.pathToMapPoints(msg),
+                });
+        });
+
+        const costmapTopic: ROSLIB.Topic = new ROSLIB.Topic({
+            ros: this.ros,
+            name: localCostmapTopicName,
+            messageType: "nav_msgs/msg/OccupancyGrid",
+            throttle_rate: COSTMAP_THROTTLE_MS,
+        });
+        this.subscriptions.push(costmapTopic);
+        costmapTopic.subscribe((msg: ROSCostmap) => {
+            if (!this.navigationPlanCallback) return;
+            const origin = this.toMapFrame(
+                msg.header.frame_id,
+                msg.info.origin
+            );
+            this.navigationPlanCallback({
+                costmap: {
+                    header: "map",
+                    info: {
+                        ...msg.info,
+                        origin: {
+                            position: origin.position,
+                            orientation: origin.orientation,
+                        } as ROSPose,
+                    },
+                    data: msg.data,
+                },
+            });
+        });
+    }
+
     setRealsenseDepthSensing(toggle: boolean) {
         var request = new ROSLIB.ServiceRequest({ data: toggle });
         this.setRealsenseDepthSensingService?.callService(
@@ -742,13 +1287,13 @@ export class Robot extends React.Component {
                 response
                     ? console.log(
                           "Successfully set realsense depth sensing to",
-                          toggle,
+                          toggle
                       )
                     : console.log(
                           "Failed to set realsense depth sensing to",
-                          toggle,
+                          toggle
                       );
-            },
+            }
         );
     }
 
@@ -760,13 +1305,13 @@ export class Robot extends React.Component {
                 response
                     ? console.log(
                           "Successfully set gripper depth sensing to",
-                          toggle,
+                          toggle
                       )
                     : console.log(
                           "Failed to set gripper depth sensing to",
-                          toggle,
+                          toggle
                       );
-            },
+            }
         );
     }
 
@@ -778,10 +1323,10 @@ export class Robot extends React.Component {
                 response
                     ? console.log(
                           "Successfully set expanded gripper to",
-                          toggle,
+                          toggle
                       )
                     : console.log("Failed to set expanded gripper to", toggle);
-            },
+            }
         );
     }
 
@@ -793,13 +1338,13 @@ export class Robot extends React.Component {
                 response
                     ? console.log(
                           "Successfully set realsense depth sensing to",
-                          toggle,
+                          toggle
                       )
                     : console.log(
                           "Failed to set realsense depth sensing to",
-                          toggle,
+                          toggle
                       );
-            },
+            }
         );
     }
 
@@ -811,10 +1356,10 @@ export class Robot extends React.Component {
                 response
                     ? console.log(
                           "Successfully set compute body pose to",
-                          toggle,
+                          toggle
                       )
                     : console.log("Failed to set compute body pose to", toggle);
-            },
+            }
         );
     }
 
@@ -854,13 +1399,23 @@ export class Robot extends React.Component {
 
     /**
      * Ask the robot to home itself.
+     *
+     * @param onDone called once homing has finished or failed
      */
-    homeTheRobot() {
+    homeTheRobot(onDone?: CommandDoneCallback) {
         var request = new ROSLIB.ServiceRequest({});
-        this.homeTheRobotService!.callService(request, () => {
-            robotMode = "unknown"; // returns to whatever mode the robot was in before this service was called
-            console.log("Homing complete");
-        });
+        this.homeTheRobotService!.callService(
+            request,
+            () => {
+                robotMode = "unknown"; // returns to whatever mode the robot was in before this service was called
+                console.log("Homing complete");
+                if (onDone) onDone();
+            },
+            (error) => {
+                console.error("Homing failed", error);
+                if (onDone) onDone(`Homing failed: ${error}`);
+            }
+        );
     }
 
     executeBaseVelocity = (props: { linVel: number; angVel: number }): void => {
@@ -883,9 +1438,21 @@ export class Robot extends React.Component {
         this.cmdVelTopic.publish(twist);
     };
 
+    /**
+     * Publishes a zero velocity twist to stop the base.
+     */
+    stopBase() {
+        let twist = new ROSLIB.Message({
+            linear: { x: 0, y: 0, z: 0 },
+            angular: { x: 0, y: 0, z: 0 },
+        });
+        if (!this.cmdVelTopic) throw "cmdVelTopic is undefined";
+        this.cmdVelTopic.publish(twist);
+    }
+
     makeIncrementalMoveGoal(
         jointName: ValidJoints,
-        jointValueInc: number,
+        jointValueInc: number
     ): ROSLIB.Goal | undefined {
         if (!this.jointState) throw "jointState is undefined";
         let newJointValue = this.getJointValue(jointName);
@@ -946,7 +1513,7 @@ export class Robot extends React.Component {
     makeMoveToPregraspGoal(
         scaled_x: number,
         scaled_y: number,
-        horizontal: boolean,
+        horizontal: boolean
     ) {
         if (!this.moveToPregraspClient)
             throw "moveToPregraspClient is undefined";
@@ -1046,24 +1613,31 @@ export class Robot extends React.Component {
         return newGoal;
     }
 
-    executePoseGoal(pose: RobotPose) {
+    executePoseGoal(pose: RobotPose, onDone?: CommandDoneCallback) {
         this.switchToNavigationMode();
         this.stopExecution();
         this.poseGoal = this.makePoseGoal(pose);
+        this.setActionDoneCallback(trajectoryActionName, onDone);
         this.trajectoryClient.createClient(this.poseGoal);
     }
 
-    async executePoseGoals(poses: RobotPose[], index: number) {
+    async executePoseGoals(
+        poses: RobotPose[],
+        index: number,
+        onDone?: CommandDoneCallback
+    ) {
         this.switchToNavigationMode();
         this.stopExecution();
         this.poseGoal = this.makePoseGoals(poses);
+        this.setActionDoneCallback(trajectoryActionName, onDone);
         this.trajectoryClient.createClient(this.poseGoal);
     }
 
-    executeMoveBaseGoal(pose: ROSPose) {
+    executeMoveBaseGoal(pose: ROSPose, onDone?: CommandDoneCallback) {
         this.switchToNavigationMode();
         // this.stopExecution()
         this.moveBaseGoal = this.makeMoveBaseGoal(pose);
+        this.setActionDoneCallback(moveBaseActionName, onDone);
         this.moveBaseClient.createClient(this.moveBaseGoal);
 
         // An autonomous client may change the robot's mode.
@@ -1074,6 +1648,7 @@ export class Robot extends React.Component {
         this.switchToNavigationMode();
         this.stopAutonomousClients();
         this.poseGoal = this.makeIncrementalMoveGoal(jointName, increment);
+        this.setActionDoneCallback(trajectoryActionName);
         this.trajectoryClient.createClient(this.poseGoal);
     }
 
@@ -1123,11 +1698,13 @@ export class Robot extends React.Component {
      * @param x The x coordinate of the click on the Realsense camera
      * @param y The y coordinate of the click on the Realsense camera
      * @param horizontal Whether the gripper should orient horizontally or vertically.
+     * @param onDone called once the goal has finished or failed
      */
     executeMoveToPregraspGoal(
         scaled_x?: number,
         scaled_y?: number,
         horizontal?: boolean,
+        onDone?: CommandDoneCallback
     ) {
         if (
             scaled_x === undefined ||
@@ -1140,13 +1717,14 @@ export class Robot extends React.Component {
             "Got move to pregrasp goal",
             scaled_x,
             scaled_y,
-            horizontal,
+            horizontal
         );
         this.moveToPregraspGoal = this.makeMoveToPregraspGoal(
             scaled_x,
             scaled_y,
-            horizontal,
+            horizontal
         );
+        this.setActionDoneCallback(moveToPregraspActionName, onDone);
         this.moveToPregraspClient.createClient(this.moveToPregraspGoal);
 
         // An autonomous client may change the robot's mode.
@@ -1162,8 +1740,9 @@ export class Robot extends React.Component {
         }
     }
 
-    executeShowTabletGoal() {
+    executeShowTabletGoal(onDone?: CommandDoneCallback) {
         this.showTabletGoal = this.makeShowTabletGoal();
+        this.setActionDoneCallback(showTabletActionName, onDone);
         this.showTabletClient.createClient(this.showTabletGoal);
 
         // An autonomous client may change the robot's mode.
@@ -1195,7 +1774,7 @@ export class Robot extends React.Component {
                 }
                 this.lookAtGripperInterval = window.setTimeout(
                     lookIfReadyAndRepeat,
-                    500,
+                    500
                 );
             };
             lookIfReadyAndRepeat();
@@ -1224,7 +1803,7 @@ export class Robot extends React.Component {
 
         // Normalize posDifference
         const scalar = Math.sqrt(
-            posDifference.x ** 2 + posDifference.y ** 2 + posDifference.z ** 2,
+            posDifference.x ** 2 + posDifference.y ** 2 + posDifference.z ** 2
         );
         posDifference.x /= scalar;
         posDifference.y /= scalar;
@@ -1316,12 +1895,12 @@ export class Robot extends React.Component {
     playTextToSpeech(
         text: string,
         override_behavior: number = 0,
-        is_slow: boolean = false,
+        is_slow: boolean = false
     ) {
         if (!this.textToSpeechTopic) throw "textToSpeechTopic is undefined";
         if (override_behavior != 0 && override_behavior != 1) {
             console.log(
-                "override behavior must be 0 (queue) or 1 (interrupt). Setting to 0.",
+                "override behavior must be 0 (queue) or 1 (interrupt). Setting to 0."
             );
             override_behavior = 0;
         }
@@ -1346,7 +1925,7 @@ export class Robot extends React.Component {
     getPublishers(
         topic: string,
         callback: (publishers: string[]) => void,
-        failedCallback: (message: any) => void,
+        failedCallback: (message: any) => void
     ) {
         var publishersClient = new ROSLIB.Service({
             ros: this.ros,
@@ -1363,7 +1942,7 @@ export class Robot extends React.Component {
                 function (result: any) {
                     callback(result.publishers);
                 },
-                failedCallback,
+                failedCallback
             );
         } else {
             publishersClient.callService(request, function (result) {
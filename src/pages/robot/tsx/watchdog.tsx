@@ -0,0 +1,70 @@
+/** Default time without a heartbeat after which a velocity stream is stopped */
+export const DEFAULT_VELOCITY_WATCHDOG_TIMEOUT_MS = 1000;
+
+type VelocityWatchdogProps = {
+    /** Time without a heartbeat after which a stream times out */
+    timeout: number;
+    /** Called with the name of a stream that stopped sending heartbeats */
+    onTimeout: (stream: string) => void;
+};
+
+/**
+ * Deadman switch for velocity commands. While the operator holds a button
+ * it re-sends the velocity command as a heartbeat. If the heartbeats of a
+ * stream stop before the stream is cleared, e.g. because the data channel
+ * stalled or the operator's tab froze, `onTimeout` is called so the robot
+ * can stop moving.
+ */
+export class VelocityWatchdog {
+    private timeout: number;
+    private onTimeout: (stream: string) => void;
+    private lastHeartbeats: { [stream: string]: number } = {};
+    private timers: { [stream: string]: number } = {}; // ReturnType<typeof setTimeout>
+
+    constructor(props: VelocityWatchdogProps) {
+        this.timeout = props.timeout;
+        this.onTimeout = props.onTimeout;
+    }
+
+    /**
+     * Records a heartbeat and restarts the timeout of a stream.
+     *
+     * @param stream name of the velocity stream, e.g. the joint being moved
+     */
+    heartbeat(stream: string) {
+        this.clear(stream);
+        this.lastHeartbeats[stream] = Date.now();
+        this.timers[stream] = window.setTimeout(() => {
+            const elapsed = Date.now() - this.lastHeartbeats[stream];
+            console.warn(
+                `No heartbeat for ${stream} in ${elapsed} ms, stopping motion`
+            );
+            delete this.timers[stream];
+            delete this.lastHeartbeats[stream];
+            this.onTimeout(stream);
+        }, this.timeout);
+    }
+
+    /**
+     * Stops watching a stream, e.g. when the operator ended it on purpose.
+     *
+     * @param stream name of the velocity stream
+     */
+    clear(stream: string) {
+        if (stream in this.timers) {
+            clearTimeout(this.timers[stream]);
+            delete this.timers[stream];
+        }
+        delete this.lastHeartbeats[stream];
+    }
+
+    /** @returns whether any stream is currently being watched */
+    isWatching(): boolean {
+        return Object.keys(this.timers).length > 0;
+    }
+
+    /** Stops watching every stream. */
+    clearAll() {
+        Object.keys(this.timers).forEach((stream) => this.clear(stream));
+    }
+}
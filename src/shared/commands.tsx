@@ -2,7 +2,15 @@ import ROSLIB from "roslib";
 import { ROSPose, RobotPose } from "./util";
 import { ValidJoints } from "./util";
 
-export type cmd =
+/**
+ * Optional request ID attached to a command. When present, the robot replies
+ * with {@link CommandResultMessage}s carrying the same ID.
+ */
+export interface CommandRequest {
+    id?: number;
+}
+
+export type cmd = (
     | DriveCommand
     | IncrementalMove
     | setRobotModeCommand
@@ -11,6 +19,10 @@ export type cmd =
     | ToggleCommand
     | LookAtGripper
     | GetOccupancyGrid
+    | GetMapsCommand
+    | LoadMapCommand
+    | SetPoseEstimateCommand
+    | RelocalizeCommand
     | MoveBaseCommand
     | StopTrajectoryCommand
     | StopMoveBaseCommand
@@ -24,7 +36,12 @@ export type cmd =
     | StopTextToSpeech
     | ShowTabletCommand
     | StopShowTabletCommand
-    | HomeTheRobotCommand;
+    | HomeTheRobotCommand
+    | EndVelocityHeartbeatCommand
+    | RequestControlCommand
+    | GrantControlCommand
+) &
+    CommandRequest;
 
 export interface VelocityCommand {
     stop: () => void;
@@ -37,12 +54,21 @@ export interface DriveCommand {
         linVel: number;
         angVel: number;
     };
+    /** Set while the command is re-sent periodically to keep the base moving */
+    heartbeat?: boolean;
 }
 
 export interface IncrementalMove {
     type: "incrementalMove";
     jointName: ValidJoints;
     increment: number;
+    /** Set while the command is re-sent periodically to keep the joint moving */
+    heartbeat?: boolean;
+}
+
+/** Tells the robot that the operator stopped sending heartbeats on purpose */
+export interface EndVelocityHeartbeatCommand {
+    type: "endVelocityHeartbeat";
 }
 
 export interface RobotPoseCommand {
@@ -71,6 +97,7 @@ export interface ToggleCommand {
         | "setFollowGripper"
         | "setRealsenseDepthSensing"
         | "setGripperDepthSensing"
+        | "setExpandedGripper"
         | "setRealsenseBodyPoseEstimate"
         | "setRunStop";
     toggle: boolean;
@@ -84,6 +111,39 @@ export interface GetOccupancyGrid {
     type: "getOccupancyGrid";
 }
 
+/** Asks the robot for the maps it can load, answered by a `MapsMessage` */
+export interface GetMapsCommand {
+    type: "getMaps";
+}
+
+/**
+ * Loads another map on the robot, which then streams its occupancy grid and
+ * a `MapsMessage` with the new active map.
+ */
+export interface LoadMapCommand {
+    type: "loadMap";
+    /** Name of the map, one of `MapsMessage.maps` */
+    name: string;
+}
+
+/**
+ * Tells the robot's localization where the robot is on the map, like the
+ * "2D Pose Estimate" tool in RViz.
+ */
+export interface SetPoseEstimateCommand {
+    type: "setPoseEstimate";
+    /** Position and heading of the robot, in the map frame */
+    pose: ROSPose;
+}
+
+/**
+ * Has the robot's localization forget where it thinks the robot is and look
+ * for it all over the map, for when it is lost.
+ */
+export interface RelocalizeCommand {
+    type: "relocalize";
+}
+
 export interface GetHasBetaTeleopKit {
     type: "getHasBetaTeleopKit";
 }
@@ -107,8 +167,9 @@ export interface StopMoveBaseCommand {
 
 export interface MoveToPregraspCommand {
     type: "moveToPregrasp";
-    x: number;
-    y: number;
+    scaled_x: number;
+    scaled_y: number;
+    horizontal: boolean;
 }
 
 export interface StopMoveToPregraspCommand {
@@ -117,7 +178,7 @@ export interface StopMoveToPregraspCommand {
 
 export interface ShowTabletCommand {
     type: "showTablet";
-    url: string;
+    url?: string;
 }
 
 export interface StopShowTabletCommand {
@@ -142,3 +203,14 @@ export interface StopTextToSpeech {
 export interface HomeTheRobotCommand {
     type: "homeTheRobot";
 }
+
+/** Asks for control of the robot, which the operator in control may grant */
+export interface RequestControlCommand {
+    type: "requestControl";
+}
+
+/** Hands off control of the robot to another operator */
+export interface GrantControlCommand {
+    type: "grantControl";
+    participantId: string;
+}
@@ -0,0 +1,408 @@
+/**
+ * @summary Versioned message protocol spoken over the WebRTC data channel
+ * between the operator and robot browsers.
+ *
+ * Each peer announces its {@link PROTOCOL_VERSION} in a handshake when the
+ * data channel opens. Every inbound message is validated against
+ * {@link MESSAGE_SCHEMAS} before it is handed to the page, and outgoing
+ * messages that the peer's version does not understand are dropped instead
+ * of being silently ignored on the other end.
+ */
+import { AllJoints } from "./util";
+
+/**
+ * Version of the protocol implemented by this build. Bump this whenever a
+ * message type is added or its payload changes, and record the version in
+ * the `since` field of the message's schema.
+ */
+export const PROTOCOL_VERSION = 9;
+
+/**
+ * Version assumed for a peer that has not (yet) sent a handshake. Builds
+ * that predate the handshake only understand the messages with `since: 0`.
+ */
+export const LEGACY_PROTOCOL_VERSION = 0;
+
+/**
+ * Oldest peer version this build can still drive. Peers below this version
+ * are reported as incompatible.
+ */
+export const MIN_COMPATIBLE_PROTOCOL_VERSION = LEGACY_PROTOCOL_VERSION;
+
+/** Sent by each peer as soon as the data channel opens. */
+export interface ProtocolHandshakeMessage {
+    type: "protocolHandshake";
+    version: number;
+    role: "operator" | "robot";
+}
+
+/** Reasons a peer can reject an inbound message. */
+export enum ProtocolErrorCode {
+    /** The payload was not an object with a string `type` field. */
+    Malformed = "malformed",
+    /** The `type` is not part of the protocol known to the receiver. */
+    UnknownType = "unknownType",
+    /** The `type` is known but one of its fields failed validation. */
+    InvalidPayload = "invalidPayload",
+    /** The peers' protocol versions cannot be used together. */
+    IncompatibleVersion = "incompatibleVersion",
+    /** The sender may not send this message, e.g. an observer's command. */
+    Forbidden = "forbidden",
+}
+
+/** Reply sent to a peer whose message was rejected. */
+export interface ProtocolErrorMessage {
+    type: "protocolError";
+    code: ProtocolErrorCode;
+    message: string;
+    /** The `type` of the rejected message, when it could be determined. */
+    rejectedType?: string;
+}
+
+/**
+ * Sent periodically to measure the round trip time of the data channel. The
+ * peer answers with a {@link ProtocolPongMessage} echoing the same fields.
+ */
+export interface ProtocolPingMessage {
+    type: "ping";
+    seq: number;
+    /** Sender's `performance.now()` when the ping was sent */
+    sentAt: number;
+}
+
+export interface ProtocolPongMessage {
+    type: "pong";
+    seq: number;
+    sentAt: number;
+}
+
+export type ProtocolMessage =
+    | ProtocolHandshakeMessage
+    | ProtocolErrorMessage
+    | ProtocolPingMessage
+    | ProtocolPongMessage;
+
+/** Error raised when an inbound message does not follow the protocol. */
+export class ProtocolError extends Error {
+    public code: ProtocolErrorCode;
+    public rejectedType?: string;
+
+    constructor(
+        code: ProtocolErrorCode,
+        message: string,
+        rejectedType?: string
+    ) {
+        super(message);
+        this.name = "ProtocolError";
+        this.code = code;
+        this.rejectedType = rejectedType;
+    }
+
+    /** @returns the reply to send back to the peer */
+    toMessage(): ProtocolErrorMessage {
+        return {
+            type: "protocolError",
+            code: this.code,
+            message: this.message,
+            rejectedType: this.rejectedType,
+        };
+    }
+}
+
+////////////////////////////////////////////////////////////
+// Field validators
+////////////////////////////////////////////////////////////
+
+type FieldValidator = (value: any) => boolean;
+
+const isNumber: FieldValidator = (value) =>
+    typeof value === "number" && !Number.isNaN(value);
+const isString: FieldValidator = (value) => typeof value === "string";
+const isBoolean: FieldValidator = (value) => typeof value === "boolean";
+const isObject: FieldValidator = (value) =>
+    value !== null && typeof value === "object" && !Array.isArray(value);
+
+const optional =
+    (validator: FieldValidator): FieldValidator =>
+    (value) =>
+        value === undefined || value === null || validator(value);
+
+const oneOf =
+    (...options: any[]): FieldValidator =>
+    (value) =>
+        options.includes(value);
+
+const arrayOf =
+    (validator: FieldValidator): FieldValidator =>
+    (value) =>
+        Array.isArray(value) && value.every(validator);
+
+const shape =
+    (fields: { [field: string]: FieldValidator }): FieldValidator =>
+    (value) =>
+        isObject(value) &&
+        Object.entries(fields).every(([field, validator]) =>
+            validator(value[field])
+        );
+
+/**
+ * An object keyed by joint name whose values pass `validator`. The robot
+ * reports more joints than the operator knows about, e.g. the wheels and the
+ * gripper fingers, so joint names are not checked and the receiver ignores
+ * the joints it does not use.
+ */
+const jointRecordOf =
+    (validator: FieldValidator): FieldValidator =>
+    (value) =>
+        isObject(value) &&
+        Object.values(value).every((jointValue) => validator(jointValue));
+
+// Commands may also move the individual arm segments and the gripper
+// aperture, which are not part of `AllJoints`.
+const isJointName: FieldValidator = (value) =>
+    AllJoints.includes(value) ||
+    [
+        "gripper_aperture",
+        "joint_arm_l0",
+        "joint_arm_l1",
+        "joint_arm_l2",
+        "joint_arm_l3",
+    ].includes(value);
+
+const isRobotPose = jointRecordOf(isNumber);
+const isBooleanPair = arrayOf(isBoolean);
+const isVector = shape({ x: isNumber, y: isNumber, z: isNumber });
+const isQuaternion = shape({
+    x: isNumber,
+    y: isNumber,
+    z: isNumber,
+    w: isNumber,
+});
+const isROSPose = shape({ position: isVector, orientation: isQuaternion });
+const isTransform = shape({ translation: isVector, rotation: isQuaternion });
+const isActionState = shape({ state: isString, alert_type: isString });
+// Commands may carry a request ID, see `CommandRequest` in commands.tsx
+const isRequestId = optional(isNumber);
+
+////////////////////////////////////////////////////////////
+// Schemas and compatibility table
+////////////////////////////////////////////////////////////
+
+interface MessageSchema {
+    /** First protocol version that understands this message type */
+    since: number;
+    /** Validators for every field besides `type` */
+    fields: { [field: string]: FieldValidator };
+}
+
+const NO_FIELDS = {};
+const TOGGLE_FIELDS = { toggle: isBoolean };
+
+/**
+ * Schema of every message that may travel over the data channel, keyed by
+ * the message `type`. This doubles as the compatibility table: a message is
+ * only sent to a peer whose protocol version is at least `since`.
+ */
+export const MESSAGE_SCHEMAS: { [type: string]: MessageSchema } = {
+    // Protocol bookkeeping
+    protocolHandshake: {
+        since: 1,
+        fields: { version: isNumber, role: oneOf("operator", "robot") },
+    },
+    protocolError: {
+        since: 1,
+        fields: {
+            code: oneOf(...Object.values(ProtocolErrorCode)),
+            message: isString,
+            rejectedType: optional(isString),
+        },
+    },
+    ping: { since: 4, fields: { seq: isNumber, sentAt: isNumber } },
+    pong: { since: 4, fields: { seq: isNumber, sentAt: isNumber } },
+
+    // Operator to robot commands, see `cmd` in commands.tsx
+    driveBase: {
+        since: 0,
+        fields: {
+            modifier: shape({ linVel: isNumber, angVel: isNumber }),
+            heartbeat: optional(isBoolean),
+        },
+    },
+    incrementalMove: {
+        since: 0,
+        fields: {
+            jointName: isJointName,
+            increment: isNumber,
+            heartbeat: optional(isBoolean),
+        },
+    },
+    endVelocityHeartbeat: { since: 3, fields: NO_FIELDS },
+    setRobotMode: {
+        since: 0,
+        fields: { modifier: oneOf("position", "navigation") },
+    },
+    setCameraPerspective: {
+        since: 0,
+        fields: {
+            camera: oneOf("overhead", "realsense", "gripper"),
+            perspective: isString,
+        },
+    },
+    setRobotPose: { since: 0, fields: { pose: isRobotPose } },
+    playbackPoses: { since: 0, fields: { poses: arrayOf(isRobotPose) } },
+    setFollowGripper: { since: 0, fields: TOGGLE_FIELDS },
+    setRealsenseDepthSensing: { since: 0, fields: TOGGLE_FIELDS },
+    setGripperDepthSensing: { since: 0, fields: TOGGLE_FIELDS },
+    setExpandedGripper: { since: 0, fields: TOGGLE_FIELDS },
+    setRealsenseBodyPoseEstimate: { since: 0, fields: TOGGLE_FIELDS },
+    setRunStop: { since: 0, fields: TOGGLE_FIELDS },
+    lookAtGripper: { since: 0, fields: NO_FIELDS },
+    getOccupancyGrid: { since: 0, fields: NO_FIELDS },
+    getMaps: { since: 6, fields: NO_FIELDS },
+    loadMap: { since: 6, fields: { name: isString } },
+    setPoseEstimate: { since: 9, fields: { pose: isROSPose } },
+    relocalize: { since: 9, fields: NO_FIELDS },
+    getHasBetaTeleopKit: { since: 0, fields: NO_FIELDS },
+    getStretchTool: { since: 0, fields: NO_FIELDS },
+    getBatteryVoltage: { since: 0, fields: NO_FIELDS },
+    moveBase: { since: 0, fields: { pose: isROSPose } },
+    stopTrajectory: { since: 0, fields: NO_FIELDS },
+    stopMoveBase: { since: 0, fields: NO_FIELDS },
+    moveToPregrasp: {
+        since: 0,
+        fields: {
+            scaled_x: isNumber,
+            scaled_y: isNumber,
+            horizontal: isBoolean,
+        },
+    },
+    stopMoveToPregrasp: { since: 0, fields: NO_FIELDS },
+    showTablet: { since: 0, fields: { url: optional(isString) } },
+    stopShowTablet: { since: 0, fields: NO_FIELDS },
+    playTextToSpeech: {
+        since: 0,
+        fields: {
+            text: isString,
+            override_behavior: isNumber,
+            is_slow: isBoolean,
+        },
+    },
+    stopTextToSpeech: { since: 0, fields: NO_FIELDS },
+    homeTheRobot: { since: 0, fields: NO_FIELDS },
+    requestControl: { since: 5, fields: NO_FIELDS },
+    grantControl: { since: 5, fields: { participantId: isString } },
+
+    // Robot to operator state messages, see `WebRTCMessage` in util.tsx
+    validJointState: {
+        since: 0,
+        fields: {
+            robotPose: isRobotPose,
+            jointsInLimits: jointRecordOf(isBooleanPair),
+            jointsInCollision: jointRecordOf(isBooleanPair),
+        },
+    },
+    occupancyGrid: {
+        since: 0,
+        fields: {
+            message: shape({ info: isObject, data: arrayOf(isNumber) }),
+        },
+    },
+    maps: {
+        since: 6,
+        fields: { maps: arrayOf(isString), active: optional(isString) },
+    },
+    amclPose: { since: 0, fields: { message: isTransform } },
+    navigationPlan: {
+        since: 7,
+        fields: {
+            global: optional(arrayOf(isVector)),
+            local: optional(arrayOf(isVector)),
+            costmap: optional(
+                shape({ info: isObject, data: arrayOf(isNumber) })
+            ),
+        },
+    },
+    laserScan: { since: 8, fields: { points: arrayOf(isVector) } },
+    goalStatus: { since: 0, fields: { message: isObject } },
+    moveBaseState: { since: 0, fields: { message: isActionState } },
+    moveToPregraspState: { since: 0, fields: { message: isActionState } },
+    showTabletState: { since: 0, fields: { message: isActionState } },
+    velocityWatchdog: { since: 3, fields: { message: isActionState } },
+    batteryVoltage: { since: 0, fields: { message: isNumber } },
+    mode: { since: 0, fields: { value: isString } },
+    isHomed: { since: 0, fields: { value: isBoolean } },
+    isRunStopped: { since: 0, fields: { enabled: isBoolean } },
+    hasBetaTeleopKit: { since: 0, fields: { value: isBoolean } },
+    stretchTool: { since: 0, fields: { value: isString } },
+    controlRequest: {
+        since: 5,
+        fields: { participantId: isString, name: isString },
+    },
+    controlState: {
+        since: 5,
+        fields: { controller: optional(isString), hasControl: isBoolean },
+    },
+    commandResult: {
+        since: 2,
+        fields: {
+            id: isNumber,
+            commandType: isString,
+            status: oneOf("accepted", "rejected", "completed", "failed"),
+            message: optional(isString),
+        },
+    },
+};
+
+/**
+ * Checks an inbound message against its schema.
+ *
+ * @param message the parsed message received from the peer
+ * @throws {ProtocolError} if the message is malformed, of an unknown type,
+ *         or has an invalid payload
+ */
+export function validateMessage(message: any): void {
+    if (!isObject(message) || !isString(message.type)) {
+        throw new ProtocolError(
+            ProtocolErrorCode.Malformed,
+            "Message must be an object with a string type"
+        );
+    }
+    const schema = MESSAGE_SCHEMAS[message.type];
+    if (!schema) {
+        throw new ProtocolError(
+            ProtocolErrorCode.UnknownType,
+            `Unknown message type ${message.type}`,
+            message.type
+        );
+    }
+    if (!isRequestId(message.id)) {
+        throw new ProtocolError(
+            ProtocolErrorCode.InvalidPayload,
+            `Invalid request id in ${message.type} message`,
+            message.type
+        );
+    }
+    for (const [field, validator] of Object.entries(schema.fields)) {
+        if (!validator(message[field])) {
+            throw new ProtocolError(
+                ProtocolErrorCode.InvalidPayload,
+                `Invalid field ${field} in ${message.type} message`,
+                message.type
+            );
+        }
+    }
+}
+
+/**
+ * Whether a peer speaking `peerVersion` understands messages of `type`.
+ * Unknown types are never considered supported.
+ */
+export function isSupportedByPeer(type: string, peerVersion: number): boolean {
+    const schema = MESSAGE_SCHEMAS[type];
+    return schema !== undefined && schema.since <= peerVersion;
+}
+
+/** Whether this build can operate together with a peer on `peerVersion`. */
+export function isCompatibleVersion(peerVersion: number): boolean {
+    return peerVersion >= MIN_COMPATIBLE_PROTOCOL_VERSION;
+}
@@ -11,30 +11,74 @@ import {
     ToggleCommand,
     LookAtGripper,
     GetOccupancyGrid,
+    GetMapsCommand,
     MoveBaseCommand,
+    MoveToPregraspCommand,
     PlaybackPosesCommand,
     PlayTextToSpeech,
     StopTextToSpeech,
     HomeTheRobotCommand,
+    RequestControlCommand,
+    GrantControlCommand,
 } from "shared/commands";
 import {
     ValidJointStateDict,
     RobotPose,
     ValidJoints,
+    ROSPoint,
     ROSPose,
-    waitUntil,
+    CommandResultMessage,
 } from "shared/util";
 import { GetHasBetaTeleopKit, GetStretchTool } from "./commands";
 export type robotMessageChannel = (message: cmd) => void;
 
+/** How long to wait for the robot to accept or reject a command */
+const COMMAND_ACK_TIMEOUT_MS = 5000;
+/**
+ * How long an accepted command may run before it is given up on, in case
+ * the robot never reports its result. Long enough for navigation goals.
+ */
+const COMMAND_COMPLETION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Raised when a command sent with {@link RemoteRobot.sendCommand} did not complete. */
+export class CommandError extends Error {
+    public status: "rejected" | "failed" | "timeout" | "disconnected";
+    public commandType: string;
+
+    constructor(
+        status: "rejected" | "failed" | "timeout" | "disconnected",
+        commandType: string,
+        message: string
+    ) {
+        super(message);
+        this.name = "CommandError";
+        this.status = status;
+        this.commandType = commandType;
+    }
+}
+
+interface PendingCommand {
+    type: string;
+    resolve: () => void;
+    reject: (error: CommandError) => void;
+    /** Pending acknowledgement or, once accepted, completion timeout */
+    timeout?: number; // ReturnType<typeof setTimeout>
+}
+
 export class RemoteRobot extends React.Component<{}, any> {
     robotChannel: robotMessageChannel;
     sensors: RobotSensors;
     isRunStopped: boolean;
     batteryVoltage: number;
     mapPose: ROSLIB.Transform;
+    /** Latest laser scan, as points in the robot's base frame */
+    laserScan: ROSPoint[];
     moveBaseGoalReached: boolean;
     moveBaseState?: string;
+    private nextCommandId: number = 0;
+    private pendingCommands: { [id: number]: PendingCommand } = {};
+    /** Latest camera perspective and toggle commands, keyed by what they set */
+    private restorableCommands: { [setting: string]: cmd } = {};
 
     constructor(props: { robotChannel: robotMessageChannel }) {
         super(props);
@@ -56,6 +100,112 @@ export class RemoteRobot extends React.Component<{}, any> {
             } as ROSLIB.Quaternion,
         } as ROSLIB.Transform;
         this.moveBaseGoalReached = false;
+        this.laserScan = [];
+    }
+
+    /**
+     * Sends a command with a request ID.
+     *
+     * @param command the command to send
+     * @returns a promise that resolves once the robot reports the command
+     *          completed, and rejects with a {@link CommandError} if the robot
+     *          rejects it, fails to carry it out, does not answer within
+     *          {@link COMMAND_ACK_TIMEOUT_MS}, or does not complete it within
+     *          {@link COMMAND_COMPLETION_TIMEOUT_MS}
+     */
+    sendCommand(command: cmd): Promise<void> {
+        const id = this.nextCommandId++;
+        return new Promise<void>((resolve, reject) => {
+            this.pendingCommands[id] = {
+                type: command.type,
+                resolve: resolve,
+                reject: reject,
+            };
+            this.startCommandTimeout(
+                id,
+                COMMAND_ACK_TIMEOUT_MS,
+                `Robot did not respond to ${command.type}`
+            );
+            this.robotChannel({ ...command, id: id });
+        });
+    }
+
+    /**
+     * Rejects a pending command if it is still pending after a while,
+     * replacing its previous timeout.
+     */
+    private startCommandTimeout(id: number, timeout: number, message: string) {
+        const pending = this.pendingCommands[id];
+        clearTimeout(pending.timeout);
+        pending.timeout = window.setTimeout(
+            () =>
+                this.settleCommand(
+                    id,
+                    new CommandError("timeout", pending.type, message)
+                ),
+            timeout
+        );
+    }
+
+    /**
+     * Handler for results of commands sent with {@link sendCommand}.
+     *
+     * @param result the result reported by the robot
+     */
+    handleCommandResult(result: CommandResultMessage) {
+        const pending = this.pendingCommands[result.id];
+        if (!pending) return;
+
+        switch (result.status) {
+            case "accepted":
+                // The command is running, wait for it to complete or fail
+                this.startCommandTimeout(
+                    result.id,
+                    COMMAND_COMPLETION_TIMEOUT_MS,
+                    `Robot did not complete ${pending.type}`
+                );
+                break;
+            case "completed":
+                this.settleCommand(result.id);
+                break;
+            case "rejected":
+            case "failed":
+                this.settleCommand(
+                    result.id,
+                    new CommandError(
+                        result.status,
+                        result.commandType,
+                        result.message ||
+                            `Robot ${result.status} ${result.commandType}`
+                    )
+                );
+                break;
+        }
+    }
+
+    /**
+     * Rejects every command that is still waiting for a result, e.g. after
+     * the connection to the robot was lost.
+     *
+     * @param reason message of the {@link CommandError}s
+     */
+    rejectPendingCommands(reason: string) {
+        Object.keys(this.pendingCommands).forEach((id) => {
+            const pending = this.pendingCommands[Number(id)];
+            this.settleCommand(
+                Number(id),
+                new CommandError("disconnected", pending.type, reason)
+            );
+        });
+    }
+
+    private settleCommand(id: number, error?: CommandError) {
+        const pending = this.pendingCommands[id];
+        if (!pending) return;
+        delete this.pendingCommands[id];
+        clearTimeout(pending.timeout);
+        if (error) pending.reject(error);
+        else pending.resolve();
     }
 
     setGoalReached(reached: boolean) {
@@ -66,10 +216,21 @@ export class RemoteRobot extends React.Component<{}, any> {
         return this.moveBaseGoalReached;
     }
 
-    driveBase(linVel: number, angVel: number): VelocityCommand {
+    /**
+     * @param linVel linear velocity of the base
+     * @param angVel angular velocity of the base
+     * @param heartbeat true if the command is re-sent periodically, so the
+     *                  robot stops the base when the re-sends stop arriving
+     */
+    driveBase(
+        linVel: number,
+        angVel: number,
+        heartbeat: boolean = false
+    ): VelocityCommand {
         let cmd: DriveCommand = {
             type: "driveBase",
             modifier: { linVel: linVel, angVel: angVel },
+            heartbeat: heartbeat,
         };
         this.robotChannel(cmd);
 
@@ -85,20 +246,29 @@ export class RemoteRobot extends React.Component<{}, any> {
                 let affirmEvent: DriveCommand = {
                     type: "driveBase",
                     modifier: { linVel: linVel, angVel: angVel },
+                    heartbeat: heartbeat,
                 };
                 this.robotChannel(affirmEvent);
             },
         };
     }
 
+    /**
+     * @param jointName joint to move
+     * @param increment distance to move the joint by
+     * @param heartbeat true if the command is re-sent periodically, so the
+     *                  robot stops the joint when the re-sends stop arriving
+     */
     incrementalMove(
         jointName: ValidJoints,
         increment: number,
+        heartbeat: boolean = false
     ): VelocityCommand {
         let cmd: IncrementalMove = {
             type: "incrementalMove",
             jointName: jointName,
             increment: increment,
+            heartbeat: heartbeat,
         };
         this.robotChannel(cmd);
 
@@ -109,6 +279,15 @@ export class RemoteRobot extends React.Component<{}, any> {
         };
     }
 
+    /**
+     * Tells the robot that heartbeats sent with {@link driveBase} or
+     * {@link incrementalMove} stopped on purpose, so it does not treat the
+     * silence as a lost connection.
+     */
+    endVelocityHeartbeat() {
+        this.robotChannel({ type: "endVelocityHeartbeat" });
+    }
+
     setRobotMode(mode: "position" | "navigation") {
         let cmd: setRobotModeCommand = {
             type: "setRobotMode",
@@ -119,16 +298,32 @@ export class RemoteRobot extends React.Component<{}, any> {
 
     setCameraPerspective(
         camera: "overhead" | "realsense" | "gripper",
-        perspective: string,
+        perspective: string
     ) {
         let cmd: CameraPerspectiveCommand = {
             type: "setCameraPerspective",
             camera: camera,
             perspective: perspective,
         };
+        this.restorableCommands[`${cmd.type}/${camera}`] = cmd;
         this.robotChannel(cmd);
     }
 
+    /**
+     * Re-sends the camera perspectives and toggles that were set through
+     * another remote robot, so a new session picks up where it left off.
+     *
+     * @param previous remote robot of the previous session
+     */
+    restoreSettings(previous: RemoteRobot) {
+        Object.entries(previous.restorableCommands).forEach(
+            ([setting, command]) => {
+                this.restorableCommands[setting] = command;
+                this.robotChannel(command);
+            }
+        );
+    }
+
     setRobotPose(pose: RobotPose) {
         let cmd: RobotPoseCommand = {
             type: "setRobotPose",
@@ -137,6 +332,13 @@ export class RemoteRobot extends React.Component<{}, any> {
         this.robotChannel(cmd);
     }
 
+    /**
+     * Like {@link setRobotPose}, but resolves once the robot reached the pose.
+     */
+    setRobotPoseAsync(pose: RobotPose): Promise<void> {
+        return this.sendCommand({ type: "setRobotPose", pose: pose });
+    }
+
     playbackPoses(poses: RobotPose[]) {
         let cmd: PlaybackPosesCommand = {
             type: "playbackPoses",
@@ -145,6 +347,13 @@ export class RemoteRobot extends React.Component<{}, any> {
         this.robotChannel(cmd);
     }
 
+    /**
+     * Like {@link playbackPoses}, but resolves once the playback finished.
+     */
+    playbackPosesAsync(poses: RobotPose[]): Promise<void> {
+        return this.sendCommand({ type: "playbackPoses", poses: poses });
+    }
+
     moveBase(pose: ROSPose) {
         let cmd: MoveBaseCommand = {
             type: "moveBase",
@@ -153,8 +362,15 @@ export class RemoteRobot extends React.Component<{}, any> {
         this.robotChannel(cmd);
     }
 
+    /**
+     * Like {@link moveBase}, but resolves once the robot reached the goal.
+     */
+    moveBaseAsync(pose: ROSPose): Promise<void> {
+        return this.sendCommand({ type: "moveBase", pose: pose });
+    }
+
     moveToPregrasp(scaled_x: number, scaled_y: number, horizontal: boolean) {
-        let cmd: MoveBaseCommand = {
+        let cmd: MoveToPregraspCommand = {
             type: "moveToPregrasp",
             scaled_x: scaled_x,
             scaled_y: scaled_y,
@@ -163,23 +379,51 @@ export class RemoteRobot extends React.Component<{}, any> {
         this.robotChannel(cmd);
     }
 
+    /**
+     * Like {@link moveToPregrasp}, but resolves once the gripper is in the
+     * pregrasp pose.
+     */
+    moveToPregraspAsync(
+        scaled_x: number,
+        scaled_y: number,
+        horizontal: boolean
+    ): Promise<void> {
+        return this.sendCommand({
+            type: "moveToPregrasp",
+            scaled_x: scaled_x,
+            scaled_y: scaled_y,
+            horizontal: horizontal,
+        });
+    }
+
     showTablet() {
         this.robotChannel({ type: "showTablet" });
     }
 
+    /**
+     * Like {@link showTablet}, but resolves once the tablet is shown.
+     */
+    showTabletAsync(): Promise<void> {
+        return this.sendCommand({ type: "showTablet" });
+    }
+
     setToggle(
         type:
             | "setFollowGripper"
             | "setRealsenseDepthSensing"
             | "setGripperDepthSensing"
+            | "setExpandedGripper"
             | "setRealsenseBodyPoseEstimate"
             | "setRunStop",
-        toggle: boolean,
+        toggle: boolean
     ) {
         let cmd: ToggleCommand = {
             type: type,
             toggle: toggle,
         };
+        // The run stop is deliberately not restored, the operator should
+        // decide whether to release it after a reconnect
+        if (type !== "setRunStop") this.restorableCommands[type] = cmd;
         this.robotChannel(cmd);
     }
 
@@ -197,6 +441,38 @@ export class RemoteRobot extends React.Component<{}, any> {
         this.robotChannel(cmd);
     }
 
+    getMaps() {
+        let cmd: GetMapsCommand = {
+            type: "getMaps",
+        };
+        this.robotChannel(cmd);
+    }
+
+    /**
+     * Loads another map on the robot, resolves once the robot loaded it.
+     * @param name name of the map, see {@link getMaps}
+     */
+    loadMapAsync(name: string): Promise<void> {
+        return this.sendCommand({ type: "loadMap", name: name });
+    }
+
+    /**
+     * Tells the robot where it is on the map, resolves once the estimate
+     * was sent to its localization.
+     * @param pose position and heading of the robot, in the map frame
+     */
+    setPoseEstimateAsync(pose: ROSPose): Promise<void> {
+        return this.sendCommand({ type: "setPoseEstimate", pose: pose });
+    }
+
+    /**
+     * Has the robot look for itself all over the map, resolves once its
+     * localization restarted.
+     */
+    relocalizeAsync(): Promise<void> {
+        return this.sendCommand({ type: "relocalize" });
+    }
+
     getHasBetaTeleopKit(type: "getHasBetaTeleopKit") {
         let cmd: GetHasBetaTeleopKit = {
             type: type,
@@ -219,6 +495,14 @@ export class RemoteRobot extends React.Component<{}, any> {
         return this.mapPose;
     }
 
+    setLaserScan(points: ROSPoint[]) {
+        this.laserScan = points;
+    }
+
+    getLaserScan() {
+        return this.laserScan;
+    }
+
     stopTrajectory() {
         this.robotChannel({ type: "stopTrajectory" });
     }
@@ -245,7 +529,7 @@ export class RemoteRobot extends React.Component<{}, any> {
     playTextToSpeech(
         text: string,
         override_behavior: number = 0,
-        is_slow: boolean = false,
+        is_slow: boolean = false
     ) {
         let cmd: PlayTextToSpeech = {
             type: "playTextToSpeech",
@@ -275,6 +559,34 @@ export class RemoteRobot extends React.Component<{}, any> {
         };
         this.robotChannel(cmd);
     }
+
+    /**
+     * Like {@link homeTheRobot}, but resolves once homing finished.
+     */
+    homeTheRobotAsync(): Promise<void> {
+        return this.sendCommand({ type: "homeTheRobot" });
+    }
+
+    requestControl() {
+        let cmd: RequestControlCommand = {
+            type: "requestControl",
+        };
+        this.robotChannel(cmd);
+    }
+
+    /**
+     * Hands off control to another operator. The robot stops all motion
+     * before the other operator takes over.
+     *
+     * @param participantId the participant from the control request
+     */
+    grantControl(participantId: string) {
+        let cmd: GrantControlCommand = {
+            type: "grantControl",
+            participantId: participantId,
+        };
+        this.robotChannel(cmd);
+    }
 }
 
 class RobotSensors extends React.Component {
@@ -287,7 +599,7 @@ class RobotSensors extends React.Component {
     private runStopEnabled: boolean = false;
     private functionProviderCallback?: (
         inJointLimits: ValidJointStateDict,
-        inCollision: ValidJointStateDict,
+        inCollision: ValidJointStateDict
     ) => void;
     private batteryFunctionProviderCallback?: (voltage: number) => void;
     private modeFunctionProviderCallback?: (mode: string) => void;
@@ -329,7 +641,7 @@ class RobotSensors extends React.Component {
     checkValidJointState(
         robotPose: RobotPose,
         jointValues: ValidJointStateDict,
-        effortValues: ValidJointStateDict,
+        effortValues: ValidJointStateDict
     ) {
         if (robotPose !== this.robotPose) {
             this.robotPose = robotPose;
@@ -387,8 +699,8 @@ class RobotSensors extends React.Component {
     setFunctionProviderCallback(
         callback: (
             inJointLimits: ValidJointStateDict,
-            inCollision: ValidJointStateDict,
-        ) => void,
+            inCollision: ValidJointStateDict
+        ) => void
     ) {
         this.functionProviderCallback = callback;
     }
@@ -400,7 +712,7 @@ class RobotSensors extends React.Component {
      * @param callback callback to function provider
      */
     setJointStateFunctionProviderCallback(
-        callback: (robotPose: RobotPose) => void,
+        callback: (robotPose: RobotPose) => void
     ) {
         this.jointStateFunctionProviderCallback = callback;
     }
@@ -481,7 +793,7 @@ class RobotSensors extends React.Component {
         wrist_roll: boolean,
         wrist_pitch: boolean,
         wrist_yaw: boolean,
-        gripper: boolean,
+        gripper: boolean
     ): RobotPose {
         let filteredPose: RobotPose = {};
         if (head) {
@@ -0,0 +1,55 @@
+import {
+    packSessionBundle,
+    SESSION_BUNDLE_VERSION,
+    SessionTimeline,
+    unpackSessionBundle,
+} from "shared/sessionbundle";
+
+const timeline: SessionTimeline = {
+    version: SESSION_BUNDLE_VERSION,
+    robot: "stretch-1",
+    startTime: 1700000000000,
+    duration: 2500,
+    videos: { overhead: "overhead.webm", gripper: "gripper.webm" },
+    jointStates: [],
+    mapPoses: [],
+    commands: [],
+};
+
+describe("session bundles", () => {
+    it("unpacks the timeline and videos it packed", async () => {
+        const overhead = "o".repeat(700); // spans more than one tar block
+        const gripper = "g".repeat(512); // fills its block exactly
+        const file = await packSessionBundle({
+            timeline: timeline,
+            videos: {
+                overhead: new Blob([overhead]),
+                gripper: new Blob([gripper]),
+            },
+        });
+        expect(file.size % 512).toBe(0);
+
+        const bundle = await unpackSessionBundle(file);
+        expect(bundle.timeline).toEqual(timeline);
+        expect(Object.keys(bundle.videos).sort()).toEqual([
+            "gripper",
+            "overhead",
+        ]);
+        expect(await bundle.videos.overhead.text()).toBe(overhead);
+        expect(await bundle.videos.gripper.text()).toBe(gripper);
+    });
+
+    it("rejects an archive without a timeline", async () => {
+        await expect(
+            unpackSessionBundle(new Blob([new Uint8Array(1024)]))
+        ).rejects.toThrow("Not a session recording");
+    });
+
+    it("rejects a recording from a newer version", async () => {
+        const file = await packSessionBundle({
+            timeline: { ...timeline, version: SESSION_BUNDLE_VERSION + 1 },
+            videos: {},
+        });
+        await expect(unpackSessionBundle(file)).rejects.toThrow("is newer");
+    });
+});
@@ -0,0 +1,160 @@
+import ROSLIB from "roslib";
+import { RobotPose, ValidJointStateDict } from "./util";
+import { cmd } from "./commands";
+
+/** Cameras whose video is recorded, named as in `WebRTCConnection.cameraInfo` */
+export const RECORDED_CAMERAS = ["overhead", "realsense", "gripper"];
+
+/** Name of the timeline file in a session bundle */
+const TIMELINE_FILE = "session.json";
+
+/** Version of the timeline format, bumped when it changes incompatibly */
+export const SESSION_BUNDLE_VERSION = 1;
+
+/** An event in a recorded session, `t` milliseconds after it started */
+export type TimedEvent<T> = { t: number } & T;
+
+/**
+ * Everything the operator received and sent during a recorded session,
+ * except the videos, which are stored next to it in the bundle.
+ */
+export interface SessionTimeline {
+    version: number;
+    /** Fleet ID of the robot, if the operator page was opened with one */
+    robot?: string;
+    /** Epoch time in milliseconds the recording started */
+    startTime: number;
+    /** Length of the recording in milliseconds */
+    duration: number;
+    /** Video file of each recorded camera */
+    videos: { [camera: string]: string };
+    jointStates: TimedEvent<{
+        robotPose: RobotPose;
+        jointsInLimits: ValidJointStateDict;
+        jointsInCollision: ValidJointStateDict;
+    }>[];
+    mapPoses: TimedEvent<{ pose: ROSLIB.Transform }>[];
+    commands: TimedEvent<{ command: cmd }>[];
+}
+
+export interface SessionBundle {
+    timeline: SessionTimeline;
+    videos: { [camera: string]: Blob };
+}
+
+/*
+ * Session bundles are tar archives, so they can also be unpacked with
+ * standard tools. Only the parts of the ustar format needed for plain files
+ * are written and read.
+ */
+const TAR_BLOCK_SIZE = 512;
+
+function writeTarString(
+    header: Uint8Array,
+    offset: number,
+    length: number,
+    value: string
+) {
+    header.set(new TextEncoder().encode(value).slice(0, length), offset);
+}
+
+function tarHeader(name: string, size: number, mtime: number) {
+    const header = new Uint8Array(TAR_BLOCK_SIZE);
+    writeTarString(header, 0, 100, name);
+    writeTarString(header, 100, 8, "0000644\0");
+    writeTarString(header, 108, 8, "0000000\0");
+    writeTarString(header, 116, 8, "0000000\0");
+    writeTarString(header, 124, 12, size.toString(8).padStart(11, "0") + "\0");
+    writeTarString(
+        header,
+        136,
+        12,
+        Math.floor(mtime / 1000)
+            .toString(8)
+            .padStart(11, "0") + "\0"
+    );
+    writeTarString(header, 148, 8, "        "); // counted as spaces
+    writeTarString(header, 156, 1, "0");
+    writeTarString(header, 257, 8, "ustar\u000000");
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    writeTarString(
+        header,
+        148,
+        8,
+        checksum.toString(8).padStart(6, "0") + "\0 "
+    );
+    return header;
+}
+
+/**
+ * Packs a recorded session into a single file the operator can download.
+ *
+ * @param bundle the timeline and videos of the session
+ * @returns the tar archive
+ */
+export async function packSessionBundle(bundle: SessionBundle): Promise<Blob> {
+    const files: [string, Blob][] = [
+        [
+            TIMELINE_FILE,
+            new Blob([JSON.stringify(bundle.timeline)], {
+                type: "application/json",
+            }),
+        ],
+    ];
+    Object.entries(bundle.videos).forEach(([camera, video]) =>
+        files.push([bundle.timeline.videos[camera], video])
+    );
+
+    const parts: BlobPart[] = [];
+    files.forEach(([name, blob]) => {
+        parts.push(tarHeader(name, blob.size, bundle.timeline.startTime));
+        parts.push(blob);
+        const padding =
+            (TAR_BLOCK_SIZE - (blob.size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+        parts.push(new Uint8Array(padding));
+    });
+    parts.push(new Uint8Array(2 * TAR_BLOCK_SIZE)); // end of archive
+    return new Blob(parts, { type: "application/x-tar" });
+}
+
+/**
+ * Unpacks a session bundle written by {@link packSessionBundle}.
+ *
+ * @param file the tar archive
+ * @returns the timeline and videos of the session
+ */
+export async function unpackSessionBundle(file: Blob): Promise<SessionBundle> {
+    const files: { [name: string]: Blob } = {};
+    let offset = 0;
+    while (offset + TAR_BLOCK_SIZE <= file.size) {
+        const header = new Uint8Array(
+            await file.slice(offset, offset + TAR_BLOCK_SIZE).arrayBuffer()
+        );
+        const name = new TextDecoder()
+            .decode(header.slice(0, 100))
+            .replace(/\0.*$/s, "");
+        if (!name) break; // end of archive
+        const size = parseInt(
+            new TextDecoder().decode(header.slice(124, 136)).trim(),
+            8
+        );
+        offset += TAR_BLOCK_SIZE;
+        files[name] = file.slice(offset, offset + size);
+        offset += Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+    }
+
+    if (!files[TIMELINE_FILE])
+        throw Error(`Not a session recording: ${TIMELINE_FILE} is missing`);
+    const timeline: SessionTimeline = JSON.parse(
+        await files[TIMELINE_FILE].text()
+    );
+    if (timeline.version > SESSION_BUNDLE_VERSION)
+        throw Error(
+            `Session recording version ${timeline.version} is newer than this page supports`
+        );
+    const videos: { [camera: string]: Blob } = {};
+    Object.entries(timeline.videos).forEach(([camera, name]) => {
+        if (files[name]) videos[camera] = files[name];
+    });
+    return { timeline: timeline, videos: videos };
+}
@@ -78,9 +78,9 @@ export class FirebaseSignaling extends BaseSignaling {
                                         // We can ignore the robots the operator cannot access
                                         // console.error(error.message, "Cannot access: ", "robots/" + robo_uid);
                                     });
-                            },
+                            }
                         );
-                    },
+                    }
                 );
             }
         });
@@ -116,7 +116,7 @@ export class FirebaseSignaling extends BaseSignaling {
                                         "rooms/" +
                                             this.room_uid +
                                             "/" +
-                                            opposite_role,
+                                            opposite_role
                                     ),
                                     (snapshot) => {
                                         if (this.is_joined) {
@@ -129,7 +129,7 @@ export class FirebaseSignaling extends BaseSignaling {
                                                     !(key in this.prevSignal) ||
                                                     !isEqual(
                                                         currSignal[key],
-                                                        this.prevSignal[key],
+                                                        this.prevSignal[key]
                                                     )
                                                 ) {
                                                     changes[key] =
@@ -141,18 +141,18 @@ export class FirebaseSignaling extends BaseSignaling {
                                             // Trigger callbacks based on what's changed
                                             if (
                                                 Object.keys(changes).includes(
-                                                    "candidate",
+                                                    "candidate"
                                                 ) ||
                                                 Object.keys(changes).includes(
-                                                    "sessionDescription",
+                                                    "sessionDescription"
                                                 ) ||
                                                 Object.keys(changes).includes(
-                                                    "cameraInfo",
+                                                    "cameraInfo"
                                                 )
                                             ) {
                                                 if (
                                                     Object.keys(
-                                                        changes,
+                                                        changes
                                                     ).includes("active")
                                                 ) {
                                                     delete changes["active"];
@@ -161,7 +161,7 @@ export class FirebaseSignaling extends BaseSignaling {
                                             }
                                             if (
                                                 Object.keys(changes).includes(
-                                                    "active",
+                                                    "active"
                                                 ) &&
                                                 !changes["active"]
                                             ) {
@@ -170,12 +170,11 @@ export class FirebaseSignaling extends BaseSignaling {
                                                     update(
                                                         ref(
                                                             this.db,
-                                                            "robots/" +
-                                                                this.uid,
+                                                            "robots/" + this.uid
                                                         ),
                                                         {
                                                             status: "online",
-                                                        },
+                                                        }
                                                     );
                                                 }
                                                 this.onGoodbye();
@@ -183,32 +182,32 @@ export class FirebaseSignaling extends BaseSignaling {
                                             if (
                                                 this.role === "robot" &&
                                                 Object.keys(changes).includes(
-                                                    "active",
+                                                    "active"
                                                 ) &&
                                                 changes["active"]
                                             ) {
                                                 console.log(
-                                                    `Operator has joined the room. My role: ${this.role}.`,
+                                                    `Operator has joined the room. My role: ${this.role}.`
                                                 );
                                                 update(
                                                     ref(
                                                         this.db,
-                                                        "robots/" + this.uid,
+                                                        "robots/" + this.uid
                                                     ),
                                                     {
                                                         status: "occupied",
-                                                    },
+                                                    }
                                                 );
                                                 if (this.onRobotConnectionStart)
                                                     this.onRobotConnectionStart();
                                             }
                                         }
-                                    },
+                                    }
                                 );
 
                                 resolve();
                             });
-                        },
+                        }
                     );
                 }
             });
@@ -220,8 +219,8 @@ export class FirebaseSignaling extends BaseSignaling {
             get(
                 ref(
                     this.db,
-                    "rooms/" + this.room_uid + "/" + this.role + "/active",
-                ),
+                    "rooms/" + this.room_uid + "/" + this.role + "/active"
+                )
             ).then((snapshot) => {
                 let is_active = snapshot.val();
                 if (false) {
@@ -232,11 +231,11 @@ export class FirebaseSignaling extends BaseSignaling {
                     set(
                         ref(
                             this.db,
-                            "rooms/" + this.room_uid + "/" + this.role,
+                            "rooms/" + this.room_uid + "/" + this.role
                         ),
                         {
                             active: true,
-                        },
+                        }
                     ).then(() => {
                         this.is_joined = true;
                         update(ref(this.db, "robots/" + this.uid), {
@@ -249,14 +248,14 @@ export class FirebaseSignaling extends BaseSignaling {
         });
     }
 
-    public join_as_operator(): Promise<boolean> {
+    public join_as_operator(name?: string): Promise<boolean> {
         return new Promise<boolean>((resolve) => {
             let opposite_role = this.role === "robot" ? "operator" : "robot";
             get(
                 ref(
                     this.db,
-                    "rooms/" + this.room_uid + "/" + opposite_role + "/active",
-                ),
+                    "rooms/" + this.room_uid + "/" + opposite_role + "/active"
+                )
             ).then((snapshot) => {
                 let is_robot_active = snapshot.val();
                 if (!is_robot_active) {
@@ -270,8 +269,8 @@ export class FirebaseSignaling extends BaseSignaling {
                                 this.room_uid +
                                 "/" +
                                 this.role +
-                                "/active",
-                        ),
+                                "/active"
+                        )
                     ).then((snapshot2) => {
                         let is_operator_active = snapshot2.val();
                         if (is_operator_active) {
@@ -281,11 +280,11 @@ export class FirebaseSignaling extends BaseSignaling {
                             set(
                                 ref(
                                     this.db,
-                                    "rooms/" + this.room_uid + "/" + this.role,
+                                    "rooms/" + this.room_uid + "/" + this.role
                                 ),
                                 {
                                     active: true,
-                                },
+                                }
                             ).then(() => {
                                 this.is_joined = true;
                                 resolve(true);
@@ -297,6 +296,12 @@ export class FirebaseSignaling extends BaseSignaling {
         });
     }
 
+    public join_as_observer(name?: string): Promise<boolean> {
+        // Firebase rooms hold a single operator and robot
+        console.error("Observers are not supported with Firebase signaling");
+        return Promise.resolve(false);
+    }
+
     public leave(): void {
         if (this.is_joined) {
             this.is_joined = false;
@@ -316,7 +321,7 @@ export class FirebaseSignaling extends BaseSignaling {
         if (this.is_joined) {
             update(
                 ref(this.db, "rooms/" + this.room_uid + "/" + this.role),
-                signal,
+                signal
             );
         }
     }
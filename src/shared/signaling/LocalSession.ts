@@ -0,0 +1,32 @@
+/**
+ * Key under which the session token from the local signaling server is
+ * stored. Logins the user asked to remember are kept in local storage, other
+ * logins only last as long as the browser tab.
+ */
+const SESSION_TOKEN_KEY = "localSessionToken";
+
+/** @returns the token of the current session, if the user logged in */
+export function getSessionToken(): string | undefined {
+    return (
+        sessionStorage.getItem(SESSION_TOKEN_KEY) ||
+        localStorage.getItem(SESSION_TOKEN_KEY) ||
+        undefined
+    );
+}
+
+/**
+ * @param token the token the server returned on login
+ * @param remember whether the session should outlive the browser tab
+ */
+export function storeSessionToken(token: string, remember: boolean) {
+    clearSessionToken();
+    (remember ? localStorage : sessionStorage).setItem(
+        SESSION_TOKEN_KEY,
+        token
+    );
+}
+
+export function clearSessionToken() {
+    sessionStorage.removeItem(SESSION_TOKEN_KEY);
+    localStorage.removeItem(SESSION_TOKEN_KEY);
+}
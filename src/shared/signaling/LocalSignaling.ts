@@ -1,6 +1,8 @@
 import { SignallingMessage } from "shared/util";
-import { BaseSignaling, SignalingProps } from "./Signaling";
+import { BaseSignaling, ParticipantRole, SignalingProps } from "./Signaling";
 import io, { Socket } from "socket.io-client";
+import { PROTOCOL_VERSION } from "shared/protocol";
+import { getSessionToken } from "./LocalSession";
 
 export class LocalSignaling extends BaseSignaling {
     private socket: Socket;
@@ -15,43 +17,95 @@ export class LocalSignaling extends BaseSignaling {
         this.socket.on("signalling", (signal: SignallingMessage) => {
             this.onSignal(signal);
         });
-        this.socket.on("bye", () => {
-            this.onGoodbye();
-        });
-        this.socket.on("joined", () => {
-            console.log(`Operator has joined the room. My role: ${this.role}.`);
-            if (this.onRobotConnectionStart) this.onRobotConnectionStart();
+        this.socket.on("bye", (peerId?: string) => {
+            this.onGoodbye(peerId);
         });
+        this.socket.on(
+            "joined",
+            (participant: {
+                id: string;
+                role: ParticipantRole;
+                name?: string;
+            }) => {
+                console.log(
+                    `${participant.role} ${participant.id} has joined the room. My role: ${this.role}.`
+                );
+                if (this.onRobotConnectionStart)
+                    this.onRobotConnectionStart(
+                        participant.id,
+                        participant.role,
+                        participant.name
+                    );
+            }
+        );
     }
 
+    /**
+     * Selects the robot room that later joins use. The server falls back to
+     * the room of the robot it runs on if the name is empty.
+     */
     public configure(room_name: string): Promise<void> {
         return new Promise<void>((resolve) => {
-            resolve();
+            this.socket.emit("configure", room_name, () => resolve());
         });
     }
 
     public join_as_robot(): Promise<boolean> {
         return new Promise<boolean>((resolve) => {
-            this.socket.emit("join_as_robot", (response) => {
+            const info = {
+                protocol: PROTOCOL_VERSION,
+                token: getSessionToken(),
+            };
+            this.socket.emit("join_as_robot", info, (response) => {
                 if (response.success) {
                     this.role = "robot";
+                } else if (response.reason === "unauthorized") {
+                    console.error(
+                        "The robot page must be opened by start_robot_browser.js, or log in as a user allowed on the robot"
+                    );
                 }
                 resolve(response.success);
             });
         });
     }
 
-    public join_as_operator(): Promise<boolean> {
+    public join_as_operator(name?: string): Promise<boolean> {
         return new Promise<boolean>((resolve) => {
-            this.socket.emit("join_as_operator", (response) => {
+            const info = { name: name, token: getSessionToken() };
+            this.socket.emit("join_as_operator", info, (response) => {
                 if (response.success) {
                     this.role = "operator";
+                } else if (response.reason === "unauthorized") {
+                    this.redirectToLogin();
                 }
                 resolve(response.success);
             });
         });
     }
 
+    public join_as_observer(name?: string): Promise<boolean> {
+        return new Promise<boolean>((resolve) => {
+            const info = { name: name, token: getSessionToken() };
+            this.socket.emit("join_as_observer", info, (response) => {
+                if (response.success) {
+                    this.role = "observer";
+                } else if (response.reason === "unauthorized") {
+                    this.redirectToLogin();
+                }
+                resolve(response.success);
+            });
+        });
+    }
+
+    /**
+     * Sends a participant whose session expired, or who may not access the
+     * robot, back to the home page to log in.
+     */
+    private redirectToLogin() {
+        console.error("Not authorized to join this robot");
+        window.location.href = "/";
+    }
+
     public leave(): void {
         console.log(`Leaving. My role: ${this.role}.`);
         this.socket.emit("bye", this.role);
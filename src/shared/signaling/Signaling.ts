@@ -1,15 +1,34 @@
 import { SignallingMessage } from "shared/util";
 
+/** Role of a browser that joins a robot's room */
+export type ParticipantRole = "operator" | "observer";
+
 export interface SignalingProps {
     onSignal: (SignallingMessage) => void;
-    onGoodbye?: () => void;
-    onRobotConnectionStart?: () => void;
+    /**
+     * Called when the peer leaves. On the robot, `peerId` is the participant
+     * that left, or undefined if every participant should be dropped.
+     */
+    onGoodbye?: (peerId?: string) => void;
+    /**
+     * Called on the robot when a participant joins its room. Signaling
+     * backends that only support a single operator leave `peerId` undefined.
+     */
+    onRobotConnectionStart?: (
+        peerId?: string,
+        role?: ParticipantRole,
+        name?: string
+    ) => void;
 }
 
 export abstract class BaseSignaling {
     public onSignal: (SignallingMessage) => void;
-    public onGoodbye?: () => void;
-    public onRobotConnectionStart?: () => void;
+    public onGoodbye?: (peerId?: string) => void;
+    public onRobotConnectionStart?: (
+        peerId?: string,
+        role?: ParticipantRole,
+        name?: string
+    ) => void;
 
     constructor(props: SignalingProps) {
         this.onSignal = props.onSignal;
@@ -26,8 +45,16 @@ export abstract class BaseSignaling {
 
     /**
      * Joins the signaling room as an operator
+     * @param name name shown to the other participants
+     */
+    public abstract join_as_operator(name?: string): Promise<boolean>;
+
+    /**
+     * Joins the signaling room as an observer, who receives the robot's
+     * video, audio and state but cannot control it
+     * @param name name shown to the other participants
      */
-    public abstract join_as_operator(): Promise<boolean>;
+    public abstract join_as_observer(name?: string): Promise<boolean>;
 
     /**
      * Leaves the signaling room
@@ -35,7 +62,8 @@ export abstract class BaseSignaling {
     public abstract leave(): void;
 
     /**
-     * Send offer and meta info to peer
+     * Send offer and meta info to peer. The robot sets `signal.peerId` to
+     * address one of the participants.
      */
     public abstract send(signal: SignallingMessage): void;
 }
@@ -1,5 +1,6 @@
 import ROSLIB, { Message } from "roslib";
 import { cmd } from "./commands";
+import { ProtocolMessage } from "./protocol";
 
 export type ValidJoints =
     | "joint_head_tilt"
@@ -64,7 +65,7 @@ export function getStretchTool(stretchTool: string) {
         return StretchTool.TABLET;
     } else if (
         ["eoa_wrist_dw3_tool_sg3", "tool_stretch_dex_wrist"].includes(
-            stretchTool,
+            stretchTool
         )
     ) {
         return StretchTool.DEX_GRIPPER;
@@ -94,10 +95,29 @@ export interface CameraInfo {
     [key: string]: string;
 }
 
+/** Quality of an incoming media stream, sampled from the peer connection */
+export interface StreamQuality {
+    /** Decoded frames per second, undefined for audio */
+    framesPerSecond?: number;
+    /** Jitter in milliseconds */
+    jitter: number;
+    /** Fraction of packets lost since the previous sample, from 0 to 1 */
+    packetLoss: number;
+}
+
+export interface ConnectionQuality {
+    /** Round trip time of the data channel in milliseconds, if known */
+    roundTripTime?: number;
+    /** Quality of each incoming stream, keyed by the name in {@link CameraInfo} */
+    streams: { [streamName: string]: StreamQuality };
+}
+
 export interface SignallingMessage {
     candidate?: RTCIceCandidate;
     sessionDescription?: RTCSessionDescription;
     cameraInfo?: CameraInfo;
+    /** On the robot, the participant the signal is from or addressed to */
+    peerId?: string;
 }
 
 export interface Transform {
@@ -107,16 +127,25 @@ export interface Transform {
 export type WebRTCMessage =
     | ValidJointStateMessage
     | OccupancyGridMessage
+    | MapsMessage
     | MapPoseMessage
+    | NavigationPlanMessage
+    | LaserScanMessage
     | StopTrajectoryMessage
     | StopMoveBaseMessage
-    | FollowJointTrajectoryActionResultMessage
+    | GoalStatusMessage
+    | ActionStateMessage
+    | CommandResultMessage
+    | VelocityWatchdogMessage
+    | ControlRequestMessage
+    | ControlStateMessage
     | BatteryVoltageMessage
     | ModeMessage
     | IsHomedMessage
     | IsRunStoppedMessage
     | HasBetaTeleopKitMessage
     | StretchToolMessage
+    | ProtocolMessage
     | cmd;
 
 interface StopTrajectoryMessage {
@@ -166,6 +195,11 @@ export interface FollowJointTrajectoryActionResultMessage {
     message: FollowJointTrajectoryActionResult;
 }
 
+export interface GoalStatusMessage {
+    type: "goalStatus";
+    message: ActionState;
+}
+
 export interface FollowJointTrajectoryActionResult {
     header: string;
     status: GoalStatus;
@@ -177,6 +211,10 @@ export interface ActionStatusList {
 }
 
 export interface ActionStatus {
+    goal_info: {
+        /** Rosbridge sends the UUID's bytes as an array or in base64 */
+        goal_id: { uuid: number[] | string };
+    };
     status: number;
 }
 
@@ -192,20 +230,131 @@ export interface ActionState {
 }
 
 export interface ActionStateMessage {
-    type: string;
+    type: "moveBaseState" | "moveToPregraspState" | "showTabletState";
+    message: ActionState;
+}
+
+/** Sent when the robot stopped a motion whose heartbeats stopped arriving */
+export interface VelocityWatchdogMessage {
+    type: "velocityWatchdog";
     message: ActionState;
 }
 
+/** Forwarded to the operator in control when another operator asks for it */
+export interface ControlRequestMessage {
+    type: "controlRequest";
+    /** Participant to pass to `grantControl` to hand off control */
+    participantId: string;
+    name: string;
+}
+
+/** Sent to every participant whenever control of the robot changes hands */
+export interface ControlStateMessage {
+    type: "controlState";
+    /** Name of the operator in control, if any */
+    controller?: string;
+    /** Whether the receiving participant is the one in control */
+    hasControl: boolean;
+}
+
+/**
+ * Outcome of a command sent with a request ID:
+ * - accepted: the robot started a long-running command, a completed or
+ *   failed result follows
+ * - rejected: the robot could not start the command
+ * - completed: the command finished successfully
+ * - failed: the command started but did not finish successfully
+ */
+export type CommandStatus = "accepted" | "rejected" | "completed" | "failed";
+
+export interface CommandResultMessage {
+    type: "commandResult";
+    /** ID of the command this result belongs to */
+    id: number;
+    /** Type of the command this result belongs to */
+    commandType: string;
+    status: CommandStatus;
+    /** Human readable reason, set for rejected and failed commands */
+    message?: string;
+}
+
+/**
+ * Kinds of events in the session audit log:
+ * - command: a message a participant sent to the robot
+ * - commandResult: the robot rejected a command, or reported its outcome
+ * - actionState: progress or outcome of a long-running action
+ * - runStop, mode: the robot's run-stop or mode changed
+ * - connection: a participant joined or left
+ */
+export type AuditEvent =
+    | "command"
+    | "commandResult"
+    | "actionState"
+    | "runStop"
+    | "mode"
+    | "connection";
+
+/** One line of the session audit log the robot keeps on its host */
+export interface AuditLogEntry {
+    /** ISO 8601 time the robot recorded the event */
+    time: string;
+    /** Fleet ID of the robot */
+    robot: string;
+    /** Start time of the session, which lasts while anyone is connected */
+    session?: string;
+    participant?: { id: string; name?: string; role: string };
+    event: AuditEvent;
+    /** Command, action or connection event type, e.g. "driveBase" */
+    type: string;
+    data?: any;
+}
+
 export interface OccupancyGridMessage {
     type: "occupancyGrid";
     message: ROSOccupancyGrid;
 }
 
+/** The maps the robot can load, and the one it is using */
+export interface MapsMessage {
+    type: "maps";
+    /** Names of the maps, without their `.yaml` extension */
+    maps: string[];
+    /** Name of the map the robot is using, if it is one of them */
+    active?: string;
+}
+
 export interface MapPoseMessage {
     type: "amclPose";
     message: ROSLIB.Transform;
 }
 
+/**
+ * The route Nav2 planned to the navigation goal and the costs it sees around
+ * the robot, in the map frame. The robot only sends the parts that changed,
+ * and empty paths once the robot stops navigating.
+ */
+export interface NavigationPlanMessage {
+    type: "navigationPlan";
+    /** Path from the robot to the goal, from the planner */
+    global?: ROSPoint[];
+    /** Path the controller follows over the next few seconds */
+    local?: ROSPoint[];
+    /** Local costmap, 0 is free and 100 is an obstacle */
+    costmap?: ROSOccupancyGrid;
+}
+
+export type NavigationPlan = Omit<NavigationPlanMessage, "type">;
+
+/**
+ * What the robot's laser scanner sees, thinned out, as points in the robot's
+ * base frame. Places the map shows as free may be blocked by people or
+ * furniture that were not there when it was made.
+ */
+export interface LaserScanMessage {
+    type: "laserScan";
+    points: ROSPoint[];
+}
+
 export interface BatteryVoltageMessage {
     type: "batteryVoltage";
     message: number;
@@ -260,6 +409,17 @@ export interface ROSOccupancyGrid {
     data: number[];
 }
 
+/**
+ * Identifies a map by its size, resolution and origin, which stay the same
+ * when the robot reloads the map but differ between maps.
+ * @param info metadata of the occupancy grid
+ * @returns a short description of the map
+ */
+export function mapIdentity(info: ROSMapMetaData): string {
+    const origin = info.origin.position;
+    return `${info.width}x${info.height}@${info.resolution} (${origin.x.toFixed(2)}, ${origin.y.toFixed(2)})`;
+}
+
 export const STOW_WRIST_GRIPPER: RobotPose = {
     joint_wrist_roll: 0.0,
     joint_wrist_pitch: -0.497,
@@ -410,14 +570,14 @@ export function generateUUID(): uuid {
             var r = (Math.random() * 16) | 0,
                 v = c == "x" ? r : (r & 0x3) | 0x8;
             return v.toString(16);
-        },
+        }
     );
 }
 
 export async function waitUntil(
     condition,
     timeout = 5000,
-    checkInterval = 100,
+    checkInterval = 100
 ) {
     let interval;
     let waitPromise = new Promise((resolve) => {
@@ -433,7 +593,7 @@ export async function waitUntil(
         setTimeout(() => {
             clearInterval(interval);
             resolve(false);
-        }, timeout),
+        }, timeout)
     );
     return await Promise.any([waitPromise, timeoutPromise]);
 }
@@ -441,7 +601,7 @@ export async function waitUntil(
 export async function waitUntilAsync(
     condition,
     timeout = 5000,
-    checkInterval = 100,
+    checkInterval = 100
 ) {
     let interval;
     let waitPromise = new Promise((resolve) => {
@@ -458,7 +618,7 @@ export async function waitUntilAsync(
         setTimeout(() => {
             clearInterval(interval);
             resolve(false);
-        }, timeout),
+        }, timeout)
     );
     return await Promise.any([waitPromise, timeoutPromise]);
 }
@@ -487,3 +647,19 @@ export function className(baseName: string, flags: {}): string {
     }
     return className;
 }
+
+/**
+ * Saves a file to the user's downloads folder.
+ *
+ * @param file contents of the file
+ * @param filename name the file is saved as
+ */
+export function downloadFile(file: Blob, filename: string) {
+    const url = URL.createObjectURL(file);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Give the browser time to start the download before releasing it
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -1,8 +1,26 @@
 import React from "react";
-import { CameraInfo, SignallingMessage, WebRTCMessage } from "shared/util";
+import {
+    CameraInfo,
+    ConnectionQuality,
+    SignallingMessage,
+    StreamQuality,
+    WebRTCMessage,
+} from "shared/util";
 import { safelyParseJSON, generateUUID } from "shared/util";
-import { BaseSignaling } from "shared/signaling/Signaling";
+import { BaseSignaling, ParticipantRole } from "shared/signaling/Signaling";
 import { createSignaler } from "shared/signaling/get_signaler";
+import {
+    LEGACY_PROTOCOL_VERSION,
+    PROTOCOL_VERSION,
+    ProtocolError,
+    ProtocolErrorCode,
+    ProtocolHandshakeMessage,
+    ProtocolPingMessage,
+    ProtocolPongMessage,
+    isCompatibleVersion,
+    isSupportedByPeer,
+    validateMessage,
+} from "shared/protocol";
 
 const peerConstraints = {
     iceServers: [
@@ -12,20 +30,44 @@ const peerConstraints = {
     ],
 };
 
+/** How long ICE may stay disconnected before it is restarted */
+const ICE_DISCONNECTED_GRACE_MS = 3000;
+/** How long an ICE restart may take to recover a failed connection */
+const ICE_RESTART_TIMEOUT_MS = 5000;
+/**
+ * How long to wait for the peer's handshake after the data channel opens,
+ * before assuming the peer predates the handshake
+ */
+const HANDSHAKE_TIMEOUT_MS = 2000;
+
 interface WebRTCProps {
     peerRole: "operator" | "robot";
     polite: boolean;
     onTrackAdded?: (ev: RTCTrackEvent) => void;
     onMessage: (message: WebRTCMessage) => void;
     onRobotConnectionStart?: () => void;
+    /**
+     * Called once the data channel is open and the peer's protocol version
+     * is known, so messages sent from it reach the peer
+     */
     onMessageChannelOpen?: () => void;
     onConnectionEnd?: () => void;
+    /** Signaler shared with other connections, instead of creating one */
+    signaler?: BaseSignaling;
+    /** Participant at the other end, when the signaler is shared */
+    peerId?: string;
 }
 
-export class WebRTCConnection extends React.Component {
+export class WebRTCConnection extends React.Component<WebRTCProps> {
     private signaler: BaseSignaling;
+    private sharesSignaler: boolean;
+    private peerId?: string;
     private peerConnection?: RTCPeerConnection;
-    private peerRole: string;
+    private peerRole: "operator" | "robot";
+    private peerProtocolVersion: number = LEGACY_PROTOCOL_VERSION;
+    /** Whether the peer's protocol version is known on the open channel */
+    private peerReady = false;
+    private handshakeTimeout?: number; // ReturnType<typeof setTimeout>
     private polite: boolean;
     private makingOffer = false;
     private ignoreOffer: boolean = false;
@@ -34,6 +76,17 @@ export class WebRTCConnection extends React.Component {
     private dataChannelReceivedByteCount: number = 0;
     private dataChannelReceivedTimestamp: number = 0;
     private dataChannelConnectionState: boolean = false;
+    private qualityMonitorInterval?: number; // ReturnType<typeof setInterval>
+    private pingSeq: number = 0;
+    /** Send time of each ping that has not been answered yet, keyed by seq */
+    private pendingPings: { [seq: number]: number } = {};
+    private roundTripTime?: number;
+    /** Id of the stream each incoming track belongs to, keyed by track id */
+    private trackStreamIds: { [trackId: string]: string } = {};
+    /** Packet counters from the previous sample, keyed by track id */
+    private previousPacketCounts: {
+        [trackId: string]: { lost: number; received: number };
+    } = {};
     public robotAvailable: boolean;
 
     cameraInfo: CameraInfo = {};
@@ -59,11 +112,15 @@ export class WebRTCConnection extends React.Component {
 
         this.onSignal = this.onSignal.bind(this);
         this.stop = this.stop.bind(this);
-        this.signaler = createSignaler({
-            onSignal: this.onSignal,
-            onGoodbye: this.stop,
-            onRobotConnectionStart: props.onRobotConnectionStart,
-        });
+        this.peerId = props.peerId;
+        this.sharesSignaler = props.signaler !== undefined;
+        this.signaler =
+            props.signaler ||
+            createSignaler({
+                onSignal: this.onSignal,
+                onGoodbye: this.stop,
+                onRobotConnectionStart: props.onRobotConnectionStart,
+            });
     }
 
     configure_signaler(room_name: string) {
@@ -81,19 +138,37 @@ export class WebRTCConnection extends React.Component {
         this.messageChannel = this.peerConnection.createDataChannel("messages");
         this.messageChannel.onmessage =
             this.onReceiveMessageCallback.bind(this);
+        this.messageChannel.onopen = () => this.sendHandshake();
+    }
+
+    /**
+     * Sends a signal to the peer, addressed to it if the signaler is shared.
+     */
+    private sendSignal(signal: SignallingMessage) {
+        if (this.peerId !== undefined) signal.peerId = this.peerId;
+        this.signaler.send(signal);
     }
 
     createPeerConnection() {
+        // A new peer may be running a different build, so forget the
+        // protocol version negotiated with the previous one.
+        this.peerProtocolVersion = LEGACY_PROTOCOL_VERSION;
+        this.peerReady = false;
+        clearTimeout(this.handshakeTimeout);
         try {
             this.peerConnection = new RTCPeerConnection(peerConstraints);
             this.peerConnection.onicecandidate = (event) => {
                 console.log("ICE candidate available");
-                this.signaler.send({
+                this.sendSignal({
                     candidate: event.candidate!,
                 });
             };
 
-            this.peerConnection.ontrack = this.onTrackAdded!;
+            this.peerConnection.ontrack = (event) => {
+                if (event.streams[0])
+                    this.trackStreamIds[event.track.id] = event.streams[0].id;
+                if (this.onTrackAdded) this.onTrackAdded(event);
+            };
 
             this.peerConnection.ondatachannel = (event) => {
                 // The remote has opened a data channel. We'll set up different handlers for the different channels.
@@ -106,17 +181,14 @@ export class WebRTCConnection extends React.Component {
                             throw "messageChannel is undefined";
                         const readyState = this.messageChannel.readyState;
                         console.log("Data channel state is: " + readyState);
-                        if (readyState === "open") {
-                            if (this.onMessageChannelOpen)
-                                this.onMessageChannelOpen();
-                        }
+                        if (readyState === "open") this.sendHandshake();
                     };
                     this.messageChannel.onopen = onDataChannelStateChange;
                     this.messageChannel.onclose = onDataChannelStateChange;
                 } else {
                     console.error(
                         "Unknown channel opened:",
-                        event.channel.label,
+                        event.channel.label
                     );
                 }
             };
@@ -129,7 +201,7 @@ export class WebRTCConnection extends React.Component {
                         throw "peerConnection is undefined";
                     await this.peerConnection.setLocalDescription();
                     if (this.peerConnection.localDescription) {
-                        this.signaler.send({
+                        this.sendSignal({
                             sessionDescription:
                                 this.peerConnection.localDescription,
                             cameraInfo: this.cameraInfo,
@@ -142,26 +214,40 @@ export class WebRTCConnection extends React.Component {
                 }
             };
 
-            this.peerConnection.oniceconnectionstatechange = () => {
-                if (!this.peerConnection) throw "peerConnection is undefined";
-                if (this.peerConnection.iceConnectionState === "failed") {
-                    this.peerConnection.restartIce();
+            const peerConnection = this.peerConnection;
+            peerConnection.oniceconnectionstatechange = () => {
+                const state = peerConnection.iceConnectionState;
+                if (state === "failed") {
+                    peerConnection.restartIce();
+                } else if (state === "disconnected") {
+                    // Disconnections are often transient, e.g. while switching
+                    // networks, so only restart ICE if they last
+                    window.setTimeout(() => {
+                        if (
+                            peerConnection.iceConnectionState === "disconnected"
+                        )
+                            peerConnection.restartIce();
+                    }, ICE_DISCONNECTED_GRACE_MS);
                 }
             };
 
-            this.peerConnection.onconnectionstatechange = () => {
-                if (!this.peerConnection) throw "pc is undefined";
-                console.log(this.peerConnection.connectionState);
-                if (this.peerConnection.connectionState === "failed") {
-                    console.error(
-                        this.peerConnection.connectionState,
-                        "Resetting the PeerConnection",
-                    );
-                    if (this.onConnectionEnd) this.onConnectionEnd();
-                    this.createPeerConnection();
-                    this.peerRole == "operator"
-                        ? this.addOperatorToRobotRoom()
-                        : this.joinRobotRoom();
+            peerConnection.onconnectionstatechange = () => {
+                console.log(peerConnection.connectionState);
+                if (peerConnection.connectionState === "failed") {
+                    console.error("Connection failed, restarting ICE");
+                    peerConnection.restartIce();
+                    window.setTimeout(() => {
+                        if (
+                            this.peerConnection !== peerConnection ||
+                            peerConnection.connectionState === "connected"
+                        )
+                            return;
+                        console.error(
+                            peerConnection.connectionState,
+                            "Resetting the PeerConnection"
+                        );
+                        this.resetPeerConnection();
+                    }, ICE_RESTART_TIMEOUT_MS);
                 }
             };
 
@@ -170,19 +256,33 @@ export class WebRTCConnection extends React.Component {
                     "ICE candidate gathering error:",
                     event.errorCode,
                     " ",
-                    event.errorText,
+                    event.errorText
                 );
             };
 
             console.log("Created RTCPeerConnection");
         } catch (e: any) {
             console.error(
-                "Failed to create PeerConnection, exception: " + e.message,
+                "Failed to create PeerConnection, exception: " + e.message
             );
             return;
         }
     }
 
+    /**
+     * Replaces a peer connection that could not be recovered. The robot
+     * rejoins its room to wait for the operator, while the operator is
+     * expected to reconnect from `onConnectionEnd`. Connections that share
+     * a signaler are cleaned up by its owner instead.
+     */
+    private resetPeerConnection() {
+        if (this.onConnectionEnd) this.onConnectionEnd();
+        if (this.peerRole == "robot" && !this.sharesSignaler) {
+            this.createPeerConnection();
+            this.joinRobotRoom();
+        }
+    }
+
     connectionState() {
         return this.peerConnection?.connectionState;
     }
@@ -192,9 +292,14 @@ export class WebRTCConnection extends React.Component {
         return this.signaler.join_as_robot();
     }
 
-    addOperatorToRobotRoom() {
+    addOperatorToRobotRoom(name?: string) {
         console.log("joining room as operator");
-        return this.signaler.join_as_operator();
+        return this.signaler.join_as_operator(name);
+    }
+
+    addObserverToRobotRoom(name?: string) {
+        console.log("joining room as observer");
+        return this.signaler.join_as_observer(name);
     }
 
     addTrack(track: MediaStreamTrack, stream: MediaStream, streamName: string) {
@@ -225,6 +330,17 @@ export class WebRTCConnection extends React.Component {
         this.createPeerConnection();
     }
 
+    /**
+     * Ends the session for good. Unlike {@link stop}, it does not create a
+     * new peer connection for the next session.
+     */
+    close() {
+        if (!this.peerConnection) throw "peerConnection is undefined";
+        this.stopQualityMonitor();
+        clearTimeout(this.handshakeTimeout);
+        this.peerConnection.close();
+    }
+
     removeTracks() {
         if (!this.peerConnection) throw "peerConnection is undefined";
         const senders = this.peerConnection.getSenders();
@@ -276,7 +392,7 @@ export class WebRTCConnection extends React.Component {
                 .then(() => {
                     if (!this.peerConnection?.localDescription)
                         throw "peerConnection is undefined";
-                    this.signaler.send({
+                    this.sendSignal({
                         sessionDescription:
                             this.peerConnection.localDescription,
                     });
@@ -308,15 +424,232 @@ export class WebRTCConnection extends React.Component {
             // console.warn("Trying to send data, but data channel isn't ready")
             return;
         }
+        // Drop messages the peer's protocol version does not understand,
+        // rather than having the peer silently ignore them.
+        if (obj instanceof Array) {
+            obj = obj.filter((message) => this.isSupportedByPeer(message));
+            if (obj.length === 0) return;
+        } else if (!this.isSupportedByPeer(obj)) {
+            return;
+        }
         const data = JSON.stringify(obj);
         this.messageChannel.send(data);
     }
 
     onReceiveMessageCallback(event: { data: string }) {
         const obj: WebRTCMessage | WebRTCMessage[] = safelyParseJSON(
-            event.data,
+            event.data
+        );
+        const messages = obj instanceof Array ? obj : [obj];
+        for (const message of messages) {
+            try {
+                validateMessage(message);
+            } catch (error) {
+                if (!(error instanceof ProtocolError)) throw error;
+                console.error("Rejected message from peer:", error.message);
+                this.sendData(error.toMessage());
+                continue;
+            }
+            if (message.type === "protocolHandshake") {
+                this.onPeerHandshake(message);
+            } else if (message.type === "ping") {
+                this.sendData({
+                    type: "pong",
+                    seq: message.seq,
+                    sentAt: message.sentAt,
+                } as ProtocolPongMessage);
+            } else if (message.type === "pong") {
+                this.onPong(message);
+            } else if (this.onMessage) {
+                this.onMessage(message);
+            }
+        }
+    }
+
+    /**
+     * @returns the protocol version announced by the peer, or
+     *          {@link LEGACY_PROTOCOL_VERSION} if it has not sent a handshake
+     */
+    getPeerProtocolVersion() {
+        return this.peerProtocolVersion;
+    }
+
+    /**
+     * @returns whether the peer's handshake arrived, so messages sent now
+     *          are not dropped
+     */
+    isPeerReady() {
+        return this.peerReady;
+    }
+
+    /**
+     * Announces this build's protocol version to the peer. Called as soon as
+     * the data channel opens on either end. A peer that does not answer
+     * within {@link HANDSHAKE_TIMEOUT_MS} predates the handshake.
+     */
+    private sendHandshake() {
+        if (!this.messageChannel || this.messageChannel.readyState !== "open")
+            return;
+        this.peerReady = false;
+        clearTimeout(this.handshakeTimeout);
+        this.handshakeTimeout = window.setTimeout(
+            () => this.onPeerReady(),
+            HANDSHAKE_TIMEOUT_MS
         );
-        if (this.onMessage) this.onMessage(obj);
+        const handshake: ProtocolHandshakeMessage = {
+            type: "protocolHandshake",
+            version: PROTOCOL_VERSION,
+            role: this.peerRole,
+        };
+        // Sent directly: the peer's version is not known yet, and builds
+        // that predate the handshake simply ignore the message.
+        this.messageChannel.send(JSON.stringify(handshake));
+    }
+
+    private onPeerHandshake(handshake: ProtocolHandshakeMessage) {
+        this.peerProtocolVersion = handshake.version;
+        clearTimeout(this.handshakeTimeout);
+        console.log(
+            `Peer ${handshake.role} speaks protocol version ${handshake.version}, this build speaks ${PROTOCOL_VERSION}`
+        );
+        if (!isCompatibleVersion(handshake.version)) {
+            const error = new ProtocolError(
+                ProtocolErrorCode.IncompatibleVersion,
+                `Protocol version ${handshake.version} is older than the minimum supported version`,
+                handshake.type
+            );
+            console.error(error.message);
+            this.sendData(error.toMessage());
+        }
+        this.onPeerReady();
+    }
+
+    /**
+     * Lets the owner know it can send messages, once per data channel: the
+     * filter in {@link sendData} would drop them before the peer's version
+     * is known.
+     */
+    private onPeerReady() {
+        if (this.peerReady) return;
+        this.peerReady = true;
+        if (this.onMessageChannelOpen) this.onMessageChannelOpen();
+    }
+
+    private isSupportedByPeer(message: WebRTCMessage) {
+        if (isSupportedByPeer(message.type, this.peerProtocolVersion))
+            return true;
+        console.warn(
+            `Not sending ${message.type}: the peer speaks protocol version ${this.peerProtocolVersion}`
+        );
+        return false;
+    }
+
+    /**
+     * Starts sampling the quality of the connection: the round trip time of
+     * the data channel, measured with ping/pong messages, and the frame rate,
+     * jitter and packet loss of every incoming stream.
+     *
+     * @param onQuality called with every new sample
+     * @param interval time between samples in milliseconds
+     */
+    startQualityMonitor(
+        onQuality: (quality: ConnectionQuality) => void,
+        interval: number = 1000
+    ) {
+        this.stopQualityMonitor();
+        this.qualityMonitorInterval = window.setInterval(async () => {
+            this.sendPing();
+            onQuality(await this.sampleQuality());
+        }, interval);
+    }
+
+    stopQualityMonitor() {
+        if (this.qualityMonitorInterval) {
+            clearInterval(this.qualityMonitorInterval);
+            this.qualityMonitorInterval = undefined;
+        }
+        this.pendingPings = {};
+        this.roundTripTime = undefined;
+        this.previousPacketCounts = {};
+    }
+
+    private sendPing() {
+        // Peers that predate ping/pong would only reject it
+        if (!isSupportedByPeer("ping", this.peerProtocolVersion)) return;
+        if (!this.messageChannel || this.messageChannel.readyState !== "open")
+            return;
+        const sentAt = performance.now();
+        this.pendingPings[this.pingSeq] = sentAt;
+        this.sendData({
+            type: "ping",
+            seq: this.pingSeq++,
+            sentAt: sentAt,
+        } as ProtocolPingMessage);
+    }
+
+    private onPong(pong: ProtocolPongMessage) {
+        this.roundTripTime = performance.now() - pong.sentAt;
+        // Pongs arrive in order, so every older ping is answered or lost
+        Object.keys(this.pendingPings).forEach((seq) => {
+            if (Number(seq) <= pong.seq) delete this.pendingPings[Number(seq)];
+        });
+    }
+
+    /**
+     * @returns the current quality of the connection
+     */
+    private async sampleQuality(): Promise<ConnectionQuality> {
+        let quality: ConnectionQuality = {
+            roundTripTime: this.roundTripTime,
+            streams: {},
+        };
+
+        // A ping that has been outstanding for longer than the last round
+        // trip means the data channel has slowed down or stalled.
+        const now = performance.now();
+        Object.values(this.pendingPings).forEach((sentAt) => {
+            if (
+                quality.roundTripTime === undefined ||
+                now - sentAt > quality.roundTripTime
+            )
+                quality.roundTripTime = now - sentAt;
+        });
+
+        const stats = await this.peerConnection?.getStats(null);
+        stats?.forEach((report) => {
+            if (
+                report.type == "candidate-pair" &&
+                report.nominated &&
+                report.currentRoundTripTime !== undefined &&
+                quality.roundTripTime === undefined
+            ) {
+                // Fall back to the ICE round trip time for peers without ping
+                quality.roundTripTime = report.currentRoundTripTime * 1000;
+            } else if (report.type == "inbound-rtp") {
+                const streamId = this.trackStreamIds[report.trackIdentifier];
+                const streamName = this.cameraInfo[streamId];
+                if (!streamName) return;
+                quality.streams[streamName] = this.sampleStreamQuality(report);
+            }
+        });
+        return quality;
+    }
+
+    private sampleStreamQuality(report: any): StreamQuality {
+        const previous = this.previousPacketCounts[report.trackIdentifier];
+        const lost = report.packetsLost - (previous ? previous.lost : 0);
+        const received =
+            report.packetsReceived - (previous ? previous.received : 0);
+        this.previousPacketCounts[report.trackIdentifier] = {
+            lost: report.packetsLost,
+            received: report.packetsReceived,
+        };
+        return {
+            framesPerSecond: report.framesPerSecond,
+            jitter: report.jitter * 1000,
+            packetLoss:
+                lost + received > 0 ? Math.max(lost, 0) / (lost + received) : 0,
+        };
     }
 
     /**
@@ -367,3 +700,149 @@ export class WebRTCConnection extends React.Component {
         return this.dataChannelConnectionState;
     }
 }
+
+/** A browser connected to the robot, with its own peer connection */
+export interface Participant {
+    /** Signaling id of the participant */
+    id: string;
+    role: ParticipantRole;
+    /** Name the participant joined with, or its role if it gave none */
+    name: string;
+    connection: WebRTCConnection;
+}
+
+interface ParticipantConnectionsProps {
+    /** Called when a participant joins, to add tracks and open data channels */
+    onParticipantJoined: (participant: Participant) => void;
+    /** Called when the data channel with a participant opens */
+    onParticipantReady?: (participant: Participant) => void;
+    onParticipantLeft?: (participant: Participant) => void;
+    onMessage: (message: WebRTCMessage, participant: Participant) => void;
+}
+
+/**
+ * Participant id used by signaling backends that only support one operator
+ * and therefore do not identify the participants.
+ */
+const SINGLE_OPERATOR_ID = "operator";
+
+/**
+ * The robot's end of the WebRTC connections. The operator and every observer
+ * get a separate {@link WebRTCConnection}, which all share one signaler.
+ */
+export class ParticipantConnections {
+    private signaler: BaseSignaling;
+    private participants: { [id: string]: Participant } = {};
+    private onParticipantJoined: (participant: Participant) => void;
+    private onParticipantReady?: (participant: Participant) => void;
+    private onParticipantLeft?: (participant: Participant) => void;
+    private onMessage: (
+        message: WebRTCMessage,
+        participant: Participant
+    ) => void;
+
+    constructor(props: ParticipantConnectionsProps) {
+        this.onParticipantJoined = props.onParticipantJoined;
+        this.onParticipantReady = props.onParticipantReady;
+        this.onParticipantLeft = props.onParticipantLeft;
+        this.onMessage = props.onMessage;
+        this.signaler = createSignaler({
+            onSignal: this.onSignal.bind(this),
+            onGoodbye: this.onGoodbye.bind(this),
+            onRobotConnectionStart: this.addParticipant.bind(this),
+        });
+    }
+
+    configure_signaler(room_name: string) {
+        return this.signaler.configure(room_name);
+    }
+
+    joinRobotRoom() {
+        console.log("joining room as robot");
+        return this.signaler.join_as_robot();
+    }
+
+    /** @returns every connected participant */
+    getParticipants(): Participant[] {
+        return Object.values(this.participants);
+    }
+
+    /**
+     * Sends a message to every participant.
+     *
+     * @param obj the message or array of messages
+     */
+    sendData(obj: WebRTCMessage | WebRTCMessage[]) {
+        this.getParticipants().forEach((participant) =>
+            participant.connection.sendData(obj)
+        );
+    }
+
+    /** Ends the session with every participant and leaves the room. */
+    hangup() {
+        console.warn("Hanging up");
+        this.signaler.leave();
+        Object.keys(this.participants).forEach((id) =>
+            this.removeParticipant(id)
+        );
+    }
+
+    private addParticipant(
+        id: string = SINGLE_OPERATOR_ID,
+        role: ParticipantRole = "operator",
+        name?: string
+    ) {
+        // A participant that rejoins starts over with a new connection
+        this.removeParticipant(id);
+        console.log(`Starting session with ${role} ${id}`);
+
+        const participant: Participant = {
+            id: id,
+            role: role,
+            name: name || role,
+            connection: new WebRTCConnection({
+                peerRole: "robot",
+                polite: false,
+                signaler: this.signaler,
+                peerId: id === SINGLE_OPERATOR_ID ? undefined : id,
+                onMessage: (message) => this.onMessage(message, participant),
+                onMessageChannelOpen: () => {
+                    if (this.onParticipantReady)
+                        this.onParticipantReady(participant);
+                },
+                onConnectionEnd: () => this.removeParticipant(id),
+            }),
+        };
+        this.participants[id] = participant;
+        this.onParticipantJoined(participant);
+    }
+
+    private removeParticipant(id: string) {
+        const participant = this.participants[id];
+        if (!participant) return;
+        console.log(`Ending session with ${participant.role} ${id}`);
+        delete this.participants[id];
+        participant.connection.close();
+        if (this.onParticipantLeft) this.onParticipantLeft(participant);
+    }
+
+    private onSignal(signal: SignallingMessage) {
+        const participant =
+            this.participants[signal.peerId || SINGLE_OPERATOR_ID];
+        if (!participant) {
+            console.warn("Received a signal from an unknown participant");
+            return;
+        }
+        participant.connection.onSignal(signal);
+    }
+
+    private onGoodbye(peerId?: string) {
+        if (peerId !== undefined) {
+            this.removeParticipant(peerId);
+        } else {
+            Object.keys(this.participants).forEach((id) =>
+                this.removeParticipant(id)
+            );
+        }
+    }
+}
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 const { firefox } = require("playwright");
 const chalk = require("chalk");
+const { ROBOT_SECRET_HEADER, getRobotSecret } = require("./robot_secret");
 const logId = "start_robot_browser.js";
 
 // You may want to change this to test that the
@@ -9,6 +10,11 @@ let robotHostname = "localhost"; // or NGROK_URL
 if (process.argv.length > 2) {
     robotHostname = process.argv[2];
 }
+// The robot joins the signaling room named after its fleet ID, so several
+// robots can share one server
+let robotRoom = process.env.HELLO_FLEET_ID
+    ? `?robot=${encodeURIComponent(process.env.HELLO_FLEET_ID)}`
+    : "";
 
 const listenConsole = async (page) => {
     // make args accessible
@@ -74,14 +80,18 @@ const listenConsole = async (page) => {
         },
     });
 
-    const context = await browser.newContext({ ignoreHTTPSErrors: true }); // avoid ERR_CERT_COMMON_NAME_INVALID
+    const context = await browser.newContext({
+        ignoreHTTPSErrors: true, // avoid ERR_CERT_COMMON_NAME_INVALID
+        // Tells the server that this is the robot page
+        extraHTTPHeaders: { [ROBOT_SECRET_HEADER]: getRobotSecret() },
+    });
 
     const page = await context.newPage();
     await listenConsole(page);
 
     while (try_again) {
         try {
-            await page.goto(`https://${robotHostname}/robot`);
+            await page.goto(`https://${robotHostname}/robot${robotRoom}`);
             console.log(logId + ": finished loading");
             try_again = false;
         } catch (e) {
@@ -4,7 +4,7 @@ set -e
 REDIRECT_LOGDIR="$HOME/stretch_user/log/web_teleop"
 mkdir -p $REDIRECT_LOGDIR
 STORAGE="localstorage"
-while getopts l:f opt; do
+while getopts l:fs opt; do
     case $opt in
         l)
             # Usage: ./start_web_server_and_robot_browser.sh -l /tmp/some_folder
@@ -16,6 +16,11 @@ while getopts l:f opt; do
             # Usage: ./start_web_server_and_robot_browser.sh -f
             echo "Using firebase..."
             STORAGE="firebase"
+            ;;
+        s)
+            # Usage: ./start_web_server_and_robot_browser.sh -s
+            echo "Using the local server's storage..."
+            STORAGE="serverstorage"
     esac
 done
 REDIRECT_LOGFILE="$REDIRECT_LOGDIR/start_web_server_and_robot_browser.`date '+%Y%m%d%H%M'`_redirected.txt"
@@ -0,0 +1,124 @@
+var fs = require("fs");
+var path = require("path");
+var { dataPath } = require("./data_files");
+
+// Data saved from operator pages built with `--env storage=server`, shared by
+// every operator of a robot. Each robot the server hosts a room for keeps
+// files of its own, so users allowed on one robot can't change another's.
+const STORAGE_DIR = dataPath("STORAGE_DIR", "storage");
+// Collections of named items, each kept in a JSON file of its own. Map
+// annotations are named by the map they were drawn on.
+const COLLECTIONS = ["layouts", "map_poses", "map_annotations", "recordings"];
+const TEXTS_FILE = "texts";
+
+function filePath(name) {
+    return path.join(STORAGE_DIR, `${name}.json`);
+}
+
+function readFile(name, empty) {
+    if (!fs.existsSync(filePath(name))) return empty;
+    return JSON.parse(fs.readFileSync(filePath(name), "utf8"));
+}
+
+/**
+ * Writes to a temporary file first, so a crash while writing can't leave a
+ * collection half written.
+ */
+function writeFile(name, data) {
+    fs.mkdirSync(STORAGE_DIR, { recursive: true });
+    const tmp = filePath(name) + ".tmp";
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 4));
+    fs.renameSync(tmp, filePath(name));
+}
+
+/**
+ * @param name name of a collection, or of the texts
+ * @param robot fleet ID of the robot
+ * @returns the name of the file the robot keeps them in
+ */
+function robotFile(name, robot) {
+    if (typeof robot !== "string" || !/^[\w.-]+$/.test(robot))
+        throw Error(`Invalid robot ${robot}`);
+    return `${name}@${robot}`;
+}
+
+/**
+ * @param robot fleet ID of the robot
+ * @returns the name of the file the collection is kept in
+ */
+function collectionFile(collection, robot) {
+    if (!COLLECTIONS.includes(collection))
+        throw Error(`Unknown collection ${collection}`);
+    return robotFile(collection, robot);
+}
+
+/**
+ * Gives the robot this server runs on the data saved without a robot, by
+ * operator pages opened without one or by versions that shared layouts,
+ * recordings and texts between robots. Items it already has by the same
+ * name are kept.
+ *
+ * @param robot fleet ID of the robot this server runs on
+ */
+function adoptUnscopedItems(robot) {
+    COLLECTIONS.forEach((collection) => {
+        if (!fs.existsSync(filePath(collection))) return;
+        const file = collectionFile(collection, robot);
+        writeFile(file, {
+            ...readFile(collection, {}),
+            ...readFile(file, {}),
+        });
+        fs.unlinkSync(filePath(collection));
+        console.log(`Moved the saved ${collection} to ${filePath(file)}`);
+    });
+    if (fs.existsSync(filePath(TEXTS_FILE))) {
+        const file = robotFile(TEXTS_FILE, robot);
+        const texts = readFile(file, []);
+        readFile(TEXTS_FILE, []).forEach((text) => {
+            if (!texts.includes(text)) texts.push(text);
+        });
+        writeFile(file, texts);
+        fs.unlinkSync(filePath(TEXTS_FILE));
+        console.log(`Moved the saved texts to ${filePath(file)}`);
+    }
+}
+
+/** @returns every collection of the robot, and the saved texts */
+function readAll(robot) {
+    let data = { texts: readFile(robotFile(TEXTS_FILE, robot), []) };
+    COLLECTIONS.forEach((collection) => {
+        data[collection] = readFile(collectionFile(collection, robot), {});
+    });
+    return data;
+}
+
+function saveItem(collection, name, value, robot) {
+    const file = collectionFile(collection, robot);
+    if (value === undefined) throw Error(`No value for ${name}`);
+    let items = readFile(file, {});
+    items[name] = value;
+    writeFile(file, items);
+}
+
+function deleteItem(collection, name, robot) {
+    const file = collectionFile(collection, robot);
+    let items = readFile(file, {});
+    if (!(name in items)) return;
+    delete items[name];
+    writeFile(file, items);
+}
+
+function saveTexts(texts, robot) {
+    const file = robotFile(TEXTS_FILE, robot);
+    if (!Array.isArray(texts) || texts.some((text) => typeof text !== "string"))
+        throw Error("Texts must be a list of strings");
+    writeFile(file, texts);
+}
+
+module.exports = {
+    adoptUnscopedItems,
+    readAll,
+    saveItem,
+    deleteItem,
+    saveTexts,
+};
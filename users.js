@@ -0,0 +1,212 @@
+var fs = require("fs");
+var crypto = require("crypto");
+var { dataPath, ensureDir } = require("./data_files");
+
+// Users of the local signaling server. Access control is turned off while
+// this file does not exist, so existing setups keep working until the first
+// user is added.
+const USERS_FILE = dataPath("USERS_FILE", "users.json");
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+const REMEMBERED_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+// Allow-list entry that gives access to every robot room
+const ALL_ROBOTS = "*";
+
+let sessions = new Map(); // session token -> {username, expires}
+
+function isEnabled() {
+    return fs.existsSync(USERS_FILE);
+}
+
+/**
+ * Reads the users from disk on every call, so users added from the command
+ * line take effect without restarting the server.
+ *
+ * @returns users keyed by username, each {salt, hash, admin, robots}. The
+ *          object has no prototype, so any username can be stored in it.
+ */
+function readUsers() {
+    let users = Object.create(null);
+    if (!isEnabled()) return users;
+    return Object.assign(
+        users,
+        JSON.parse(fs.readFileSync(USERS_FILE, "utf8"))
+    );
+}
+
+/**
+ * Looks a user up by a username a client sent, which may be any string,
+ * including the name of a property every object inherits.
+ *
+ * @returns the user, or undefined if there is none by that name
+ */
+function findUser(users, username) {
+    if (typeof username !== "string" || !Object.hasOwn(users, username))
+        return undefined;
+    return users[username];
+}
+
+function writeUsers(users) {
+    ensureDir(USERS_FILE);
+    fs.writeFileSync(USERS_FILE, JSON.stringify(users, null, 4), {
+        mode: 0o600,
+    });
+}
+
+function hashPassword(password, salt) {
+    return crypto.scryptSync(password, salt, 64).toString("hex");
+}
+
+/** @returns a user without its password hash, safe to send to clients */
+function describeUser(username, user) {
+    return {
+        username: username,
+        admin: user.admin || false,
+        robots: user.robots || [],
+    };
+}
+
+/**
+ * Checks a username and password, and starts a session if they match.
+ *
+ * @returns the session token, or undefined if the login failed
+ */
+function login(username, password, remember) {
+    const user = findUser(readUsers(), username);
+    if (!user || typeof password !== "string" || !password) return undefined;
+    const hash = Buffer.from(hashPassword(password, user.salt), "hex");
+    const expected = Buffer.from(user.hash, "hex");
+    if (
+        hash.length !== expected.length ||
+        !crypto.timingSafeEqual(hash, expected)
+    ) {
+        return undefined;
+    }
+    const token = crypto.randomBytes(32).toString("hex");
+    sessions.set(token, {
+        username: username,
+        expires:
+            Date.now() +
+            (remember ? REMEMBERED_SESSION_TTL_MS : SESSION_TTL_MS),
+    });
+    return token;
+}
+
+function logout(token) {
+    sessions.delete(token);
+}
+
+/**
+ * @returns the user a session token belongs to, or undefined if the session
+ *          expired or the user was removed since it started
+ */
+function getSessionUser(token) {
+    const session = token && sessions.get(token);
+    if (!session) return undefined;
+    if (session.expires < Date.now()) {
+        sessions.delete(token);
+        return undefined;
+    }
+    const user = findUser(readUsers(), session.username);
+    if (!user) return undefined;
+    return describeUser(session.username, user);
+}
+
+/** @returns whether a user may join the room of the given robot */
+function canAccessRobot(user, room_name) {
+    if (!isEnabled()) return true;
+    if (!user) return false;
+    return (
+        user.admin ||
+        user.robots.includes(ALL_ROBOTS) ||
+        user.robots.includes(room_name)
+    );
+}
+
+function listUsers() {
+    const users = readUsers();
+    return Object.keys(users)
+        .sort()
+        .map((username) => describeUser(username, users[username]));
+}
+
+/**
+ * Adds a user, or updates an existing one. The password is only changed if
+ * one is given, and is required for new users.
+ */
+function saveUser(username, password, admin, robots) {
+    let users = readUsers();
+    if (typeof username !== "string" || !username)
+        throw Error("A username is required");
+    if (!findUser(users, username) && !password)
+        throw Error(`A password is required for new user ${username}`);
+    let user = findUser(users, username) || {};
+    if (password) {
+        user.salt = crypto.randomBytes(16).toString("hex");
+        user.hash = hashPassword(password, user.salt);
+    }
+    user.admin = admin || false;
+    user.robots = robots || [];
+    users[username] = user;
+    writeUsers(users);
+}
+
+function deleteUser(username) {
+    let users = readUsers();
+    if (!findUser(users, username))
+        throw Error(`User ${username} does not exist`);
+    delete users[username];
+    writeUsers(users);
+    sessions.forEach((session, token) => {
+        if (session.username == username) sessions.delete(token);
+    });
+}
+
+module.exports = {
+    isEnabled,
+    login,
+    logout,
+    getSessionUser,
+    canAccessRobot,
+    listUsers,
+    saveUser,
+    deleteUser,
+};
+
+// Command line interface, used to add the first admin before the admin page
+// can be reached:
+//   node users.js add <username> <password> [--admin] [--robots <id>,<id>]
+//   node users.js remove <username>
+//   node users.js list
+if (require.main === module) {
+    const [command, username, password, ...flags] = process.argv.slice(2);
+    const robotsFlag = flags.indexOf("--robots");
+    try {
+        switch (command) {
+            case "add":
+                saveUser(
+                    username,
+                    password,
+                    flags.includes("--admin"),
+                    robotsFlag >= 0 ? flags[robotsFlag + 1].split(",") : []
+                );
+                console.log(`Saved user ${username} to ${USERS_FILE}`);
+                break;
+            case "remove":
+                deleteUser(username);
+                console.log(`Removed user ${username} from ${USERS_FILE}`);
+                break;
+            case "list":
+                console.table(listUsers());
+                break;
+            default:
+                console.log(
+                    "Usage: node users.js add <username> <password> [--admin] [--robots <id>,<id>]\n" +
+                        "       node users.js remove <username>\n" +
+                        "       node users.js list"
+                );
+        }
+    } catch (e) {
+        console.error(e.message);
+        process.exit(1);
+    }
+}
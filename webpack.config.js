@@ -3,7 +3,7 @@ const HtmlWebpackPlugin = require("html-webpack-plugin");
 const webpack = require("webpack");
 const dotenv = require("dotenv");
 
-const pages = ["robot", "operator", "home"];
+const pages = ["robot", "operator", "home", "admin", "replay"];
 
 // call dotenv and it will return an Object with a parsed key
 const env = dotenv.config().parsed;
@@ -16,6 +16,10 @@ const envKeys = Object.keys(env).reduce((prev, next) => {
 
 module.exports = (env) => {
     envKeys["process.env.storage"] = JSON.stringify(env.storage);
+    envKeys["process.env.robot"] = JSON.stringify(env.robot);
+    envKeys["process.env.velocityWatchdogTimeout"] = JSON.stringify(
+        env.velocityWatchdogTimeout
+    );
     console.log(envKeys);
 
     return {
@@ -90,6 +94,11 @@ module.exports = (env) => {
                     test: /\.(jpe?g|png|gif|svg)$/i,
                     use: "file-loader",
                 },
+                {
+                    // The map the mock robot loads
+                    test: /\.(pgm|yaml)$/i,
+                    use: "file-loader",
+                },
             ],
         },
         externals: {
@@ -97,11 +106,18 @@ module.exports = (env) => {
         },
         resolve: {
             extensions: [".ts", ".tsx", ".js"],
+            // Dynamic imports of our own modules name the compiled file, as
+            // TypeScript's NodeNext resolution requires
+            extensionAlias: {
+                ".js": [".ts", ".tsx", ".js"],
+            },
             alias: {
                 shared: path.resolve(__dirname, "./src/shared/"),
                 operator: path.resolve(__dirname, "./src/pages/operator/"),
                 robot: path.resolve(__dirname, "./src/pages/robot/"),
                 home: path.resolve(__dirname, "./src/pages/home/"),
+                admin: path.resolve(__dirname, "./src/pages/admin/"),
+                replay: path.resolve(__dirname, "./src/pages/replay/"),
             },
             fallback: {
                 fs: false,